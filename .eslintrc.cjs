@@ -10,4 +10,8 @@ module.exports = {
   globals: {
     shopify: "readonly"
   },
+  settings: {
+    // The tests run on Vitest, whose API follows Jest's
+    jest: { version: 29 },
+  },
 };
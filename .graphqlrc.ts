@@ -1,5 +1,5 @@
 import fs from "fs";
-import { LATEST_API_VERSION } from "@shopify/shopify-api";
+import { ApiVersion } from "@shopify/shopify-api";
 import { shopifyApiProject, ApiType } from "@shopify/api-codegen-preset";
 import type { IGraphQLConfig } from "graphql-config";
 
@@ -8,7 +8,8 @@ function getConfig() {
     projects: {
       default: shopifyApiProject({
         apiType: ApiType.Admin,
-        apiVersion: LATEST_API_VERSION,
+        // Keep in step with the apiVersion in app/shopify.server.ts
+        apiVersion: ApiVersion.January25,
         documents: ["./app/**/*.{js,ts,jsx,tsx}", "./app/.server/**/*.{js,ts,jsx,tsx}"],
         outputDir: "./app/types",
       }),
@@ -0,0 +1,63 @@
+type CsvValue = string | number | null | undefined;
+
+function escapeField(value: CsvValue) {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes rows to RFC 4180 CSV, quoting only the fields that need it.
+ */
+export function toCsv(rows: CsvValue[][]) {
+  return rows.map((row) => row.map(escapeField).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Parses RFC 4180 CSV, including quoted fields with commas, quotes and line
+ * breaks. Blank lines are dropped and a leading byte order mark is ignored,
+ * since spreadsheet exports often include one.
+ */
+export function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
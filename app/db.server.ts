@@ -1,4 +1,4 @@
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
 
 declare global {
   var prismaGlobal: PrismaClient;
@@ -13,3 +13,10 @@ if (process.env.NODE_ENV !== "production") {
 const prisma = global.prismaGlobal ?? new PrismaClient();
 
 export default prisma;
+
+export function isUniqueConstraintError(error: unknown) {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2002"
+  );
+}
@@ -7,9 +7,12 @@ import {
 } from "@remix-run/node";
 import { isbot } from "isbot";
 import { addDocumentResponseHeaders } from "./shopify.server";
+import { startJobWorker } from "./jobs.server";
 
 export const streamTimeout = 5000;
 
+startJobWorker();
+
 export default async function handleRequest(
   request: Request,
   responseStatusCode: number,
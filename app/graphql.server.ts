@@ -0,0 +1,145 @@
+import type { AdminOperations, ApiClientRequestOptions, ReturnData } from "@shopify/admin-api-client";
+import { GraphqlQueryError, HttpThrottlingError } from "@shopify/shopify-api";
+import type { AdminApi } from "./shopify.server";
+
+export type AdminUserError = {
+  field?: string[] | null;
+  message: string;
+  code?: string | null;
+};
+
+/**
+ * A request the Admin API answered with errors: GraphQL errors for the whole
+ * operation, or the `userErrors` a mutation rejected its input with.
+ */
+export class AdminApiError extends Error {
+  constructor(
+    message: string,
+    readonly userErrors: AdminUserError[] = [],
+  ) {
+    super(message);
+    this.name = "AdminApiError";
+  }
+}
+
+type Variables<Operation extends keyof AdminOperations> = ApiClientRequestOptions<
+  Operation,
+  AdminOperations
+>["variables"];
+
+type ThrottleStatus = {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+};
+
+const DEFAULT_TRIES = 5;
+
+// Used when Shopify doesn't say how long to wait
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * How long to wait before retrying a throttled request, or null when the
+ * error isn't a throttle. Cost-based throttles report the bucket's state in
+ * `extensions.cost`, so the wait is however long it takes to refill enough
+ * for this query; a 429 says how long in `Retry-After`.
+ */
+function throttleDelay(error: unknown, attempt: number) {
+  const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+
+  if (error instanceof HttpThrottlingError) {
+    const retryAfter = error.response.retryAfter;
+    return retryAfter ? retryAfter * 1000 : backoff;
+  }
+
+  if (
+    error instanceof GraphqlQueryError &&
+    error.body?.errors?.graphQLErrors?.some((e: any) => e.extensions?.code === "THROTTLED")
+  ) {
+    const cost = error.body?.extensions?.cost;
+    const status: ThrottleStatus | undefined = cost?.throttleStatus;
+    if (!status?.restoreRate) {
+      return backoff;
+    }
+
+    const shortfall = Math.max(0, (cost.requestedQueryCost ?? 0) - status.currentlyAvailable);
+    return Math.min(MAX_BACKOFF_MS, Math.ceil((shortfall / status.restoreRate) * 1000) + 100);
+  }
+
+  return null;
+}
+
+/**
+ * Runs a query or mutation and returns its `data`. Operations written as
+ * static `#graphql` strings are typed by the files `npm run graphql-codegen`
+ * writes to `app/types`; anything else, including queries built with
+ * interpolation that codegen can't read, comes back as `any`.
+ *
+ * Throttled requests are retried, waiting for the cost bucket to refill, up
+ * to `tries` attempts in all. GraphQL errors are thrown as an `AdminApiError`;
+ * mutations' `userErrors` are left for the caller, usually to pass to
+ * `throwUserErrors`.
+ */
+export async function adminGraphql<Operation extends keyof AdminOperations>(
+  admin: AdminApi,
+  operation: Operation,
+  { variables, tries = DEFAULT_TRIES }: { variables?: Variables<Operation>; tries?: number } = {},
+): Promise<ReturnData<Operation, AdminOperations>> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await admin.graphql(operation, { variables });
+      const { data } = await response.json();
+
+      return data as ReturnData<Operation, AdminOperations>;
+    } catch (error) {
+      const delay = throttleDelay(error, attempt);
+
+      if (delay !== null && attempt + 1 < tries) {
+        await sleep(delay);
+        continue;
+      }
+      if (error instanceof GraphqlQueryError) {
+        const messages = (error.body?.errors?.graphQLErrors || []).map((e: any) => e.message);
+        throw new AdminApiError(messages.length > 0 ? messages.join(", ") : error.message);
+      }
+      throw error;
+    }
+  }
+}
+
+/** Throws the `userErrors` of a mutation's payload, if it has any. */
+export function throwUserErrors(payload: { userErrors?: AdminUserError[] | null } | null | undefined) {
+  const userErrors = payload?.userErrors || [];
+
+  if (userErrors.length > 0) {
+    throw new AdminApiError(userErrors.map((e) => e.message).join(", "), userErrors);
+  }
+}
+
+type Connection<Node> = {
+  nodes: Node[];
+  pageInfo: { hasNextPage: boolean; endCursor?: string | null };
+};
+
+/**
+ * Follows a connection to its last page and returns every node. `fetchPage`
+ * requests the page after the given cursor (null for the first) and returns
+ * the connection out of the result.
+ */
+export async function paginateConnection<Node>(
+  fetchPage: (after: string | null) => Promise<Connection<Node> | null | undefined>,
+) {
+  const nodes: Node[] = [];
+  let after: string | null = null;
+
+  do {
+    const connection: Connection<Node> | null | undefined = await fetchPage(after);
+    nodes.push(...(connection?.nodes || []));
+    after = connection?.pageInfo.hasNextPage ? connection.pageInfo.endCursor ?? null : null;
+  } while (after);
+
+  return nodes;
+}
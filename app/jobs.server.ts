@@ -0,0 +1,275 @@
+import { hostname } from "os";
+import type { Job } from "@prisma/client";
+import prisma from "./db.server";
+import { unauthenticated } from "./shopify.server";
+import type { AdminApi } from "./shopify.server";
+import type { JobName, JobPayloads } from "./queue.server";
+import { HEARTBEAT_MS, claimNextJob, completeJob, enqueueJob, failJob, heartbeatJob, recoverStaleJobs } from "./queue.server";
+import { runPointsExpiry } from "./models/expiration.server";
+import { completeInventorySync, refreshInventorySnapshot } from "./models/inventory-snapshot.server";
+import { notifyLowStockAlert } from "./models/low-stock.server";
+import { expireUnusedRedemptions, recoverUnissuedRedemptions } from "./models/rewards.server";
+import { backfillSales } from "./models/sales-velocity.server";
+import { syncCustomerTier } from "./models/tiers.server";
+
+/**
+ * Scheduled work runs on the job queue (see `startJobWorker` below). The
+ * `/jobs/*` routes remain for external schedulers (cron, Cloud Scheduler, etc.),
+ * which post to them with `Authorization: Bearer $JOBS_SECRET`.
+ */
+export function requireJobSecret(request: Request) {
+  const secret = process.env.JOBS_SECRET;
+
+  if (!secret || request.headers.get("Authorization") !== `Bearer ${secret}`) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+}
+
+/**
+ * Runs `job` once for every shop with an offline session, using that shop's
+ * offline Admin API access. A failure for one shop is reported without
+ * stopping the others.
+ */
+export async function forEachShop<T>(
+  job: (shop: string, admin: AdminApi) => Promise<T>,
+) {
+  const sessions = await prisma.session.findMany({
+    where: { isOnline: false },
+    select: { shop: true },
+    distinct: ["shop"],
+  });
+
+  const results: Array<{ shop: string; result?: T; error?: string }> = [];
+
+  for (const { shop } of sessions) {
+    try {
+      const { admin } = await unauthenticated.admin(shop);
+      results.push({ shop, result: await job(shop, admin) });
+    } catch (error) {
+      console.error(`Job failed for ${shop}:`, error);
+      results.push({ shop, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return results;
+}
+
+export type JobContext<Name extends JobName = JobName> = {
+  job: Job;
+  shop: string | null;
+  /** The shop's offline Admin API access; app-wide jobs have none. */
+  admin: AdminApi | undefined;
+  payload: JobPayloads[Name];
+};
+
+type JobHandler<Name extends JobName = JobName> = (context: JobContext<Name>) => Promise<unknown>;
+
+/** A job enqueued without what its handler needs; another attempt can't help. */
+class InvalidJobError extends Error {}
+
+/** The shop and its Admin API access, for jobs that only run for a shop. */
+function shopContext({ job, shop, admin }: JobContext<JobName>) {
+  if (!shop || !admin) {
+    throw new InvalidJobError(`Job ${job.name} needs a shop, but was enqueued app-wide`);
+  }
+  return { shop, admin };
+}
+
+// Completed jobs are kept this long for the jobs page, then pruned
+const COMPLETED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Handlers by job name. Enqueue jobs with `enqueueJob` from app/queue.server.ts. */
+const JOB_HANDLERS: { [Name in JobName]: JobHandler<Name> } = {
+  "points-expiry": (context) => runPointsExpiry(shopContext(context).shop),
+  "reward-expiry": (context) => {
+    const { shop, admin } = shopContext(context);
+    return expireUnusedRedemptions(admin, shop);
+  },
+  "reward-recovery": (context) => {
+    const { shop, admin } = shopContext(context);
+    return recoverUnissuedRedemptions(admin, shop);
+  },
+  "inventory-snapshot": (context) => {
+    const { shop, admin } = shopContext(context);
+    return refreshInventorySnapshot(admin, shop);
+  },
+  "inventory-sync-import": (context) => {
+    const { shop, admin } = shopContext(context);
+    return completeInventorySync(admin, shop, context.payload.bulkOperationId);
+  },
+  "sales-backfill": (context) => {
+    const { shop, admin } = shopContext(context);
+    return backfillSales(admin, shop, { days: context.payload.days });
+  },
+  "low-stock-notify": (context) => notifyLowStockAlert(shopContext(context).shop, context.payload.alertId),
+  "customer-tier-sync": (context) => {
+    const { shop, admin } = shopContext(context);
+    return syncCustomerTier(admin, shop, context.payload.customerId);
+  },
+  "prune-jobs": async () => {
+    const { count } = await prisma.job.deleteMany({
+      where: { status: "COMPLETED", completedAt: { lt: new Date(Date.now() - COMPLETED_JOB_RETENTION_MS) } },
+    });
+    return { pruned: count };
+  },
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Jobs enqueued on a schedule. Per-shop jobs are enqueued once for every shop
+ * with an offline session. Each run is keyed on its time slot, so any number
+ * of workers can schedule without doubling up.
+ */
+const RECURRING_JOBS: Array<{ name: JobName; everyMs: number; perShop: boolean }> = [
+  { name: "points-expiry", everyMs: 24 * HOUR_MS, perShop: true },
+  { name: "reward-expiry", everyMs: HOUR_MS, perShop: true },
+  { name: "reward-recovery", everyMs: HOUR_MS, perShop: true },
+  { name: "inventory-snapshot", everyMs: 24 * HOUR_MS, perShop: true },
+  { name: "prune-jobs", everyMs: 24 * HOUR_MS, perShop: false },
+];
+
+export async function scheduleRecurringJobs(now = new Date()) {
+  const sessions = await prisma.session.findMany({
+    where: { isOnline: false },
+    select: { shop: true },
+    distinct: ["shop"],
+  });
+
+  for (const { name, everyMs, perShop } of RECURRING_JOBS) {
+    const slot = Math.floor(now.getTime() / everyMs) * everyMs;
+    const shops = perShop ? sessions.map((session) => session.shop) : [null];
+
+    for (const shop of shops) {
+      await enqueueJob(prisma, shop, name, {}, {
+        runAt: new Date(slot),
+        uniqueKey: `${name}|${shop ?? ""}|${new Date(slot).toISOString()}`,
+      });
+    }
+  }
+}
+
+/**
+ * Runs one claimed job with its shop's offline session and records the
+ * outcome, heartbeating while it runs so it isn't recovered as stale. Unknown
+ * job names go straight to the dead-letter state.
+ */
+export async function runJob(job: Job) {
+  if (!Object.hasOwn(JOB_HANDLERS, job.name)) {
+    await failJob(job, new Error(`No handler for job ${job.name}`), { retry: false });
+    return;
+  }
+
+  // enqueueJob checked the payload against the job's name when it was stored
+  const handler = JOB_HANDLERS[job.name as JobName] as JobHandler;
+
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job).catch((error) => console.error(`Job ${job.name} (${job.id}) heartbeat failed:`, error));
+  }, HEARTBEAT_MS);
+
+  let recorded: boolean;
+  try {
+    const admin = job.shop ? (await unauthenticated.admin(job.shop)).admin : undefined;
+    const result = await handler({ job, shop: job.shop, admin, payload: (job.payload ?? {}) as JobPayloads[JobName] });
+    recorded = await completeJob(job, result);
+  } catch (error) {
+    console.error(`Job ${job.name} (${job.id}) failed:`, error);
+    recorded = await failJob(job, error, { retry: !(error instanceof InvalidJobError) });
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  if (!recorded) {
+    console.warn(`Job ${job.name} (${job.id}) lost its claim before finishing; its outcome wasn't recorded`);
+  }
+}
+
+export type WorkerOptions = {
+  /** Jobs run at once by this worker. */
+  concurrency?: number;
+  /** Jobs run at once for any one shop, across every worker. */
+  perShopConcurrency?: number;
+};
+
+const DEFAULT_WORKER_OPTIONS: Required<WorkerOptions> = {
+  concurrency: Number(process.env.JOB_CONCURRENCY) || 4,
+  perShopConcurrency: Number(process.env.JOB_SHOP_CONCURRENCY) || 1,
+};
+
+/**
+ * Claims and runs due jobs until none are left or `deadline` passes. Used by
+ * the `/jobs/run` route, for hosts that can't keep a worker running.
+ */
+export async function runDueJobs(workerId: string, { deadline, ...options }: WorkerOptions & { deadline: number }) {
+  const { concurrency, perShopConcurrency } = { ...DEFAULT_WORKER_OPTIONS, ...options };
+  let ran = 0;
+
+  await Promise.all(
+    Array.from({ length: concurrency }, async () => {
+      while (Date.now() < deadline) {
+        const job = await claimNextJob(workerId, { perShopConcurrency });
+        if (!job) return;
+        await runJob(job);
+        ran++;
+      }
+    }),
+  );
+
+  return ran;
+}
+
+const POLL_MS = 5000;
+const SCHEDULE_MS = 60 * 1000;
+
+declare global {
+  var jobWorkerGlobal: NodeJS.Timeout | undefined;
+}
+
+/**
+ * Starts polling for jobs in this process. Does nothing if a worker is already
+ * running here (dev reloads re-run this module) or JOB_WORKER is "off", for
+ * deployments that run jobs through `/jobs/run` instead.
+ */
+export function startJobWorker(options: WorkerOptions = {}) {
+  if (global.jobWorkerGlobal || process.env.JOB_WORKER === "off") {
+    return;
+  }
+
+  const { concurrency, perShopConcurrency } = { ...DEFAULT_WORKER_OPTIONS, ...options };
+  const workerId = `${hostname()}:${process.pid}`;
+  let active = 0;
+  let polling = false;
+  let lastScheduled = 0;
+
+  const release = () => {
+    active--;
+  };
+
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+
+    try {
+      if (Date.now() - lastScheduled >= SCHEDULE_MS) {
+        lastScheduled = Date.now();
+        await recoverStaleJobs();
+        await scheduleRecurringJobs();
+      }
+
+      while (active < concurrency) {
+        const job = await claimNextJob(workerId, { perShopConcurrency });
+        if (!job) break;
+
+        active++;
+        runJob(job).finally(release);
+      }
+    } catch (error) {
+      console.error("Job worker poll failed:", error);
+    } finally {
+      polling = false;
+    }
+  };
+
+  global.jobWorkerGlobal = setInterval(poll, POLL_MS);
+  console.log(`Job worker ${workerId} started`);
+}
@@ -0,0 +1,219 @@
+import type { Prisma } from "@prisma/client";
+import { toCustomerGid } from "./loyalty.server";
+
+const toOrderGid = (id: string | number) => `gid://shopify/Order/${id}`;
+
+/**
+ * Writes the audit record for a compliance webhook. Runs in the webhook's
+ * transaction so a request is only logged as handled if the handler succeeded.
+ */
+export async function logComplianceRequest(
+  tx: Prisma.TransactionClient,
+  {
+    shop,
+    topic,
+    webhookId,
+    customerId = null,
+    result,
+  }: {
+    shop: string;
+    topic: string;
+    webhookId: string;
+    customerId?: string | null;
+    result: Prisma.InputJsonValue;
+  },
+) {
+  return tx.complianceLog.create({
+    data: { shop, topic, webhookId, customerId, result },
+  });
+}
+
+/**
+ * Everything stored about a customer: their balance, ledger, reward codes, the
+ * orders they earned points on (plus any orders named in the request) and the
+ * orders kept for reporting.
+ */
+export async function collectCustomerData(
+  tx: Prisma.TransactionClient,
+  shop: string,
+  customerId: string | number,
+  orderIds: Array<string | number> = [],
+) {
+  const id = toCustomerGid(customerId);
+
+  const [balance, transactions, redemptions, processedOrders, salesOrders] = await Promise.all([
+    tx.loyaltyPoints.findUnique({ where: { shop_customerId: { shop, customerId: id } } }),
+    tx.pointsTransaction.findMany({ where: { shop, customerId: id }, orderBy: { createdAt: "asc" } }),
+    tx.redemption.findMany({ where: { shop, customerId: id }, orderBy: { createdAt: "asc" } }),
+    tx.processedOrder.findMany({
+      where: {
+        shop,
+        OR: [{ customerId: id }, { id: { in: orderIds.map(toOrderGid) } }],
+      },
+    }),
+    tx.salesOrder.findMany({ where: { shop, customerId: id }, orderBy: { createdAt: "asc" } }),
+  ]);
+
+  return {
+    customerId: id,
+    points: balance?.points ?? 0,
+    tierId: balance?.tierId ?? null,
+    transactions: transactions.map(({ type, delta, orderId, reason, createdAt }) => ({
+      type,
+      delta,
+      orderId,
+      reason,
+      createdAt: createdAt.toISOString(),
+    })),
+    redemptions: redemptions.map(({ code, pointsSpent, status, orderId, expiresAt, createdAt }) => ({
+      code,
+      pointsSpent,
+      status,
+      orderId,
+      expiresAt: expiresAt?.toISOString() ?? null,
+      createdAt: createdAt.toISOString(),
+    })),
+    processedOrders: processedOrders.map(({ id: orderId, pointsAwarded, pointsClawedBack, createdAt }) => ({
+      orderId,
+      pointsAwarded,
+      pointsClawedBack,
+      createdAt: createdAt.toISOString(),
+    })),
+    orders: salesOrders.map(({ id: orderId, totalPrice, createdAt }) => ({
+      orderId,
+      totalPrice,
+      createdAt: createdAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Deletes a customer's balance, ledger and reward codes. Award records for
+ * their orders are kept for refund bookkeeping and their orders for sales
+ * figures, but neither names the customer any more. Earlier data request
+ * exports for them are blanked.
+ */
+export async function redactCustomer(
+  tx: Prisma.TransactionClient,
+  shop: string,
+  customerId: string | number,
+  orderIds: Array<string | number> = [],
+) {
+  const id = toCustomerGid(customerId);
+
+  const [balances, transactions, redemptions, processedOrders, salesOrders, exports] = await Promise.all([
+    tx.loyaltyPoints.deleteMany({ where: { shop, customerId: id } }),
+    tx.pointsTransaction.deleteMany({ where: { shop, customerId: id } }),
+    tx.redemption.deleteMany({ where: { shop, customerId: id } }),
+    tx.processedOrder.updateMany({
+      where: {
+        shop,
+        OR: [{ customerId: id }, { id: { in: orderIds.map(toOrderGid) } }],
+      },
+      data: { customerId: null, lineItemPoints: {} },
+    }),
+    tx.salesOrder.updateMany({
+      where: {
+        shop,
+        OR: [{ customerId: id }, { id: { in: orderIds.map(toOrderGid) } }],
+      },
+      data: { customerId: null, tierId: null },
+    }),
+    tx.complianceLog.updateMany({
+      where: { shop, customerId: id, topic: "CUSTOMERS_DATA_REQUEST" },
+      data: { result: { redacted: true } },
+    }),
+  ]);
+
+  return {
+    balances: balances.count,
+    transactions: transactions.count,
+    redemptions: redemptions.count,
+    processedOrdersAnonymized: processedOrders.count,
+    salesOrdersAnonymized: salesOrders.count,
+    exportsRedacted: exports.count,
+  };
+}
+
+/**
+ * Removes every row stored for a shop, 48 hours after it uninstalled the app.
+ * Only the compliance log and the `SHOP_REDACT` delivery record are kept.
+ */
+export async function redactShop(tx: Prisma.TransactionClient, shop: string) {
+  const where = { shop };
+
+  // Redemptions reference reward tiers, so they go first
+  const redemptions = await tx.redemption.deleteMany({ where });
+  const [
+    rewardTiers,
+    sessions,
+    inventoryLogs,
+    balances,
+    transactions,
+    processedOrders,
+    webhookDeliveries,
+    webhookFailures,
+    earningRules,
+    loyaltySettings,
+    membershipTiers,
+    inventorySettings,
+    lowStockThresholds,
+    lowStockAlerts,
+    inventorySyncs,
+    inventorySnapshots,
+    inventoryTransfers,
+    cycleCounts,
+    salesOrders,
+    variantDailySales,
+    jobs,
+  ] = await Promise.all([
+    tx.rewardTier.deleteMany({ where }),
+    tx.session.deleteMany({ where }),
+    tx.inventoryLog.deleteMany({ where }),
+    tx.loyaltyPoints.deleteMany({ where }),
+    tx.pointsTransaction.deleteMany({ where }),
+    tx.processedOrder.deleteMany({ where }),
+    // Keeps this delivery's own row, so a redelivery is acknowledged rather than run again
+    tx.webhookDelivery.deleteMany({ where: { shop, topic: { not: "SHOP_REDACT" } } }),
+    tx.webhookFailure.deleteMany({ where }),
+    tx.earningRules.deleteMany({ where }),
+    tx.loyaltySettings.deleteMany({ where }),
+    tx.membershipTier.deleteMany({ where }),
+    tx.inventorySettings.deleteMany({ where }),
+    tx.lowStockThreshold.deleteMany({ where }),
+    tx.lowStockAlert.deleteMany({ where }),
+    tx.inventorySync.deleteMany({ where }),
+    tx.inventorySnapshot.deleteMany({ where }),
+    // Transfer and count lines go with their parent rows
+    tx.inventoryTransfer.deleteMany({ where }),
+    tx.cycleCount.deleteMany({ where }),
+    tx.salesOrder.deleteMany({ where }),
+    tx.variantDailySales.deleteMany({ where }),
+    tx.job.deleteMany({ where }),
+  ]);
+
+  return {
+    redemptions: redemptions.count,
+    rewardTiers: rewardTiers.count,
+    sessions: sessions.count,
+    inventoryLogs: inventoryLogs.count,
+    balances: balances.count,
+    transactions: transactions.count,
+    processedOrders: processedOrders.count,
+    webhookDeliveries: webhookDeliveries.count,
+    webhookFailures: webhookFailures.count,
+    earningRules: earningRules.count,
+    loyaltySettings: loyaltySettings.count,
+    membershipTiers: membershipTiers.count,
+    inventorySettings: inventorySettings.count,
+    lowStockThresholds: lowStockThresholds.count,
+    lowStockAlerts: lowStockAlerts.count,
+    inventorySyncs: inventorySyncs.count,
+    inventorySnapshots: inventorySnapshots.count,
+    inventoryTransfers: inventoryTransfers.count,
+    cycleCounts: cycleCounts.count,
+    salesOrders: salesOrders.count,
+    variantDailySales: variantDailySales.count,
+    jobs: jobs.count,
+  };
+}
@@ -0,0 +1,359 @@
+import type { CycleCountLine } from "@prisma/client";
+import prisma from "../db.server";
+import { adminGraphql } from "../graphql.server";
+import type { AdminApi } from "../shopify.server";
+import type {
+  CountVariantFieldsFragment,
+  FindVariantByCodeQuery,
+  GetCountScopeQuery,
+} from "../types/admin.generated";
+import type { InventoryLevelChange } from "./inventory.server";
+import {
+  activateInventoryLevels,
+  getCurrentQuantities,
+  recordInventoryBatch,
+  setInventoryQuantities,
+} from "./inventory.server";
+import { updateSnapshotLevels } from "./inventory-snapshot.server";
+import type { StaffUser } from "./staff.server";
+
+export type CycleCountScope = {
+  locationId: string;
+  collectionId?: string | null;
+  collectionTitle?: string | null;
+  vendor?: string | null;
+};
+
+export type CountVariance = {
+  line: CycleCountLine;
+  /** The live quantity, or null when the location doesn't stock the item. */
+  systemQty: number | null;
+  variance: number;
+};
+
+type ScopeVariant = Omit<CycleCountLine, "id" | "countId" | "countedQty" | "countedAt" | "systemQty">;
+
+// Selects the level at the operation's `$locationId`
+const COUNT_VARIANT_FIELDS = `#graphql
+  fragment CountVariantFields on ProductVariant {
+    id
+    title
+    sku
+    barcode
+    product { id title }
+    inventoryItem {
+      id
+      inventoryLevel(locationId: $locationId) {
+        quantities(names: ["available"]) { name quantity }
+      }
+    }
+  }
+`;
+
+function toScopeVariant(variant: CountVariantFieldsFragment): ScopeVariant {
+  return {
+    productId: variant.product.id,
+    variantId: variant.id,
+    inventoryItemId: variant.inventoryItem.id,
+    productTitle: variant.product.title,
+    variantTitle: variant.title,
+    sku: variant.sku || null,
+    barcode: variant.barcode || null,
+    expectedQty:
+      variant.inventoryItem.inventoryLevel?.quantities.find((q) => q.name === "available")?.quantity ?? 0,
+  };
+}
+
+export async function getCollections(admin: AdminApi) {
+  const data = await adminGraphql(admin, `#graphql
+    query GetCollections {
+      collections(first: 250, sortKey: TITLE) {
+        nodes { id title }
+      }
+    }
+  `);
+
+  return data.collections.nodes;
+}
+
+/**
+ * Every variant in the count's collection or vendor that the location stocks.
+ * Counts without either start empty and only cover what gets scanned.
+ * Variants are paged directly rather than through their products, which
+ * would nest two connections and go over the query cost limit.
+ */
+async function getScopeVariants(admin: AdminApi, scope: CycleCountScope) {
+  const filters = [
+    scope.collectionId && `collection:${scope.collectionId.split("/").pop()}`,
+    scope.vendor && `vendor:"${scope.vendor.replace(/["\\]/g, "\\$&")}"`,
+  ].filter(Boolean);
+
+  if (filters.length === 0) {
+    return [];
+  }
+
+  const variants: ScopeVariant[] = [];
+  let after: string | null = null;
+
+  do {
+    const data: GetCountScopeQuery = await adminGraphql(admin, `#graphql
+      query GetCountScope($query: String!, $after: String, $locationId: ID!) {
+        productVariants(first: 100, after: $after, query: $query) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            ...CountVariantFields
+          }
+        }
+      }
+      ${COUNT_VARIANT_FIELDS}
+    `, {
+      variables: { query: filters.join(" AND "), after, locationId: scope.locationId },
+    });
+    const { productVariants } = data;
+
+    for (const variant of productVariants.nodes) {
+      if (variant.inventoryItem.inventoryLevel) {
+        variants.push(toScopeVariant(variant));
+      }
+    }
+
+    after = productVariants.pageInfo.hasNextPage ? productVariants.pageInfo.endCursor ?? null : null;
+  } while (after);
+
+  return variants;
+}
+
+export async function startCycleCount(
+  admin: AdminApi,
+  shop: string,
+  scope: CycleCountScope,
+  staff?: StaffUser | null,
+) {
+  const variants = await getScopeVariants(admin, scope);
+
+  return prisma.cycleCount.create({
+    data: {
+      shop,
+      locationId: scope.locationId,
+      collectionId: scope.collectionId || null,
+      collectionTitle: scope.collectionTitle || null,
+      vendor: scope.vendor || null,
+      staffUserId: staff?.id ?? null,
+      staffName: staff?.name ?? null,
+      lines: { create: variants },
+    },
+  });
+}
+
+export async function getCycleCounts(shop: string) {
+  return prisma.cycleCount.findMany({
+    where: { shop },
+    include: { _count: { select: { lines: true } } },
+    orderBy: { createdAt: "desc" },
+    take: 50,
+  });
+}
+
+export async function getCycleCount(shop: string, id: string) {
+  return prisma.cycleCount.findFirst({
+    where: { shop, id },
+    include: {
+      lines: { orderBy: [{ countedAt: { sort: "desc", nulls: "last" } }, { productTitle: "asc" }] },
+    },
+  });
+}
+
+async function getOpenCount(shop: string, id: string) {
+  const count = await prisma.cycleCount.findFirst({ where: { shop, id } });
+
+  if (!count) {
+    throw new Error("Count not found");
+  }
+  if (count.status !== "OPEN") {
+    throw new Error("This count is no longer open");
+  }
+
+  return count;
+}
+
+async function findVariantByCode(admin: AdminApi, code: string, locationId: string) {
+  const escaped = code.replace(/["\\]/g, "\\$&");
+  const data: FindVariantByCodeQuery = await adminGraphql(admin, `#graphql
+    query FindVariantByCode($query: String!, $locationId: ID!) {
+      productVariants(first: 10, query: $query) {
+        nodes {
+          ...CountVariantFields
+        }
+      }
+    }
+    ${COUNT_VARIANT_FIELDS}
+  `, {
+    variables: { query: `barcode:"${escaped}" OR sku:"${escaped}"`, locationId },
+  });
+
+  // Search matching is looser than we want, so keep exact matches only
+  const matches = data.productVariants.nodes.filter(
+    (variant) => variant.barcode === code || variant.sku === code,
+  );
+
+  if (matches.length === 0) {
+    throw new Error(`Nothing has the barcode or SKU ${code}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`${code} matches ${matches.length} variants`);
+  }
+
+  return toScopeVariant(matches[0]);
+}
+
+/**
+ * Adds `quantity` to the counted quantity of the variant with this barcode or
+ * SKU. Variants outside the count's scope are added to it when first scanned.
+ * Increments are atomic, so several devices can scan into the same count.
+ */
+export async function scanIntoCount(
+  admin: AdminApi,
+  shop: string,
+  id: string,
+  code: string,
+  quantity = 1,
+) {
+  const count = await getOpenCount(shop, id);
+
+  let line = await prisma.cycleCountLine.findFirst({
+    where: { countId: count.id, OR: [{ barcode: code }, { sku: code }] },
+  });
+
+  if (!line) {
+    const variant = await findVariantByCode(admin, code, count.locationId);
+    line = await prisma.cycleCountLine.upsert({
+      where: { countId_variantId: { countId: count.id, variantId: variant.variantId } },
+      create: { countId: count.id, ...variant },
+      update: {},
+    });
+  }
+
+  return prisma.cycleCountLine.update({
+    where: { id: line.id },
+    data: { countedQty: { increment: quantity }, countedAt: new Date() },
+  });
+}
+
+/** Overrides a line's counted quantity, for correcting a miscount. */
+export async function setCountedQuantity(shop: string, id: string, lineId: string, countedQty: number) {
+  const count = await getOpenCount(shop, id);
+
+  if (!Number.isInteger(countedQty) || countedQty < 0) {
+    throw new Error("Counted quantity must be a whole number of zero or more");
+  }
+
+  const { count: updated } = await prisma.cycleCountLine.updateMany({
+    where: { id: lineId, countId: count.id },
+    data: { countedQty, countedAt: new Date() },
+  });
+  if (updated === 0) {
+    throw new Error("Line not found");
+  }
+}
+
+export async function cancelCycleCount(shop: string, id: string) {
+  const count = await getOpenCount(shop, id);
+  await prisma.cycleCount.update({ where: { id: count.id }, data: { status: "CANCELLED" } });
+}
+
+/**
+ * Compares counted quantities with the live system quantities. Lines that were
+ * never counted are left out unless `includeUncounted` is set, in which case
+ * they count as zero.
+ */
+export async function getCountVariances(
+  admin: AdminApi,
+  lines: CycleCountLine[],
+  locationId: string,
+  { includeUncounted = false }: { includeUncounted?: boolean } = {},
+): Promise<CountVariance[]> {
+  const current = await getCurrentQuantities(
+    admin,
+    lines.map((line) => line.inventoryItemId),
+  );
+
+  return lines
+    .filter((line) => includeUncounted || line.countedAt)
+    .map((line) => {
+      const systemQty = current[`${line.inventoryItemId}|${locationId}`] ?? null;
+      return { line, systemQty, variance: line.countedQty - (systemQty ?? 0) };
+    });
+}
+
+/**
+ * Sets every counted level to its counted quantity with the reason
+ * `cycle_count_available`, in one all-or-nothing change compared against the
+ * system quantities just read. Records the system quantity on each line for
+ * the variance report and logs the changes as one history batch.
+ */
+export async function commitCycleCount(
+  admin: AdminApi,
+  shop: string,
+  id: string,
+  { includeUncounted = false, staff }: { includeUncounted?: boolean; staff?: StaffUser | null } = {},
+) {
+  const count = await getOpenCount(shop, id);
+  const lines = await prisma.cycleCountLine.findMany({ where: { countId: count.id } });
+  const variances = await getCountVariances(admin, lines, count.locationId, { includeUncounted });
+
+  const unstocked = variances.filter((v) => v.systemQty === null);
+  await activateInventoryLevels(
+    admin,
+    unstocked.map((v) => ({ inventoryItemId: v.line.inventoryItemId, locationId: count.locationId })),
+  );
+
+  const changes: InventoryLevelChange[] = variances
+    .filter((v) => v.variance !== 0)
+    .map((v) => ({
+      productId: v.line.productId,
+      variantId: v.line.variantId,
+      inventoryItemId: v.line.inventoryItemId,
+      locationId: count.locationId,
+      productTitle: v.line.productTitle,
+      variantTitle: v.line.variantTitle,
+      sku: v.line.sku,
+      oldQty: v.systemQty ?? 0,
+      newQty: v.line.countedQty,
+    }));
+
+  let batchId: string | null = null;
+  if (changes.length > 0) {
+    const { userErrors } = await setInventoryQuantities(admin, changes, "cycle_count_available");
+    if (userErrors.length > 0) {
+      throw new Error(
+        `${userErrors.map((e) => e.message).join(", ")}. Quantities may have changed while reviewing; review the count again.`,
+      );
+    }
+
+    batchId = await recordInventoryBatch(shop, changes, { staff, reason: "cycle_count_available" });
+    await updateSnapshotLevels(
+      prisma,
+      shop,
+      changes.map((change) => ({
+        inventoryItemId: change.inventoryItemId,
+        locationId: change.locationId,
+        available: change.newQty,
+      })),
+    );
+  }
+
+  await prisma.$transaction([
+    ...variances.map((v) =>
+      prisma.cycleCountLine.update({
+        where: { id: v.line.id },
+        data: { systemQty: v.systemQty ?? 0 },
+      }),
+    ),
+    prisma.cycleCount.update({
+      where: { id: count.id },
+      data: { status: "COMMITTED", committedAt: new Date(), batchId },
+    }),
+  ]);
+
+  return { adjusted: changes.length, batchId };
+}
@@ -0,0 +1,454 @@
+import type { EarningBasis, RoundingMode } from "@prisma/client";
+import prisma from "../db.server";
+import { adminGraphql } from "../graphql.server";
+import type { AdminApi } from "../shopify.server";
+import type { EarningOrderFieldsFragment, GetEarningOrdersQuery } from "../types/admin.generated";
+
+export type ProductMultiplier = {
+  productId: string;
+  multiplier: number;
+};
+
+export type EarningRuleSet = {
+  pointsPerUnit: number;
+  basis: EarningBasis;
+  rounding: RoundingMode;
+  minimumOrderValue: number;
+  excludedProductTags: string[];
+  excludedCollectionIds: string[];
+  excludedVendors: string[];
+  productMultipliers: ProductMultiplier[];
+};
+
+export type EarningLineItem = {
+  /** Line item GID, used to reverse the line's points when it is refunded. */
+  id: string | null;
+  title: string;
+  quantity: number;
+  productId: string | null;
+  vendor: string | null;
+  tags: string[];
+  collectionIds: string[];
+  /** Line total after line-level discounts, in shop currency. */
+  amount: number;
+};
+
+/** An order reduced to the fields the earning rules look at. */
+export type EarningOrder = {
+  subtotal: number;
+  total: number;
+  shipping: number;
+  tax: number;
+  lineItems: EarningLineItem[];
+};
+
+export type PointsBreakdown = {
+  points: number;
+  basisAmount: number;
+  tierMultiplier: number;
+  /** Set when the whole order earns nothing, e.g. below the minimum value. */
+  skippedReason: string | null;
+  lines: Array<{
+    lineItemId: string | null;
+    title: string;
+    quantity: number;
+    basisAmount: number;
+    multiplier: number;
+    excludedReason: string | null;
+    points: number;
+  }>;
+};
+
+// Matches the original hardcoded rule of 1 point per $10 of subtotal
+export const DEFAULT_EARNING_RULES: EarningRuleSet = {
+  pointsPerUnit: 0.1,
+  basis: "SUBTOTAL",
+  rounding: "FLOOR",
+  minimumOrderValue: 0,
+  excludedProductTags: [],
+  excludedCollectionIds: [],
+  excludedVendors: [],
+  productMultipliers: [],
+};
+
+export async function getEarningRules(shop: string): Promise<EarningRuleSet> {
+  const rules = await prisma.earningRules.findUnique({ where: { shop } });
+
+  if (!rules) {
+    return DEFAULT_EARNING_RULES;
+  }
+
+  return {
+    pointsPerUnit: rules.pointsPerUnit,
+    basis: rules.basis,
+    rounding: rules.rounding,
+    minimumOrderValue: rules.minimumOrderValue,
+    excludedProductTags: rules.excludedProductTags,
+    excludedCollectionIds: rules.excludedCollectionIds,
+    excludedVendors: rules.excludedVendors,
+    productMultipliers: rules.productMultipliers as ProductMultiplier[],
+  };
+}
+
+export async function saveEarningRules(shop: string, rules: EarningRuleSet) {
+  return prisma.earningRules.upsert({
+    where: { shop },
+    create: { shop, ...rules },
+    update: rules,
+  });
+}
+
+/**
+ * Returns a list of problems with the submitted rules, empty when they are valid.
+ */
+export function validateEarningRules(rules: EarningRuleSet) {
+  const errors: string[] = [];
+
+  if (!Number.isFinite(rules.pointsPerUnit) || rules.pointsPerUnit < 0) {
+    errors.push("Points per currency unit must be zero or more");
+  }
+  if (!Number.isFinite(rules.minimumOrderValue) || rules.minimumOrderValue < 0) {
+    errors.push("Minimum order value must be zero or more");
+  }
+  for (const { productId, multiplier } of rules.productMultipliers) {
+    if (!productId || !Number.isFinite(multiplier) || multiplier < 0) {
+      errors.push("Product multipliers must be zero or more");
+      break;
+    }
+  }
+
+  return errors;
+}
+
+function roundPoints(points: number, rounding: RoundingMode) {
+  // Guard against floating point noise such as 4.999999999 before rounding down
+  const value = Math.round(points * 1e6) / 1e6;
+
+  switch (rounding) {
+    case "CEIL":
+      return Math.ceil(value);
+    case "NEAREST":
+      return Math.round(value);
+    default:
+      return Math.floor(value);
+  }
+}
+
+function getBasisAmount(basis: EarningBasis, order: EarningOrder) {
+  switch (basis) {
+    case "TOTAL":
+      return order.total;
+    case "TOTAL_EXCLUDING_SHIPPING_AND_TAX":
+      return order.total - order.shipping - order.tax;
+    default:
+      return order.subtotal;
+  }
+}
+
+function getExcludedReason(rules: EarningRuleSet, line: EarningLineItem) {
+  const excludedTags = rules.excludedProductTags.map((tag) => tag.toLowerCase());
+  const excludedVendors = rules.excludedVendors.map((vendor) => vendor.toLowerCase());
+
+  const tag = line.tags.find((tag) => excludedTags.includes(tag.toLowerCase()));
+  if (tag) {
+    return `Tagged "${tag}"`;
+  }
+  if (line.vendor && excludedVendors.includes(line.vendor.toLowerCase())) {
+    return `Vendor "${line.vendor}"`;
+  }
+  if (line.collectionIds.some((id) => rules.excludedCollectionIds.includes(id))) {
+    return "In an excluded collection";
+  }
+
+  return null;
+}
+
+/**
+ * The single evaluator every earning path goes through. The basis amount is
+ * spread across line items in proportion to their totals so that exclusions
+ * and multipliers apply to each product's share of shipping, tax or discounts.
+ * The customer's membership tier multiplier applies on top of product multipliers.
+ */
+export function evaluateEarningRules(
+  rules: EarningRuleSet,
+  order: EarningOrder,
+  tierMultiplier = 1,
+): PointsBreakdown {
+  const basisAmount = Math.max(0, getBasisAmount(rules.basis, order));
+
+  if (basisAmount < rules.minimumOrderValue) {
+    return {
+      points: 0,
+      basisAmount,
+      tierMultiplier,
+      skippedReason: `Below the minimum order value of ${rules.minimumOrderValue}`,
+      lines: [],
+    };
+  }
+
+  const lineTotal = order.lineItems.reduce((sum, line) => sum + Math.max(0, line.amount), 0);
+
+  // Without line items there is nothing to exclude or multiply, so earn on the whole basis
+  if (lineTotal <= 0) {
+    return {
+      points: roundPoints(basisAmount * rules.pointsPerUnit * tierMultiplier, rules.rounding),
+      basisAmount,
+      tierMultiplier,
+      skippedReason: null,
+      lines: [],
+    };
+  }
+
+  const lines = order.lineItems.map((line) => {
+    const lineBasis = (basisAmount * Math.max(0, line.amount)) / lineTotal;
+    const excludedReason = getExcludedReason(rules, line);
+    const multiplier =
+      rules.productMultipliers.find((m) => m.productId === line.productId)?.multiplier ?? 1;
+
+    return {
+      lineItemId: line.id,
+      title: line.title,
+      quantity: line.quantity,
+      basisAmount: lineBasis,
+      multiplier,
+      excludedReason,
+      points: excludedReason ? 0 : lineBasis * rules.pointsPerUnit * multiplier * tierMultiplier,
+    };
+  });
+
+  const points = lines.reduce((sum, line) => sum + line.points, 0);
+
+  return {
+    points: roundPoints(points, rules.rounding),
+    basisAmount,
+    tierMultiplier,
+    skippedReason: null,
+    lines,
+  };
+}
+
+function money(value: string | number | null | undefined) {
+  const amount = parseFloat(String(value ?? "0"));
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+/** The fields of an `orders/*` webhook payload that points are worked out from. */
+export type OrderWebhookPayload = {
+  admin_graphql_api_id: string;
+  name: string;
+  customer?: { id: number | string } | null;
+  subtotal_price?: string | null;
+  total_price?: string | null;
+  total_tax?: string | null;
+  total_shipping_price_set?: { shop_money?: { amount?: string | null } | null } | null;
+  line_items?: Array<{
+    admin_graphql_api_id?: string | null;
+    title?: string | null;
+    name?: string | null;
+    quantity?: number | null;
+    price?: string | null;
+    product_id?: number | null;
+    vendor?: string | null;
+    discount_allocations?: Array<{ amount?: string | null }> | null;
+  }> | null;
+};
+
+/**
+ * Normalizes an `orders/*` webhook payload.
+ */
+export function earningOrderFromWebhook(payload: OrderWebhookPayload): EarningOrder {
+  return {
+    subtotal: money(payload.subtotal_price),
+    total: money(payload.total_price),
+    shipping: money(payload.total_shipping_price_set?.shop_money?.amount),
+    tax: money(payload.total_tax),
+    lineItems: (payload.line_items || []).map((item) => {
+      const discount = (item.discount_allocations || []).reduce(
+        (sum, allocation) => sum + money(allocation.amount),
+        0,
+      );
+
+      return {
+        id: item.admin_graphql_api_id || null,
+        title: item.title || item.name || "",
+        quantity: item.quantity || 0,
+        productId: item.product_id ? `gid://shopify/Product/${item.product_id}` : null,
+        vendor: item.vendor || null,
+        tags: [],
+        collectionIds: [],
+        amount: money(item.price) * (item.quantity || 0) - discount,
+      };
+    }),
+  };
+}
+
+/**
+ * Fields to select on an Admin GraphQL `Order` for `earningOrderFromGraphQL`.
+ * Append it to a query that spreads `...EarningOrderFields`.
+ */
+export const EARNING_ORDER_FIELDS = `#graphql
+  fragment EarningOrderFields on Order {
+    subtotalPriceSet { shopMoney { amount } }
+    totalPriceSet { shopMoney { amount currencyCode } }
+    totalShippingPriceSet { shopMoney { amount } }
+    totalTaxSet { shopMoney { amount } }
+    lineItems(first: 25) {
+      nodes {
+        id
+        title
+        quantity
+        vendor
+        discountedTotalSet { shopMoney { amount } }
+        product { id }
+      }
+    }
+  }
+`;
+
+/**
+ * Normalizes an Admin GraphQL order selected with `EARNING_ORDER_FIELDS`.
+ */
+export function earningOrderFromGraphQL(order: EarningOrderFieldsFragment): EarningOrder {
+  return {
+    subtotal: money(order.subtotalPriceSet?.shopMoney.amount),
+    total: money(order.totalPriceSet.shopMoney.amount),
+    shipping: money(order.totalShippingPriceSet.shopMoney.amount),
+    tax: money(order.totalTaxSet?.shopMoney.amount),
+    lineItems: order.lineItems.nodes.map((item) => ({
+      id: item.id,
+      title: item.title,
+      quantity: item.quantity,
+      productId: item.product?.id || null,
+      vendor: item.vendor || null,
+      tags: [],
+      collectionIds: [],
+      amount: money(item.discountedTotalSet.shopMoney.amount),
+    })),
+  };
+}
+
+// Five orders of up to 25 line items each keep a query well under the cost limit
+const EARNING_ORDER_BATCH_SIZE = 5;
+
+// Product lookups select scalars only, so they cost about a point per product
+const PRODUCT_BATCH_SIZE = 100;
+
+/**
+ * Loads the earning fields of the given orders, keyed by order ID. Listings
+ * select only what they display and call this for the orders they score, since
+ * selecting line items for a whole page of orders is over the query cost limit.
+ */
+export async function loadEarningOrders(admin: AdminApi, orderIds: string[]) {
+  const orders = new Map<string, EarningOrder>();
+
+  for (let i = 0; i < orderIds.length; i += EARNING_ORDER_BATCH_SIZE) {
+    const data: GetEarningOrdersQuery = await adminGraphql(admin, `#graphql
+      query GetEarningOrders($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          __typename
+          ... on Order {
+            id
+            ...EarningOrderFields
+          }
+        }
+      }
+      ${EARNING_ORDER_FIELDS}
+    `, {
+      variables: { ids: orderIds.slice(i, i + EARNING_ORDER_BATCH_SIZE) },
+    });
+
+    for (const node of data.nodes) {
+      if (node?.__typename === "Order") {
+        orders.set(node.id, earningOrderFromGraphQL(node));
+      }
+    }
+  }
+
+  return orders;
+}
+
+/**
+ * Fills in product tags and collections, which neither order shape carries.
+ * Only queried when the rules actually exclude by tag or collection. Products
+ * can belong to any number of collections, so each excluded collection is
+ * checked with `inCollection` and `collectionIds` lists only those a product is in.
+ */
+export async function withProductDetails(
+  admin: AdminApi | undefined,
+  rules: EarningRuleSet,
+  orders: EarningOrder[],
+) {
+  const needsDetails =
+    rules.excludedProductTags.length > 0 || rules.excludedCollectionIds.length > 0;
+
+  if (!admin || !needsDetails) {
+    return orders;
+  }
+
+  const productIds = [
+    ...new Set(
+      orders.flatMap((order) =>
+        order.lineItems.map((line) => line.productId).filter((id): id is string => !!id),
+      ),
+    ),
+  ];
+
+  const details: Record<string, { tags: string[]; collectionIds: string[] }> = {};
+  for (const id of productIds) {
+    details[id] = { tags: [], collectionIds: [] };
+  }
+
+  for (let i = 0; i < productIds.length; i += PRODUCT_BATCH_SIZE) {
+    const ids = productIds.slice(i, i + PRODUCT_BATCH_SIZE);
+
+    if (rules.excludedProductTags.length > 0) {
+      const data = await adminGraphql(admin, `#graphql
+        query GetProductTags($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            ... on Product {
+              id
+              tags
+            }
+          }
+        }
+      `, {
+        variables: { ids },
+      });
+
+      for (const product of data.nodes) {
+        if (product && "tags" in product) {
+          details[product.id].tags = product.tags;
+        }
+      }
+    }
+
+    for (const collectionId of rules.excludedCollectionIds) {
+      const data = await adminGraphql(admin, `#graphql
+        query GetProductsInCollection($ids: [ID!]!, $collectionId: ID!) {
+          nodes(ids: $ids) {
+            ... on Product {
+              id
+              inCollection(id: $collectionId)
+            }
+          }
+        }
+      `, {
+        variables: { ids, collectionId },
+      });
+
+      for (const product of data.nodes) {
+        if (product && "inCollection" in product && product.inCollection) {
+          details[product.id].collectionIds.push(collectionId);
+        }
+      }
+    }
+  }
+
+  return orders.map((order) => ({
+    ...order,
+    lineItems: order.lineItems.map((line) => ({
+      ...line,
+      ...(line.productId && details[line.productId]),
+    })),
+  }));
+}
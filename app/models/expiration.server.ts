@@ -0,0 +1,198 @@
+import type { ExpirationMode, PointsTransaction } from "@prisma/client";
+import prisma from "../db.server";
+import { applyPointsTransaction } from "./loyalty.server";
+import { getLoyaltySettings } from "./loyalty-settings.server";
+
+export type ExpirationPolicy = {
+  expirationMode: ExpirationMode;
+  expirationMonths: number;
+};
+
+export type CustomerExpiry = {
+  /** Points that have already passed their expiry date. */
+  due: number;
+  /** The next batch of points to expire after those. */
+  upcoming: { points: number; date: Date } | null;
+};
+
+type LedgerEntry = Pick<PointsTransaction, "type" | "delta" | "createdAt">;
+
+function addMonths(date: Date, months: number) {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+/**
+ * Works out a customer's expiring points from their ledger, which must be
+ * sorted oldest first.
+ *
+ * With AFTER_EARNED every credit is a lot that expires N months after it was
+ * added, and debits (redemptions, clawbacks, earlier expiries) use up the
+ * oldest lots first. With AFTER_INACTIVITY the whole balance expires N months
+ * after the customer's last earn or redeem; refunds of unused reward codes
+ * aren't activity, so they don't restart the clock.
+ */
+export function computeExpiry(
+  entries: LedgerEntry[],
+  policy: ExpirationPolicy,
+  asOf = new Date(),
+): CustomerExpiry {
+  const balance = entries.reduce((sum, entry) => sum + entry.delta, 0);
+
+  if (policy.expirationMode === "NEVER" || balance <= 0) {
+    return { due: 0, upcoming: null };
+  }
+
+  if (policy.expirationMode === "AFTER_INACTIVITY") {
+    const lastActivity = entries
+      .filter((entry) => entry.type === "EARN" || entry.type === "REDEEM")
+      .reduce<Date | null>((latest, entry) => (!latest || entry.createdAt > latest ? entry.createdAt : latest), null);
+
+    if (!lastActivity) {
+      return { due: 0, upcoming: null };
+    }
+
+    const date = addMonths(lastActivity, policy.expirationMonths);
+    return date <= asOf
+      ? { due: balance, upcoming: null }
+      : { due: 0, upcoming: { points: balance, date } };
+  }
+
+  const lots: Array<{ points: number; expiresAt: Date }> = [];
+
+  for (const entry of entries) {
+    if (entry.delta > 0) {
+      lots.push({ points: entry.delta, expiresAt: addMonths(entry.createdAt, policy.expirationMonths) });
+      continue;
+    }
+
+    let remaining = -entry.delta;
+    while (remaining > 0 && lots.length > 0) {
+      const used = Math.min(remaining, lots[0].points);
+      lots[0].points -= used;
+      remaining -= used;
+      if (lots[0].points === 0) {
+        lots.shift();
+      }
+    }
+  }
+
+  const due = lots
+    .filter((lot) => lot.expiresAt <= asOf)
+    .reduce((sum, lot) => sum + lot.points, 0);
+
+  const next = lots.find((lot) => lot.expiresAt > asOf);
+  const upcoming = next
+    ? {
+        points: lots
+          .filter((lot) => lot.expiresAt.getTime() === next.expiresAt.getTime())
+          .reduce((sum, lot) => sum + lot.points, 0),
+        date: next.expiresAt,
+      }
+    : null;
+
+  return { due: Math.min(due, balance), upcoming };
+}
+
+async function getLedgers(shop: string, customerIds?: string[]) {
+  const entries = await prisma.pointsTransaction.findMany({
+    where: { shop, ...(customerIds && { customerId: { in: customerIds } }) },
+    select: { customerId: true, type: true, delta: true, createdAt: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const ledgers = new Map<string, LedgerEntry[]>();
+  for (const entry of entries) {
+    const ledger = ledgers.get(entry.customerId) ?? [];
+    ledger.push(entry);
+    ledgers.set(entry.customerId, ledger);
+  }
+
+  return ledgers;
+}
+
+/**
+ * Expiry status for a page of customers, keyed by customer ID.
+ */
+export async function getCustomerExpirations(shop: string, customerIds: string[], asOf = new Date()) {
+  const policy = await getLoyaltySettings(shop);
+  const result: Record<string, CustomerExpiry> = {};
+
+  if (policy.expirationMode === "NEVER" || customerIds.length === 0) {
+    return result;
+  }
+
+  const ledgers = await getLedgers(shop, customerIds);
+  for (const [customerId, entries] of ledgers) {
+    result[customerId] = computeExpiry(entries, policy, asOf);
+  }
+
+  return result;
+}
+
+/**
+ * Writes an EXPIRE ledger entry for every customer with points past their
+ * expiry date. With `dryRun` nothing is written and the report shows what
+ * would expire. Each customer is re-checked inside their own transaction so
+ * points earned or spent while the job runs are taken into account.
+ */
+export async function runPointsExpiry(shop: string, { dryRun = false, asOf = new Date() } = {}) {
+  const policy = await getLoyaltySettings(shop);
+  const expired: Array<{ customerId: string; points: number }> = [];
+
+  if (policy.expirationMode === "NEVER") {
+    return { dryRun, policy, expired, totalPoints: 0 };
+  }
+
+  const ledgers = await getLedgers(shop);
+
+  for (const [customerId, entries] of ledgers) {
+    const { due } = computeExpiry(entries, policy, asOf);
+    if (due <= 0) {
+      continue;
+    }
+
+    if (dryRun) {
+      expired.push({ customerId, points: due });
+      continue;
+    }
+
+    const points = await prisma.$transaction(async (tx) => {
+      // Lock the balance row so concurrent awards or redemptions wait for us
+      await tx.$executeRaw`SELECT 1 FROM "LoyaltyPoints" WHERE "shop" = ${shop} AND "customerId" = ${customerId} FOR UPDATE`;
+
+      const current = await tx.pointsTransaction.findMany({
+        where: { shop, customerId },
+        select: { type: true, delta: true, createdAt: true },
+        orderBy: { createdAt: "asc" },
+      });
+      const { due: confirmed } = computeExpiry(current, policy, asOf);
+
+      if (confirmed > 0) {
+        await applyPointsTransaction(tx, shop, {
+          customerId,
+          type: "EXPIRE",
+          delta: -confirmed,
+          reason:
+            policy.expirationMode === "AFTER_INACTIVITY"
+              ? `No activity for ${policy.expirationMonths} months`
+              : `Earned more than ${policy.expirationMonths} months ago`,
+        });
+      }
+
+      return confirmed;
+    });
+
+    if (points > 0) {
+      expired.push({ customerId, points });
+    }
+  }
+
+  return {
+    dryRun,
+    policy,
+    expired,
+    totalPoints: expired.reduce((sum, { points }) => sum + points, 0),
+  };
+}
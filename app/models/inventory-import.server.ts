@@ -0,0 +1,465 @@
+import prisma from "../db.server";
+import type { AdminApi } from "../shopify.server";
+import { parseCsv, toCsv } from "../csv.server";
+import { adminGraphql, paginateConnection } from "../graphql.server";
+import type {
+  GetExportProductsQuery,
+  GetExportProductVariantsQuery,
+  GetImportVariantsByIdQuery,
+  GetImportVariantsBySkuQuery,
+  ImportVariantFieldsFragment,
+} from "../types/admin.generated";
+import type { InventoryLevelChange, InventoryLocation } from "./inventory.server";
+import {
+  getLocations,
+  productSearchQuery,
+  recordInventoryBatch,
+  setInventoryQuantities,
+} from "./inventory.server";
+import { updateSnapshotLevels } from "./inventory-snapshot.server";
+import type { StaffUser } from "./staff.server";
+
+export type ImportRowStatus = "change" | "unchanged" | "unknown" | "invalid";
+
+export type ImportRow = {
+  /** Line number in the uploaded file, counting the header as line 1. */
+  line: number;
+  sku: string;
+  variantId: string;
+  location: string;
+  quantity: string;
+  status: ImportRowStatus;
+  message: string | null;
+  change: InventoryLevelChange | null;
+};
+
+type ResolvedVariant = {
+  id: string;
+  sku: string;
+  title: string;
+  productId: string;
+  productTitle: string;
+  inventoryItemId: string;
+  levels: Record<string, number>;
+};
+
+export const INVENTORY_CSV_HEADERS = ["sku", "variant_id", "product", "variant", "location", "quantity"];
+
+// inventorySetQuantities accepts at most 250 quantities per call
+const SET_QUANTITIES_BATCH_SIZE = 250;
+
+const toVariantGid = (id: string) =>
+  id.startsWith("gid://") ? id : `gid://shopify/ProductVariant/${id}`;
+
+const numericId = (gid: string) => gid.split("/").pop() as string;
+
+const IMPORT_VARIANT_FIELDS = `#graphql
+  fragment ImportVariantFields on ProductVariant {
+    id
+    sku
+    title
+    product { id title }
+    inventoryItem {
+      id
+      inventoryLevels(first: $levels) {
+        nodes {
+          location { id }
+          quantities(names: ["available"]) { name quantity }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Every variant matching the Bulk Inventory Manager search, one row per
+ * location that stocks it, in the column layout the import accepts.
+ * Products with more variants than fit on their page have the rest paged in.
+ */
+export async function exportInventoryCsv(admin: AdminApi, searchTerm: string) {
+  const locations = await getLocations(admin);
+  const locationNames = new Map(locations.map((location) => [location.id, location.name]));
+  const levels = Math.max(locations.length, 1);
+  const rows: Array<Array<string | number>> = [INVENTORY_CSV_HEADERS];
+
+  const products = await paginateConnection(async (after) => {
+    const data: GetExportProductsQuery = await adminGraphql(admin, `#graphql
+      query GetExportProducts($after: String, $query: String, $levels: Int!) {
+        products(first: 10, after: $after, query: $query) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            id
+            variants(first: 20) {
+              pageInfo { hasNextPage endCursor }
+              nodes { ...ImportVariantFields }
+            }
+          }
+        }
+      }
+      ${IMPORT_VARIANT_FIELDS}
+    `, {
+      variables: { after, query: productSearchQuery(searchTerm), levels },
+    });
+
+    return data.products;
+  });
+
+  for (const product of products) {
+    // The first page came with the product
+    const variants = await paginateConnection(async (after) => {
+      if (after === null) {
+        return product.variants;
+      }
+
+      const data: GetExportProductVariantsQuery = await adminGraphql(admin, `#graphql
+        query GetExportProductVariants($id: ID!, $after: String, $levels: Int!) {
+          product(id: $id) {
+            variants(first: 20, after: $after) {
+              pageInfo { hasNextPage endCursor }
+              nodes { ...ImportVariantFields }
+            }
+          }
+        }
+        ${IMPORT_VARIANT_FIELDS}
+      `, {
+        variables: { id: product.id, after, levels },
+      });
+
+      return data.product?.variants;
+    });
+
+    for (const variant of variants.map(toResolvedVariant)) {
+      for (const [locationId, quantity] of Object.entries(variant.levels)) {
+        rows.push([
+          variant.sku,
+          numericId(variant.id),
+          variant.productTitle,
+          variant.title,
+          locationNames.get(locationId) ?? locationId,
+          quantity,
+        ]);
+      }
+    }
+  }
+
+  return toCsv(rows);
+}
+
+function toResolvedVariant(variant: ImportVariantFieldsFragment): ResolvedVariant {
+  return {
+    id: variant.id,
+    sku: variant.sku || "",
+    title: variant.title,
+    productId: variant.product.id,
+    productTitle: variant.product.title,
+    inventoryItemId: variant.inventoryItem.id,
+    levels: Object.fromEntries(
+      variant.inventoryItem.inventoryLevels.nodes.map((level) => [
+        level.location.id,
+        level.quantities.find((q) => q.name === "available")?.quantity ?? 0,
+      ]),
+    ),
+  };
+}
+
+async function getVariantsById(admin: AdminApi, ids: string[], levels: number) {
+  const variants = new Map<string, ResolvedVariant>();
+
+  for (let i = 0; i < ids.length; i += 50) {
+    const data: GetImportVariantsByIdQuery = await adminGraphql(admin, `#graphql
+      query GetImportVariantsById($ids: [ID!]!, $levels: Int!) {
+        nodes(ids: $ids) {
+          ...ImportVariantFields
+        }
+      }
+      ${IMPORT_VARIANT_FIELDS}
+    `, {
+      variables: { ids: ids.slice(i, i + 50), levels },
+    });
+
+    for (const node of data.nodes) {
+      if (node?.inventoryItem) {
+        variants.set(node.id, toResolvedVariant(node));
+      }
+    }
+  }
+
+  return variants;
+}
+
+async function getVariantsBySku(admin: AdminApi, skus: string[], levels: number) {
+  const variants = new Map<string, ResolvedVariant[]>();
+
+  for (let i = 0; i < skus.length; i += 50) {
+    const query = skus
+      .slice(i, i + 50)
+      .map((sku) => `sku:"${sku.replace(/["\\]/g, "\\$&")}"`)
+      .join(" OR ");
+
+    const data: GetImportVariantsBySkuQuery = await adminGraphql(admin, `#graphql
+      query GetImportVariantsBySku($query: String!, $levels: Int!) {
+        productVariants(first: 250, query: $query) {
+          nodes {
+            ...ImportVariantFields
+          }
+        }
+      }
+      ${IMPORT_VARIANT_FIELDS}
+    `, {
+      variables: { query, levels },
+    });
+
+    for (const node of data.productVariants.nodes) {
+      // Search matching is looser than we want, so keep exact SKU matches only
+      if (node.sku && skus.includes(node.sku)) {
+        variants.set(node.sku, [...(variants.get(node.sku) ?? []), toResolvedVariant(node)]);
+      }
+    }
+  }
+
+  return variants;
+}
+
+function findLocation(locations: InventoryLocation[], value: string) {
+  if (!value) {
+    // Single-location shops can leave the column out
+    return locations.length === 1 ? locations[0] : null;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  return (
+    locations.find(
+      (location) =>
+        location.name.toLowerCase() === normalized ||
+        location.id === value.trim() ||
+        numericId(location.id) === value.trim(),
+    ) ?? null
+  );
+}
+
+/**
+ * Parses an uploaded CSV and works out what it would change. Rows are keyed by
+ * `variant_id` when present, otherwise by `sku`; quantities are compared with
+ * the live `available` quantity, which later becomes the `compareQuantity`.
+ */
+export async function previewInventoryImport(admin: AdminApi, csv: string) {
+  const [header = [], ...records] = parseCsv(csv);
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const column = (record: string[], name: string) => {
+    const index = columns.indexOf(name);
+    return index === -1 ? "" : (record[index] ?? "").trim();
+  };
+
+  if (!columns.includes("quantity") || !(columns.includes("sku") || columns.includes("variant_id"))) {
+    throw new Error("The file needs a quantity column and a sku or variant_id column");
+  }
+
+  const locations = await getLocations(admin);
+  const levels = Math.max(locations.length, 1);
+
+  const variantIds = [
+    ...new Set(records.map((record) => column(record, "variant_id")).filter(Boolean).map(toVariantGid)),
+  ];
+  const skus = [
+    ...new Set(
+      records
+        .filter((record) => !column(record, "variant_id"))
+        .map((record) => column(record, "sku"))
+        .filter(Boolean),
+    ),
+  ];
+
+  const [byId, bySku] = await Promise.all([
+    getVariantsById(admin, variantIds, levels),
+    getVariantsBySku(admin, skus, levels),
+  ]);
+
+  const seen = new Set<string>();
+
+  const rows = records.map((record, index): ImportRow => {
+    const row: ImportRow = {
+      line: index + 2,
+      sku: column(record, "sku"),
+      variantId: column(record, "variant_id"),
+      location: column(record, "location"),
+      quantity: column(record, "quantity"),
+      status: "invalid",
+      message: null,
+      change: null,
+    };
+
+    const fail = (status: ImportRowStatus, message: string) => ({ ...row, status, message });
+
+    if (!row.variantId && !row.sku) {
+      return fail("invalid", "Missing SKU and variant ID");
+    }
+    if (!/^\d+$/.test(row.quantity)) {
+      return fail("invalid", "Quantity must be a whole number of zero or more");
+    }
+
+    let variant: ResolvedVariant | undefined;
+    if (row.variantId) {
+      variant = byId.get(toVariantGid(row.variantId));
+      if (!variant) {
+        return fail("unknown", `Unknown variant ID ${row.variantId}`);
+      }
+    } else {
+      const matches = bySku.get(row.sku) ?? [];
+      if (matches.length === 0) {
+        return fail("unknown", `Unknown SKU ${row.sku}`);
+      }
+      if (matches.length > 1) {
+        return fail("invalid", `SKU ${row.sku} is shared by ${matches.length} variants; use variant_id`);
+      }
+      variant = matches[0];
+    }
+
+    const location = findLocation(locations, row.location);
+    if (!location) {
+      return fail("invalid", row.location ? `Unknown location ${row.location}` : "Location is required");
+    }
+
+    const oldQty = variant.levels[location.id];
+    if (oldQty === undefined) {
+      return fail("invalid", `${variant.sku || variant.title} isn't stocked at ${location.name}`);
+    }
+
+    const key = `${variant.inventoryItemId}|${location.id}`;
+    if (seen.has(key)) {
+      return fail("invalid", "Duplicate of an earlier row for the same variant and location");
+    }
+    seen.add(key);
+
+    const newQty = parseInt(row.quantity, 10);
+
+    return {
+      ...row,
+      sku: row.sku || variant.sku,
+      location: location.name,
+      status: newQty === oldQty ? "unchanged" : "change",
+      change: {
+        productId: variant.productId,
+        variantId: variant.id,
+        inventoryItemId: variant.inventoryItemId,
+        locationId: location.id,
+        productTitle: variant.productTitle,
+        variantTitle: variant.title,
+        sku: variant.sku,
+        oldQty,
+        newQty,
+      },
+    };
+  });
+
+  return { rows };
+}
+
+type ImportFailure = { skus: string[]; message: string };
+
+/**
+ * Checks changes posted back from a preview against Shopify rather than
+ * trusting them: each needs a whole-number quantity for a variant that is
+ * still stocked at the location, and a level may only appear once. IDs and
+ * titles are re-read from the variant. The previewed `oldQty` is kept as the
+ * `compareQuantity`, so a level that moved since the preview still fails its
+ * batch.
+ */
+async function verifyImportChanges(admin: AdminApi, changes: InventoryLevelChange[]) {
+  const locations = await getLocations(admin);
+  // Anything that isn't a variant GID would fail the whole lookup
+  const variantIds = [
+    ...new Set(
+      changes.map((change) => String(change.variantId)).filter((id) => id.startsWith("gid://shopify/ProductVariant/")),
+    ),
+  ];
+  const variants = await getVariantsById(admin, variantIds, Math.max(locations.length, 1));
+
+  const verified: InventoryLevelChange[] = [];
+  const failures: ImportFailure[] = [];
+  const seen = new Set<string>();
+
+  for (const change of changes) {
+    const variant = variants.get(String(change.variantId));
+    const location = locations.find((candidate) => candidate.id === change.locationId);
+    const fail = (message: string) =>
+      failures.push({ skus: [variant?.sku || change.sku || String(change.variantId)], message });
+
+    if (!variant) {
+      fail(`Unknown variant ID ${change.variantId}`);
+      continue;
+    }
+    if (![change.oldQty, change.newQty].every((qty) => Number.isInteger(qty) && qty >= 0)) {
+      fail("Quantity must be a whole number of zero or more");
+      continue;
+    }
+    if (!location || variant.levels[location.id] === undefined) {
+      fail(`${variant.sku || variant.title} isn't stocked at ${location?.name ?? change.locationId}`);
+      continue;
+    }
+
+    const key = `${variant.inventoryItemId}|${location.id}`;
+    if (seen.has(key)) {
+      fail("Duplicate of an earlier row for the same variant and location");
+      continue;
+    }
+    seen.add(key);
+
+    verified.push({
+      productId: variant.productId,
+      variantId: variant.id,
+      inventoryItemId: variant.inventoryItemId,
+      locationId: location.id,
+      productTitle: variant.productTitle,
+      variantTitle: variant.title,
+      sku: variant.sku,
+      oldQty: change.oldQty,
+      newQty: change.newQty,
+    });
+  }
+
+  return { verified, failures };
+}
+
+/**
+ * Applies previewed changes in batches, after checking them again (see
+ * `verifyImportChanges`); changes that fail the check are reported and left
+ * out. Each batch is all-or-nothing (the previewed quantities are sent as
+ * `compareQuantity`) and is logged as its own batch in the inventory history,
+ * so a failure part-way leaves earlier batches applied and revertible.
+ */
+export async function applyInventoryImport(
+  admin: AdminApi,
+  shop: string,
+  changes: InventoryLevelChange[],
+  staff?: StaffUser | null,
+) {
+  const { verified, failures } = await verifyImportChanges(admin, changes);
+  let applied = 0;
+
+  for (let i = 0; i < verified.length; i += SET_QUANTITIES_BATCH_SIZE) {
+    const batch = verified.slice(i, i + SET_QUANTITIES_BATCH_SIZE);
+    const { userErrors } = await setInventoryQuantities(admin, batch);
+
+    if (userErrors.length > 0) {
+      failures.push({
+        skus: batch.map((change) => change.sku || change.variantId),
+        message: userErrors.map((e) => e.message).join(", "),
+      });
+      continue;
+    }
+
+    await recordInventoryBatch(shop, batch, { staff });
+    await updateSnapshotLevels(
+      prisma,
+      shop,
+      batch.map((change) => ({
+        inventoryItemId: change.inventoryItemId,
+        locationId: change.locationId,
+        available: change.newQty,
+      })),
+    );
+    applied += batch.length;
+  }
+
+  return { applied, failures };
+}
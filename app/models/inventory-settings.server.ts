@@ -0,0 +1,63 @@
+import type { InventorySettings } from "@prisma/client";
+import prisma from "../db.server";
+
+export type InventorySettingsInput = Omit<InventorySettings, "shop" | "updatedAt">;
+
+export const DEFAULT_INVENTORY_SETTINGS: InventorySettingsInput = {
+  defaultLowStockThreshold: null,
+  alertWebhookUrl: null,
+  alertEmail: null,
+  reorderLeadTimeDays: 7,
+  reorderCoverDays: 30,
+};
+
+export async function getInventorySettings(shop: string): Promise<InventorySettingsInput> {
+  const settings = await prisma.inventorySettings.findUnique({ where: { shop } });
+
+  if (!settings) {
+    return DEFAULT_INVENTORY_SETTINGS;
+  }
+
+  const { shop: _shop, updatedAt: _updatedAt, ...values } = settings;
+  return values;
+}
+
+export async function saveInventorySettings(shop: string, settings: Partial<InventorySettingsInput>) {
+  return prisma.inventorySettings.upsert({
+    where: { shop },
+    create: { shop, ...DEFAULT_INVENTORY_SETTINGS, ...settings },
+    update: settings,
+  });
+}
+
+/** Checks the settings given; any left out are unchanged by a save and aren't checked. */
+export function validateInventorySettings(settings: Partial<InventorySettingsInput>) {
+  const errors: string[] = [];
+
+  if (
+    settings.defaultLowStockThreshold != null &&
+    (!Number.isInteger(settings.defaultLowStockThreshold) || settings.defaultLowStockThreshold < 0)
+  ) {
+    errors.push("Default reorder point must be a whole number of zero or more");
+  }
+  if (settings.alertWebhookUrl && !/^https:\/\/\S+$/.test(settings.alertWebhookUrl)) {
+    errors.push("Alert webhook URL must start with https://");
+  }
+  if (settings.alertEmail && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(settings.alertEmail)) {
+    errors.push("Alert email must be a valid email address");
+  }
+  if (
+    settings.reorderLeadTimeDays !== undefined &&
+    (!Number.isInteger(settings.reorderLeadTimeDays) || settings.reorderLeadTimeDays < 0)
+  ) {
+    errors.push("Lead time must be a whole number of days");
+  }
+  if (
+    settings.reorderCoverDays !== undefined &&
+    (!Number.isInteger(settings.reorderCoverDays) || settings.reorderCoverDays < 1)
+  ) {
+    errors.push("Days of cover to reorder must be a whole number of at least 1");
+  }
+
+  return errors;
+}
@@ -0,0 +1,445 @@
+import { Prisma } from "@prisma/client";
+import type { InventorySync } from "@prisma/client";
+import prisma from "../db.server";
+import type { AdminApi } from "../shopify.server";
+import { adminGraphql, throwUserErrors } from "../graphql.server";
+import type { InventoryProduct } from "./inventory.server";
+
+export type SnapshotSort = "title" | "title-desc" | "sku" | "available" | "available-desc";
+
+export const SNAPSHOT_PAGE_SIZE = 25;
+
+/** A variant from the bulk operation's output (see SNAPSHOT_QUERY). */
+type SnapshotVariantLine = {
+  id: string;
+  title: string;
+  sku: string | null;
+  product: { id: string; title: string };
+  inventoryItem: { id: string } | null;
+};
+
+/** One of a variant's inventory levels, on its own line after the variant. */
+type SnapshotLevelLine = {
+  __parentId: string;
+  location: { id: string } | null;
+  quantities: Array<{ name: string; quantity: number }> | null;
+};
+
+export type SnapshotLine = SnapshotVariantLine | SnapshotLevelLine;
+
+// Rows are written in chunks to keep each insert statement a manageable size
+const SNAPSHOT_WRITE_CHUNK = 1000;
+
+// An import still going after this long lost its worker
+const STALE_IMPORT_MS = 60 * 60 * 1000;
+
+// Bulk queries allow two levels of nested connections, so this starts from
+// variants rather than products
+const SNAPSHOT_QUERY = `
+  {
+    productVariants {
+      edges {
+        node {
+          id
+          title
+          sku
+          product { id title }
+          inventoryItem {
+            id
+            inventoryLevels {
+              edges {
+                node {
+                  location { id }
+                  quantities(names: ["available"]) { name quantity }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Starts a bulk operation exporting every variant's inventory levels. Shopify
+ * runs it in the background and sends `bulk_operations/finish` when done,
+ * which hands over to `completeInventorySync`.
+ */
+export async function startInventorySync(admin: AdminApi, shop: string) {
+  await failStaleInventoryImports(shop);
+
+  // An import clears out every other sync's rows when it finishes
+  const inProgress = await prisma.inventorySync.findFirst({
+    where: { shop, status: { in: ["RUNNING", "IMPORTING"] } },
+  });
+  if (inProgress) {
+    throw new Error("An inventory sync is already in progress");
+  }
+
+  const data = await adminGraphql(admin, `#graphql
+    mutation RunInventorySnapshotQuery($query: String!) {
+      bulkOperationRunQuery(query: $query) {
+        bulkOperation {
+          id
+          status
+        }
+        userErrors {
+          field
+          message
+        }
+      }
+    }
+  `, {
+    variables: { query: SNAPSHOT_QUERY },
+  });
+  const result = data.bulkOperationRunQuery;
+
+  throwUserErrors(result);
+  if (!result?.bulkOperation?.id) {
+    throw new Error("Shopify didn't start the bulk operation");
+  }
+
+  return prisma.inventorySync.create({
+    data: { shop, bulkOperationId: result.bulkOperation.id },
+  });
+}
+
+export async function getLatestInventorySync(shop: string) {
+  return prisma.inventorySync.findFirst({
+    where: { shop },
+    orderBy: { startedAt: "desc" },
+  });
+}
+
+/** The sync the inventory page reads from: the newest one that completed. */
+export async function getCurrentInventorySync(shop: string) {
+  return prisma.inventorySync.findFirst({
+    where: { shop, status: "COMPLETED" },
+    orderBy: { completedAt: "desc" },
+  });
+}
+
+/**
+ * Marks syncs whose import started over an hour ago as failed and drops the
+ * rows they wrote, so a worker that died mid-import doesn't block every
+ * later sync.
+ */
+export async function failStaleInventoryImports(shop: string, now = new Date()) {
+  const stale = await prisma.inventorySync.findMany({
+    where: { shop, status: "IMPORTING", importStartedAt: { lt: new Date(now.getTime() - STALE_IMPORT_MS) } },
+    select: { id: true },
+  });
+  if (stale.length === 0) {
+    return 0;
+  }
+
+  const ids = stale.map((sync) => sync.id);
+  await prisma.$transaction([
+    prisma.inventorySnapshot.deleteMany({ where: { syncId: { in: ids } } }),
+    prisma.inventorySync.updateMany({
+      where: { id: { in: ids }, status: "IMPORTING" },
+      data: { status: "FAILED", error: "The import didn't finish", completedAt: now },
+    }),
+  ]);
+
+  return ids.length;
+}
+
+/**
+ * Picks up a finished bulk operation: imports its result when it completed,
+ * otherwise records why it didn't. Operations still running, ones the app
+ * didn't start through `startInventorySync` and ones already picked up are
+ * left alone, so this is safe to call from the import job and the refresh job.
+ */
+export async function completeInventorySync(admin: AdminApi, shop: string, bulkOperationId: string) {
+  const data = await adminGraphql(admin, `#graphql
+    query GetBulkOperation($id: ID!) {
+      node(id: $id) {
+        ... on BulkOperation {
+          status
+          errorCode
+          url
+        }
+      }
+    }
+  `, {
+    variables: { id: bulkOperationId },
+  });
+  const operation = data.node && "status" in data.node ? data.node : null;
+
+  if (operation?.status === "CREATED" || operation?.status === "RUNNING") {
+    return null;
+  }
+
+  // Claim the sync so a repeated webhook or an overlapping job can't import twice
+  const { count } = await prisma.inventorySync.updateMany({
+    where: { shop, bulkOperationId, status: "RUNNING" },
+    data: { status: "IMPORTING", importStartedAt: new Date() },
+  });
+  if (count === 0) {
+    return null;
+  }
+
+  const sync = await prisma.inventorySync.findUniqueOrThrow({ where: { bulkOperationId } });
+
+  if (operation?.status !== "COMPLETED") {
+    return prisma.inventorySync.update({
+      where: { id: sync.id },
+      data: {
+        status: "FAILED",
+        error: operation?.errorCode ?? operation?.status ?? "Bulk operation not found",
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  return importInventorySnapshot(sync, operation.url);
+}
+
+/**
+ * Starts a fresh sync unless one is already on its way. A sync still marked
+ * running is checked first, which also picks up any whose finish webhook was
+ * missed, and one stuck importing for over an hour is given up on.
+ */
+export async function refreshInventorySnapshot(admin: AdminApi, shop: string) {
+  await failStaleInventoryImports(shop);
+  const latest = await getLatestInventorySync(shop);
+
+  if (latest?.status === "RUNNING") {
+    const completed = await completeInventorySync(admin, shop, latest.bulkOperationId);
+    if (!completed) {
+      return { started: false, status: latest.status };
+    }
+  }
+  if (latest?.status === "IMPORTING") {
+    return { started: false, status: latest.status };
+  }
+
+  const sync = await startInventorySync(admin, shop);
+  return { started: true, bulkOperationId: sync.bulkOperationId };
+}
+
+/**
+ * Reads a JSONL file line by line without holding the whole download in
+ * memory. Shopify serves bulk results from a signed URL, but any HTTP server
+ * will do, which lets a local stand-in serve fixtures.
+ */
+export async function* readJsonLines<Line>(url: string): AsyncGenerator<Line> {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Downloading ${url} failed with status ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += value ?? "";
+
+    const lines = buffer.split("\n");
+    buffer = done ? "" : (lines.pop() as string);
+
+    for (const line of lines) {
+      if (line.trim()) {
+        yield JSON.parse(line) as Line;
+      }
+    }
+
+    if (done) {
+      return;
+    }
+  }
+}
+
+/**
+ * Turns bulk operation output into snapshot rows as it is read. Variants come
+ * out as their own lines and each inventory level as a separate line after
+ * its variant, pointing back at it through `__parentId`.
+ */
+export async function* parseSnapshotLines(lines: AsyncIterable<SnapshotLine>) {
+  const variants = new Map<string, SnapshotVariantLine>();
+
+  for await (const line of lines) {
+    if (!("__parentId" in line)) {
+      if (line.id.startsWith("gid://shopify/ProductVariant/")) {
+        variants.set(line.id, line);
+      }
+      continue;
+    }
+
+    const variant = variants.get(line.__parentId);
+    if (!variant?.inventoryItem || !line.location) {
+      continue;
+    }
+
+    yield {
+      productId: variant.product.id,
+      productTitle: variant.product.title,
+      variantId: variant.id,
+      variantTitle: variant.title,
+      sku: variant.sku || null,
+      inventoryItemId: variant.inventoryItem.id,
+      locationId: line.location.id,
+      available: line.quantities?.find((quantity) => quantity.name === "available")?.quantity ?? 0,
+    };
+  }
+}
+
+/**
+ * Loads a bulk operation result into the snapshot, writing each chunk of rows
+ * as soon as it is read. Rows are written under the sync's ID and only become
+ * visible when the sync is marked completed, at which point the previous
+ * snapshot's rows are dropped. `url` is null when the shop has no variants.
+ */
+export async function importInventorySnapshot(sync: InventorySync, url: string | null) {
+  try {
+    let rowCount = 0;
+    let chunk: Prisma.InventorySnapshotCreateManyInput[] = [];
+
+    const writeChunk = async () => {
+      await prisma.inventorySnapshot.createMany({ data: chunk });
+      rowCount += chunk.length;
+      chunk = [];
+    };
+
+    if (url) {
+      for await (const row of parseSnapshotLines(readJsonLines<SnapshotLine>(url))) {
+        chunk.push({ ...row, shop: sync.shop, syncId: sync.id });
+        if (chunk.length === SNAPSHOT_WRITE_CHUNK) {
+          await writeChunk();
+        }
+      }
+      if (chunk.length > 0) {
+        await writeChunk();
+      }
+    }
+
+    const [completed] = await prisma.$transaction([
+      prisma.inventorySync.update({
+        where: { id: sync.id },
+        data: { status: "COMPLETED", rowCount, completedAt: new Date() },
+      }),
+      prisma.inventorySnapshot.deleteMany({
+        where: { shop: sync.shop, syncId: { not: sync.id } },
+      }),
+    ]);
+
+    return completed;
+  } catch (error) {
+    // Don't leave a partial import behind
+    await prisma.inventorySnapshot.deleteMany({ where: { syncId: sync.id } });
+
+    return prisma.inventorySync.update({
+      where: { id: sync.id },
+      data: {
+        status: "FAILED",
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      },
+    });
+  }
+}
+
+const SORT_ORDER: Record<SnapshotSort, Prisma.Sql> = {
+  title: Prisma.sql`"productTitle" ASC, "variantTitle" ASC`,
+  "title-desc": Prisma.sql`"productTitle" DESC, "variantTitle" DESC`,
+  sku: Prisma.sql`"sku" ASC, "productTitle" ASC`,
+  available: Prisma.sql`"available" ASC, "productTitle" ASC`,
+  "available-desc": Prisma.sql`"available" DESC, "productTitle" ASC`,
+};
+
+/**
+ * One page of the snapshot in the shape `getInventoryProducts` returns, so the
+ * inventory page can render either. Paged by variant; a product whose variants
+ * straddle pages appears on both.
+ */
+export async function getSnapshotProducts(
+  shop: string,
+  syncId: string,
+  { searchTerm = "", sort = "title", page = 0 }: { searchTerm?: string; sort?: SnapshotSort; page?: number },
+) {
+  const pattern = `%${searchTerm.replace(/[\\%_]/g, "\\$&")}%`;
+  const search = searchTerm
+    ? Prisma.sql`AND ("productTitle" ILIKE ${pattern} OR "variantTitle" ILIKE ${pattern} OR "sku" ILIKE ${pattern})`
+    : Prisma.empty;
+
+  // One extra row to tell whether there is a next page
+  const variants = await prisma.$queryRaw<
+    Array<{
+      productId: string;
+      productTitle: string;
+      variantId: string;
+      variantTitle: string;
+      sku: string | null;
+      inventoryItemId: string;
+    }>
+  >`SELECT "productId", "productTitle", "variantId", "variantTitle", "sku", "inventoryItemId", SUM("available") AS "available"
+    FROM "InventorySnapshot"
+    WHERE "shop" = ${shop} AND "syncId" = ${syncId} ${search}
+    GROUP BY "productId", "productTitle", "variantId", "variantTitle", "sku", "inventoryItemId"
+    ORDER BY ${SORT_ORDER[sort]}, "variantId" ASC
+    LIMIT ${SNAPSHOT_PAGE_SIZE + 1} OFFSET ${page * SNAPSHOT_PAGE_SIZE}`;
+
+  const pageVariants = variants.slice(0, SNAPSHOT_PAGE_SIZE);
+  const levels = await prisma.inventorySnapshot.findMany({
+    where: { syncId, variantId: { in: pageVariants.map((variant) => variant.variantId) } },
+    select: { variantId: true, locationId: true, available: true },
+  });
+
+  const products: InventoryProduct[] = [];
+  for (const variant of pageVariants) {
+    let product = products[products.length - 1];
+    if (product?.id !== variant.productId) {
+      product = { id: variant.productId, title: variant.productTitle, variants: [] };
+      products.push(product);
+    }
+
+    product.variants.push({
+      id: variant.variantId,
+      title: variant.variantTitle,
+      sku: variant.sku ?? "",
+      inventoryItemId: variant.inventoryItemId,
+      levels: Object.fromEntries(
+        levels
+          .filter((level) => level.variantId === variant.variantId)
+          .map((level) => [level.locationId, level.available]),
+      ),
+    });
+  }
+
+  return { products, hasNextPage: variants.length > SNAPSHOT_PAGE_SIZE };
+}
+
+/** Catalog-wide totals for a snapshot. */
+export async function getInventorySnapshotSummary(shop: string, syncId: string) {
+  const [summary] = await prisma.$queryRaw<
+    Array<{ variants: bigint; units: bigint | null; outOfStock: bigint }>
+  >`SELECT COUNT(DISTINCT "variantId") AS "variants", SUM("available") AS "units", COUNT(*) FILTER (WHERE "available" <= 0) AS "outOfStock" FROM "InventorySnapshot" WHERE "shop" = ${shop} AND "syncId" = ${syncId}`;
+
+  return {
+    variants: Number(summary?.variants ?? 0),
+    units: Number(summary?.units ?? 0),
+    /** Levels, not variants, at zero or below. */
+    outOfStockLevels: Number(summary?.outOfStock ?? 0),
+  };
+}
+
+/**
+ * Keeps the snapshot in step with changes made after it was taken, from our
+ * own saves and from `inventory_levels/update`. Levels the snapshot doesn't
+ * have yet are picked up by the next sync.
+ */
+export async function updateSnapshotLevels(
+  db: Prisma.TransactionClient,
+  shop: string,
+  levels: Array<{ inventoryItemId: string; locationId: string; available: number }>,
+) {
+  for (const { inventoryItemId, locationId, available } of levels) {
+    await db.inventorySnapshot.updateMany({
+      where: { shop, inventoryItemId, locationId },
+      data: { available },
+    });
+  }
+}
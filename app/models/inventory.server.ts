@@ -0,0 +1,723 @@
+import { randomUUID } from "crypto";
+import type { InventoryLog, Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import type { AdminApi } from "../shopify.server";
+import { adminGraphql, paginateConnection, throwUserErrors } from "../graphql.server";
+import type { StaffUser } from "./staff.server";
+
+export type InventoryLocation = {
+  id: string;
+  name: string;
+};
+
+export type InventoryProduct = {
+  id: string;
+  title: string;
+  variants: Array<{
+    id: string;
+    title: string;
+    sku: string;
+    inventoryItemId?: string;
+    /** `available` quantity by location ID; locations that don't stock the item are absent. */
+    levels: Record<string, number>;
+  }>;
+};
+
+export type InventoryLevelChange = {
+  productId: string;
+  variantId: string;
+  inventoryItemId: string;
+  locationId: string;
+  productTitle?: string | null;
+  variantTitle?: string | null;
+  sku?: string | null;
+  oldQty: number;
+  newQty: number;
+};
+
+export type InventoryHistoryFilters = {
+  product?: string;
+  variant?: string;
+  sku?: string;
+  staff?: string;
+  from?: Date | null;
+  to?: Date | null;
+};
+
+export type InventoryBatch = {
+  batchId: string;
+  updatedAt: Date;
+  staffName: string | null;
+  revertedBatchId: string | null;
+  /** The batch that later undid this one, if any. */
+  revertedBy: string | null;
+  rows: InventoryLog[];
+};
+
+export type QuantityDrift = {
+  inventoryItemId: string;
+  locationId: string;
+  expected: number;
+  actual: number | null;
+};
+
+/** A quantity Shopify changed on a level, by name such as `available`. */
+export type InventoryQuantityChange = {
+  name: string;
+  delta: number;
+};
+
+/** One level's change as applied by `inventoryAdjustQuantities`. */
+export type InventoryAdjustmentResult = InventoryQuantityChange & {
+  quantityAfterChange: number | null;
+  inventoryItemId: string;
+  locationId: string;
+};
+
+/** A change whose level moved after it was read, with the level's quantity now. */
+export type InventoryConflict = InventoryLevelChange & {
+  /** Null when the location no longer stocks the item. */
+  current: number | null;
+};
+
+export const HISTORY_PAGE_SIZE = 20;
+
+/**
+ * The adjustment reasons Shopify accepts for staff-entered changes to
+ * `available`, in the order the reason picker shows them.
+ */
+export const INVENTORY_ADJUSTMENT_REASONS = [
+  { value: "correction", label: "Correction" },
+  { value: "received", label: "Received" },
+  { value: "restock", label: "Restock" },
+  { value: "cycle_count_available", label: "Cycle count" },
+  { value: "damaged", label: "Damaged" },
+  { value: "shrinkage", label: "Shrinkage" },
+  { value: "quality_control", label: "Quality control" },
+  { value: "promotion", label: "Promotion or donation" },
+  { value: "safety_stock", label: "Safety stock" },
+  { value: "other", label: "Other" },
+];
+
+export function isInventoryAdjustmentReason(reason: string) {
+  return INVENTORY_ADJUSTMENT_REASONS.some((option) => option.value === reason);
+}
+
+export async function getLocations(admin: AdminApi): Promise<InventoryLocation[]> {
+  return paginateConnection(async (after) => {
+    const data = await adminGraphql(admin, `#graphql
+      query GetLocations($after: String) {
+        locations(first: 250, after: $after, sortKey: NAME) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            id
+            name
+          }
+        }
+      }
+    `, {
+      variables: { after },
+    });
+
+    return data?.locations;
+  });
+}
+
+/**
+ * Turns the Bulk Inventory Manager's search box into a products query. Plain
+ * terms match anywhere in product or variant names or SKUs; anything with a
+ * `:` is passed through as Shopify search syntax.
+ */
+export function productSearchQuery(searchTerm: string) {
+  if (searchTerm && !searchTerm.includes(":")) {
+    return `(title:*${searchTerm}* OR variant_title:*${searchTerm}* OR sku:*${searchTerm}*)`;
+  }
+  return searchTerm;
+}
+
+/**
+ * One page of products with the `available` quantity of each variant at
+ * every location that stocks it.
+ */
+export async function getInventoryProducts(
+  admin: AdminApi,
+  {
+    first = null,
+    last = null,
+    after = null,
+    before = null,
+    searchTerm = "",
+    locationCount,
+  }: {
+    first?: number | null;
+    last?: number | null;
+    after?: string | null;
+    before?: string | null;
+    searchTerm?: string;
+    locationCount: number;
+  },
+) {
+  const data = await adminGraphql(admin, `#graphql
+    query GetProducts($first: Int, $last: Int, $after: String, $before: String, $query: String, $levels: Int!) {
+      products(first: $first, last: $last, after: $after, before: $before, query: $query) {
+        pageInfo {
+          hasNextPage
+          hasPreviousPage
+          startCursor
+          endCursor
+        }
+        nodes {
+          id
+          title
+          variants(first: 20) {
+            nodes {
+              id
+              title
+              sku
+              inventoryItem {
+                id
+                inventoryLevels(first: $levels) {
+                  nodes {
+                    quantities(names: ["available"]) {
+                      name
+                      quantity
+                    }
+                    location {
+                      id
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  `, {
+    variables: {
+      first,
+      last,
+      after,
+      before,
+      query: productSearchQuery(searchTerm),
+      // One level per location is all we can get back, so don't pay for more
+      levels: Math.max(locationCount, 1),
+    },
+  });
+  const products = data.products;
+
+  return {
+    products: products.nodes.map(
+      (product): InventoryProduct => ({
+        id: product.id,
+        title: product.title,
+        variants: product.variants.nodes.map((variant) => ({
+          id: variant.id,
+          title: variant.title,
+          sku: variant.sku || "",
+          inventoryItemId: variant.inventoryItem?.id,
+          levels: levelsByLocation(variant.inventoryItem?.inventoryLevels?.nodes),
+        })),
+      }),
+    ),
+    pageInfo: {
+      hasNextPage: products.pageInfo.hasNextPage,
+      hasPreviousPage: products.pageInfo.hasPreviousPage,
+      startCursor: products.pageInfo.startCursor ?? null,
+      endCursor: products.pageInfo.endCursor ?? null,
+    },
+  };
+}
+
+type AvailableLevel = {
+  location: { id: string };
+  quantities: Array<{ name: string; quantity: number }>;
+};
+
+function availableQuantity(level: AvailableLevel) {
+  return level.quantities.find((q) => q.name === "available")?.quantity ?? 0;
+}
+
+function levelsByLocation(levels: AvailableLevel[] | undefined): Record<string, number> {
+  return Object.fromEntries((levels || []).map((level) => [level.location.id, availableQuantity(level)]));
+}
+
+/**
+ * Sets `available` quantities through `inventorySetQuantities`. Each change's
+ * old quantity is sent as `compareQuantity`, so Shopify rejects the whole
+ * call if any level moved since it was read.
+ */
+export async function setInventoryQuantities(
+  admin: AdminApi,
+  changes: InventoryLevelChange[],
+  reason = "correction",
+) {
+  const data = await adminGraphql(
+    admin,
+    `#graphql
+    mutation inventorySetQuantities($input: InventorySetQuantitiesInput!) {
+      inventorySetQuantities(input: $input) {
+        userErrors {
+          field
+          message
+        }
+        inventoryAdjustmentGroup {
+          createdAt
+          changes {
+            name
+            delta
+          }
+        }
+      }
+    }`,
+    {
+      variables: {
+        input: {
+          reason,
+          name: "available",
+          quantities: changes.map((change) => ({
+            inventoryItemId: change.inventoryItemId,
+            locationId: change.locationId,
+            quantity: change.newQty,
+            compareQuantity: change.oldQty,
+          })),
+        },
+      },
+    },
+  );
+
+  const result = data?.inventorySetQuantities;
+
+  // Rejected compareQuantity checks come back as user errors; callers decide what to do about them
+  return {
+    userErrors: result?.userErrors || [],
+    changes: (result?.inventoryAdjustmentGroup?.changes || []) satisfies InventoryQuantityChange[],
+  };
+}
+
+/**
+ * Adds to or takes from `available` quantities through
+ * `inventoryAdjustQuantities`. Deltas don't depend on the quantity they were
+ * entered against, so unlike a set this never conflicts with other edits.
+ * Returns each level's quantity after the change.
+ */
+export async function adjustInventoryQuantities(
+  admin: AdminApi,
+  adjustments: Array<{ inventoryItemId: string; locationId: string; delta: number }>,
+  reason = "correction",
+) {
+  const data = await adminGraphql(
+    admin,
+    `#graphql
+    mutation inventoryAdjustQuantities($input: InventoryAdjustQuantitiesInput!) {
+      inventoryAdjustQuantities(input: $input) {
+        userErrors {
+          field
+          message
+        }
+        inventoryAdjustmentGroup {
+          createdAt
+          changes {
+            name
+            delta
+            quantityAfterChange
+            item { id }
+            location { id }
+          }
+        }
+      }
+    }`,
+    {
+      variables: {
+        input: {
+          reason,
+          name: "available",
+          changes: adjustments.map(({ inventoryItemId, locationId, delta }) => ({
+            inventoryItemId,
+            locationId,
+            delta,
+          })),
+        },
+      },
+    },
+  );
+
+  const result = data?.inventoryAdjustQuantities;
+
+  return {
+    userErrors: result?.userErrors || [],
+    changes: (result?.inventoryAdjustmentGroup?.changes || []).map(
+      (change): InventoryAdjustmentResult => ({
+        name: change.name,
+        delta: change.delta,
+        quantityAfterChange: change.quantityAfterChange ?? null,
+        inventoryItemId: change.item?.id ?? "",
+        locationId: change.location?.id ?? "",
+      }),
+    ),
+  };
+}
+
+/**
+ * Writes the log rows for one save under a shared batch ID.
+ */
+export async function recordInventoryBatch(
+  shop: string,
+  changes: InventoryLevelChange[],
+  {
+    staff,
+    reason = "correction",
+    revertedBatchId = null,
+    transferId = null,
+  }: {
+    staff?: StaffUser | null;
+    reason?: string;
+    revertedBatchId?: string | null;
+    transferId?: string | null;
+  } = {},
+) {
+  const batchId = randomUUID();
+  const updatedAt = new Date();
+
+  await prisma.inventoryLog.createMany({
+    data: changes.map((change) => ({
+      shop,
+      batchId,
+      productId: change.productId,
+      variantId: change.variantId,
+      inventoryItemId: change.inventoryItemId,
+      locationId: change.locationId,
+      productTitle: change.productTitle ?? null,
+      variantTitle: change.variantTitle ?? null,
+      sku: change.sku ?? null,
+      oldQty: change.oldQty,
+      newQty: change.newQty,
+      reason,
+      staffUserId: staff?.id ?? null,
+      staffName: staff?.name ?? null,
+      revertedBatchId,
+      transferId,
+      updatedAt,
+    })),
+  });
+
+  return batchId;
+}
+
+function historyWhere(shop: string, filters: InventoryHistoryFilters): Prisma.InventoryLogWhereInput {
+  const contains = (value?: string) =>
+    value ? { contains: value, mode: "insensitive" as const } : undefined;
+
+  return {
+    shop,
+    productTitle: contains(filters.product),
+    variantTitle: contains(filters.variant),
+    sku: contains(filters.sku),
+    ...(filters.staff && {
+      OR: [{ staffUserId: filters.staff }, { staffName: filters.staff }],
+    }),
+    ...((filters.from || filters.to) && {
+      updatedAt: {
+        ...(filters.from && { gte: filters.from }),
+        ...(filters.to && { lte: filters.to }),
+      },
+    }),
+  };
+}
+
+/**
+ * Save batches with at least one row matching the filters, newest first.
+ * Each batch comes back whole so it can be reviewed and reverted as a unit.
+ */
+export async function getInventoryBatches(
+  shop: string,
+  filters: InventoryHistoryFilters,
+  page = 0,
+) {
+  const groups = await prisma.inventoryLog.groupBy({
+    by: ["batchId"],
+    where: historyWhere(shop, filters),
+    _max: { updatedAt: true },
+    orderBy: { _max: { updatedAt: "desc" } },
+    skip: page * HISTORY_PAGE_SIZE,
+    // One extra to tell whether there is another page
+    take: HISTORY_PAGE_SIZE + 1,
+  });
+
+  const batchIds = groups.slice(0, HISTORY_PAGE_SIZE).map((group) => group.batchId);
+
+  const [rows, reverts] = await Promise.all([
+    prisma.inventoryLog.findMany({
+      where: { shop, batchId: { in: batchIds } },
+      orderBy: [{ productTitle: "asc" }, { variantTitle: "asc" }],
+    }),
+    prisma.inventoryLog.findMany({
+      where: { shop, revertedBatchId: { in: batchIds } },
+      select: { batchId: true, revertedBatchId: true },
+      distinct: ["revertedBatchId"],
+    }),
+  ]);
+
+  const batches: InventoryBatch[] = batchIds.map((batchId) => {
+    const batchRows = rows.filter((row) => row.batchId === batchId);
+    return {
+      batchId,
+      updatedAt: batchRows[0].updatedAt,
+      staffName: batchRows[0].staffName ?? batchRows[0].staffUserId,
+      revertedBatchId: batchRows[0].revertedBatchId,
+      revertedBy: reverts.find((revert) => revert.revertedBatchId === batchId)?.batchId ?? null,
+      rows: batchRows,
+    };
+  });
+
+  return { batches, hasNextPage: groups.length > HISTORY_PAGE_SIZE };
+}
+
+/**
+ * The latest logged level changes, row by row rather than by batch.
+ */
+export async function getRecentInventoryChanges(shop: string, take = 8) {
+  return prisma.inventoryLog.findMany({
+    where: { shop },
+    orderBy: { updatedAt: "desc" },
+    take,
+  });
+}
+
+/**
+ * Staff members who appear in the shop's inventory history, for filtering.
+ */
+export async function getInventoryStaff(shop: string) {
+  const staff = await prisma.inventoryLog.findMany({
+    where: { shop, staffUserId: { not: null } },
+    select: { staffUserId: true, staffName: true },
+    distinct: ["staffUserId"],
+  });
+
+  return staff.map(({ staffUserId, staffName }) => ({
+    id: staffUserId as string,
+    name: staffName ?? (staffUserId as string),
+  }));
+}
+
+/**
+ * The live `available` quantity of each item at every location that stocks
+ * it, keyed by `inventoryItemId|locationId`.
+ */
+export async function getCurrentQuantities(admin: AdminApi, inventoryItemIds: string[]) {
+  const itemIds = [...new Set(inventoryItemIds)];
+  const current: Record<string, number> = {};
+
+  // Batched to keep each query well under the Admin API cost limit
+  for (let i = 0; i < itemIds.length; i += 50) {
+    const data = await adminGraphql(admin, `#graphql
+      query GetCurrentLevels($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          ... on InventoryItem {
+            id
+            inventoryLevels(first: 50) {
+              nodes {
+                location { id }
+                quantities(names: ["available"]) { name quantity }
+              }
+            }
+          }
+        }
+      }
+    `, {
+      variables: { ids: itemIds.slice(i, i + 50) },
+    });
+    // Items deleted since they were read come back as null
+    for (const item of (data?.nodes || []).filter((node) => node !== null)) {
+      for (const level of item.inventoryLevels.nodes) {
+        current[`${item.id}|${level.location.id}`] = availableQuantity(level);
+      }
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Starts stocking items at locations that don't stock them yet, so they can
+ * be given a quantity there.
+ */
+export async function activateInventoryLevels(
+  admin: AdminApi,
+  levels: Array<{ inventoryItemId: string; locationId: string }>,
+) {
+  for (const { inventoryItemId, locationId } of levels) {
+    const data = await adminGraphql(
+      admin,
+      `#graphql
+      mutation inventoryActivate($inventoryItemId: ID!, $locationId: ID!) {
+        inventoryActivate(inventoryItemId: $inventoryItemId, locationId: $locationId) {
+          userErrors {
+            field
+            message
+          }
+        }
+      }`,
+      { variables: { inventoryItemId, locationId } },
+    );
+    throwUserErrors(data?.inventoryActivate);
+  }
+}
+
+/**
+ * Looks up the variant with exactly this SKU. Throws when no variant or more
+ * than one variant has it.
+ */
+export async function findVariantBySku(admin: AdminApi, sku: string) {
+  const data = await adminGraphql(admin, `#graphql
+    query FindVariantBySku($query: String!) {
+      productVariants(first: 10, query: $query) {
+        nodes {
+          id
+          sku
+          title
+          product { id title }
+          inventoryItem { id }
+        }
+      }
+    }
+  `, {
+    variables: { query: `sku:"${sku.replace(/["\\]/g, "\\$&")}"` },
+  });
+  // Search matching is looser than we want, so keep exact SKU matches only
+  const matches = (data?.productVariants?.nodes || []).filter(
+    (variant) => variant.sku === sku && variant.inventoryItem,
+  );
+
+  if (matches.length === 0) {
+    throw new Error(`No variant has the SKU ${sku}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`SKU ${sku} is shared by ${matches.length} variants`);
+  }
+
+  const [variant] = matches;
+  return {
+    productId: variant.product.id,
+    variantId: variant.id,
+    inventoryItemId: variant.inventoryItem.id,
+    productTitle: variant.product.title,
+    variantTitle: variant.title,
+    sku,
+  };
+}
+
+/**
+ * Reads the current `available` quantity of each level and returns the ones
+ * that no longer match what we expect them to be.
+ */
+export async function findQuantityDrift(
+  admin: AdminApi,
+  expected: Array<{ inventoryItemId: string; locationId: string; quantity: number }>,
+) {
+  const current = await getCurrentQuantities(
+    admin,
+    expected.map((level) => level.inventoryItemId),
+  );
+
+  return expected
+    .map((level): QuantityDrift => ({
+      inventoryItemId: level.inventoryItemId,
+      locationId: level.locationId,
+      expected: level.quantity,
+      actual: current[`${level.inventoryItemId}|${level.locationId}`] ?? null,
+    }))
+    .filter((level) => level.actual !== level.expected);
+}
+
+/**
+ * After `inventorySetQuantities` rejects a save, works out which changes
+ * caused it: those whose level no longer holds the quantity they were edited
+ * from. Empty when the failure had some other cause.
+ */
+export async function findInventoryConflicts(
+  admin: AdminApi,
+  changes: InventoryLevelChange[],
+): Promise<InventoryConflict[]> {
+  const drift = await findQuantityDrift(
+    admin,
+    changes.map((change) => ({
+      inventoryItemId: change.inventoryItemId,
+      locationId: change.locationId,
+      quantity: change.oldQty,
+    })),
+  );
+
+  return changes.flatMap((change) => {
+    const level = drift.find(
+      (d) => d.inventoryItemId === change.inventoryItemId && d.locationId === change.locationId,
+    );
+    return level ? [{ ...change, current: level.actual }] : [];
+  });
+}
+
+/**
+ * Puts a batch's old quantities back. Refuses if any level has moved since the
+ * batch was saved, both by checking up front (to say which ones) and through
+ * `compareQuantity` (to close the gap between that check and the write).
+ */
+export async function revertInventoryBatch(
+  admin: AdminApi,
+  shop: string,
+  batchId: string,
+  staff?: StaffUser | null,
+) {
+  const rows = await prisma.inventoryLog.findMany({ where: { shop, batchId } });
+
+  if (rows.length === 0) {
+    throw new Error("Batch not found");
+  }
+  if (rows.some((row) => row.transferId)) {
+    throw new Error("Stock transfers can't be reverted from history");
+  }
+  if (rows.some((row) => !row.inventoryItemId || !row.locationId)) {
+    throw new Error("This batch was saved before locations were recorded and can't be reverted");
+  }
+
+  const alreadyReverted = await prisma.inventoryLog.findFirst({ where: { shop, revertedBatchId: batchId } });
+  if (alreadyReverted) {
+    throw new Error("This batch has already been reverted");
+  }
+
+  const changes: InventoryLevelChange[] = rows.map((row) => ({
+    productId: row.productId,
+    variantId: row.variantId,
+    inventoryItemId: row.inventoryItemId as string,
+    locationId: row.locationId as string,
+    productTitle: row.productTitle,
+    variantTitle: row.variantTitle,
+    sku: row.sku,
+    oldQty: row.newQty,
+    newQty: row.oldQty,
+  }));
+
+  const drift = await findQuantityDrift(
+    admin,
+    changes.map((change) => ({
+      inventoryItemId: change.inventoryItemId,
+      locationId: change.locationId,
+      quantity: change.oldQty,
+    })),
+  );
+
+  if (drift.length > 0) {
+    return { reverted: false as const, drift };
+  }
+
+  const { userErrors } = await setInventoryQuantities(admin, changes);
+  if (userErrors.length > 0) {
+    throw new Error(userErrors.map((e) => e.message).join(", "));
+  }
+
+  const revertBatchId = await recordInventoryBatch(shop, changes, { staff, revertedBatchId: batchId });
+
+  return { reverted: true as const, batchId: revertBatchId };
+}
@@ -0,0 +1,329 @@
+import type { LowStockAlert, Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import type { AdminApi } from "../shopify.server";
+import { enqueueJob } from "../queue.server";
+import type { InventorySettingsInput } from "./inventory-settings.server";
+import { getInventorySettings } from "./inventory-settings.server";
+
+export type LowStockThresholdInput = {
+  inventoryItemId: string;
+  variantId: string;
+  /** Empty for every location without a reorder point of its own. */
+  locationId: string;
+  productTitle?: string | null;
+  variantTitle?: string | null;
+  sku?: string | null;
+  threshold: number;
+};
+
+export type LowStockCheck =
+  | { status: "untracked"; resolved: boolean }
+  | { status: "ok"; resolved: boolean }
+  | { status: "low"; alert: LowStockAlert | null };
+
+// A slow endpoint holds up a worker slot; a timed-out delivery is retried
+const NOTIFY_TIMEOUT_MS = 5000;
+
+export async function getLowStockThresholds(shop: string) {
+  return prisma.lowStockThreshold.findMany({
+    where: { shop },
+    orderBy: [{ productTitle: "asc" }, { variantTitle: "asc" }, { locationId: "asc" }],
+  });
+}
+
+export function validateLowStockThreshold(input: LowStockThresholdInput) {
+  const errors: string[] = [];
+
+  if (!input.inventoryItemId || !input.variantId) {
+    errors.push("Choose a variant");
+  }
+  if (!Number.isInteger(input.threshold) || input.threshold < 0) {
+    errors.push("Reorder point must be a whole number of zero or more");
+  }
+
+  return errors;
+}
+
+export async function saveLowStockThreshold(shop: string, input: LowStockThresholdInput) {
+  const { inventoryItemId, locationId, ...values } = input;
+
+  return prisma.lowStockThreshold.upsert({
+    where: { shop_inventoryItemId_locationId: { shop, inventoryItemId, locationId } },
+    create: { shop, inventoryItemId, locationId, ...values },
+    update: values,
+  });
+}
+
+/**
+ * Removes a reorder point and resolves the open alerts it leaves without one,
+ * since nothing would close them otherwise. A level still covered by a
+ * variant-wide reorder point or the shop default keeps its alert.
+ */
+export async function deleteLowStockThreshold(shop: string, id: string) {
+  const settings = await getInventorySettings(shop);
+
+  return prisma.$transaction(async (tx) => {
+    const threshold = await tx.lowStockThreshold.findFirst({ where: { shop, id } });
+    if (!threshold) {
+      return { deleted: false, resolved: 0 };
+    }
+
+    await tx.lowStockThreshold.delete({ where: { id: threshold.id } });
+
+    const openAlerts = await tx.lowStockAlert.findMany({
+      where: {
+        shop,
+        inventoryItemId: threshold.inventoryItemId,
+        // A variant-wide reorder point applied at every location
+        ...(threshold.locationId && { locationId: threshold.locationId }),
+        resolvedAt: null,
+      },
+    });
+
+    const untracked: string[] = [];
+    for (const alert of openAlerts) {
+      if (!(await findThreshold(tx, shop, alert.inventoryItemId, alert.locationId, settings))) {
+        untracked.push(alert.id);
+      }
+    }
+
+    if (untracked.length > 0) {
+      await tx.lowStockAlert.updateMany({
+        where: { id: { in: untracked } },
+        data: { resolvedAt: new Date() },
+      });
+    }
+
+    return { deleted: true, resolved: untracked.length };
+  });
+}
+
+export async function getLowStockAlerts(shop: string, { open }: { open: boolean }) {
+  return prisma.lowStockAlert.findMany({
+    where: { shop, resolvedAt: open ? null : { not: null } },
+    orderBy: { createdAt: "desc" },
+    take: open ? undefined : 50,
+  });
+}
+
+/**
+ * Variants with an open alert at one or more locations.
+ */
+export async function countLowStockVariants(shop: string) {
+  const alerts = await prisma.lowStockAlert.findMany({
+    where: { shop, resolvedAt: null },
+    select: { inventoryItemId: true },
+    distinct: ["inventoryItemId"],
+  });
+
+  return alerts.length;
+}
+
+/**
+ * The reorder point for a level: the level's own, else the variant's for all
+ * locations, else the shop default. Null when none applies.
+ */
+async function findThreshold(
+  tx: Prisma.TransactionClient,
+  shop: string,
+  inventoryItemId: string,
+  locationId: string,
+  settings: InventorySettingsInput,
+) {
+  const thresholds = await tx.lowStockThreshold.findMany({
+    where: { shop, inventoryItemId, locationId: { in: [locationId, ""] } },
+  });
+
+  const own = thresholds.find((threshold) => threshold.locationId === locationId);
+  const variantWide = thresholds.find((threshold) => threshold.locationId === "");
+
+  if (own || variantWide) {
+    return own ?? variantWide!;
+  }
+  if (settings.defaultLowStockThreshold === null) {
+    return null;
+  }
+  return {
+    threshold: settings.defaultLowStockThreshold,
+    variantId: null,
+    productTitle: null,
+    variantTitle: null,
+    sku: null,
+  };
+}
+
+async function describeInventoryItem(admin: AdminApi | undefined, inventoryItemId: string) {
+  if (!admin) {
+    return { variantId: null, productTitle: null, variantTitle: null, sku: null };
+  }
+
+  const response = await admin.graphql(`
+    query DescribeInventoryItem($id: ID!) {
+      inventoryItem(id: $id) {
+        variant {
+          id
+          title
+          sku
+          product { title }
+        }
+      }
+    }
+  `, {
+    variables: { id: inventoryItemId },
+  });
+  const responseJson = await response.json();
+  const variant = responseJson.data?.inventoryItem?.variant;
+
+  return {
+    variantId: variant?.id ?? null,
+    productTitle: variant?.product?.title ?? null,
+    variantTitle: variant?.title ?? null,
+    sku: variant?.sku || null,
+  };
+}
+
+/**
+ * Compares a level's new `available` quantity with its reorder point. Falling
+ * below it opens an alert unless one is already open for the level, and
+ * coming back up to it resolves the open alert, so each shortage is reported
+ * once. A level left without a reorder point has its open alert resolved too.
+ * Notifications for a new alert are queued in the same transaction.
+ */
+export async function checkLowStock(
+  admin: AdminApi | undefined,
+  tx: Prisma.TransactionClient,
+  shop: string,
+  { inventoryItemId, locationId, available }: { inventoryItemId: string; locationId: string; available: number },
+): Promise<LowStockCheck> {
+  const settings = await getInventorySettings(shop);
+  const threshold = await findThreshold(tx, shop, inventoryItemId, locationId, settings);
+
+  const openAlert = await tx.lowStockAlert.findFirst({
+    where: { shop, inventoryItemId, locationId, resolvedAt: null },
+  });
+
+  if (!threshold || available >= threshold.threshold) {
+    if (openAlert) {
+      await tx.lowStockAlert.update({
+        where: { id: openAlert.id },
+        data: { resolvedAt: new Date() },
+      });
+    }
+    return threshold ? { status: "ok", resolved: !!openAlert } : { status: "untracked", resolved: !!openAlert };
+  }
+
+  if (openAlert) {
+    return { status: "low", alert: null };
+  }
+
+  // Shop-default thresholds don't know which variant they apply to
+  const variant = threshold.variantId
+    ? threshold
+    : await describeInventoryItem(admin, inventoryItemId);
+
+  const alert = await tx.lowStockAlert.create({
+    data: {
+      shop,
+      inventoryItemId,
+      locationId,
+      variantId: variant.variantId,
+      productTitle: variant.productTitle,
+      variantTitle: variant.variantTitle,
+      sku: variant.sku,
+      quantity: available,
+      threshold: threshold.threshold,
+    },
+  });
+
+  if (settings.alertWebhookUrl || settings.alertEmail) {
+    await enqueueJob(tx, shop, "low-stock-notify", { alertId: alert.id });
+  }
+
+  return { status: "low", alert };
+}
+
+async function post(url: string, body: unknown) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${url} responded with ${response.status}`);
+  }
+}
+
+/**
+ * Sends an open alert to the shop's alert webhook and email address, if set,
+ * and marks it notified. Emails go through the HTTP relay at
+ * ALERT_EMAIL_ENDPOINT as `{ to, subject, text }`. Throws when every delivery
+ * fails so the job is retried; a partial failure is only logged, since a
+ * retry would repeat the deliveries that worked.
+ */
+export async function notifyLowStockAlert(shop: string, alertId: string) {
+  const alert = await prisma.lowStockAlert.findFirst({ where: { shop, id: alertId } });
+
+  if (!alert || alert.resolvedAt || alert.notifiedAt) {
+    return { delivered: false };
+  }
+
+  const delivered = await notifyLowStock(shop, alert, await getInventorySettings(shop));
+  if (delivered) {
+    await prisma.lowStockAlert.update({ where: { id: alert.id }, data: { notifiedAt: new Date() } });
+  }
+
+  return { delivered };
+}
+
+async function notifyLowStock(shop: string, alert: LowStockAlert, settings: InventorySettingsInput) {
+  const label = [alert.productTitle, alert.variantTitle].filter(Boolean).join(" – ") || alert.inventoryItemId;
+  const deliveries: Array<Promise<void>> = [];
+
+  if (settings.alertWebhookUrl) {
+    deliveries.push(
+      post(settings.alertWebhookUrl, {
+        type: "low_stock",
+        shop,
+        alertId: alert.id,
+        productTitle: alert.productTitle,
+        variantTitle: alert.variantTitle,
+        sku: alert.sku,
+        variantId: alert.variantId,
+        inventoryItemId: alert.inventoryItemId,
+        locationId: alert.locationId,
+        quantity: alert.quantity,
+        threshold: alert.threshold,
+        createdAt: alert.createdAt.toISOString(),
+      }),
+    );
+  }
+
+  if (settings.alertEmail) {
+    const endpoint = process.env.ALERT_EMAIL_ENDPOINT;
+    if (endpoint) {
+      deliveries.push(
+        post(endpoint, {
+          to: settings.alertEmail,
+          subject: `Low stock: ${label}`,
+          text: `${label}${alert.sku ? ` (SKU ${alert.sku})` : ""} is down to ${alert.quantity}, below its reorder point of ${alert.threshold}.`,
+        }),
+      );
+    } else {
+      console.warn(`Low stock email for ${shop} not sent: ALERT_EMAIL_ENDPOINT is not set`);
+    }
+  }
+
+  const results = await Promise.allSettled(deliveries);
+  const failures = results.flatMap((result) => (result.status === "rejected" ? [result.reason] : []));
+
+  if (failures.length > 0 && failures.length === results.length) {
+    throw new Error(failures.map((reason) => (reason instanceof Error ? reason.message : String(reason))).join(", "));
+  }
+  for (const reason of failures) {
+    console.error(`Low stock alert delivery failed for ${shop}:`, reason);
+  }
+
+  return results.length > 0;
+}
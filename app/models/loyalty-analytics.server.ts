@@ -0,0 +1,342 @@
+import prisma from "../db.server";
+import { toCsv } from "../csv.server";
+
+export const LOYALTY_REPORTS = ["points", "members", "repeat-purchases", "order-value", "redemptions"] as const;
+
+export type LoyaltyReportName = (typeof LOYALTY_REPORTS)[number];
+
+/** Whole UTC days, both ends included. */
+export type ReportRange = { from: Date; to: Date };
+
+export type DailyPoints = { day: string; earned: number; redeemed: number };
+
+export type DailyMembers = { day: string; activeMembers: number };
+
+export type RepeatPurchaseRate = {
+  member: boolean;
+  customers: number;
+  repeatCustomers: number;
+  rate: number;
+};
+
+export type TierOrderValue = {
+  tier: string;
+  orders: number;
+  revenue: number;
+  averageOrderValue: number;
+};
+
+export type RedemptionSummary = {
+  pointsEarned: number;
+  pointsRedeemed: number;
+  /** Points redeemed for every point earned in the range. */
+  rate: number;
+  rewardsIssued: number;
+  rewardsUsed: number;
+};
+
+export type LoyaltyReport = {
+  points: DailyPoints[];
+  members: { daily: DailyMembers[]; activeMembers: number; totalMembers: number };
+  repeatPurchases: RepeatPurchaseRate[];
+  orderValue: TierOrderValue[];
+  redemptions: RedemptionSummary;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+function utcDay(date: Date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function formatDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDay(value: string | null) {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Reads `from` and `to` (YYYY-MM-DD) from the query string. Defaults to the
+ * last 30 days; a reversed range is swapped and a long one is cut to a year
+ * ending on `to`.
+ */
+export function parseReportRange(searchParams: URLSearchParams): ReportRange {
+  let to = parseDay(searchParams.get("to")) ?? utcDay(new Date());
+  let from = parseDay(searchParams.get("from")) ?? new Date(to.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+
+  if (from > to) {
+    [from, to] = [to, from];
+  }
+  if (to.getTime() - from.getTime() >= MAX_RANGE_DAYS * DAY_MS) {
+    from = new Date(to.getTime() - (MAX_RANGE_DAYS - 1) * DAY_MS);
+  }
+
+  return { from, to };
+}
+
+function rangeEnd({ to }: ReportRange) {
+  return new Date(to.getTime() + DAY_MS);
+}
+
+/**
+ * The range as dates for raw queries, end exclusive. Compared as dates so the
+ * database session's time zone can't shift them.
+ */
+function sqlRange(range: ReportRange) {
+  return { from: formatDay(range.from), end: formatDay(rangeEnd(range)) };
+}
+
+function rangeDays(range: ReportRange) {
+  const days: string[] = [];
+  for (let day = range.from.getTime(); day <= range.to.getTime(); day += DAY_MS) {
+    days.push(formatDay(new Date(day)));
+  }
+  return days;
+}
+
+/**
+ * Points earned from orders and spent on rewards on each day of the range.
+ * Manual adjustments, expiry and clawbacks aren't counted.
+ */
+export async function getDailyPoints(shop: string, range: ReportRange): Promise<DailyPoints[]> {
+  const { from, end } = sqlRange(range);
+  const rows = await prisma.$queryRaw<Array<{ day: Date; earned: bigint | null; redeemed: bigint | null }>>`
+    SELECT "createdAt"::date AS "day",
+      SUM("delta") FILTER (WHERE "type" = 'EARN') AS "earned",
+      -SUM("delta") FILTER (WHERE "type" = 'REDEEM') AS "redeemed"
+    FROM "PointsTransaction"
+    WHERE "shop" = ${shop} AND "createdAt" >= ${from}::date AND "createdAt" < ${end}::date
+    GROUP BY 1`;
+
+  const byDay = new Map(rows.map((row) => [formatDay(row.day), row]));
+
+  return rangeDays(range).map((day) => ({
+    day,
+    earned: Number(byDay.get(day)?.earned ?? 0),
+    redeemed: Number(byDay.get(day)?.redeemed ?? 0),
+  }));
+}
+
+/**
+ * Members who earned or redeemed points on each day, the distinct count over
+ * the whole range, and everyone who had joined by its end. A customer joins
+ * with their first ledger entry.
+ */
+export async function getMemberActivity(shop: string, range: ReportRange) {
+  const { from, end } = sqlRange(range);
+
+  const [daily, [active], [total]] = await Promise.all([
+    prisma.$queryRaw<Array<{ day: Date; members: bigint }>>`
+      SELECT "createdAt"::date AS "day", COUNT(DISTINCT "customerId") AS "members"
+      FROM "PointsTransaction"
+      WHERE "shop" = ${shop} AND "type" IN ('EARN', 'REDEEM')
+        AND "createdAt" >= ${from}::date AND "createdAt" < ${end}::date
+      GROUP BY 1`,
+    prisma.$queryRaw<Array<{ members: bigint }>>`
+      SELECT COUNT(DISTINCT "customerId") AS "members"
+      FROM "PointsTransaction"
+      WHERE "shop" = ${shop} AND "type" IN ('EARN', 'REDEEM')
+        AND "createdAt" >= ${from}::date AND "createdAt" < ${end}::date`,
+    prisma.$queryRaw<Array<{ members: bigint }>>`
+      SELECT COUNT(DISTINCT "customerId") AS "members"
+      FROM "PointsTransaction"
+      WHERE "shop" = ${shop} AND "createdAt" < ${end}::date`,
+  ]);
+
+  const byDay = new Map(daily.map((row) => [formatDay(row.day), Number(row.members)]));
+
+  return {
+    daily: rangeDays(range).map((day): DailyMembers => ({ day, activeMembers: byDay.get(day) ?? 0 })),
+    activeMembers: Number(active?.members ?? 0),
+    totalMembers: Number(total?.members ?? 0),
+  };
+}
+
+/**
+ * Of the customers who ordered in the range, the share who ordered more than
+ * once, for members and non-members. A customer counts as a member when they
+ * had joined by the end of the range. Guest orders are left out.
+ */
+export async function getRepeatPurchaseRates(shop: string, range: ReportRange): Promise<RepeatPurchaseRate[]> {
+  const { from, end } = sqlRange(range);
+
+  const rows = await prisma.$queryRaw<Array<{ member: boolean; customers: bigint; repeatCustomers: bigint }>>`
+    WITH "joined" AS (
+      SELECT "customerId", MIN("createdAt") AS "joinedAt"
+      FROM "PointsTransaction"
+      WHERE "shop" = ${shop}
+      GROUP BY 1
+    ), "buyers" AS (
+      SELECT "customerId", COUNT(*) AS "orders"
+      FROM "SalesOrder"
+      WHERE "shop" = ${shop} AND "customerId" IS NOT NULL
+        AND "createdAt" >= ${from}::date AND "createdAt" < ${end}::date
+      GROUP BY 1
+    )
+    SELECT COALESCE("joined"."joinedAt" < ${end}::date, false) AS "member",
+      COUNT(*) AS "customers",
+      COUNT(*) FILTER (WHERE "buyers"."orders" > 1) AS "repeatCustomers"
+    FROM "buyers" LEFT JOIN "joined" USING ("customerId")
+    GROUP BY 1`;
+
+  return [true, false].map((member) => {
+    const row = rows.find((candidate) => candidate.member === member);
+    const customers = Number(row?.customers ?? 0);
+    const repeatCustomers = Number(row?.repeatCustomers ?? 0);
+
+    return { member, customers, repeatCustomers, rate: customers > 0 ? repeatCustomers / customers : 0 };
+  });
+}
+
+/**
+ * Average order value in the range by the tier the customer held when the
+ * order was recorded. Members without a tier and non-members, including
+ * guests, get a row each; a member is a customer who had joined before the
+ * order was placed. Orders recorded before totals were kept are left out.
+ */
+export async function getOrderValueByTier(shop: string, range: ReportRange): Promise<TierOrderValue[]> {
+  const { from, end } = sqlRange(range);
+  const [rows, tiers] = await Promise.all([
+    prisma.$queryRaw<Array<{ tierId: string | null; member: boolean; orders: bigint; revenue: number | null }>>`
+      WITH "joined" AS (
+        SELECT "customerId", MIN("createdAt") AS "joinedAt"
+        FROM "PointsTransaction"
+        WHERE "shop" = ${shop}
+        GROUP BY 1
+      )
+      SELECT "SalesOrder"."tierId",
+        COALESCE("joined"."joinedAt" < "SalesOrder"."createdAt", false) AS "member",
+        COUNT(*) AS "orders",
+        SUM("SalesOrder"."totalPrice") AS "revenue"
+      FROM "SalesOrder" LEFT JOIN "joined" USING ("customerId")
+      WHERE "SalesOrder"."shop" = ${shop} AND "SalesOrder"."totalPrice" IS NOT NULL
+        AND "SalesOrder"."createdAt" >= ${from}::date AND "SalesOrder"."createdAt" < ${end}::date
+      GROUP BY 1, 2`,
+    prisma.membershipTier.findMany({ where: { shop }, orderBy: { threshold: "asc" } }),
+  ]);
+
+  const groups = new Map<string, { orders: number; revenue: number }>();
+  const add = (tier: string, row: (typeof rows)[number]) => {
+    const group = groups.get(tier) ?? { orders: 0, revenue: 0 };
+    group.orders += Number(row.orders);
+    group.revenue += Number(row.revenue ?? 0);
+    groups.set(tier, group);
+  };
+
+  for (const row of rows) {
+    if (row.tierId) {
+      add(tiers.find((tier) => tier.id === row.tierId)?.name ?? "Removed tier", row);
+    } else {
+      add(row.member ? "Members without a tier" : "Non-members", row);
+    }
+  }
+
+  // Tiers lowest first, then the rows that aren't tiers
+  const order = [...tiers.map((tier) => tier.name), "Removed tier", "Members without a tier", "Non-members"];
+
+  return order
+    .filter((tier) => groups.has(tier))
+    .map((tier) => {
+      const { orders, revenue } = groups.get(tier)!;
+      return { tier, orders, revenue, averageOrderValue: orders > 0 ? revenue / orders : 0 };
+    });
+}
+
+/**
+ * Points redeemed against points earned in the range, and how many of the
+ * reward codes issued in it have been used.
+ */
+export async function getRedemptionSummary(shop: string, range: ReportRange): Promise<RedemptionSummary> {
+  const createdAt = { gte: range.from, lt: rangeEnd(range) };
+
+  const [earned, redeemed, rewardsIssued, rewardsUsed] = await Promise.all([
+    prisma.pointsTransaction.aggregate({ where: { shop, type: "EARN", createdAt }, _sum: { delta: true } }),
+    prisma.pointsTransaction.aggregate({ where: { shop, type: "REDEEM", createdAt }, _sum: { delta: true } }),
+    prisma.redemption.count({ where: { shop, createdAt } }),
+    prisma.redemption.count({ where: { shop, createdAt, status: "USED" } }),
+  ]);
+
+  const pointsEarned = earned._sum.delta ?? 0;
+  const pointsRedeemed = -(redeemed._sum.delta ?? 0);
+
+  return {
+    pointsEarned,
+    pointsRedeemed,
+    rate: pointsEarned > 0 ? pointsRedeemed / pointsEarned : 0,
+    rewardsIssued,
+    rewardsUsed,
+  };
+}
+
+export async function getLoyaltyReport(shop: string, range: ReportRange): Promise<LoyaltyReport> {
+  const [points, members, repeatPurchases, orderValue, redemptions] = await Promise.all([
+    getDailyPoints(shop, range),
+    getMemberActivity(shop, range),
+    getRepeatPurchaseRates(shop, range),
+    getOrderValueByTier(shop, range),
+    getRedemptionSummary(shop, range),
+  ]);
+
+  return { points, members, repeatPurchases, orderValue, redemptions };
+}
+
+const percent = (rate: number) => (rate * 100).toFixed(1);
+const amount = (value: number) => value.toFixed(2);
+
+/**
+ * One report over the range as CSV, with the same figures the analytics page
+ * shows.
+ */
+export async function exportLoyaltyReportCsv(shop: string, report: LoyaltyReportName, range: ReportRange) {
+  switch (report) {
+    case "points": {
+      const days = await getDailyPoints(shop, range);
+      return toCsv([["Date", "Points earned", "Points redeemed"], ...days.map((d) => [d.day, d.earned, d.redeemed])]);
+    }
+    case "members": {
+      const { daily } = await getMemberActivity(shop, range);
+      return toCsv([["Date", "Active members"], ...daily.map((d) => [d.day, d.activeMembers])]);
+    }
+    case "repeat-purchases": {
+      const rates = await getRepeatPurchaseRates(shop, range);
+      return toCsv([
+        ["Customers", "Ordering customers", "Repeat customers", "Repeat purchase rate (%)"],
+        ...rates.map((r) => [r.member ? "Members" : "Non-members", r.customers, r.repeatCustomers, percent(r.rate)]),
+      ]);
+    }
+    case "order-value": {
+      const tiers = await getOrderValueByTier(shop, range);
+      return toCsv([
+        ["Tier", "Orders", "Revenue", "Average order value"],
+        ...tiers.map((t) => [t.tier, t.orders, amount(t.revenue), amount(t.averageOrderValue)]),
+      ]);
+    }
+    case "redemptions": {
+      const summary = await getRedemptionSummary(shop, range);
+      return toCsv([
+        ["From", "To", "Points earned", "Points redeemed", "Redemption rate (%)", "Rewards issued", "Rewards used"],
+        [
+          formatDay(range.from),
+          formatDay(range.to),
+          summary.pointsEarned,
+          summary.pointsRedeemed,
+          percent(summary.rate),
+          summary.rewardsIssued,
+          summary.rewardsUsed,
+        ],
+      ]);
+    }
+  }
+}
+
+export function isLoyaltyReportName(name: string | null): name is LoyaltyReportName {
+  return LOYALTY_REPORTS.includes(name as LoyaltyReportName);
+}
@@ -0,0 +1,31 @@
+import type { LoyaltySettings } from "@prisma/client";
+import prisma from "../db.server";
+
+export type LoyaltySettingsInput = Omit<LoyaltySettings, "shop" | "updatedAt">;
+
+export const DEFAULT_LOYALTY_SETTINGS: LoyaltySettingsInput = {
+  tierQualification: "LIFETIME_POINTS",
+  expirationMode: "NEVER",
+  expirationMonths: 12,
+  clawbackPolicy: "ALLOW_NEGATIVE",
+  awardTrigger: "ORDER_FULFILLED",
+};
+
+export async function getLoyaltySettings(shop: string): Promise<LoyaltySettingsInput> {
+  const settings = await prisma.loyaltySettings.findUnique({ where: { shop } });
+
+  if (!settings) {
+    return DEFAULT_LOYALTY_SETTINGS;
+  }
+
+  const { shop: _shop, updatedAt: _updatedAt, ...values } = settings;
+  return values;
+}
+
+export async function saveLoyaltySettings(shop: string, settings: Partial<LoyaltySettingsInput>) {
+  return prisma.loyaltySettings.upsert({
+    where: { shop },
+    create: { shop, ...DEFAULT_LOYALTY_SETTINGS, ...settings },
+    update: settings,
+  });
+}
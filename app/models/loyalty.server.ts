@@ -0,0 +1,161 @@
+import type { PointsTransactionType, Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import type { AdminApi } from "../shopify.server";
+import { adminGraphql } from "../graphql.server";
+import type { StaffUser } from "./staff.server";
+
+export type PointsTransactionInput = {
+  customerId: string;
+  type: PointsTransactionType;
+  delta: number;
+  orderId?: string | null;
+  staff?: StaffUser | null;
+  reason?: string | null;
+};
+
+/**
+ * Customers are always stored by GID. Webhook payloads carry numeric IDs, so
+ * anything coming from REST-shaped data goes through here first.
+ */
+export function toCustomerGid(id: string | number) {
+  const value = String(id);
+  return value.startsWith("gid://") ? value : `gid://shopify/Customer/${value}`;
+}
+
+/**
+ * Appends an entry to the points ledger and moves the cached balance in
+ * `LoyaltyPoints` by the same delta. Must run inside a transaction so the
+ * ledger and the balance can never disagree.
+ */
+export async function applyPointsTransaction(
+  tx: Prisma.TransactionClient,
+  shop: string,
+  input: PointsTransactionInput,
+) {
+  const transaction = await tx.pointsTransaction.create({
+    data: {
+      shop,
+      customerId: input.customerId,
+      type: input.type,
+      delta: input.delta,
+      orderId: input.orderId ?? null,
+      staffUserId: input.staff?.id ?? null,
+      staffName: input.staff?.name ?? null,
+      reason: input.reason ?? null,
+    },
+  });
+
+  const balance = await tx.loyaltyPoints.upsert({
+    where: { shop_customerId: { shop, customerId: input.customerId } },
+    create: {
+      shop,
+      customerId: input.customerId,
+      points: input.delta,
+      updatedAt: new Date(),
+    },
+    update: {
+      points: { increment: input.delta },
+      updatedAt: new Date(),
+    },
+  });
+
+  return { transaction, balance: balance.points };
+}
+
+export async function recordPointsTransaction(
+  shop: string,
+  input: PointsTransactionInput,
+) {
+  return prisma.$transaction((tx) => applyPointsTransaction(tx, shop, input));
+}
+
+export async function getPointsBalance(shop: string, customerId: string) {
+  const balance = await prisma.loyaltyPoints.findUnique({
+    where: { shop_customerId: { shop, customerId } },
+  });
+
+  return balance?.points ?? 0;
+}
+
+export async function getPointsHistory(shop: string, customerId: string) {
+  return prisma.pointsTransaction.findMany({
+    where: { shop, customerId },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Points customers could still redeem: the sum of every positive balance.
+ */
+export async function getPointsLiability(shop: string) {
+  const { _sum } = await prisma.loyaltyPoints.aggregate({
+    where: { shop, points: { gt: 0 } },
+    _sum: { points: true },
+  });
+
+  return _sum.points ?? 0;
+}
+
+/**
+ * Points added to balances since `since`, by awards and manual adjustments,
+ * and points spent on rewards. Points refunded for unused rewards are in
+ * neither figure.
+ */
+export async function getPointsActivity(shop: string, since: Date) {
+  const [issued, redeemed] = await Promise.all([
+    prisma.pointsTransaction.aggregate({
+      where: { shop, createdAt: { gte: since }, delta: { gt: 0 }, type: { not: "REWARD_REFUND" } },
+      _sum: { delta: true },
+    }),
+    prisma.pointsTransaction.aggregate({
+      where: { shop, createdAt: { gte: since }, type: "REDEEM" },
+      _sum: { delta: true },
+    }),
+  ]);
+
+  return { issued: issued._sum.delta ?? 0, redeemed: -(redeemed._sum.delta ?? 0) };
+}
+
+/**
+ * The customers with the largest balances, named from Shopify. Customers
+ * deleted from the store keep their ID in place of a name, as do all of them
+ * when Shopify can't be reached, so the dashboard still loads.
+ */
+export async function getTopCustomers(admin: AdminApi, shop: string, take = 5) {
+  const balances = await prisma.loyaltyPoints.findMany({
+    where: { shop, points: { gt: 0 } },
+    orderBy: { points: "desc" },
+    take,
+  });
+
+  if (balances.length === 0) {
+    return [];
+  }
+
+  const names = new Map<string, string>();
+  try {
+    const data = await adminGraphql(admin, `#graphql
+      query GetTopLoyaltyCustomers($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          ... on Customer { id displayName email }
+        }
+      }
+    `, {
+      variables: { ids: balances.map((balance) => balance.customerId) },
+    });
+
+    for (const node of data.nodes) {
+      if (node && "displayName" in node) {
+        names.set(node.id, node.displayName || node.email || node.id);
+      }
+    }
+  } catch (error) {
+    console.error(`Couldn't look up top loyalty customers for ${shop}:`, error);
+  }
+
+  return balances.map(({ customerId, points }) => ({
+    customerId,
+    points,
+    name: names.get(customerId) ?? customerId,
+  }));
+}
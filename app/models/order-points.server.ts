@@ -0,0 +1,244 @@
+import type { AwardTrigger, Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import type { AdminApi } from "../shopify.server";
+import type { EarningOrder, EarningRuleSet, OrderWebhookPayload, PointsBreakdown } from "./earning-rules.server";
+import {
+  earningOrderFromWebhook,
+  evaluateEarningRules,
+  getEarningRules,
+  withProductDetails,
+} from "./earning-rules.server";
+import { applyPointsTransaction, toCustomerGid } from "./loyalty.server";
+import { getLoyaltySettings } from "./loyalty-settings.server";
+import { evaluateCustomerTier, getTierMultiplier, getTierSpend } from "./tiers.server";
+
+type LineItemPoints = Record<string, { points: number; quantity: number }>;
+
+export type RefundedLineItem = {
+  lineItemId: string;
+  quantity: number;
+};
+
+/**
+ * Awards an order's points and keeps the award record that refunds and
+ * cancellations reverse against. Returns null when the order already earned
+ * points, so every earning path can call this without double-awarding.
+ */
+export async function awardOrderPoints(
+  tx: Prisma.TransactionClient,
+  shop: string,
+  {
+    orderId,
+    customerId,
+    breakdown,
+    reason,
+  }: { orderId: string; customerId: string; breakdown: PointsBreakdown; reason: string },
+) {
+  const lineItemPoints: LineItemPoints = {};
+  for (const line of breakdown.lines) {
+    if (line.lineItemId) {
+      lineItemPoints[line.lineItemId] = { points: line.points, quantity: line.quantity };
+    }
+  }
+
+  // skipDuplicates turns a repeat award into a no-op instead of aborting the transaction
+  const { count } = await tx.processedOrder.createMany({
+    data: [{ id: orderId, shop, customerId, pointsAwarded: breakdown.points, lineItemPoints }],
+    skipDuplicates: true,
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  return applyPointsTransaction(tx, shop, {
+    customerId,
+    type: "EARN",
+    delta: breakdown.points,
+    orderId,
+    reason,
+  });
+}
+
+const TRIGGER_LABELS: Record<AwardTrigger, string> = {
+  ORDER_CREATED: "created",
+  ORDER_PAID: "paid",
+  ORDER_FULFILLED: "fulfilled",
+};
+
+/** The Admin API reads `awardPointsForOrderWebhook` needs, made before the transaction opens. */
+export type PreparedOrderAward = {
+  rules: EarningRuleSet;
+  /** The order with the product tags and collections the rules exclude by. */
+  order: EarningOrder;
+  spend: number | null;
+};
+
+/**
+ * Loads what awarding an order webhook's points reads from the Admin API:
+ * product details for the earning rules and the customer's tier spend. Null
+ * when the shop doesn't award on `trigger` or the order has no customer.
+ */
+export async function prepareOrderWebhookAward(
+  admin: AdminApi | undefined,
+  shop: string,
+  order: OrderWebhookPayload,
+  trigger: AwardTrigger,
+): Promise<PreparedOrderAward | null> {
+  const { awardTrigger } = await getLoyaltySettings(shop);
+  if (awardTrigger !== trigger || !order.customer?.id) {
+    return null;
+  }
+
+  const rules = await getEarningRules(shop);
+  const [[detailedOrder], spend] = await Promise.all([
+    withProductDetails(admin, rules, [earningOrderFromWebhook(order)]),
+    getTierSpend(admin, shop, toCustomerGid(order.customer.id)),
+  ]);
+
+  return { rules, order: detailedOrder, spend };
+}
+
+/**
+ * Awards points for an `orders/*` webhook payload when `trigger` is the
+ * event the shop has chosen to award on; the other order webhooks return
+ * without awarding. `prepared` comes from `prepareOrderWebhookAward`.
+ * Returns a short description for the webhook response.
+ */
+export async function awardPointsForOrderWebhook(
+  tx: Prisma.TransactionClient,
+  shop: string,
+  order: OrderWebhookPayload,
+  trigger: AwardTrigger,
+  prepared: PreparedOrderAward | null,
+) {
+  const { awardTrigger } = await getLoyaltySettings(shop);
+  if (awardTrigger !== trigger) {
+    return `Points are awarded when an order is ${TRIGGER_LABELS[awardTrigger]}`;
+  }
+
+  // Only process orders with customers
+  if (!order.customer?.id) {
+    return "No customer associated with this order";
+  }
+
+  // The trigger changed while the webhook was being prepared; Shopify's retry will award
+  if (!prepared) {
+    throw new Error(`Points for ${order.name} weren't prepared`);
+  }
+
+  const customerId = toCustomerGid(order.customer.id);
+
+  // Calculate points from the shop's earning rules and the customer's tier
+  const breakdown = evaluateEarningRules(
+    prepared.rules,
+    prepared.order,
+    await getTierMultiplier(tx, shop, customerId),
+  );
+
+  if (breakdown.points <= 0) {
+    return `No points earned (${breakdown.skippedReason || "no eligible items"})`;
+  }
+
+  const award = await awardOrderPoints(tx, shop, {
+    orderId: order.admin_graphql_api_id,
+    customerId,
+    breakdown,
+    reason: `Order ${TRIGGER_LABELS[trigger]} ${order.name}`,
+  });
+
+  if (!award) {
+    return `Points already awarded for ${order.name}`;
+  }
+
+  // Move the customer up (or down) a tier if this award changed their standing
+  await evaluateCustomerTier(tx, shop, customerId, prepared.spend);
+
+  return `Added ${breakdown.points} points to customer ${customerId}`;
+}
+
+/**
+ * The tier spend of the customer an order's points were awarded to, fetched
+ * before a refund or cancellation webhook opens its transaction.
+ */
+export async function getAwardTierSpend(admin: AdminApi | undefined, shop: string, orderId: string) {
+  const award = await prisma.processedOrder.findUnique({
+    where: { shop_id: { shop, id: orderId } },
+    select: { customerId: true },
+  });
+
+  return award?.customerId ? getTierSpend(admin, shop, award.customerId) : null;
+}
+
+/**
+ * Reverses points awarded for an order: the refunded share of each line when
+ * `lineItems` is given, otherwise whatever is left of the award. The total
+ * reversed is tracked on the award record, so overlapping refunds and a later
+ * cancellation never take back more than was given. With the shop's
+ * STOP_AT_ZERO policy the debit is capped at the customer's current balance.
+ */
+export async function clawBackOrderPoints(
+  tx: Prisma.TransactionClient,
+  shop: string,
+  {
+    orderId,
+    lineItems,
+    reason,
+  }: { orderId: string; lineItems?: RefundedLineItem[]; reason: string },
+) {
+  // Lock the award so concurrent refunds for the same order serialize
+  const [award] = await tx.$queryRaw<
+    Array<{ customerId: string | null; pointsAwarded: number; pointsClawedBack: number; lineItemPoints: LineItemPoints }>
+  >`SELECT "customerId", "pointsAwarded", "pointsClawedBack", "lineItemPoints" FROM "ProcessedOrder" WHERE "shop" = ${shop} AND "id" = ${orderId} FOR UPDATE`;
+
+  if (!award?.customerId) {
+    return null;
+  }
+
+  const remaining = award.pointsAwarded - award.pointsClawedBack;
+  let due = remaining;
+
+  if (lineItems) {
+    const refunded = lineItems.reduce((sum, { lineItemId, quantity }) => {
+      const line = award.lineItemPoints[lineItemId];
+      return line && line.quantity > 0
+        ? sum + (line.points * Math.min(quantity, line.quantity)) / line.quantity
+        : sum;
+    }, 0);
+    due = Math.min(remaining, Math.round(refunded));
+  }
+
+  if (due <= 0) {
+    return null;
+  }
+
+  await tx.processedOrder.update({
+    where: { shop_id: { shop, id: orderId } },
+    data: { pointsClawedBack: { increment: due } },
+  });
+
+  let delta = -due;
+  const { clawbackPolicy } = await getLoyaltySettings(shop);
+
+  if (clawbackPolicy === "STOP_AT_ZERO") {
+    const balance = await tx.loyaltyPoints.findUnique({
+      where: { shop_customerId: { shop, customerId: award.customerId } },
+      select: { points: true },
+    });
+    delta = -Math.min(due, Math.max(0, balance?.points ?? 0));
+  }
+
+  if (delta === 0) {
+    return { customerId: award.customerId, points: 0 };
+  }
+
+  await applyPointsTransaction(tx, shop, {
+    customerId: award.customerId,
+    type: "CLAWBACK",
+    delta,
+    orderId,
+    reason: delta === -due ? reason : `${reason} (${due} due, limited to balance)`,
+  });
+
+  return { customerId: award.customerId, points: -delta };
+}
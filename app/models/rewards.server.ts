@@ -0,0 +1,383 @@
+import { randomBytes } from "crypto";
+import type { Prisma, RewardTier, RewardType } from "@prisma/client";
+import prisma from "../db.server";
+import { adminGraphql, throwUserErrors } from "../graphql.server";
+import type { AdminApi } from "../shopify.server";
+import { applyPointsTransaction } from "./loyalty.server";
+import type { StaffUser } from "./staff.server";
+
+export type RewardTierInput = {
+  name: string;
+  pointsCost: number;
+  rewardType: RewardType;
+  amount: number;
+  expiresAfterDays: number | null;
+  active: boolean;
+};
+
+export async function getRewardTiers(shop: string, { activeOnly = false } = {}) {
+  return prisma.rewardTier.findMany({
+    where: { shop, ...(activeOnly && { active: true }) },
+    orderBy: { pointsCost: "asc" },
+  });
+}
+
+/**
+ * Returns a list of problems with the submitted tier, empty when it is valid.
+ */
+export function validateRewardTier(input: RewardTierInput) {
+  const errors: string[] = [];
+
+  if (!input.name.trim()) {
+    errors.push("Name is required");
+  }
+  if (!Number.isInteger(input.pointsCost) || input.pointsCost <= 0) {
+    errors.push("Points cost must be a whole number above zero");
+  }
+  if (input.rewardType === "AMOUNT_OFF" && (!Number.isFinite(input.amount) || input.amount <= 0)) {
+    errors.push("Discount amount must be above zero");
+  }
+  if (
+    input.expiresAfterDays !== null &&
+    (!Number.isInteger(input.expiresAfterDays) || input.expiresAfterDays <= 0)
+  ) {
+    errors.push("Expiry must be a whole number of days above zero");
+  }
+
+  return errors;
+}
+
+export async function saveRewardTier(shop: string, id: string | null, input: RewardTierInput) {
+  if (id) {
+    // Scoped by shop so a tier ID from another store is never updated
+    const { count } = await prisma.rewardTier.updateMany({
+      where: { id, shop },
+      data: input,
+    });
+    if (count === 0) {
+      throw new Error("Reward tier not found");
+    }
+    return;
+  }
+
+  await prisma.rewardTier.create({ data: { shop, ...input } });
+}
+
+export async function getCustomerRedemptions(shop: string, customerId: string) {
+  return prisma.redemption.findMany({
+    where: { shop, customerId },
+    include: { rewardTier: true },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+// A redemption still without a discount after this long lost the request issuing it
+const UNISSUED_REDEMPTION_MS = 15 * 60 * 1000;
+
+function generateCode() {
+  return `LOYALTY-${randomBytes(5).toString("hex").toUpperCase()}`;
+}
+
+async function createDiscountCode(
+  admin: AdminApi,
+  tier: RewardTier,
+  { code, customerId, expiresAt }: { code: string; customerId: string; expiresAt: Date | null },
+) {
+  const common = {
+    title: `${tier.name} (${code})`,
+    code,
+    startsAt: new Date().toISOString(),
+    endsAt: expiresAt?.toISOString() ?? null,
+    customerSelection: { customers: { add: [customerId] } },
+    appliesOncePerCustomer: true,
+    usageLimit: 1,
+  };
+
+  const data =
+    tier.rewardType === "FREE_SHIPPING"
+      ? await adminGraphql(admin, `#graphql
+          mutation CreateFreeShippingReward($discount: DiscountCodeFreeShippingInput!) {
+            result: discountCodeFreeShippingCreate(freeShippingCodeDiscount: $discount) {
+              codeDiscountNode { id }
+              userErrors { field message }
+            }
+          }
+        `, {
+          variables: {
+            discount: { ...common, destination: { all: true } },
+          },
+        })
+      : await adminGraphql(admin, `#graphql
+          mutation CreateAmountOffReward($discount: DiscountCodeBasicInput!) {
+            result: discountCodeBasicCreate(basicCodeDiscount: $discount) {
+              codeDiscountNode { id }
+              userErrors { field message }
+            }
+          }
+        `, {
+          variables: {
+            discount: {
+              ...common,
+              customerGets: {
+                value: { discountAmount: { amount: tier.amount, appliesOnEachItem: false } },
+                items: { all: true },
+              },
+            },
+          },
+        });
+
+  throwUserErrors(data.result);
+  if (!data.result?.codeDiscountNode) {
+    throw new Error("Shopify didn't create the discount code");
+  }
+
+  return data.result.codeDiscountNode.id;
+}
+
+async function deleteDiscountCode(admin: AdminApi, discountId: string) {
+  const data = await adminGraphql(admin, `#graphql
+    mutation DeleteReward($id: ID!) {
+      discountCodeDelete(id: $id) {
+        deletedCodeDiscountId
+        userErrors { field message }
+      }
+    }
+  `, {
+    variables: { id: discountId },
+  });
+
+  throwUserErrors(data.discountCodeDelete);
+}
+
+/**
+ * Spends a customer's points on a reward tier and issues a single-use discount
+ * code for them. The debit and the redemption record are committed first, so
+ * concurrent redemptions serialize on the balance row and can't overdraw, and
+ * no Admin API call holds the transaction open. If Shopify then rejects the
+ * discount, the points are refunded and the redemption removed; if the code
+ * is created but can't be recorded, it's deleted again before refunding. A
+ * request that stops part-way is settled by `recoverUnissuedRedemptions`.
+ */
+export async function redeemReward(
+  admin: AdminApi,
+  shop: string,
+  { customerId, tierId, staff }: { customerId: string; tierId: string; staff?: StaffUser | null },
+) {
+  const tier = await prisma.rewardTier.findFirst({
+    where: { id: tierId, shop, active: true },
+  });
+
+  if (!tier) {
+    throw new Error("Reward tier not found");
+  }
+
+  const code = generateCode();
+  const expiresAt = tier.expiresAfterDays
+    ? new Date(Date.now() + tier.expiresAfterDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  const redemption = await prisma.$transaction(async (tx) => {
+    const { balance } = await applyPointsTransaction(tx, shop, {
+      customerId,
+      type: "REDEEM",
+      delta: -tier.pointsCost,
+      staff,
+      reason: `Redeemed ${tier.name} (${code})`,
+    });
+
+    if (balance < 0) {
+      throw new Error(
+        `Not enough points: ${tier.name} costs ${tier.pointsCost}, balance is ${balance + tier.pointsCost}`,
+      );
+    }
+
+    return tx.redemption.create({
+      data: {
+        shop,
+        customerId,
+        rewardTierId: tier.id,
+        pointsSpent: tier.pointsCost,
+        code,
+        expiresAt,
+      },
+    });
+  });
+
+  const cancel = () =>
+    prisma.$transaction(async (tx) => {
+      await tx.redemption.delete({ where: { id: redemption.id } });
+      await applyPointsTransaction(tx, shop, {
+        customerId,
+        type: "REWARD_REFUND",
+        delta: tier.pointsCost,
+        reason: `Refund for ${code}, which couldn't be issued`,
+      });
+    });
+
+  let discountId: string;
+  try {
+    discountId = await createDiscountCode(admin, tier, { code, customerId, expiresAt });
+  } catch (error) {
+    await cancel();
+    throw error;
+  }
+
+  try {
+    return await prisma.redemption.update({
+      where: { id: redemption.id },
+      data: { discountId },
+    });
+  } catch (error) {
+    await deleteDiscountCode(admin, discountId);
+    await cancel();
+    throw error;
+  }
+}
+
+/**
+ * Marks reward codes used on an order. Called from the order webhook so it
+ * runs in the webhook's transaction.
+ */
+export async function markRedemptionsUsed(
+  tx: Prisma.TransactionClient,
+  shop: string,
+  codes: string[],
+  orderId: string,
+) {
+  if (codes.length === 0) {
+    return;
+  }
+
+  await tx.redemption.updateMany({
+    where: { shop, code: { in: codes }, status: "ISSUED" },
+    data: { status: "USED", orderId },
+  });
+}
+
+async function getDiscountUsageCount(admin: AdminApi, discountId: string) {
+  const data = await adminGraphql(admin, `#graphql
+    query GetRewardUsage($id: ID!) {
+      codeDiscountNode(id: $id) {
+        codeDiscount {
+          ... on DiscountCodeBasic { asyncUsageCount }
+          ... on DiscountCodeFreeShipping { asyncUsageCount }
+        }
+      }
+    }
+  `, {
+    variables: { id: discountId },
+  });
+  const discount = data.codeDiscountNode?.codeDiscount;
+
+  return discount && "asyncUsageCount" in discount ? discount.asyncUsageCount : 0;
+}
+
+/**
+ * Expires issued codes past their end date and refunds the points of those
+ * that were never used. Shopify's usage count is checked first in case the
+ * order webhook that would have marked a code used was missed.
+ */
+export async function expireUnusedRedemptions(admin: AdminApi, shop: string, now = new Date()) {
+  const due = await prisma.redemption.findMany({
+    where: { shop, status: "ISSUED", expiresAt: { lte: now } },
+  });
+
+  let refunded = 0;
+
+  for (const redemption of due) {
+    const usageCount = redemption.discountId
+      ? await getDiscountUsageCount(admin, redemption.discountId)
+      : 0;
+
+    const wasRefunded = await prisma.$transaction(async (tx) => {
+      // Claim the row first so a concurrent run can't refund it twice
+      const { count } = await tx.redemption.updateMany({
+        where: { id: redemption.id, status: "ISSUED" },
+        data: { status: usageCount > 0 ? "USED" : "EXPIRED" },
+      });
+
+      if (count === 0 || usageCount > 0) {
+        return false;
+      }
+
+      await applyPointsTransaction(tx, shop, {
+        customerId: redemption.customerId,
+        type: "REWARD_REFUND",
+        delta: redemption.pointsSpent,
+        reason: `Refund for unused code ${redemption.code}`,
+      });
+      return true;
+    });
+
+    if (wasRefunded) {
+      refunded++;
+    }
+  }
+
+  return { checked: due.length, refunded };
+}
+
+/**
+ * Settles redemptions left without a discount by a request that stopped after
+ * the points were spent. A code Shopify did create is recorded against its
+ * redemption; otherwise the points are refunded and the redemption removed,
+ * as when Shopify rejects the code. Recent redemptions may still be issuing,
+ * so only those older than UNISSUED_REDEMPTION_MS are looked at.
+ */
+export async function recoverUnissuedRedemptions(admin: AdminApi, shop: string, now = new Date()) {
+  const stranded = await prisma.redemption.findMany({
+    where: {
+      shop,
+      status: "ISSUED",
+      discountId: null,
+      createdAt: { lt: new Date(now.getTime() - UNISSUED_REDEMPTION_MS) },
+    },
+  });
+
+  let issued = 0;
+  let refunded = 0;
+
+  for (const redemption of stranded) {
+    const data = await adminGraphql(admin, `#graphql
+      query GetRewardByCode($code: String!) {
+        codeDiscountNodeByCode(code: $code) { id }
+      }
+    `, {
+      variables: { code: redemption.code },
+    });
+    const discountId = data.codeDiscountNodeByCode?.id;
+
+    if (discountId) {
+      const { count } = await prisma.redemption.updateMany({
+        where: { id: redemption.id, discountId: null },
+        data: { discountId },
+      });
+      issued += count;
+      continue;
+    }
+
+    const wasRefunded = await prisma.$transaction(async (tx) => {
+      // Claim the row first so a concurrent run can't refund it twice
+      const { count } = await tx.redemption.deleteMany({
+        where: { id: redemption.id, status: "ISSUED", discountId: null },
+      });
+      if (count === 0) {
+        return false;
+      }
+
+      await applyPointsTransaction(tx, shop, {
+        customerId: redemption.customerId,
+        type: "REWARD_REFUND",
+        delta: redemption.pointsSpent,
+        reason: `Refund for ${redemption.code}, which couldn't be issued`,
+      });
+      return true;
+    });
+
+    if (wasRefunded) {
+      refunded++;
+    }
+  }
+
+  return { checked: stranded.length, issued, refunded };
+}
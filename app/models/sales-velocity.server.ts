@@ -0,0 +1,349 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import { adminGraphql, paginateConnection } from "../graphql.server";
+import type { AdminApi } from "../shopify.server";
+import type { GetSalesOrdersQuery } from "../types/admin.generated";
+import type { InventoryProduct } from "./inventory.server";
+import type { InventorySettingsInput } from "./inventory-settings.server";
+import { getInventorySettings } from "./inventory-settings.server";
+
+export const VELOCITY_WINDOWS = [7, 30, 90] as const;
+
+export type SalesOrderInput = {
+  orderId: string;
+  createdAt: Date;
+  customerId: string | null;
+  /** In the shop's currency. */
+  totalPrice: number;
+  /** Empty for orders that weren't placed at a location. */
+  locationId: string;
+  lines: Array<{ variantId: string; quantity: number }>;
+};
+
+/** Average units sold per day over the last 7, 30 and 90 days. */
+export type SalesVelocity = Record<(typeof VELOCITY_WINDOWS)[number], number>;
+
+export type VariantForecast = {
+  /** How long the available stock lasts at the 30-day rate; null when nothing sold. */
+  daysOfCover: number | null;
+  /** Units to order now so stock lasts through the lead time and the cover days after it. */
+  suggestedReorder: number;
+};
+
+export type ReorderSuggestion = VariantForecast & {
+  productId: string;
+  productTitle: string;
+  variantId: string;
+  variantTitle: string;
+  sku: string | null;
+  available: number;
+  velocity: SalesVelocity;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NO_SALES: SalesVelocity = { 7: 0, 30: 0, 90: 0 };
+
+/** Midnight UTC on the day of `date`, matching the `@db.Date` column. */
+function utcDay(date: Date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function salesOrderFromWebhook(order: any): SalesOrderInput {
+  return {
+    orderId: order.admin_graphql_api_id,
+    createdAt: new Date(order.created_at),
+    customerId: order.customer?.admin_graphql_api_id ?? null,
+    totalPrice: Number(order.total_price) || 0,
+    locationId: order.location_id ? `gid://shopify/Location/${order.location_id}` : "",
+    lines: (order.line_items || [])
+      .filter((line: any) => line.variant_id)
+      .map((line: any) => ({
+        variantId: `gid://shopify/ProductVariant/${line.variant_id}`,
+        quantity: line.quantity,
+      })),
+  };
+}
+
+/**
+ * Adds an order's units to the daily sales table. Returns false when the
+ * order was already recorded, so the webhook and the backfill can overlap.
+ * The customer's current tier is kept with the order for loyalty reporting,
+ * and filled in on orders recorded before those details were kept.
+ */
+export async function recordOrderSales(tx: Prisma.TransactionClient, shop: string, order: SalesOrderInput) {
+  const membership = order.customerId
+    ? await tx.loyaltyPoints.findUnique({
+        where: { shop_customerId: { shop, customerId: order.customerId } },
+        select: { tierId: true },
+      })
+    : null;
+  const details = {
+    customerId: order.customerId,
+    totalPrice: order.totalPrice,
+    tierId: membership?.tierId ?? null,
+  };
+
+  // skipDuplicates turns a repeat into a no-op instead of aborting the transaction
+  const { count } = await tx.salesOrder.createMany({
+    data: [{ id: order.orderId, shop, ...details, createdAt: order.createdAt }],
+    skipDuplicates: true,
+  });
+  if (count === 0) {
+    await tx.salesOrder.updateMany({
+      where: { shop, id: order.orderId, totalPrice: null },
+      data: details,
+    });
+    return false;
+  }
+
+  const day = utcDay(order.createdAt);
+  const quantities = new Map<string, number>();
+  for (const line of order.lines) {
+    quantities.set(line.variantId, (quantities.get(line.variantId) ?? 0) + line.quantity);
+  }
+
+  for (const [variantId, quantity] of quantities) {
+    await tx.variantDailySales.upsert({
+      where: {
+        shop_variantId_locationId_day: { shop, variantId, locationId: order.locationId, day },
+      },
+      create: { shop, variantId, locationId: order.locationId, day, quantity },
+      update: { quantity: { increment: quantity } },
+    });
+  }
+
+  return true;
+}
+
+/**
+ * The line items of an order after the first page the backfill selects with
+ * the order itself.
+ */
+async function getRemainingLineItems(admin: AdminApi, orderId: string, after: string) {
+  return paginateConnection(async (cursor) => {
+    const data = await adminGraphql(admin, `#graphql
+      query GetSalesOrderLineItems($id: ID!, $after: String) {
+        order(id: $id) {
+          lineItems(first: 100, after: $after) {
+            pageInfo { hasNextPage endCursor }
+            nodes {
+              quantity
+              variant { id }
+            }
+          }
+        }
+      }
+    `, {
+      variables: { id: orderId, after: cursor ?? after },
+    });
+
+    return data.order?.lineItems;
+  });
+}
+
+/**
+ * Records every order from the last `days` days that isn't recorded yet, and
+ * fills in the customer and total of ones recorded without them. Orders older
+ * than 60 days are only visible with the `read_all_orders` scope; without it
+ * the backfill covers what the shop can see.
+ *
+ * Pages are kept to 10 orders of 50 line items each to stay under the query
+ * cost limit; the rest of a larger order's line items are fetched on their own.
+ */
+export async function backfillSales(admin: AdminApi, shop: string, { days = 90 }: { days?: number } = {}) {
+  const since = utcDay(new Date(Date.now() - days * DAY_MS));
+  let after: string | null = null;
+  let scanned = 0;
+  let recorded = 0;
+
+  do {
+    // Annotated because `after` feeds back into the next request's variables
+    const data: GetSalesOrdersQuery = await adminGraphql(admin, `#graphql
+      query GetSalesOrders($query: String!, $after: String) {
+        orders(first: 10, after: $after, query: $query, sortKey: CREATED_AT) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            id
+            createdAt
+            customer { id }
+            totalPriceSet { shopMoney { amount } }
+            retailLocation { id }
+            lineItems(first: 50) {
+              pageInfo { hasNextPage endCursor }
+              nodes {
+                quantity
+                variant { id }
+              }
+            }
+          }
+        }
+      }
+    `, {
+      variables: { query: `created_at:>=${since.toISOString()}`, after },
+    });
+    const { orders } = data;
+
+    for (const order of orders.nodes) {
+      scanned++;
+      const { pageInfo } = order.lineItems;
+      const lineItems = [...order.lineItems.nodes];
+      if (pageInfo.hasNextPage && pageInfo.endCursor) {
+        lineItems.push(...(await getRemainingLineItems(admin, order.id, pageInfo.endCursor)));
+      }
+
+      const input: SalesOrderInput = {
+        orderId: order.id,
+        createdAt: new Date(order.createdAt),
+        customerId: order.customer?.id ?? null,
+        totalPrice: Number(order.totalPriceSet.shopMoney.amount) || 0,
+        locationId: order.retailLocation?.id ?? "",
+        lines: lineItems.flatMap((line) =>
+          line.variant ? [{ variantId: line.variant.id, quantity: line.quantity }] : [],
+        ),
+      };
+
+      if (await prisma.$transaction((tx) => recordOrderSales(tx, shop, input))) {
+        recorded++;
+      }
+    }
+
+    after = orders.pageInfo.hasNextPage ? orders.pageInfo.endCursor ?? null : null;
+  } while (after);
+
+  return { scanned, recorded };
+}
+
+/**
+ * Average daily sales per variant across every location. Variants without a
+ * sale in the last 90 days are absent. Pass `variantIds` to limit the lookup.
+ */
+export async function getSalesVelocity(shop: string, variantIds?: string[]) {
+  if (variantIds?.length === 0) {
+    return {};
+  }
+
+  const today = utcDay(new Date());
+  const since = (days: number) => new Date(today.getTime() - (days - 1) * DAY_MS);
+  const variantFilter = variantIds
+    ? Prisma.sql`AND "variantId" IN (${Prisma.join(variantIds)})`
+    : Prisma.empty;
+
+  const rows = await prisma.$queryRaw<
+    Array<{ variantId: string; units7: bigint | null; units30: bigint | null; units90: bigint | null }>
+  >`SELECT "variantId",
+      SUM("quantity") FILTER (WHERE "day" >= ${since(7)}::date) AS "units7",
+      SUM("quantity") FILTER (WHERE "day" >= ${since(30)}::date) AS "units30",
+      SUM("quantity") AS "units90"
+    FROM "VariantDailySales"
+    WHERE "shop" = ${shop} AND "day" >= ${since(90)}::date ${variantFilter}
+    GROUP BY "variantId"`;
+
+  return Object.fromEntries(
+    rows.map((row) => [
+      row.variantId,
+      {
+        7: Number(row.units7 ?? 0) / 7,
+        30: Number(row.units30 ?? 0) / 30,
+        90: Number(row.units90 ?? 0) / 90,
+      } satisfies SalesVelocity,
+    ]),
+  ) as Record<string, SalesVelocity>;
+}
+
+export function forecastVariant(
+  available: number,
+  velocity: SalesVelocity | undefined,
+  settings: Pick<InventorySettingsInput, "reorderLeadTimeDays" | "reorderCoverDays">,
+): VariantForecast {
+  const rate = (velocity ?? NO_SALES)[30];
+
+  if (rate === 0) {
+    return { daysOfCover: null, suggestedReorder: 0 };
+  }
+
+  const needed = Math.ceil(rate * (settings.reorderLeadTimeDays + settings.reorderCoverDays));
+
+  return {
+    daysOfCover: Math.max(0, available) / rate,
+    suggestedReorder: Math.max(0, needed - Math.max(0, available)),
+  };
+}
+
+/**
+ * Velocity and forecast for each variant on an inventory page, keyed by
+ * variant ID, against its total available across every location.
+ */
+export async function getVariantForecasts(shop: string, products: InventoryProduct[]) {
+  const variants = products.flatMap((product) => product.variants);
+  const [velocities, settings] = await Promise.all([
+    getSalesVelocity(shop, variants.map((variant) => variant.id)),
+    getInventorySettings(shop),
+  ]);
+
+  return Object.fromEntries(
+    variants.map((variant) => {
+      const available = Object.values(variant.levels).reduce((sum, quantity) => sum + quantity, 0);
+      const velocity = velocities[variant.id] ?? NO_SALES;
+      return [variant.id, { velocity, ...forecastVariant(available, velocity, settings) }];
+    }),
+  ) as Record<string, VariantForecast & { velocity: SalesVelocity }>;
+}
+
+/**
+ * Every variant that sold in the last 90 days with its forecast, the ones
+ * running out soonest first. Variants that haven't sold in 30 days have no
+ * days of cover and come last.
+ */
+export async function getReorderSuggestions(
+  admin: AdminApi,
+  shop: string,
+  settings: Pick<InventorySettingsInput, "reorderLeadTimeDays" | "reorderCoverDays">,
+) {
+  const velocities = await getSalesVelocity(shop);
+  const variantIds = Object.keys(velocities);
+  const suggestions: ReorderSuggestion[] = [];
+
+  // Batched to keep each query well under the Admin API cost limit
+  for (let i = 0; i < variantIds.length; i += 50) {
+    const data = await adminGraphql(admin, `#graphql
+      query GetReorderVariants($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          ... on ProductVariant {
+            id
+            title
+            sku
+            inventoryQuantity
+            product { id title }
+          }
+        }
+      }
+    `, {
+      variables: { ids: variantIds.slice(i, i + 50) },
+    });
+
+    for (const variant of data.nodes) {
+      // Deleted variants come back as null
+      if (!variant || !("product" in variant)) {
+        continue;
+      }
+
+      const available = variant.inventoryQuantity ?? 0;
+
+      suggestions.push({
+        productId: variant.product.id,
+        productTitle: variant.product.title,
+        variantId: variant.id,
+        variantTitle: variant.title,
+        sku: variant.sku || null,
+        available,
+        velocity: velocities[variant.id],
+        ...forecastVariant(available, velocities[variant.id], settings),
+      });
+    }
+  }
+
+  return suggestions.sort(
+    (a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity) || b.suggestedReorder - a.suggestedReorder,
+  );
+}
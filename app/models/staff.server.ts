@@ -0,0 +1,28 @@
+import type { JwtPayload, Session } from "@shopify/shopify-app-remix/server";
+
+export type StaffUser = {
+  id: string | null;
+  name: string | null;
+};
+
+/**
+ * Identifies the staff member behind an admin request. Online sessions carry the
+ * full user record; with offline sessions we only get the user ID from the
+ * session token's `sub` claim.
+ */
+export function getStaffUser({
+  session,
+  sessionToken,
+}: {
+  session: Session;
+  sessionToken?: JwtPayload;
+}): StaffUser {
+  const user = session.onlineAccessInfo?.associated_user;
+
+  if (user) {
+    const name = [user.first_name, user.last_name].filter(Boolean).join(" ");
+    return { id: String(user.id), name: name || user.email || null };
+  }
+
+  return { id: sessionToken?.sub ?? null, name: null };
+}
@@ -0,0 +1,270 @@
+import type { MembershipTier, Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import type { AdminApi } from "../shopify.server";
+import { adminGraphql, paginateConnection, throwUserErrors } from "../graphql.server";
+import { enqueueJob } from "../queue.server";
+import { getLoyaltySettings } from "./loyalty-settings.server";
+
+export type MembershipTierInput = {
+  name: string;
+  threshold: number;
+  multiplier: number;
+  perks: string | null;
+};
+
+export type TierProgress = {
+  current: Pick<MembershipTier, "id" | "name" | "multiplier"> | null;
+  next: Pick<MembershipTier, "id" | "name" | "threshold"> | null;
+  /** How much more of the qualifying value is needed for the next tier. */
+  remaining: number | null;
+};
+
+/** Customers are tagged `loyalty-tier:<name>` so tiers can drive segments and flows. */
+export const TIER_TAG_PREFIX = "loyalty-tier:";
+export const TIER_METAFIELD = { namespace: "$app:loyalty", key: "tier" };
+
+export async function getMembershipTiers(shop: string) {
+  return prisma.membershipTier.findMany({
+    where: { shop },
+    orderBy: { threshold: "asc" },
+  });
+}
+
+/**
+ * Returns a list of problems with the submitted tier, empty when it is valid.
+ */
+export function validateMembershipTier(input: MembershipTierInput) {
+  const errors: string[] = [];
+
+  if (!input.name.trim()) {
+    errors.push("Name is required");
+  }
+  if (!Number.isFinite(input.threshold) || input.threshold < 0) {
+    errors.push("Threshold must be zero or more");
+  }
+  if (!Number.isFinite(input.multiplier) || input.multiplier <= 0) {
+    errors.push("Earning multiplier must be above zero");
+  }
+
+  return errors;
+}
+
+export async function saveMembershipTier(shop: string, id: string | null, input: MembershipTierInput) {
+  if (id) {
+    // Scoped by shop so a tier ID from another store is never updated
+    const { count } = await prisma.membershipTier.updateMany({
+      where: { id, shop },
+      data: input,
+    });
+    if (count === 0) {
+      throw new Error("Tier not found");
+    }
+    return;
+  }
+
+  await prisma.membershipTier.create({ data: { shop, ...input } });
+}
+
+export async function deleteMembershipTier(shop: string, id: string) {
+  await prisma.$transaction([
+    prisma.loyaltyPoints.updateMany({ where: { shop, tierId: id }, data: { tierId: null } }),
+    prisma.membershipTier.deleteMany({ where: { id, shop } }),
+  ]);
+}
+
+/**
+ * Places a qualifying value (lifetime points or 12-month spend) within the
+ * shop's tiers, which must be sorted by ascending threshold.
+ */
+export function getTierProgress(tiers: MembershipTier[], value: number): TierProgress {
+  const reached = tiers.filter((tier) => value >= tier.threshold);
+  const current = reached[reached.length - 1] ?? null;
+  const next = tiers.find((tier) => value < tier.threshold) ?? null;
+
+  return {
+    current: current && { id: current.id, name: current.name, multiplier: current.multiplier },
+    next: next && { id: next.id, name: next.name, threshold: next.threshold },
+    remaining: next ? next.threshold - value : null,
+  };
+}
+
+/** Points earned less points clawed back by refunds and cancellations. */
+async function getLifetimePointsEarned(
+  tx: Prisma.TransactionClient,
+  shop: string,
+  customerId: string,
+) {
+  const result = await tx.pointsTransaction.aggregate({
+    where: { shop, customerId, type: { in: ["EARN", "CLAWBACK"] } },
+    _sum: { delta: true },
+  });
+
+  return result._sum.delta ?? 0;
+}
+
+async function getRollingSpend(admin: AdminApi, customerId: string) {
+  const since = new Date();
+  since.setFullYear(since.getFullYear() - 1);
+
+  const query = `customer_id:${customerId.replace("gid://shopify/Customer/", "")} processed_at:>=${since.toISOString()}`;
+  const orders = await paginateConnection(async (after) => {
+    const data = await adminGraphql(admin, `#graphql
+      query GetCustomerSpend($query: String!, $after: String) {
+        orders(first: 250, after: $after, query: $query) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            currentTotalPriceSet { shopMoney { amount } }
+          }
+        }
+      }
+    `, {
+      variables: { query, after },
+    });
+    return data?.orders;
+  });
+
+  return orders.reduce(
+    (total, order) => total + parseFloat(order.currentTotalPriceSet?.shopMoney?.amount || "0"),
+    0,
+  );
+}
+
+/**
+ * The customer's 12-month spend when the shop qualifies tiers on it, for
+ * `evaluateCustomerTier`; null otherwise. It pages through the customer's
+ * orders, so webhooks fetch it before opening their transaction.
+ */
+export async function getTierSpend(admin: AdminApi | undefined, shop: string, customerId: string) {
+  const settings = await getLoyaltySettings(shop);
+  if (!admin || settings.tierQualification !== "ROLLING_12_MONTH_SPEND") {
+    return null;
+  }
+
+  const tierCount = await prisma.membershipTier.count({ where: { shop } });
+  return tierCount > 0 ? getRollingSpend(admin, customerId) : null;
+}
+
+/**
+ * Mirrors the customer's stored tier onto the Shopify customer: replaces any
+ * previous `loyalty-tier:` tag and sets the `$app:loyalty.tier` metafield, or
+ * deletes it when they have no tier. Runs as the `customer-tier-sync` job.
+ */
+export async function syncCustomerTier(admin: AdminApi, shop: string, customerId: string) {
+  const balance = await prisma.loyaltyPoints.findUnique({
+    where: { shop_customerId: { shop, customerId } },
+    select: { tierId: true },
+  });
+  const tier = balance?.tierId
+    ? await prisma.membershipTier.findFirst({ where: { id: balance.tierId, shop }, select: { name: true } })
+    : null;
+  const tierName = tier?.name ?? null;
+
+  const data = await adminGraphql(admin, `#graphql
+    query GetCustomerTags($id: ID!) {
+      customer(id: $id) { tags }
+    }
+  `, {
+    variables: { id: customerId },
+  });
+  const tags = (data.customer?.tags || []).filter((tag) => !tag.startsWith(TIER_TAG_PREFIX));
+
+  const updateData = await adminGraphql(admin, `#graphql
+    mutation UpdateCustomerTier($input: CustomerInput!) {
+      customerUpdate(input: $input) {
+        userErrors { field message }
+      }
+    }
+  `, {
+    variables: {
+      input: {
+        id: customerId,
+        tags: tierName ? [...tags, `${TIER_TAG_PREFIX}${tierName}`] : tags,
+        metafields: tierName
+          ? [{ ...TIER_METAFIELD, type: "single_line_text_field", value: tierName }]
+          : [],
+      },
+    },
+  });
+  throwUserErrors(updateData.customerUpdate);
+
+  // Shopify rejects a blank value, so a customer without a tier loses the metafield
+  if (!tierName) {
+    const deleteData = await adminGraphql(admin, `#graphql
+      mutation DeleteCustomerTier($metafields: [MetafieldIdentifierInput!]!) {
+        metafieldsDelete(metafields: $metafields) {
+          userErrors { field message }
+        }
+      }
+    `, {
+      variables: { metafields: [{ ...TIER_METAFIELD, ownerId: customerId }] },
+    });
+    throwUserErrors(deleteData.metafieldsDelete);
+  }
+}
+
+/**
+ * Re-evaluates a customer's tier after their points changed and stores the
+ * result on their balance row. Shops that qualify on spend pass it in from
+ * `getTierSpend`; without it the tier is left as it is. When the tier changes
+ * a `customer-tier-sync` job is enqueued in the same transaction to retag the
+ * customer in Shopify once it commits.
+ */
+export async function evaluateCustomerTier(
+  tx: Prisma.TransactionClient,
+  shop: string,
+  customerId: string,
+  spend: number | null,
+) {
+  const [tiers, settings, balance] = await Promise.all([
+    getMembershipTiers(shop),
+    getLoyaltySettings(shop),
+    tx.loyaltyPoints.findUnique({ where: { shop_customerId: { shop, customerId } } }),
+  ]);
+
+  if (!balance || tiers.length === 0) {
+    return null;
+  }
+
+  const value =
+    settings.tierQualification === "ROLLING_12_MONTH_SPEND"
+      ? spend
+      : await getLifetimePointsEarned(tx, shop, customerId);
+  if (value === null) {
+    return null;
+  }
+
+  const progress = getTierProgress(tiers, value);
+  const tierId = progress.current?.id ?? null;
+
+  await tx.loyaltyPoints.update({
+    where: { id: balance.id },
+    data: { tierId, tierProgress: value },
+  });
+
+  if (tierId !== balance.tierId) {
+    await enqueueJob(tx, shop, "customer-tier-sync", { customerId });
+  }
+
+  return progress;
+}
+
+/**
+ * The earning multiplier of the customer's current tier, 1 when they have none.
+ */
+export async function getTierMultiplier(
+  tx: Prisma.TransactionClient,
+  shop: string,
+  customerId: string,
+) {
+  const balance = await tx.loyaltyPoints.findUnique({
+    where: { shop_customerId: { shop, customerId } },
+    select: { tierId: true },
+  });
+
+  if (!balance?.tierId) {
+    return 1;
+  }
+
+  const tier = await tx.membershipTier.findFirst({ where: { id: balance.tierId, shop } });
+  return tier?.multiplier ?? 1;
+}
@@ -0,0 +1,231 @@
+import type { InventoryTransfer, InventoryTransferLine, InventoryTransferStatus } from "@prisma/client";
+import prisma from "../db.server";
+import type { AdminApi } from "../shopify.server";
+import type { InventoryLevelChange } from "./inventory.server";
+import {
+  activateInventoryLevels,
+  getCurrentQuantities,
+  recordInventoryBatch,
+  setInventoryQuantities,
+} from "./inventory.server";
+import { updateSnapshotLevels } from "./inventory-snapshot.server";
+import type { StaffUser } from "./staff.server";
+
+export type TransferLineInput = Omit<InventoryTransferLine, "id" | "transferId">;
+
+export type TransferInput = {
+  fromLocationId: string;
+  toLocationId: string;
+  note: string | null;
+  lines: TransferLineInput[];
+};
+
+type TransferWithLines = InventoryTransfer & { lines: InventoryTransferLine[] };
+
+export function validateTransfer(transfer: TransferInput) {
+  const errors: string[] = [];
+
+  if (!transfer.fromLocationId || !transfer.toLocationId) {
+    errors.push("Choose where the stock is moving from and to");
+  } else if (transfer.fromLocationId === transfer.toLocationId) {
+    errors.push("The source and destination must be different locations");
+  }
+  if (transfer.lines.length === 0) {
+    errors.push("Add at least one variant");
+  }
+  if (transfer.lines.some((line) => !Number.isInteger(line.quantity) || line.quantity <= 0)) {
+    errors.push("Quantities must be whole numbers above zero");
+  }
+  const variantIds = transfer.lines.map((line) => line.variantId);
+  if (new Set(variantIds).size !== variantIds.length) {
+    errors.push("Each variant can only appear once in a transfer");
+  }
+
+  return errors;
+}
+
+export async function createTransfer(shop: string, transfer: TransferInput, staff?: StaffUser | null) {
+  return prisma.inventoryTransfer.create({
+    data: {
+      shop,
+      fromLocationId: transfer.fromLocationId,
+      toLocationId: transfer.toLocationId,
+      note: transfer.note,
+      staffUserId: staff?.id ?? null,
+      staffName: staff?.name ?? null,
+      lines: { create: transfer.lines },
+    },
+  });
+}
+
+export async function getTransfers(shop: string) {
+  return prisma.inventoryTransfer.findMany({
+    where: { shop },
+    include: { lines: true },
+    orderBy: { createdAt: "desc" },
+    take: 50,
+  });
+}
+
+/** Drafts haven't touched any stock yet, so they can simply be dropped. */
+export async function deleteDraftTransfer(shop: string, id: string) {
+  const { count } = await prisma.inventoryTransfer.deleteMany({ where: { shop, id, status: "DRAFT" } });
+  if (count === 0) {
+    throw new Error("Only draft transfers can be deleted");
+  }
+}
+
+/**
+ * The quantity changes for one side of a transfer, worked out from the live
+ * quantities so they can be sent with `compareQuantity`. The source must hold
+ * at least the quantity being moved; destinations that don't stock an item
+ * yet are activated.
+ */
+async function transferChanges(
+  admin: AdminApi,
+  transfer: TransferWithLines,
+  sides: Array<"from" | "to">,
+): Promise<InventoryLevelChange[]> {
+  const current = await getCurrentQuantities(
+    admin,
+    transfer.lines.map((line) => line.inventoryItemId),
+  );
+  const quantityAt = (line: InventoryTransferLine, locationId: string) =>
+    current[`${line.inventoryItemId}|${locationId}`];
+
+  if (sides.includes("from")) {
+    const short = transfer.lines.filter(
+      (line) => (quantityAt(line, transfer.fromLocationId) ?? 0) < line.quantity,
+    );
+    if (short.length > 0) {
+      throw new Error(
+        `Not enough stock at the source for ${short
+          .map((line) => `${line.sku || line.variantTitle} (${quantityAt(line, transfer.fromLocationId) ?? 0} available, ${line.quantity} needed)`)
+          .join(", ")}`,
+      );
+    }
+  }
+
+  if (sides.includes("to")) {
+    const unstocked = transfer.lines.filter((line) => quantityAt(line, transfer.toLocationId) === undefined);
+    await activateInventoryLevels(
+      admin,
+      unstocked.map((line) => ({ inventoryItemId: line.inventoryItemId, locationId: transfer.toLocationId })),
+    );
+  }
+
+  return sides.flatMap((side) =>
+    transfer.lines.map((line) => {
+      const locationId = side === "from" ? transfer.fromLocationId : transfer.toLocationId;
+      const oldQty = quantityAt(line, locationId) ?? 0;
+
+      return {
+        productId: line.productId,
+        variantId: line.variantId,
+        inventoryItemId: line.inventoryItemId,
+        locationId,
+        productTitle: line.productTitle,
+        variantTitle: line.variantTitle,
+        sku: line.sku,
+        oldQty,
+        newQty: side === "from" ? oldQty - line.quantity : oldQty + line.quantity,
+      };
+    }),
+  );
+}
+
+/**
+ * Moves a transfer from one status to the next, claiming it first so a double
+ * submit can't move the stock twice. Every change (both sides, when moving
+ * straight away) is set in one `inventorySetQuantities` call, so all of them
+ * apply or none do; if that fails the claim is undone and the error rethrown.
+ * Once Shopify has the new quantities the transfer keeps its new status, and
+ * the history batch and snapshot are updated separately: a failure there is
+ * logged rather than putting the transfer back.
+ */
+async function advanceTransfer(
+  admin: AdminApi,
+  shop: string,
+  id: string,
+  from: InventoryTransferStatus,
+  to: InventoryTransferStatus,
+  { sides, reason, staff }: { sides: Array<"from" | "to">; reason: string; staff?: StaffUser | null },
+) {
+  const now = new Date();
+  const timestamps = {
+    ...(to === "IN_TRANSIT" && { shippedAt: now }),
+    ...(to === "RECEIVED" && { receivedAt: now, ...(from === "DRAFT" && { shippedAt: now }) }),
+  };
+
+  const { count } = await prisma.inventoryTransfer.updateMany({
+    where: { shop, id, status: from },
+    data: { status: to, ...timestamps },
+  });
+  if (count === 0) {
+    throw new Error("This transfer has already moved on; reload to see its status");
+  }
+
+  const transfer = await prisma.inventoryTransfer.findUniqueOrThrow({
+    where: { id },
+    include: { lines: true },
+  });
+
+  let changes: InventoryLevelChange[];
+  try {
+    changes = await transferChanges(admin, transfer, sides);
+    const { userErrors } = await setInventoryQuantities(admin, changes, reason);
+    if (userErrors.length > 0) {
+      throw new Error(userErrors.map((e) => e.message).join(", "));
+    }
+  } catch (error) {
+    await prisma.inventoryTransfer.update({
+      where: { id },
+      data: { status: from, shippedAt: from === "DRAFT" ? null : transfer.shippedAt, receivedAt: null },
+    });
+    throw error;
+  }
+
+  try {
+    await recordInventoryBatch(shop, changes, { staff, reason, transferId: transfer.id });
+    await updateSnapshotLevels(
+      prisma,
+      shop,
+      changes.map((change) => ({
+        inventoryItemId: change.inventoryItemId,
+        locationId: change.locationId,
+        available: change.newQty,
+      })),
+    );
+  } catch (error) {
+    console.error(`Transfer ${transfer.id} moved its stock, but recording the changes failed:`, error);
+  }
+
+  return transfer;
+}
+
+/** Takes the stock out of the source; it counts at neither location until received. */
+export async function shipTransfer(admin: AdminApi, shop: string, id: string, staff?: StaffUser | null) {
+  return advanceTransfer(admin, shop, id, "DRAFT", "IN_TRANSIT", {
+    sides: ["from"],
+    reason: "movement_created",
+    staff,
+  });
+}
+
+/** Adds shipped stock at the destination. */
+export async function receiveTransfer(admin: AdminApi, shop: string, id: string, staff?: StaffUser | null) {
+  return advanceTransfer(admin, shop, id, "IN_TRANSIT", "RECEIVED", {
+    sides: ["to"],
+    reason: "movement_received",
+    staff,
+  });
+}
+
+/** Moves a draft's stock in a single change, for moves that arrive straight away. */
+export async function moveTransferNow(admin: AdminApi, shop: string, id: string, staff?: StaffUser | null) {
+  return advanceTransfer(admin, shop, id, "DRAFT", "RECEIVED", {
+    sides: ["from", "to"],
+    reason: "movement_received",
+    staff,
+  });
+}
@@ -0,0 +1,232 @@
+import type { Job, JobStatus } from "@prisma/client";
+import { Prisma } from "@prisma/client";
+import prisma from "./db.server";
+
+type NoPayload = Record<string, never>;
+
+/** What each job is enqueued with, by job name. Handlers are in app/jobs.server.ts. */
+export type JobPayloads = {
+  "points-expiry": NoPayload;
+  "reward-expiry": NoPayload;
+  "reward-recovery": NoPayload;
+  "inventory-snapshot": NoPayload;
+  "inventory-sync-import": { bulkOperationId: string };
+  "sales-backfill": { days?: number };
+  "low-stock-notify": { alertId: string };
+  "customer-tier-sync": { customerId: string };
+  "prune-jobs": NoPayload;
+};
+
+export type JobName = keyof JobPayloads;
+
+export type EnqueueOptions = {
+  /** Run no earlier than this; defaults to straight away. */
+  runAt?: Date;
+  maxAttempts?: number;
+  /** A job with this key is only ever enqueued once. */
+  uniqueKey?: string;
+  /** Skip enqueueing while the shop already has this job pending or running. */
+  singleton?: boolean;
+};
+
+// Retries wait 30s, 1m, 2m… up to an hour
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+// A running job's worker refreshes its lock this often (see `heartbeatJob`);
+// one whose lock hasn't been refreshed in STALE_JOB_MS lost its worker
+export const HEARTBEAT_MS = 60 * 1000;
+export const STALE_JOB_MS = 15 * 60 * 1000;
+
+/**
+ * Adds a job to the queue. Pass the transaction client when enqueueing from a
+ * transaction, such as a webhook handler, so the job is only created if the
+ * rest of the work commits. Returns null when `uniqueKey` or `singleton`
+ * means the job was already enqueued.
+ */
+export async function enqueueJob<Name extends JobName>(
+  db: Prisma.TransactionClient,
+  shop: string | null,
+  name: Name,
+  payload: JobPayloads[Name],
+  { runAt, maxAttempts, uniqueKey, singleton = false }: EnqueueOptions = {},
+) {
+  if (singleton) {
+    const existing = await db.job.findFirst({
+      where: { shop, name, status: { in: ["PENDING", "RUNNING"] } },
+    });
+    if (existing) {
+      return null;
+    }
+  }
+
+  // skipDuplicates turns a repeated uniqueKey into a no-op instead of aborting the transaction
+  const { count } = await db.job.createMany({
+    data: [{ shop, name, payload, runAt, maxAttempts, uniqueKey }],
+    skipDuplicates: true,
+  });
+
+  return count > 0;
+}
+
+/**
+ * Claims the next due job for `workerId`, or returns null when none can run.
+ * Jobs for a shop that already has `perShopConcurrency` jobs running are
+ * passed over. Claims are serialized with an advisory lock so two workers
+ * can't both take a shop's last slot.
+ */
+export async function claimNextJob(workerId: string, { perShopConcurrency }: { perShopConcurrency: number }) {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('job-queue-claim'))`;
+
+    const [job] = await tx.$queryRaw<Job[]>`
+      UPDATE "Job"
+      SET "status" = 'RUNNING', "lockedAt" = NOW(), "lockedBy" = ${workerId}, "attempts" = "attempts" + 1
+      WHERE "id" = (
+        SELECT "id" FROM "Job" AS candidate
+        WHERE candidate."status" = 'PENDING'
+          AND candidate."runAt" <= NOW()
+          AND (
+            candidate."shop" IS NULL
+            OR (
+              SELECT COUNT(*) FROM "Job" AS running
+              WHERE running."shop" = candidate."shop" AND running."status" = 'RUNNING'
+            ) < ${perShopConcurrency}
+          )
+        ORDER BY candidate."runAt" ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *`;
+
+    return job ?? null;
+  });
+}
+
+/**
+ * The row of a job still held by the claim that returned `job`. Claiming
+ * bumps `attempts`, so a job recovered as stale and claimed again no longer
+ * matches its earlier claim.
+ */
+function claimedBy(job: Job): Prisma.JobWhereInput {
+  return { id: job.id, status: "RUNNING", lockedBy: job.lockedBy, attempts: job.attempts };
+}
+
+/**
+ * Keeps a running job from being recovered as stale. Returns false once the
+ * claim is lost, when the job's outcome will no longer be recorded.
+ */
+export async function heartbeatJob(job: Job) {
+  const { count } = await prisma.job.updateMany({ where: claimedBy(job), data: { lockedAt: new Date() } });
+  return count > 0;
+}
+
+/** Returns false when the claim was lost and the result wasn't recorded. */
+export async function completeJob(job: Job, result: unknown) {
+  const { count } = await prisma.job.updateMany({
+    where: claimedBy(job),
+    data: {
+      status: "COMPLETED",
+      completedAt: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+      result: result === undefined ? Prisma.DbNull : (result as Prisma.InputJsonValue),
+    },
+  });
+  return count > 0;
+}
+
+/**
+ * Records a failed attempt. The job is retried with exponential backoff until
+ * it runs out of attempts, then moved to the dead-letter state. Pass
+ * `retry: false` for failures that can't succeed on another attempt. Returns
+ * false when the claim was lost and the failure wasn't recorded.
+ */
+export async function failJob(job: Job, error: unknown, { retry = true }: { retry?: boolean } = {}) {
+  return recordFailure(claimedBy(job), job, error, retry);
+}
+
+async function recordFailure(where: Prisma.JobWhereInput, job: Job, error: unknown, retry: boolean) {
+  const message = error instanceof Error ? error.message : String(error);
+  const dead = !retry || job.attempts >= job.maxAttempts;
+  const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, job.attempts - 1));
+
+  const { count } = await prisma.job.updateMany({
+    where,
+    data: {
+      status: dead ? "DEAD" : "PENDING",
+      runAt: dead ? undefined : new Date(Date.now() + delay),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: message,
+    },
+  });
+  return count > 0;
+}
+
+/**
+ * Treats jobs whose worker stopped heartbeating mid-run as failed attempts.
+ * A job whose heartbeat lands after it was found stale is left running.
+ */
+export async function recoverStaleJobs() {
+  const staleBefore = new Date(Date.now() - STALE_JOB_MS);
+  const stale = await prisma.job.findMany({
+    where: { status: "RUNNING", lockedAt: { lt: staleBefore } },
+  });
+
+  let recovered = 0;
+  for (const job of stale) {
+    const error = new Error(`Worker ${job.lockedBy ?? "unknown"} stopped before the job finished`);
+    if (await recordFailure({ ...claimedBy(job), lockedAt: { lt: staleBefore } }, job, error, true)) {
+      recovered++;
+    }
+  }
+
+  return recovered;
+}
+
+export const JOB_PAGE_SIZE = 50;
+
+export async function getJobs(shop: string, { status, page = 0 }: { status?: JobStatus | null; page?: number } = {}) {
+  const where = { shop, ...(status && { status }) };
+
+  const [jobs, counts] = await Promise.all([
+    prisma.job.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: page * JOB_PAGE_SIZE,
+      // One extra row to tell whether there is a next page
+      take: JOB_PAGE_SIZE + 1,
+    }),
+    prisma.job.groupBy({ by: ["status"], where: { shop }, _count: true }),
+  ]);
+
+  return {
+    jobs: jobs.slice(0, JOB_PAGE_SIZE),
+    hasNextPage: jobs.length > JOB_PAGE_SIZE,
+    counts: Object.fromEntries(counts.map((count) => [count.status, count._count])) as Partial<
+      Record<JobStatus, number>
+    >,
+  };
+}
+
+/** Gives a dead job a fresh set of attempts. */
+export async function retryJob(shop: string, id: string) {
+  const { count } = await prisma.job.updateMany({
+    where: { shop, id, status: "DEAD" },
+    data: { status: "PENDING", attempts: 0, runAt: new Date(), lastError: null },
+  });
+  if (count === 0) {
+    throw new Error("Only dead jobs can be retried");
+  }
+}
+
+/** Drops a job that hasn't started, or a dead one. */
+export async function deleteJob(shop: string, id: string) {
+  const { count } = await prisma.job.deleteMany({
+    where: { shop, id, status: { in: ["PENDING", "DEAD"] } },
+  });
+  if (count === 0) {
+    throw new Error("Running and completed jobs can't be deleted");
+  }
+}
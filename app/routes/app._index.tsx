@@ -1,334 +1,250 @@
-import { useEffect } from "react";
-import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
-import { useFetcher } from "@remix-run/react";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
 import {
   Page,
   Layout,
   Text,
   Card,
-  Button,
   BlockStack,
-  Box,
-  List,
-  Link,
   InlineStack,
+  InlineGrid,
+  Link,
+  Badge,
+  DataTable,
 } from "@shopify/polaris";
-import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
+import { TitleBar } from "@shopify/app-bridge-react";
 import { authenticate } from "../shopify.server";
+import { getPointsActivity, getPointsLiability, getTopCustomers } from "../models/loyalty.server";
+import { getRecentInventoryChanges } from "../models/inventory.server";
+import { countLowStockVariants } from "../models/low-stock.server";
+import { getWebhookHealth } from "../webhooks.server";
 
-export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
+// Webhook failures older than this no longer count against a topic's health
+const WEBHOOK_FAILURE_WINDOW_DAYS = 7;
 
-  return null;
+type LoaderData = {
+  liability: number;
+  monthStart: string;
+  activity: { issued: number; redeemed: number };
+  topCustomers: Array<{ customerId: string; name: string; points: number }>;
+  inventoryChanges: Array<{
+    id: string;
+    productTitle: string | null;
+    variantTitle: string | null;
+    sku: string | null;
+    oldQty: number;
+    newQty: number;
+    staffName: string | null;
+    updatedAt: string;
+  }>;
+  lowStockVariants: number;
+  webhooks: Array<{
+    topic: string;
+    lastDeliveryAt: string | null;
+    failures: number;
+    lastFailureAt: string | null;
+    lastError: string | null;
+  }>;
 };
 
-export const action = async ({ request }: ActionFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
-  const color = ["Red", "Orange", "Yellow", "Green"][
-    Math.floor(Math.random() * 4)
-  ];
-  const response = await admin.graphql(
-    `#graphql
-      mutation populateProduct($product: ProductCreateInput!) {
-        productCreate(product: $product) {
-          product {
-            id
-            title
-            handle
-            status
-            variants(first: 10) {
-              edges {
-                node {
-                  id
-                  price
-                  barcode
-                  createdAt
-                }
-              }
-            }
-          }
-        }
-      }`,
-    {
-      variables: {
-        product: {
-          title: `${color} Snowboard`,
-        },
-      },
-    },
-  );
-  const responseJson = await response.json();
-
-  const product = responseJson.data!.productCreate!.product!;
-  const variantId = product.variants.edges[0]!.node!.id!;
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const { shop } = session;
 
-  const variantResponse = await admin.graphql(
-    `#graphql
-    mutation shopifyRemixTemplateUpdateVariant($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
-      productVariantsBulkUpdate(productId: $productId, variants: $variants) {
-        productVariants {
-          id
-          price
-          barcode
-          createdAt
-        }
-      }
-    }`,
-    {
-      variables: {
-        productId: product.id,
-        variants: [{ id: variantId, price: "100.00" }],
-      },
-    },
-  );
+  const now = new Date();
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const failuresSince = new Date(now.getTime() - WEBHOOK_FAILURE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
 
-  const variantResponseJson = await variantResponse.json();
+  const [liability, activity, topCustomers, inventoryChanges, lowStockVariants, webhooks] = await Promise.all([
+    getPointsLiability(shop),
+    getPointsActivity(shop, monthStart),
+    getTopCustomers(admin, shop),
+    getRecentInventoryChanges(shop),
+    countLowStockVariants(shop),
+    getWebhookHealth(shop, failuresSince),
+  ]);
 
-  return {
-    product: responseJson!.data!.productCreate!.product,
-    variant:
-      variantResponseJson!.data!.productVariantsBulkUpdate!.productVariants,
-  };
+  return Response.json({
+    liability,
+    monthStart: monthStart.toISOString(),
+    activity,
+    topCustomers,
+    inventoryChanges: inventoryChanges.map((change) => ({
+      id: change.id,
+      productTitle: change.productTitle,
+      variantTitle: change.variantTitle,
+      sku: change.sku,
+      oldQty: change.oldQty,
+      newQty: change.newQty,
+      staffName: change.staffName ?? change.staffUserId,
+      updatedAt: change.updatedAt.toISOString(),
+    })),
+    lowStockVariants,
+    webhooks: webhooks.map((health) => ({
+      ...health,
+      lastDeliveryAt: health.lastDeliveryAt?.toISOString() ?? null,
+      lastFailureAt: health.lastFailureAt?.toISOString() ?? null,
+    })),
+  });
 };
 
+function PanelHeading({ title, url, linkLabel }: { title: string; url: string; linkLabel: string }) {
+  return (
+    <InlineStack align="space-between" blockAlign="center">
+      <Text as="h2" variant="headingMd">{title}</Text>
+      <Link url={url} removeUnderline>{linkLabel}</Link>
+    </InlineStack>
+  );
+}
+
 export default function Index() {
-  const fetcher = useFetcher<typeof action>();
+  const {
+    liability,
+    monthStart,
+    activity,
+    topCustomers,
+    inventoryChanges,
+    lowStockVariants,
+    webhooks,
+  } = useLoaderData<LoaderData>();
 
-  const shopify = useAppBridge();
-  const isLoading =
-    ["loading", "submitting"].includes(fetcher.state) &&
-    fetcher.formMethod === "POST";
-  const productId = fetcher.data?.product?.id.replace(
-    "gid://shopify/Product/",
-    "",
-  );
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString() + " " + date.toLocaleTimeString();
+  };
 
-  useEffect(() => {
-    if (productId) {
-      shopify.toast.show("Product created");
-    }
-  }, [productId, shopify]);
-  const generateProduct = () => fetcher.submit({}, { method: "POST" });
+  const recentFailures = webhooks.reduce((sum, health) => sum + health.failures, 0);
 
   return (
-    <Page>
-      <TitleBar title="Remix app template">
-        <button variant="primary" onClick={generateProduct}>
-          Generate a product
-        </button>
-      </TitleBar>
-      <BlockStack gap="500">
-        <Layout>
-          <Layout.Section>
+    <Page title="Dashboard">
+      <TitleBar title="Dashboard" />
+
+      <Layout>
+        <Layout.Section>
+          <InlineGrid columns={{ xs: 1, md: 3 }} gap="400">
             <Card>
-              <BlockStack gap="500">
-                <BlockStack gap="200">
-                  <Text as="h2" variant="headingMd">
-                    Congrats on creating a new Shopify app 🎉
-                  </Text>
-                  <Text variant="bodyMd" as="p">
-                    This embedded app template uses{" "}
-                    <Link
-                      url="https://shopify.dev/docs/apps/tools/app-bridge"
-                      target="_blank"
-                      removeUnderline
-                    >
-                      App Bridge
-                    </Link>{" "}
-                    interface examples like an{" "}
-                    <Link url="/app/additional" removeUnderline>
-                      additional page in the app nav
-                    </Link>
-                    , as well as an{" "}
-                    <Link
-                      url="https://shopify.dev/docs/api/admin-graphql"
-                      target="_blank"
-                      removeUnderline
-                    >
-                      Admin GraphQL
-                    </Link>{" "}
-                    mutation demo, to provide a starting point for app
-                    development.
-                  </Text>
-                </BlockStack>
-                <BlockStack gap="200">
-                  <Text as="h3" variant="headingMd">
-                    Get started with products
-                  </Text>
-                  <Text as="p" variant="bodyMd">
-                    Generate a product with GraphQL and get the JSON output for
-                    that product. Learn more about the{" "}
-                    <Link
-                      url="https://shopify.dev/docs/api/admin-graphql/latest/mutations/productCreate"
-                      target="_blank"
-                      removeUnderline
-                    >
-                      productCreate
-                    </Link>{" "}
-                    mutation in our API references.
-                  </Text>
-                </BlockStack>
-                <InlineStack gap="300">
-                  <Button loading={isLoading} onClick={generateProduct}>
-                    Generate a product
-                  </Button>
-                  {fetcher.data?.product && (
-                    <Button
-                      url={`shopify:admin/products/${productId}`}
-                      target="_blank"
-                      variant="plain"
-                    >
-                      View product
-                    </Button>
-                  )}
+              <BlockStack gap="300">
+                <PanelHeading title="Outstanding points" url="/app/loyalty" linkLabel="Loyalty Points" />
+                <Text as="p" variant="heading2xl">{liability.toLocaleString()}</Text>
+                <Text as="p" tone="subdued">Points customers hold and can still redeem</Text>
+              </BlockStack>
+            </Card>
+
+            <Card>
+              <BlockStack gap="300">
+                <PanelHeading title="Points this month" url="/app/loyalty" linkLabel="Loyalty Points" />
+                <InlineStack gap="800">
+                  <BlockStack gap="100">
+                    <Text as="p" variant="heading2xl">{activity.issued.toLocaleString()}</Text>
+                    <Text as="p" tone="subdued">Issued</Text>
+                  </BlockStack>
+                  <BlockStack gap="100">
+                    <Text as="p" variant="heading2xl">{activity.redeemed.toLocaleString()}</Text>
+                    <Text as="p" tone="subdued">Redeemed</Text>
+                  </BlockStack>
                 </InlineStack>
-                {fetcher.data?.product && (
-                  <>
-                    <Text as="h3" variant="headingMd">
-                      {" "}
-                      productCreate mutation
-                    </Text>
-                    <Box
-                      padding="400"
-                      background="bg-surface-active"
-                      borderWidth="025"
-                      borderRadius="200"
-                      borderColor="border"
-                      overflowX="scroll"
-                    >
-                      <pre style={{ margin: 0 }}>
-                        <code>
-                          {JSON.stringify(fetcher.data.product, null, 2)}
-                        </code>
-                      </pre>
-                    </Box>
-                    <Text as="h3" variant="headingMd">
-                      {" "}
-                      productVariantsBulkUpdate mutation
-                    </Text>
-                    <Box
-                      padding="400"
-                      background="bg-surface-active"
-                      borderWidth="025"
-                      borderRadius="200"
-                      borderColor="border"
-                      overflowX="scroll"
-                    >
-                      <pre style={{ margin: 0 }}>
-                        <code>
-                          {JSON.stringify(fetcher.data.variant, null, 2)}
-                        </code>
-                      </pre>
-                    </Box>
-                  </>
-                )}
+                <Text as="p" tone="subdued">Since {new Date(monthStart).toLocaleDateString()}</Text>
+              </BlockStack>
+            </Card>
+
+            <Card>
+              <BlockStack gap="300">
+                <PanelHeading title="Low stock" url="/app/inventory/low-stock" linkLabel="Low-stock alerts" />
+                <Text as="p" variant="heading2xl" tone={lowStockVariants > 0 ? "critical" : undefined}>
+                  {lowStockVariants.toLocaleString()}
+                </Text>
+                <Text as="p" tone="subdued">
+                  {lowStockVariants === 1 ? "Variant" : "Variants"} at or below their reorder point
+                </Text>
               </BlockStack>
             </Card>
-          </Layout.Section>
-          <Layout.Section variant="oneThird">
-            <BlockStack gap="500">
-              <Card>
+          </InlineGrid>
+        </Layout.Section>
+
+        <Layout.Section variant="oneHalf">
+          <Card>
+            <BlockStack gap="300">
+              <PanelHeading title="Top customers" url="/app/loyalty" linkLabel="All customers" />
+              {topCustomers.length > 0 ? (
                 <BlockStack gap="200">
-                  <Text as="h2" variant="headingMd">
-                    App template specs
-                  </Text>
-                  <BlockStack gap="200">
-                    <InlineStack align="space-between">
-                      <Text as="span" variant="bodyMd">
-                        Framework
-                      </Text>
-                      <Link
-                        url="https://remix.run"
-                        target="_blank"
-                        removeUnderline
-                      >
-                        Remix
-                      </Link>
-                    </InlineStack>
-                    <InlineStack align="space-between">
-                      <Text as="span" variant="bodyMd">
-                        Database
-                      </Text>
-                      <Link
-                        url="https://www.prisma.io/"
-                        target="_blank"
-                        removeUnderline
-                      >
-                        Prisma
-                      </Link>
-                    </InlineStack>
-                    <InlineStack align="space-between">
-                      <Text as="span" variant="bodyMd">
-                        Interface
-                      </Text>
-                      <span>
-                        <Link
-                          url="https://polaris.shopify.com"
-                          target="_blank"
-                          removeUnderline
-                        >
-                          Polaris
-                        </Link>
-                        {", "}
-                        <Link
-                          url="https://shopify.dev/docs/apps/tools/app-bridge"
-                          target="_blank"
-                          removeUnderline
-                        >
-                          App Bridge
-                        </Link>
-                      </span>
-                    </InlineStack>
-                    <InlineStack align="space-between">
-                      <Text as="span" variant="bodyMd">
-                        API
-                      </Text>
-                      <Link
-                        url="https://shopify.dev/docs/api/admin-graphql"
-                        target="_blank"
-                        removeUnderline
-                      >
-                        GraphQL API
+                  {topCustomers.map((customer) => (
+                    <InlineStack key={customer.customerId} align="space-between">
+                      <Link url={`/app/loyalty/customers/${customer.customerId.replace("gid://shopify/Customer/", "")}`}>
+                        {customer.name}
                       </Link>
+                      <Text as="span" numeric>{customer.points.toLocaleString()} points</Text>
                     </InlineStack>
-                  </BlockStack>
+                  ))}
                 </BlockStack>
-              </Card>
-              <Card>
+              ) : (
+                <Text as="p" tone="subdued">No customers have points yet.</Text>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section variant="oneHalf">
+          <Card>
+            <BlockStack gap="300">
+              <PanelHeading title="Recent inventory changes" url="/app/inventory/history" linkLabel="Inventory history" />
+              {inventoryChanges.length > 0 ? (
                 <BlockStack gap="200">
-                  <Text as="h2" variant="headingMd">
-                    Next steps
-                  </Text>
-                  <List>
-                    <List.Item>
-                      Build an{" "}
-                      <Link
-                        url="https://shopify.dev/docs/apps/getting-started/build-app-example"
-                        target="_blank"
-                        removeUnderline
-                      >
-                        {" "}
-                        example app
-                      </Link>{" "}
-                      to get started
-                    </List.Item>
-                    <List.Item>
-                      Explore Shopify’s API with{" "}
-                      <Link
-                        url="https://shopify.dev/docs/apps/tools/graphiql-admin-api"
-                        target="_blank"
-                        removeUnderline
-                      >
-                        GraphiQL
-                      </Link>
-                    </List.Item>
-                  </List>
+                  {inventoryChanges.map((change) => (
+                    <InlineStack key={change.id} align="space-between" wrap={false} gap="200">
+                      <BlockStack>
+                        <Text as="span" fontWeight="semibold">
+                          {change.productTitle ?? "Unknown product"}
+                          {change.variantTitle && change.variantTitle !== "Default Title" ? ` – ${change.variantTitle}` : ""}
+                        </Text>
+                        <Text as="span" tone="subdued" variant="bodySm">
+                          {formatDate(change.updatedAt)}
+                          {change.staffName ? ` by ${change.staffName}` : ""}
+                        </Text>
+                      </BlockStack>
+                      <Text as="span" numeric>
+                        {change.oldQty} → {change.newQty}
+                      </Text>
+                    </InlineStack>
+                  ))}
                 </BlockStack>
-              </Card>
+              ) : (
+                <Text as="p" tone="subdued">No inventory changes have been saved yet.</Text>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <PanelHeading title="Webhook health" url="/app/webhooks" linkLabel="Webhook failures" />
+              <InlineStack>
+                {recentFailures > 0 ? (
+                  <Badge tone="critical">
+                    {`${recentFailures} ${recentFailures === 1 ? "failure" : "failures"} in the last ${WEBHOOK_FAILURE_WINDOW_DAYS} days`}
+                  </Badge>
+                ) : (
+                  <Badge tone="success">{`No failures in the last ${WEBHOOK_FAILURE_WINDOW_DAYS} days`}</Badge>
+                )}
+              </InlineStack>
+              {webhooks.length > 0 ? (
+                <DataTable
+                  columnContentTypes={["text", "text", "numeric", "text"]}
+                  headings={["Topic", "Last delivery", "Failures", "Last error"]}
+                  rows={webhooks.map((health) => [
+                    health.topic,
+                    health.lastDeliveryAt ? formatDate(health.lastDeliveryAt) : "—",
+                    health.failures,
+                    health.lastError ?? "",
+                  ])}
+                />
+              ) : (
+                <Text as="p" tone="subdued">No webhooks have been received yet.</Text>
+              )}
             </BlockStack>
-          </Layout.Section>
-        </Layout>
-      </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
     </Page>
   );
 }
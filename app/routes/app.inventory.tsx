@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
 import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
 import {
@@ -19,216 +19,261 @@ import {
   Tooltip,
   Icon,
   Link,
+  Select,
+  ButtonGroup,
+  BlockStack,
+  InlineStack,
 } from "@shopify/polaris";
 import { TitleBar } from "@shopify/app-bridge-react";
 import { authenticate } from "../shopify.server";
+import type { AdminUserError } from "../graphql.server";
+import type {
+  InventoryConflict,
+  InventoryQuantityChange,
+  InventoryLevelChange,
+  InventoryLocation as Location,
+  InventoryProduct as Product,
+} from "../models/inventory.server";
+import {
+  INVENTORY_ADJUSTMENT_REASONS,
+  adjustInventoryQuantities,
+  findInventoryConflicts,
+  getInventoryProducts,
+  getLocations,
+  isInventoryAdjustmentReason,
+  recordInventoryBatch,
+  setInventoryQuantities,
+} from "../models/inventory.server";
+import type { SnapshotSort } from "../models/inventory-snapshot.server";
+import {
+  getCurrentInventorySync,
+  getInventorySnapshotSummary,
+  getLatestInventorySync,
+  getSnapshotProducts,
+  startInventorySync,
+  updateSnapshotLevels,
+} from "../models/inventory-snapshot.server";
+import { getVariantForecasts } from "../models/sales-velocity.server";
+import { getStaffUser } from "../models/staff.server";
 import prisma from "../db.server";
 
-type Product = {
-  id: string;
-  title: string;
-  variants: Array<{
-    id: string;
-    title: string;
-    inventoryQuantity: number;
-    sku: string;
-    inventoryItemId?: string;
-    locationId?: string;
-  }>;
-};
-
 type InventoryUpdate = {
   variantId: string;
   productId: string;
   oldQty: number;
   newQty: number;
   inventoryItemId?: string;
-  locationId?: string;
+  locationId: string;
+  productTitle: string;
+  variantTitle: string;
+  sku: string;
 };
 
 type ActionData = 
   | { success: false; error: string }
-  | { success: boolean; results: any[]; errors: any[] };
+  | { success: true; syncStarted: true }
+  | { success: boolean; results: InventoryQuantityChange[]; errors: AdminUserError[]; conflicts: InventoryConflict[] };
+
+type Resolution = "overwrite" | "theirs" | "delta";
+
+type ViewMode = "list" | "grid";
+
+// "set" enters new totals; "adjust" enters amounts to add or take away
+type EntryMode = "set" | "adjust";
+
+// "live" pages through the Admin API; "snapshot" reads the last full sync
+type Source = "live" | "snapshot";
+
+const SNAPSHOT_SORTS: Array<{ label: string; value: SnapshotSort }> = [
+  { label: "Product A–Z", value: "title" },
+  { label: "Product Z–A", value: "title-desc" },
+  { label: "SKU", value: "sku" },
+  { label: "Total available, lowest first", value: "available" },
+  { label: "Total available, highest first", value: "available-desc" },
+];
+
+// Edits are tracked per cell, i.e. per variant at a location
+const cellKey = (variantId: string, locationId: string) => `${variantId}|${locationId}`;
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   
   const url = new URL(request.url);
   const cursor = url.searchParams.get("cursor") || null;
   const before = url.searchParams.get("before") || null;
   const searchTerm = url.searchParams.get("searchTerm") || "";
+  const view: ViewMode = url.searchParams.get("view") === "grid" ? "grid" : "list";
+
+  const [locations, currentSync, latestSync] = await Promise.all([
+    getLocations(admin),
+    getCurrentInventorySync(session.shop),
+    getLatestInventorySync(session.shop),
+  ]);
+  const source: Source = currentSync && url.searchParams.get("source") === "snapshot" ? "snapshot" : "live";
+  const sort = (SNAPSHOT_SORTS.find((option) => option.value === url.searchParams.get("sort"))?.value ??
+    "title") as SnapshotSort;
+  const sync = {
+    syncedAt: currentSync?.completedAt?.toISOString() ?? null,
+    // Whether a newer sync is still on its way
+    inProgress: latestSync?.status === "RUNNING" || latestSync?.status === "IMPORTING",
+    failed: latestSync?.status === "FAILED" ? latestSync.error : null,
+  };
+
+  const requestedLocation = url.searchParams.get("location");
+  const locationId = locations.some((location) => location.id === requestedLocation)
+    ? requestedLocation
+    : locations[0]?.id ?? null;
   
-  // Query for products with inventory data
-  // Build a more flexible search query that finds the term anywhere in product or variant names or SKUs
-  let searchQuery = searchTerm;
-  if (searchTerm && !searchTerm.includes(':')) {
-    // Format the query to search in product title, variant title, and SKU
-    searchQuery = `(title:*${searchTerm}* OR variant_title:*${searchTerm}* OR sku:*${searchTerm}*)`;
+  if (source === "snapshot" && currentSync) {
+    // Snapshot pages are numbered, and the page number doubles as the cursor
+    const page = Math.max(0, parseInt(cursor || before || "0", 10) || 0);
+    const [{ products, hasNextPage }, summary] = await Promise.all([
+      getSnapshotProducts(session.shop, currentSync.id, { searchTerm, sort, page }),
+      getInventorySnapshotSummary(session.shop, currentSync.id),
+    ]);
+    const forecasts = await getVariantForecasts(session.shop, products);
+
+    return Response.json({
+      products,
+      locations,
+      locationId,
+      view,
+      pageInfo: {
+        hasNextPage,
+        hasPreviousPage: page > 0,
+        startCursor: String(page),
+        endCursor: String(page + 1),
+      },
+      searchTerm,
+      reasons: INVENTORY_ADJUSTMENT_REASONS,
+      source,
+      sort,
+      sync,
+      summary,
+      forecasts,
+    });
   }
-  
-  const productsQuery = `
-    query GetProducts($first: Int, $last: Int, $after: String, $before: String, $query: String) {
-      products(first: $first, last: $last, after: $after, before: $before, query: $query) {
-        pageInfo {
-          hasNextPage
-          hasPreviousPage
-          startCursor
-          endCursor
-        }
-        nodes {
-          id
-          title
-          variants(first: 20) {
-            nodes {
-              id
-              title
-              inventoryQuantity
-              sku
-              inventoryItem {
-                id
-                inventoryLevels(first: 1) {
-                  edges {
-                    node {
-                      id
-                      quantities(names: ["available"]) {
-                        name
-                        quantity
-                      }
-                      location {
-                        id
-                      }
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
-    }
-  `;
 
   // When using 'before', we need to use 'last', not 'first'
-  const variables = {
+  const { products, pageInfo } = await getInventoryProducts(admin, {
     first: before ? null : 10,
     last: before ? 10 : null,
     after: cursor,
-    before: before,
-    query: searchQuery,
-  };
-
-  const response = await admin.graphql(productsQuery, { variables });
-  const responseJson = await response.json();
-  const { products } = responseJson.data;
+    before,
+    searchTerm,
+    locationCount: locations.length,
+  });
+  const forecasts = await getVariantForecasts(session.shop, products);
 
   return Response.json({
-    products: products.nodes.map((product: any) => ({
-      id: product.id,
-      title: product.title,
-      variants: product.variants.nodes.map((variant: any) => {
-        // Get the first inventory level's location ID and other data
-        const inventoryLevel = variant.inventoryItem?.inventoryLevels?.edges[0]?.node;
-        const locationId = inventoryLevel?.location?.id;
-        const inventoryLevelId = inventoryLevel?.id;
-        return {
-          id: variant.id,
-          title: variant.title,
-          inventoryQuantity: variant.inventoryQuantity || 0,
-          sku: variant.sku || "",
-          inventoryItemId: variant.inventoryItem?.id,
-          locationId,
-          inventoryLevelId
-        };
-      }),
-    })),
-    pageInfo: products.pageInfo,
+    products,
+    locations,
+    locationId,
+    view,
+    pageInfo,
     searchTerm,
+    reasons: INVENTORY_ADJUSTMENT_REASONS,
+    source,
+    sort,
+    sync,
+    summary: null,
+    forecasts,
   });
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session, sessionToken } = await authenticate.admin(request);
   const formData = await request.formData();
-  const updates = JSON.parse(formData.get("updates") as string) as Array<InventoryUpdate & { locationId?: string }>;
+
+  if (formData.get("intent") === "sync") {
+    try {
+      await startInventorySync(admin, session.shop);
+      return Response.json({ success: true, syncStarted: true });
+    } catch (error) {
+      return Response.json({
+        success: false,
+        error: `Couldn't start the sync: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+
+  const updates = JSON.parse(formData.get("updates") as string) as InventoryUpdate[];
+  const mode: EntryMode = formData.get("mode") === "adjust" ? "adjust" : "set";
+  const reason = (formData.get("reason") as string) || "correction";
   
   if (!updates || updates.length === 0) {
     return Response.json({ success: false, error: "No updates provided" });
   }
+  if (!isInventoryAdjustmentReason(reason)) {
+    return Response.json({ success: false, error: `Unknown adjustment reason ${reason}` });
+  }
+  const staff = getStaffUser({ session, sessionToken });
 
-  const results: any[] = [];
-  const errors: any[] = [];
+  const results: InventoryQuantityChange[] = [];
+  const errors: AdminUserError[] = [];
+  let conflicts: InventoryConflict[] = [];
 
-  // Filter for valid updates with inventory item IDs and quantity changes
+  // Filter for valid updates with inventory item IDs, locations and quantity changes
   const validUpdates = updates.filter(update => 
     update.inventoryItemId && 
+    update.locationId &&
     update.newQty !== update.oldQty
   );
 
   if (validUpdates.length > 0) {
     try {
-      // Format quantities for the inventorySetQuantities mutation
-      const quantities = validUpdates.map(update => {
-        const item = {
-          inventoryItemId: update.inventoryItemId,
-          quantity: update.newQty,
-          compareQuantity: update.oldQty
-        };
-        
-        // Only add locationId if it exists
-        if (update.locationId) {
-          return { ...item, locationId: update.locationId };
-        }
-        return item;
-      });
+      // One quantity per edited cell, compared against the quantity it was edited from
+      const changes: InventoryLevelChange[] = validUpdates.map(update => ({
+        ...update,
+        inventoryItemId: update.inventoryItemId as string,
+      }));
 
-      const response = await admin.graphql(
-        `mutation inventorySetQuantities($input: InventorySetQuantitiesInput!) {
-          inventorySetQuantities(input: $input) {
-            userErrors {
-              field
-              message
-            }
-            inventoryAdjustmentGroup {
-              createdAt
-              changes {
-                name
-                delta
-              }
-            }
-          }
-        }`,
-        {
-          variables: {
-            input: {
-              reason: "correction",
-              name: "available",
-              quantities
-            }
-          },
+      if (mode === "adjust") {
+        const result = await adjustInventoryQuantities(
+          admin,
+          changes.map((change) => ({
+            inventoryItemId: change.inventoryItemId,
+            locationId: change.locationId,
+            delta: change.newQty - change.oldQty,
+          })),
+          reason,
+        );
+
+        if (result.userErrors.length > 0) {
+          errors.push(...result.userErrors);
+        } else {
+          results.push(...result.changes);
+
+          // Log the quantities Shopify ended up with, which include any
+          // changes made since the page was loaded
+          const applied = changes.map((change) => {
+            const after = result.changes.find(
+              (c) => c.inventoryItemId === change.inventoryItemId && c.locationId === change.locationId,
+            )?.quantityAfterChange;
+            return typeof after === "number"
+              ? { ...change, oldQty: after - (change.newQty - change.oldQty), newQty: after }
+              : change;
+          });
+          await recordInventoryBatch(session.shop, applied, { staff, reason });
+          await updateSnapshotLevels(prisma, session.shop, applied.map(snapshotLevel));
         }
-      );
 
-      const responseJson = await response.json();
-      const result = responseJson.data?.inventorySetQuantities;
+        return Response.json({ success: errors.length === 0, results, errors, conflicts });
+      }
+
+      const result = await setInventoryQuantities(admin, changes, reason);
       
-      if (result?.userErrors && result.userErrors.length > 0) {
+      if (result.userErrors.length > 0) {
         errors.push(...result.userErrors);
-      } else if (result?.inventoryAdjustmentGroup) {
+        // The batch is all-or-nothing; find out which cells someone else changed first
+        conflicts = await findInventoryConflicts(admin, changes);
+      } else {
         // Successfully updated inventory
-        results.push(...(result.inventoryAdjustmentGroup.changes || []));
+        results.push(...result.changes);
         
-        // Log inventory changes in database
-        for (const update of validUpdates) {
-          await prisma.inventoryLog.create({
-            data: {
-              productId: update.productId,
-              variantId: update.variantId,
-              oldQty: update.oldQty,
-              newQty: update.newQty,
-              updatedAt: new Date(),
-            },
-          });
-        }
+        // Log inventory changes in database as one batch
+        await recordInventoryBatch(session.shop, changes, { staff, reason });
+        await updateSnapshotLevels(prisma, session.shop, changes.map(snapshotLevel));
       }
     } catch (error) {
       errors.push({
@@ -241,22 +286,48 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     success: errors.length === 0,
     results,
     errors,
+    conflicts,
   });
 };
 
+const snapshotLevel = (change: InventoryLevelChange) => ({
+  inventoryItemId: change.inventoryItemId,
+  locationId: change.locationId,
+  available: change.newQty,
+});
+
 export default function InventoryManager() {
-  const { products, pageInfo, searchTerm } = useLoaderData<typeof loader>();
+  const {
+    products,
+    locations,
+    locationId,
+    view,
+    pageInfo,
+    searchTerm,
+    reasons,
+    source,
+    sort,
+    sync,
+    summary,
+    forecasts,
+  } = useLoaderData<typeof loader>();
   const actionData = useActionData<ActionData>();
   const navigation = useNavigation();
   const submit = useSubmit();
   
   const [inventoryChanges, setInventoryChanges] = useState<Record<string, number>>({});
+  // Adjust mode keeps the typed text so a lone "-" or "+" can be entered
+  const [adjustments, setAdjustments] = useState<Record<string, string>>({});
+  const [entryMode, setEntryMode] = useState<EntryMode>("set");
+  const [reason, setReason] = useState("correction");
   const [searchValue, setSearchValue] = useState(searchTerm || "");
   const [showToast, setShowToast] = useState(false);
   const [toastMessage, setToastMessage] = useState("");
   const [toastError, setToastError] = useState(false);
   const [cursorStack, setCursorStack] = useState<string[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [resolutions, setResolutions] = useState<Record<string, Resolution>>({});
   
   const { selectedResources, allResourcesSelected, handleSelectionChange } = 
     useIndexResourceState(products.flatMap((p: Product) => p.variants.map((v) => v.id)));
@@ -264,11 +335,39 @@ export default function InventoryManager() {
   const isSubmitting = navigation.state === "submitting";
   const isLoading = navigation.state === "loading";
   
+  // Keeps the chosen view and location across searches and page changes. Read
+  // through a ref because the debounced search below is created only once.
+  const currentView = useRef({ view, locationId, source, sort });
+  currentView.current = { view, locationId, source, sort };
+
+  const viewParams = (
+    overrides: { view?: ViewMode; location?: string | null; source?: Source; sort?: SnapshotSort } = {},
+  ) => {
+    const searchParams = new URLSearchParams();
+    const nextView = overrides.view ?? currentView.current.view;
+    const nextLocation = overrides.location !== undefined ? overrides.location : currentView.current.locationId;
+    const nextSource = overrides.source ?? currentView.current.source;
+    const nextSort = overrides.sort ?? currentView.current.sort;
+    if (nextView === "grid") {
+      searchParams.set("view", nextView);
+    }
+    if (nextLocation) {
+      searchParams.set("location", nextLocation);
+    }
+    if (nextSource === "snapshot") {
+      searchParams.set("source", nextSource);
+      if (nextSort !== "title") {
+        searchParams.set("sort", nextSort);
+      }
+    }
+    return searchParams;
+  };
+
   // Debounced search function
   const debouncedSearch = useCallback(
     debounce((value: string) => {
       setIsSearching(true);
-      const searchParams = new URLSearchParams();
+      const searchParams = viewParams();
       if (value) {
         searchParams.set("searchTerm", value);
       }
@@ -291,45 +390,131 @@ export default function InventoryManager() {
     }
   }, [navigation.state]);
   
-  const handleQuantityChange = (variantId: string, newValue: string) => {
+  const handleQuantityChange = (variantId: string, cellLocationId: string, newValue: string) => {
     const newQty = parseInt(newValue, 10);
     if (!isNaN(newQty) && newQty >= 0) {
       setInventoryChanges({
         ...inventoryChanges,
-        [variantId]: newQty,
+        [cellKey(variantId, cellLocationId)]: newQty,
       });
     }
   };
   
-  const handleSave = () => {
-    if (Object.keys(inventoryChanges).length === 0) {
+  const handleAdjustmentChange = (variantId: string, cellLocationId: string, value: string) => {
+    if (/^[+-]?\d*$/.test(value.trim())) {
+      setAdjustments({
+        ...adjustments,
+        [cellKey(variantId, cellLocationId)]: value.trim(),
+      });
+    }
+  };
+
+  const parsedAdjustments = Object.fromEntries(
+    Object.entries(adjustments)
+      .map(([key, value]) => [key, parseInt(value, 10)] as const)
+      .filter(([, delta]) => !isNaN(delta) && delta !== 0),
+  );
+  const pendingCount = Object.keys(entryMode === "adjust" ? parsedAdjustments : inventoryChanges).length;
+
+  const handleSave = (changes: Record<string, number> = inventoryChanges) => {
+    // In adjust mode each entry is added to the quantity the page loaded with
+    const targets = entryMode === "adjust" ? parsedAdjustments : changes;
+
+    if (Object.keys(targets).length === 0) {
       setToastMessage("No changes to save");
       setToastError(true);
       setShowToast(true);
       return;
     }
     
-    const updates: Array<InventoryUpdate & { locationId?: string }> = [];
+    const updates: InventoryUpdate[] = [];
     
-    products.forEach((product: any) => {
-      product.variants.forEach((variant: any) => {
-        if (inventoryChanges[variant.id] !== undefined && 
-            inventoryChanges[variant.id] !== variant.inventoryQuantity) {
-          updates.push({
-            variantId: variant.id,
-            productId: product.id,
-            oldQty: variant.inventoryQuantity,
-            newQty: inventoryChanges[variant.id],
-            inventoryItemId: variant.inventoryItemId,
-            locationId: variant.locationId
-          });
-        }
+    products.forEach((product: Product) => {
+      product.variants.forEach((variant) => {
+        Object.entries(variant.levels).forEach(([levelLocationId, available]) => {
+          const target = targets[cellKey(variant.id, levelLocationId)];
+          const newQty = target === undefined || entryMode === "set" ? target : available + target;
+          if (newQty !== undefined && newQty !== available) {
+            updates.push({
+              variantId: variant.id,
+              productId: product.id,
+              oldQty: available,
+              newQty,
+              inventoryItemId: variant.inventoryItemId,
+              locationId: levelLocationId,
+              productTitle: product.title,
+              variantTitle: variant.title,
+              sku: variant.sku
+            });
+          }
+        });
       });
     });
     
-    submit({ updates: JSON.stringify(updates) }, { method: "post" });
+    submit({ updates: JSON.stringify(updates), mode: entryMode, reason }, { method: "post" });
+  };
+
+  const conflicts = actionData && "conflicts" in actionData ? actionData.conflicts : [];
+
+  // What a conflicting cell will be saved as under each resolution
+  const resolvedQuantity = (conflict: InventoryConflict, resolution: Resolution) => {
+    if (resolution === "theirs" || conflict.current === null) {
+      return null;
+    }
+    return resolution === "overwrite"
+      ? conflict.newQty
+      : Math.max(0, conflict.current + conflict.newQty - conflict.oldQty);
+  };
+
+  // The page has already reloaded with everyone's latest quantities, so the
+  // resubmitted save compares against the current values
+  const handleResolveConflicts = () => {
+    const changes = { ...inventoryChanges };
+
+    for (const conflict of conflicts) {
+      const key = cellKey(conflict.variantId, conflict.locationId);
+      const quantity = resolvedQuantity(conflict, resolutions[key]);
+      if (quantity === null) {
+        delete changes[key];
+      } else {
+        changes[key] = quantity;
+      }
+    }
+
+    setInventoryChanges(changes);
+    setResolutions({});
+    handleSave(changes);
   };
   
+  // Exports everything matching the current search, not just this page. Fetched
+  // rather than linked so the request carries the App Bridge session token.
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const searchParams = new URLSearchParams();
+      if (searchTerm) {
+        searchParams.set("searchTerm", searchTerm);
+      }
+      const response = await fetch(`/app/inventory/export?${searchParams}`);
+      if (!response.ok) {
+        throw new Error(`Export failed with status ${response.status}`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `inventory-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setToastMessage(error instanceof Error ? error.message : String(error));
+      setToastError(true);
+      setShowToast(true);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleSearchValueChange = (value: string) => {
     setSearchValue(value);
   };
@@ -337,10 +522,21 @@ export default function InventoryManager() {
   const handleClearSearch = () => {
     setSearchValue("");
   };
+
+  const handleViewChange = (
+    overrides: { view?: ViewMode; location?: string; source?: Source; sort?: SnapshotSort },
+  ) => {
+    const searchParams = viewParams(overrides);
+    if (searchValue) {
+      searchParams.set("searchTerm", searchValue);
+    }
+    setCursorStack([]);
+    submit(searchParams, { method: "get" });
+  };
   
   // Handle pagination
   const handleNextPage = () => {
-    const searchParams = new URLSearchParams();
+    const searchParams = viewParams();
     if (searchValue) {
       searchParams.set("searchTerm", searchValue);
     }
@@ -353,7 +549,7 @@ export default function InventoryManager() {
   };
   
   const handlePreviousPage = () => {
-    const searchParams = new URLSearchParams();
+    const searchParams = viewParams();
     if (searchValue) {
       searchParams.set("searchTerm", searchValue);
     }
@@ -376,23 +572,28 @@ export default function InventoryManager() {
   
   // Show toast when action completes
   if (actionData && !showToast) {
-    if (actionData.success && 'results' in actionData) {
+    if ('syncStarted' in actionData) {
+      setToastMessage("Catalog sync started. The snapshot updates when Shopify finishes the export.");
+    } else if (actionData.success && 'results' in actionData) {
       // Count the actual number of updates made, not the number of results
-      const updateCount = Object.keys(inventoryChanges).length;
-      setToastMessage(`Successfully updated ${updateCount} variant(s) inventory quantities`);
+      const updateCount = pendingCount;
+      setToastMessage(`Successfully updated ${updateCount} inventory level(s)`);
+    } else if ('conflicts' in actionData && actionData.conflicts.length > 0) {
+      setToastMessage(`${actionData.conflicts.length} level(s) changed since you loaded them. Nothing was saved.`);
     } else {
       setToastMessage(`Error: ${
         'error' in actionData 
           ? actionData.error 
-          : actionData.errors.map((e: any) => e.message).join(", ")
+          : actionData.errors.map((e) => e.message).join(", ")
       }`);
     }
     setToastError(!actionData.success);
     setShowToast(true);
     
     // Reset inventory changes if successful
-    if (actionData.success) {
+    if (actionData.success && !('syncStarted' in actionData)) {
       setInventoryChanges({});
+      setAdjustments({});
     }
   }
   
@@ -401,60 +602,236 @@ export default function InventoryManager() {
     plural: "variants",
   };
   
-  const rowMarkup = products.flatMap((product: Product) => 
-    product.variants.map((variant) => {
-      const currentQty = inventoryChanges[variant.id] !== undefined 
-        ? inventoryChanges[variant.id] 
-        : variant.inventoryQuantity;
-      
-      const isChanged = inventoryChanges[variant.id] !== undefined && 
-        inventoryChanges[variant.id] !== variant.inventoryQuantity;
-        
+  // List mode edits the selected location; grid mode shows every location side by side
+  const visibleLocations: Location[] = view === "grid"
+    ? locations
+    : locations.filter((location: Location) => location.id === locationId);
+
+  const quantityCell = (variant: Product["variants"][number], location: Location) => {
+    const available = variant.levels[location.id];
+
+    if (available === undefined) {
+      return (
+        <IndexTable.Cell key={location.id}>
+          <Text as="span" variant="bodySm" tone="subdued">Not stocked</Text>
+        </IndexTable.Cell>
+      );
+    }
+
+    const key = cellKey(variant.id, location.id);
+
+    if (entryMode === "adjust") {
+      const delta = parsedAdjustments[key];
+
       return (
-        <IndexTable.Row
-          id={variant.id}
-          key={variant.id}
-          selected={selectedResources.includes(variant.id)}
-          position={0}
-        >
-          <IndexTable.Cell>
-            <Text as="span" variant="bodyMd" fontWeight="bold">
-              {product.title}
-            </Text>
-          </IndexTable.Cell>
-          <IndexTable.Cell>{variant.title}</IndexTable.Cell>
-          <IndexTable.Cell>{variant.sku}</IndexTable.Cell>
-          <IndexTable.Cell>
-            <TextField
-              label="Quantity"
-              labelHidden
-              type="number"
-              value={currentQty.toString()}
-              onChange={(value) => handleQuantityChange(variant.id, value)}
-              autoComplete="off"
-              min={0}
-              connectedRight={isChanged ? <Text as="span" variant="bodyMd" tone="caution">Changed</Text> : null}
-            />
-          </IndexTable.Cell>
-        </IndexTable.Row>
+        <IndexTable.Cell key={location.id}>
+          <TextField
+            label={`Adjust ${location.name} by`}
+            labelHidden
+            value={adjustments[key] ?? ""}
+            placeholder="+0"
+            onChange={(value) => handleAdjustmentChange(variant.id, location.id, value)}
+            autoComplete="off"
+            connectedRight={
+              <Text as="span" variant="bodyMd" tone={delta ? "caution" : "subdued"} numeric>
+                {delta ? `${available} → ${available + delta}` : available}
+              </Text>
+            }
+          />
+        </IndexTable.Cell>
       );
-    })
+    }
+
+    const currentQty = inventoryChanges[key] !== undefined ? inventoryChanges[key] : available;
+    const isChanged = inventoryChanges[key] !== undefined && inventoryChanges[key] !== available;
+
+    return (
+      <IndexTable.Cell key={location.id}>
+        <TextField
+          label={`Available at ${location.name}`}
+          labelHidden
+          type="number"
+          value={currentQty.toString()}
+          onChange={(value) => handleQuantityChange(variant.id, location.id, value)}
+          autoComplete="off"
+          min={0}
+          connectedRight={isChanged ? <Text as="span" variant="bodyMd" tone="caution">Changed</Text> : null}
+        />
+      </IndexTable.Cell>
+    );
+  };
+  
+  // Forecasts are shop-wide, from total available across every location
+  const forecastCells = (variantId: string) => {
+    const forecast = forecasts[variantId];
+    const rate = (value: number) => (value === 0 ? "0" : value < 0.1 ? "<0.1" : value.toFixed(1));
+
+    return (
+      <>
+        <IndexTable.Cell>
+          <Text as="span" alignment="end" tone="subdued" numeric>
+            {forecast ? `${rate(forecast.velocity[7])} · ${rate(forecast.velocity[30])} · ${rate(forecast.velocity[90])}` : "—"}
+          </Text>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <Text as="span" alignment="end" numeric>
+            {forecast?.daysOfCover == null ? "—" : Math.floor(forecast.daysOfCover)}
+          </Text>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <Text as="span" alignment="end" numeric>
+            {forecast?.suggestedReorder || "—"}
+          </Text>
+        </IndexTable.Cell>
+      </>
+    );
+  };
+
+  const rowMarkup = products.flatMap((product: Product) => 
+    product.variants.map((variant) => (
+      <IndexTable.Row
+        id={variant.id}
+        key={variant.id}
+        selected={selectedResources.includes(variant.id)}
+        position={0}
+      >
+        <IndexTable.Cell>
+          <Text as="span" variant="bodyMd" fontWeight="bold">
+            {product.title}
+          </Text>
+        </IndexTable.Cell>
+        <IndexTable.Cell>{variant.title}</IndexTable.Cell>
+        <IndexTable.Cell>{variant.sku}</IndexTable.Cell>
+        {visibleLocations.map((location) => quantityCell(variant, location))}
+        {forecastCells(variant.id)}
+      </IndexTable.Row>
+    ))
   );
 
   return (
     <Frame>
       <Page
         title="Bulk Inventory Manager"
+        secondaryActions={[
+          { content: "Export CSV", onAction: handleExport, loading: isExporting },
+          { content: "Import CSV", url: "/app/inventory/import" },
+          { content: "History", url: "/app/inventory/history" },
+          { content: "Low stock", url: "/app/inventory/low-stock" },
+          { content: "Transfers", url: "/app/inventory/transfers" },
+          { content: "Cycle counts", url: "/app/inventory/counts" },
+          { content: "Reorder suggestions", url: "/app/inventory/reorder" },
+          {
+            content: sync.inProgress ? "Syncing catalog…" : "Sync catalog",
+            onAction: () => submit({ intent: "sync" }, { method: "post" }),
+            disabled: sync.inProgress || isSubmitting,
+          },
+        ]}
         primaryAction={{
           content: "Save Changes",
-          onAction: handleSave,
+          onAction: () => handleSave(),
           loading: isSubmitting,
-          disabled: isSubmitting || Object.keys(inventoryChanges).length === 0,
+          disabled: isSubmitting || pendingCount === 0,
         }}
       >
         <TitleBar title="Bulk Inventory Manager" />
         
         <Layout>
+          {conflicts.length > 0 && (
+            <Layout.Section>
+              <Card>
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">
+                    Changed by someone else
+                  </Text>
+                  <Text as="p" tone="subdued">
+                    These levels moved after you loaded the page, so the save was rejected. Choose what to
+                    do with each one, then save again. Your other changes are still pending.
+                  </Text>
+                  <IndexTable
+                    resourceName={{ singular: "conflict", plural: "conflicts" }}
+                    itemCount={conflicts.length}
+                    selectable={false}
+                    headings={[
+                      { title: "Variant" },
+                      { title: "Location" },
+                      { title: "Original", alignment: "end" },
+                      { title: "Yours", alignment: "end" },
+                      { title: "Current", alignment: "end" },
+                      { title: "Resolution" },
+                    ]}
+                  >
+                    {conflicts.map((conflict, index) => {
+                      const key = cellKey(conflict.variantId, conflict.locationId);
+                      const resolution = resolutions[key];
+                      const setResolution = (value: Resolution) =>
+                        setResolutions({ ...resolutions, [key]: value });
+                      const result = resolution ? resolvedQuantity(conflict, resolution) : undefined;
+
+                      return (
+                        <IndexTable.Row id={key} key={key} position={index}>
+                          <IndexTable.Cell>
+                            <Text as="span" fontWeight="bold">{conflict.productTitle}</Text>{" "}
+                            {conflict.variantTitle}
+                          </IndexTable.Cell>
+                          <IndexTable.Cell>
+                            {locations.find((location: Location) => location.id === conflict.locationId)?.name}
+                          </IndexTable.Cell>
+                          <IndexTable.Cell>
+                            <Text as="span" alignment="end" numeric>{conflict.oldQty}</Text>
+                          </IndexTable.Cell>
+                          <IndexTable.Cell>
+                            <Text as="span" alignment="end" numeric>{conflict.newQty}</Text>
+                          </IndexTable.Cell>
+                          <IndexTable.Cell>
+                            <Text as="span" alignment="end" numeric>{conflict.current ?? "Not stocked"}</Text>
+                          </IndexTable.Cell>
+                          <IndexTable.Cell>
+                            <InlineStack gap="200" blockAlign="center">
+                              <ButtonGroup variant="segmented">
+                                <Button
+                                  pressed={resolution === "overwrite"}
+                                  disabled={conflict.current === null}
+                                  onClick={() => setResolution("overwrite")}
+                                >
+                                  Overwrite
+                                </Button>
+                                <Button pressed={resolution === "theirs"} onClick={() => setResolution("theirs")}>
+                                  Keep theirs
+                                </Button>
+                                <Button
+                                  pressed={resolution === "delta"}
+                                  disabled={conflict.current === null}
+                                  onClick={() => setResolution("delta")}
+                                >
+                                  Apply as delta
+                                </Button>
+                              </ButtonGroup>
+                              {result !== undefined && (
+                                <Text as="span" tone="subdued">
+                                  → {result ?? conflict.current ?? "unchanged"}
+                                </Text>
+                              )}
+                            </InlineStack>
+                          </IndexTable.Cell>
+                        </IndexTable.Row>
+                      );
+                    })}
+                  </IndexTable>
+                  <InlineStack align="end">
+                    <Button
+                      variant="primary"
+                      onClick={handleResolveConflicts}
+                      loading={isSubmitting}
+                      disabled={conflicts.some((conflict) => !resolutions[cellKey(conflict.variantId, conflict.locationId)])}
+                    >
+                      Save with these choices
+                    </Button>
+                  </InlineStack>
+                </BlockStack>
+              </Card>
+            </Layout.Section>
+          )}
+
           <Layout.Section>
             <Card>
               <Box padding="400">
@@ -488,6 +865,94 @@ export default function InventoryManager() {
                     </Text>
                   </div>
                 </div>
+
+                <div style={{ marginBottom: "16px", display: "flex", gap: "8px", alignItems: "flex-end" }}>
+                  <ButtonGroup variant="segmented">
+                    <Button pressed={source === "live"} onClick={() => handleViewChange({ source: "live" })}>
+                      Live
+                    </Button>
+                    <Button
+                      pressed={source === "snapshot"}
+                      disabled={!sync.syncedAt}
+                      onClick={() => handleViewChange({ source: "snapshot" })}
+                    >
+                      Full catalog
+                    </Button>
+                  </ButtonGroup>
+                  {source === "snapshot" && (
+                    <div style={{ flex: 1 }}>
+                      <Select
+                        label="Sort by"
+                        options={SNAPSHOT_SORTS}
+                        value={sort}
+                        onChange={(value) => handleViewChange({ sort: value as SnapshotSort })}
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {source === "snapshot" && summary && (
+                  <div style={{ marginBottom: "16px" }}>
+                    <Text as="p" tone="subdued">
+                      {summary.variants} variants, {summary.units} units available,{" "}
+                      {summary.outOfStockLevels} location levels out of stock. Quantities as of{" "}
+                      {new Date(sync.syncedAt as string).toLocaleString()}, kept up to date by later changes.
+                    </Text>
+                  </div>
+                )}
+                {sync.failed && (
+                  <div style={{ marginBottom: "16px" }}>
+                    <Banner tone="warning">
+                      <p>The last catalog sync failed: {sync.failed}</p>
+                    </Banner>
+                  </div>
+                )}
+
+                <div style={{ marginBottom: "16px", display: "flex", gap: "8px", alignItems: "flex-end" }}>
+                  {view === "list" && (
+                    <div style={{ flex: 1 }}>
+                      <Select
+                        label="Location"
+                        options={locations.map((location: Location) => ({ label: location.name, value: location.id }))}
+                        value={locationId ?? undefined}
+                        onChange={(value) => handleViewChange({ location: value })}
+                      />
+                    </div>
+                  )}
+                  <div style={{ flex: 1 }}>
+                    <Select
+                      label="Reason"
+                      options={reasons}
+                      value={reason}
+                      onChange={setReason}
+                    />
+                  </div>
+                  {/* Pending edits only make sense in the mode they were typed in */}
+                  <ButtonGroup variant="segmented">
+                    <Button
+                      pressed={entryMode === "set"}
+                      disabled={pendingCount > 0}
+                      onClick={() => setEntryMode("set")}
+                    >
+                      Set quantity
+                    </Button>
+                    <Button
+                      pressed={entryMode === "adjust"}
+                      disabled={pendingCount > 0}
+                      onClick={() => setEntryMode("adjust")}
+                    >
+                      Adjust by
+                    </Button>
+                  </ButtonGroup>
+                  <ButtonGroup variant="segmented">
+                    <Button pressed={view === "list"} onClick={() => handleViewChange({ view: "list" })}>
+                      Single location
+                    </Button>
+                    <Button pressed={view === "grid"} onClick={() => handleViewChange({ view: "grid" })}>
+                      All locations
+                    </Button>
+                  </ButtonGroup>
+                </div>
                 
                 {isLoading && !isSubmitting ? (
                   <div style={{ display: "flex", justifyContent: "center", padding: "2rem" }}>
@@ -506,7 +971,12 @@ export default function InventoryManager() {
                         { title: 'Product' },
                         { title: 'Variant' },
                         { title: 'SKU' },
-                        { title: 'Inventory' },
+                        ...visibleLocations.map((location) => ({
+                          title: view === "grid" ? location.name : 'Available',
+                        })),
+                        { title: 'Sold per day (7 · 30 · 90)', alignment: 'end' },
+                        { title: 'Days of cover', alignment: 'end' },
+                        { title: 'Reorder', alignment: 'end' },
                       ]}
                     >
                       {rowMarkup}
@@ -0,0 +1,393 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSearchParams, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  TextField,
+  Button,
+  Banner,
+  Badge,
+  BlockStack,
+  InlineStack,
+  DataTable,
+  EmptyState,
+  Form,
+  FormLayout,
+  Checkbox,
+} from "@shopify/polaris";
+import { TitleBar } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { getLocations } from "../models/inventory.server";
+import {
+  cancelCycleCount,
+  commitCycleCount,
+  getCountVariances,
+  getCycleCount,
+  scanIntoCount,
+  setCountedQuantity,
+} from "../models/cycle-counts.server";
+import { getStaffUser } from "../models/staff.server";
+
+type ActionData =
+  | { success: false; error: string }
+  | { success: true; message: string };
+
+type CountStatus = "OPEN" | "COMMITTED" | "CANCELLED";
+
+type CountLine = {
+  id: string;
+  productTitle: string | null;
+  variantTitle: string | null;
+  sku: string | null;
+  barcode: string | null;
+  expectedQty: number;
+  countedQty: number;
+  counted: boolean;
+  /** Live while reviewing, as committed afterwards; null when not known. */
+  systemQty: number | null;
+};
+
+type LoaderData = {
+  count: {
+    id: string;
+    location: string;
+    scope: string;
+    status: CountStatus;
+    staffName: string | null;
+    createdAt: string;
+    committedAt: string | null;
+  };
+  lines: CountLine[];
+  reviewing: boolean;
+};
+
+const STATUS_BADGES: Record<CountStatus, { tone?: "info" | "success"; label: string }> = {
+  OPEN: { tone: "info", label: "In progress" },
+  COMMITTED: { tone: "success", label: "Committed" },
+  CANCELLED: { label: "Cancelled" },
+};
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  const count = await getCycleCount(session.shop, params.id!);
+  if (!count) {
+    throw new Response("Count not found", { status: 404 });
+  }
+
+  // Live quantities are only fetched for the review, not on every scan
+  const reviewing = count.status === "OPEN" && new URL(request.url).searchParams.get("review") === "1";
+  const [locations, variances] = await Promise.all([
+    getLocations(admin),
+    reviewing ? getCountVariances(admin, count.lines, count.locationId, { includeUncounted: true }) : [],
+  ]);
+  const liveQuantities = new Map(variances.map((v) => [v.line.id, v.systemQty]));
+
+  return Response.json({
+    count: {
+      id: count.id,
+      location: locations.find((location) => location.id === count.locationId)?.name ?? count.locationId,
+      scope:
+        [count.collectionTitle, count.vendor && `Vendor ${count.vendor}`].filter(Boolean).join(", ") ||
+        "Scanned items only",
+      status: count.status,
+      staffName: count.staffName,
+      createdAt: count.createdAt.toISOString(),
+      committedAt: count.committedAt?.toISOString() ?? null,
+    },
+    lines: count.lines.map((line) => ({
+      id: line.id,
+      productTitle: line.productTitle,
+      variantTitle: line.variantTitle,
+      sku: line.sku,
+      barcode: line.barcode,
+      expectedQty: line.expectedQty,
+      countedQty: line.countedQty,
+      counted: line.countedAt !== null,
+      systemQty: reviewing ? liveQuantities.get(line.id) ?? null : line.systemQty,
+    })),
+    reviewing,
+  });
+};
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { admin, session, sessionToken } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent") as string;
+  const id = params.id!;
+
+  try {
+    switch (intent) {
+      case "scan": {
+        const code = String(formData.get("code") ?? "").trim();
+        const quantity = Number(formData.get("quantity") || 1);
+        if (!code) {
+          return Response.json({ success: false, error: "Scan a barcode or enter a SKU" });
+        }
+        if (!Number.isInteger(quantity) || quantity <= 0) {
+          return Response.json({ success: false, error: "Quantity must be a whole number above zero" });
+        }
+
+        const line = await scanIntoCount(admin, session.shop, id, code, quantity);
+        return Response.json({
+          success: true,
+          message: `${line.productTitle}${line.variantTitle && line.variantTitle !== "Default Title" ? ` – ${line.variantTitle}` : ""}: ${line.countedQty} counted`,
+        });
+      }
+      case "setCount":
+        await setCountedQuantity(
+          session.shop,
+          id,
+          formData.get("lineId") as string,
+          Number(formData.get("countedQty")),
+        );
+        return Response.json({ success: true, message: "Count updated" });
+      case "cancel":
+        await cancelCycleCount(session.shop, id);
+        return Response.json({ success: true, message: "Count cancelled" });
+      case "commit": {
+        const { adjusted } = await commitCycleCount(admin, session.shop, id, {
+          includeUncounted: formData.get("includeUncounted") === "true",
+          staff: getStaffUser({ session, sessionToken }),
+        });
+        return Response.json({
+          success: true,
+          message: `Count committed. ${adjusted} inventory level${adjusted === 1 ? "" : "s"} adjusted.`,
+        });
+      }
+    }
+
+    return Response.json({ success: false, error: "Unknown action" });
+  } catch (error) {
+    return Response.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+/** Over, short and net units across the lines that have a system quantity. */
+function varianceTotals(lines: CountLine[]) {
+  let over = 0;
+  let short = 0;
+
+  for (const line of lines) {
+    if (line.systemQty === null) continue;
+    const variance = line.countedQty - line.systemQty;
+    if (variance > 0) over += variance;
+    else short -= variance;
+  }
+
+  return { over, short, net: over - short };
+}
+
+const formatVariance = (variance: number) => (variance > 0 ? `+${variance}` : String(variance));
+
+export default function CycleCount() {
+  const { count, lines, reviewing } = useLoaderData<LoaderData>();
+  const actionData = useActionData<ActionData>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const [, setSearchParams] = useSearchParams();
+
+  const [code, setCode] = useState("");
+  const [quantity, setQuantity] = useState("1");
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [includeUncounted, setIncludeUncounted] = useState(false);
+
+  const isSubmitting = navigation.state === "submitting";
+  const submitting = (intent: string) => isSubmitting && navigation.formData?.get("intent") === intent;
+
+  const handleScan = () => {
+    submit({ intent: "scan", code, quantity }, { method: "post" });
+    setCode("");
+    setQuantity("1");
+  };
+
+  const saveCount = (line: CountLine) => {
+    const value = edits[line.id];
+    if (value === undefined || value === String(line.countedQty)) return;
+
+    submit({ intent: "setCount", lineId: line.id, countedQty: value }, { method: "post" });
+    setEdits(({ [line.id]: _saved, ...rest }) => rest);
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString() + " " + date.toLocaleTimeString();
+  };
+
+  const lineLabel = (line: CountLine) =>
+    line.variantTitle && line.variantTitle !== "Default Title"
+      ? `${line.productTitle} – ${line.variantTitle}`
+      : line.productTitle ?? "—";
+
+  const reviewLines = lines.filter((line) => includeUncounted || line.counted);
+  const reportLines = count.status === "COMMITTED" ? lines : reviewLines;
+  const totals = varianceTotals(reviewing ? reviewLines : lines);
+
+  return (
+    <Page
+      title={`Count at ${count.location}`}
+      subtitle={count.scope}
+      titleMetadata={<Badge tone={STATUS_BADGES[count.status].tone}>{STATUS_BADGES[count.status].label}</Badge>}
+      backAction={{ content: "Cycle counts", url: "/app/inventory/counts" }}
+      secondaryActions={
+        count.status === "OPEN"
+          ? [
+              reviewing
+                ? { content: "Back to scanning", onAction: () => setSearchParams({}) }
+                : { content: "Review variances", onAction: () => setSearchParams({ review: "1" }) },
+              {
+                content: "Cancel count",
+                destructive: true,
+                onAction: () => submit({ intent: "cancel" }, { method: "post" }),
+                disabled: isSubmitting,
+              },
+            ]
+          : []
+      }
+    >
+      <TitleBar title="Cycle count" />
+
+      <Layout>
+        {actionData && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              <p>{actionData.success ? actionData.message : actionData.error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Text as="p" tone="subdued">
+            Started {formatDate(count.createdAt)}
+            {count.staffName && ` by ${count.staffName}`}
+            {count.committedAt && ` · committed ${formatDate(count.committedAt)}`}
+          </Text>
+        </Layout.Section>
+
+        {count.status === "OPEN" && !reviewing && (
+          <>
+            <Layout.Section>
+              <Card>
+                <Form onSubmit={handleScan}>
+                  <FormLayout>
+                    <FormLayout.Group condensed>
+                      <TextField
+                        label="Barcode or SKU"
+                        value={code}
+                        onChange={setCode}
+                        autoComplete="off"
+                        autoFocus
+                        helpText="Scan or type, then press Enter. Anyone with the app open can scan into this count."
+                      />
+                      <TextField
+                        label="Quantity"
+                        type="number"
+                        min={1}
+                        value={quantity}
+                        onChange={setQuantity}
+                        autoComplete="off"
+                      />
+                    </FormLayout.Group>
+                    <Button submit loading={submitting("scan")} disabled={!code.trim()}>
+                      Add to count
+                    </Button>
+                  </FormLayout>
+                </Form>
+              </Card>
+            </Layout.Section>
+
+            <Layout.Section>
+              <Card padding="0">
+                {lines.length > 0 ? (
+                  <DataTable
+                    columnContentTypes={["text", "text", "numeric", "numeric"]}
+                    headings={["Product", "SKU / barcode", "Expected", "Counted"]}
+                    rows={lines.map((line) => [
+                      lineLabel(line),
+                      [line.sku, line.barcode].filter(Boolean).join(" / ") || "—",
+                      line.expectedQty,
+                      <TextField
+                        key={line.id}
+                        label="Counted"
+                        labelHidden
+                        type="number"
+                        min={0}
+                        value={edits[line.id] ?? (line.counted ? String(line.countedQty) : "")}
+                        placeholder="Not counted"
+                        onChange={(value) => setEdits({ ...edits, [line.id]: value })}
+                        onBlur={() => saveCount(line)}
+                        autoComplete="off"
+                      />,
+                    ])}
+                  />
+                ) : (
+                  <EmptyState heading="Nothing counted yet" image="">
+                    <p>Scan an item to add it to the count.</p>
+                  </EmptyState>
+                )}
+              </Card>
+            </Layout.Section>
+          </>
+        )}
+
+        {(reviewing || count.status === "COMMITTED") && (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="400">
+                <InlineStack align="space-between" blockAlign="center">
+                  <Text as="h2" variant="headingMd">
+                    {reviewing ? "Variances against current stock" : "Variance report"}
+                  </Text>
+                  <Text as="p">
+                    {totals.over} over · {totals.short} short · net {formatVariance(totals.net)}
+                  </Text>
+                </InlineStack>
+                {reviewing && (
+                  <Checkbox
+                    label="Count items that weren't scanned as zero"
+                    helpText="Leave this off to only change the items you counted."
+                    checked={includeUncounted}
+                    onChange={setIncludeUncounted}
+                  />
+                )}
+                <DataTable
+                  columnContentTypes={["text", "text", "numeric", "numeric", "numeric"]}
+                  headings={["Product", "SKU", "System", "Counted", "Variance"]}
+                  rows={reportLines.map((line) => [
+                    lineLabel(line),
+                    line.sku || "—",
+                    line.systemQty ?? (reviewing ? "Not stocked" : "—"),
+                    line.counted || reviewing || line.systemQty !== null ? line.countedQty : "—",
+                    line.systemQty === null && !reviewing
+                      ? "Not counted"
+                      : formatVariance(line.countedQty - (line.systemQty ?? 0)),
+                  ])}
+                />
+                {reviewing && (
+                  <InlineStack align="end">
+                    <Button
+                      variant="primary"
+                      onClick={() =>
+                        submit({ intent: "commit", includeUncounted: String(includeUncounted) }, { method: "post" })
+                      }
+                      loading={submitting("commit")}
+                      disabled={isSubmitting || reviewLines.length === 0}
+                    >
+                      Commit count
+                    </Button>
+                  </InlineStack>
+                )}
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
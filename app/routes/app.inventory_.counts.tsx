@@ -0,0 +1,229 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { redirect } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigate, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  TextField,
+  Button,
+  Select,
+  Banner,
+  Badge,
+  BlockStack,
+  IndexTable,
+  EmptyState,
+  FormLayout,
+} from "@shopify/polaris";
+import { TitleBar } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { getLocations } from "../models/inventory.server";
+import { getCollections, getCycleCounts, startCycleCount } from "../models/cycle-counts.server";
+import { getStaffUser } from "../models/staff.server";
+
+type CountStatus = "OPEN" | "COMMITTED" | "CANCELLED";
+
+type LoaderData = {
+  counts: Array<{
+    id: string;
+    location: string;
+    scope: string;
+    status: CountStatus;
+    lines: number;
+    staffName: string | null;
+    createdAt: string;
+  }>;
+  locations: Array<{ id: string; name: string }>;
+  collections: Array<{ id: string; title: string }>;
+};
+
+const STATUS_BADGES: Record<CountStatus, { tone?: "info" | "success"; label: string }> = {
+  OPEN: { tone: "info", label: "In progress" },
+  COMMITTED: { tone: "success", label: "Committed" },
+  CANCELLED: { label: "Cancelled" },
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  const [counts, locations, collections] = await Promise.all([
+    getCycleCounts(session.shop),
+    getLocations(admin),
+    getCollections(admin),
+  ]);
+  const locationNames = new Map(locations.map((location) => [location.id, location.name]));
+
+  return Response.json({
+    counts: counts.map((count) => ({
+      id: count.id,
+      location: locationNames.get(count.locationId) ?? count.locationId,
+      scope:
+        [count.collectionTitle, count.vendor && `Vendor ${count.vendor}`].filter(Boolean).join(", ") ||
+        "Scanned items only",
+      status: count.status,
+      lines: count._count.lines,
+      staffName: count.staffName,
+      createdAt: count.createdAt.toISOString(),
+    })),
+    locations,
+    collections,
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session, sessionToken } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  const locationId = formData.get("locationId") as string;
+  const collectionId = (formData.get("collectionId") as string) || null;
+
+  if (!locationId) {
+    return Response.json({ success: false, error: "Choose a location to count" });
+  }
+
+  try {
+    const collections = collectionId ? await getCollections(admin) : [];
+    const count = await startCycleCount(
+      admin,
+      session.shop,
+      {
+        locationId,
+        collectionId,
+        collectionTitle: collections.find((collection) => collection.id === collectionId)?.title ?? null,
+        vendor: String(formData.get("vendor") ?? "").trim() || null,
+      },
+      getStaffUser({ session, sessionToken }),
+    );
+
+    return redirect(`/app/inventory/counts/${count.id}`);
+  } catch (error) {
+    return Response.json({
+      success: false,
+      error: `Couldn't start the count: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+};
+
+export default function CycleCounts() {
+  const { counts, locations, collections } = useLoaderData<LoaderData>();
+  const actionData = useActionData<{ success: false; error: string }>();
+  const navigation = useNavigation();
+  const navigate = useNavigate();
+  const submit = useSubmit();
+
+  const [locationId, setLocationId] = useState(locations[0]?.id ?? "");
+  const [collectionId, setCollectionId] = useState("");
+  const [vendor, setVendor] = useState("");
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString() + " " + date.toLocaleTimeString();
+  };
+
+  return (
+    <Page
+      title="Cycle counts"
+      backAction={{ content: "Bulk Inventory Manager", url: "/app/inventory" }}
+    >
+      <TitleBar title="Cycle counts" />
+
+      <Layout>
+        {actionData && !actionData.success && (
+          <Layout.Section>
+            <Banner tone="critical">
+              <p>{actionData.error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <Text as="h2" variant="headingMd">
+                Start a count
+              </Text>
+              <FormLayout>
+                <FormLayout.Group>
+                  <Select
+                    label="Location"
+                    options={locations.map((location) => ({ label: location.name, value: location.id }))}
+                    value={locationId}
+                    onChange={setLocationId}
+                  />
+                  <Select
+                    label="Collection"
+                    options={[
+                      { label: "Any collection", value: "" },
+                      ...collections.map((collection) => ({ label: collection.title, value: collection.id })),
+                    ]}
+                    value={collectionId}
+                    onChange={setCollectionId}
+                  />
+                  <TextField label="Vendor" value={vendor} onChange={setVendor} autoComplete="off" />
+                </FormLayout.Group>
+                <Text as="p" tone="subdued">
+                  With a collection or vendor, everything in it that the location stocks is listed up
+                  front so missing items show up in the variances. Without either, the count covers
+                  only what you scan.
+                </Text>
+                <Button
+                  variant="primary"
+                  onClick={() => submit({ locationId, collectionId, vendor }, { method: "post" })}
+                  loading={navigation.state === "submitting"}
+                >
+                  Start count
+                </Button>
+              </FormLayout>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card padding="0">
+            {counts.length > 0 ? (
+              <IndexTable
+                resourceName={{ singular: "count", plural: "counts" }}
+                itemCount={counts.length}
+                selectable={false}
+                headings={[
+                  { title: "Started" },
+                  { title: "Location" },
+                  { title: "Scope" },
+                  { title: "Items", alignment: "end" },
+                  { title: "Staff" },
+                  { title: "Status" },
+                ]}
+              >
+                {counts.map((count, index) => (
+                  <IndexTable.Row
+                    id={count.id}
+                    key={count.id}
+                    position={index}
+                    onClick={() => navigate(`/app/inventory/counts/${count.id}`)}
+                  >
+                    <IndexTable.Cell>{formatDate(count.createdAt)}</IndexTable.Cell>
+                    <IndexTable.Cell>{count.location}</IndexTable.Cell>
+                    <IndexTable.Cell>{count.scope}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end" numeric>{count.lines}</Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{count.staffName ?? "—"}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Badge tone={STATUS_BADGES[count.status].tone}>{STATUS_BADGES[count.status].label}</Badge>
+                    </IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+            ) : (
+              <EmptyState heading="No counts yet" image="">
+                <p>Start a count to record what's on the shelves at a location.</p>
+              </EmptyState>
+            )}
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
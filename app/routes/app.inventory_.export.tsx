@@ -0,0 +1,17 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { exportInventoryCsv } from "../models/inventory-import.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin } = await authenticate.admin(request);
+  const searchTerm = new URL(request.url).searchParams.get("searchTerm") || "";
+
+  const csv = await exportInventoryCsv(admin, searchTerm);
+
+  return new Response(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="inventory-${new Date().toISOString().slice(0, 10)}.csv"`,
+    },
+  });
+};
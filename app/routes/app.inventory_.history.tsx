@@ -0,0 +1,353 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  TextField,
+  Button,
+  Select,
+  Banner,
+  Badge,
+  BlockStack,
+  InlineStack,
+  DataTable,
+  EmptyState,
+  FormLayout,
+  Pagination,
+} from "@shopify/polaris";
+import { TitleBar } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { adminGraphql, paginateConnection } from "../graphql.server";
+import type { InventoryHistoryFilters, QuantityDrift } from "../models/inventory.server";
+import {
+  INVENTORY_ADJUSTMENT_REASONS,
+  getInventoryBatches,
+  getInventoryStaff,
+  revertInventoryBatch,
+} from "../models/inventory.server";
+import { getStaffUser } from "../models/staff.server";
+
+type ActionData =
+  | { success: false; error: string; drift?: QuantityDrift[] }
+  | { success: true; message: string };
+
+const FILTER_KEYS = ["product", "variant", "sku", "staff", "from", "to"] as const;
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  const url = new URL(request.url);
+  const page = Math.max(0, parseInt(url.searchParams.get("page") || "0", 10) || 0);
+  const values = Object.fromEntries(
+    FILTER_KEYS.map((key) => [key, url.searchParams.get(key) || ""]),
+  ) as Record<(typeof FILTER_KEYS)[number], string>;
+
+  const filters: InventoryHistoryFilters = {
+    product: values.product,
+    variant: values.variant,
+    sku: values.sku,
+    staff: values.staff,
+    from: values.from ? new Date(`${values.from}T00:00:00`) : null,
+    // Inclusive of the whole end day
+    to: values.to ? new Date(`${values.to}T23:59:59.999`) : null,
+  };
+
+  const [{ batches, hasNextPage }, staff, locations] = await Promise.all([
+    getInventoryBatches(session.shop, filters, page),
+    getInventoryStaff(session.shop),
+    // Inactive locations too, since older batches may have changed them
+    paginateConnection(async (after) => {
+      const data = await adminGraphql(admin, `#graphql
+        query GetLocationNames($after: String) {
+          locations(first: 250, after: $after, includeInactive: true) {
+            pageInfo { hasNextPage endCursor }
+            nodes { id name }
+          }
+        }
+      `, {
+        variables: { after },
+      });
+
+      return data.locations;
+    }),
+  ]);
+  const locationNames: Record<string, string> = Object.fromEntries(
+    locations.map((location) => [location.id, location.name]),
+  );
+  const reasonLabels = new Map([
+    ...INVENTORY_ADJUSTMENT_REASONS.map((reason) => [reason.value, reason.label] as const),
+    ["movement_created", "Transfer shipped"] as const,
+    ["movement_received", "Transfer received"] as const,
+  ]);
+
+  return Response.json({
+    batches: batches.map((batch) => ({
+      batchId: batch.batchId,
+      updatedAt: batch.updatedAt.toISOString(),
+      staffName: batch.staffName,
+      revertedBatchId: batch.revertedBatchId,
+      revertedBy: batch.revertedBy,
+      transfer: batch.rows.some((row) => row.transferId),
+      rows: batch.rows.map((row) => ({
+        id: row.id,
+        productTitle: row.productTitle ?? row.productId,
+        variantTitle: row.variantTitle ?? row.variantId,
+        sku: row.sku,
+        location: row.locationId ? locationNames[row.locationId] ?? row.locationId : null,
+        oldQty: row.oldQty,
+        newQty: row.newQty,
+        reason: reasonLabels.get(row.reason) ?? row.reason,
+      })),
+    })),
+    staff,
+    filters: values,
+    page,
+    hasNextPage,
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session, sessionToken } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const batchId = formData.get("batchId") as string;
+
+  try {
+    const result = await revertInventoryBatch(
+      admin,
+      session.shop,
+      batchId,
+      getStaffUser({ session, sessionToken }),
+    );
+
+    if (!result.reverted) {
+      return Response.json({
+        success: false,
+        error: "Quantities have changed since this batch was saved, so it was not reverted",
+        drift: result.drift,
+      });
+    }
+
+    return Response.json({ success: true, message: "Batch reverted" });
+  } catch (error) {
+    return Response.json({
+      success: false,
+      error: `Failed to revert batch: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+};
+
+type LoaderData = {
+  batches: Array<{
+    batchId: string;
+    updatedAt: string;
+    staffName: string | null;
+    revertedBatchId: string | null;
+    revertedBy: string | null;
+    transfer: boolean;
+    rows: Array<{
+      id: string;
+      productTitle: string;
+      variantTitle: string;
+      sku: string | null;
+      location: string | null;
+      oldQty: number;
+      newQty: number;
+      reason: string;
+    }>;
+  }>;
+  staff: Array<{ id: string; name: string }>;
+  filters: Record<(typeof FILTER_KEYS)[number], string>;
+  page: number;
+  hasNextPage: boolean;
+};
+
+export default function InventoryHistory() {
+  const { batches, staff, filters: appliedFilters, page, hasNextPage } = useLoaderData<LoaderData>();
+  const actionData = useActionData<ActionData>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+
+  const [filters, setFilters] = useState(appliedFilters);
+  const isSubmitting = navigation.state === "submitting";
+
+  const goTo = (nextFilters: typeof filters, nextPage = 0) => {
+    const searchParams = new URLSearchParams();
+    for (const key of FILTER_KEYS) {
+      if (nextFilters[key]) {
+        searchParams.set(key, nextFilters[key]);
+      }
+    }
+    if (nextPage > 0) {
+      searchParams.set("page", String(nextPage));
+    }
+    submit(searchParams, { method: "get" });
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString() + " " + date.toLocaleTimeString();
+  };
+
+  return (
+    <Page
+      title="Inventory history"
+      backAction={{ content: "Bulk Inventory Manager", url: "/app/inventory" }}
+    >
+      <TitleBar title="Inventory history" />
+
+      <Layout>
+        {actionData && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              <p>{actionData.success ? actionData.message : actionData.error}</p>
+              {!actionData.success && actionData.drift && (
+                <ul>
+                  {actionData.drift.map((level) => (
+                    <li key={`${level.inventoryItemId}|${level.locationId}`}>
+                      {level.inventoryItemId.replace("gid://shopify/InventoryItem/", "Item ")}: expected{" "}
+                      {level.expected}, now {level.actual ?? "not stocked"}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <FormLayout>
+              <FormLayout.Group>
+                <TextField
+                  label="Product"
+                  value={filters.product}
+                  onChange={(product) => setFilters({ ...filters, product })}
+                  autoComplete="off"
+                />
+                <TextField
+                  label="Variant"
+                  value={filters.variant}
+                  onChange={(variant) => setFilters({ ...filters, variant })}
+                  autoComplete="off"
+                />
+                <TextField
+                  label="SKU"
+                  value={filters.sku}
+                  onChange={(sku) => setFilters({ ...filters, sku })}
+                  autoComplete="off"
+                />
+              </FormLayout.Group>
+              <FormLayout.Group>
+                <TextField
+                  label="From"
+                  type="date"
+                  value={filters.from}
+                  onChange={(from) => setFilters({ ...filters, from })}
+                  autoComplete="off"
+                />
+                <TextField
+                  label="To"
+                  type="date"
+                  value={filters.to}
+                  onChange={(to) => setFilters({ ...filters, to })}
+                  autoComplete="off"
+                />
+                <Select
+                  label="Staff member"
+                  options={[
+                    { label: "Anyone", value: "" },
+                    ...staff.map((member) => ({ label: member.name, value: member.id })),
+                  ]}
+                  value={filters.staff}
+                  onChange={(value) => setFilters({ ...filters, staff: value })}
+                />
+              </FormLayout.Group>
+              <InlineStack gap="200">
+                <Button variant="primary" onClick={() => goTo(filters)}>
+                  Filter
+                </Button>
+                <Button
+                  onClick={() => {
+                    const cleared = Object.fromEntries(FILTER_KEYS.map((key) => [key, ""])) as typeof filters;
+                    setFilters(cleared);
+                    goTo(cleared);
+                  }}
+                >
+                  Clear
+                </Button>
+              </InlineStack>
+            </FormLayout>
+          </Card>
+        </Layout.Section>
+
+        {batches.length > 0 ? (
+          batches.map((batch) => (
+            <Layout.Section key={batch.batchId}>
+              <Card>
+                <BlockStack gap="300">
+                  <InlineStack align="space-between" blockAlign="center">
+                    <InlineStack gap="200" blockAlign="center">
+                      <Text as="h2" variant="headingMd">
+                        {formatDate(batch.updatedAt)}
+                      </Text>
+                      <Text as="span" tone="subdued">
+                        {batch.staffName ?? "Unknown staff"}
+                      </Text>
+                      {batch.revertedBatchId && <Badge tone="info">Revert</Badge>}
+                      {batch.revertedBy && <Badge>Reverted</Badge>}
+                      {batch.transfer && <Badge>Transfer</Badge>}
+                    </InlineStack>
+                    <Button
+                      onClick={() => submit({ batchId: batch.batchId }, { method: "post" })}
+                      disabled={!!batch.revertedBy || batch.transfer || isSubmitting}
+                      loading={isSubmitting && navigation.formData?.get("batchId") === batch.batchId}
+                    >
+                      Revert this batch
+                    </Button>
+                  </InlineStack>
+                  <DataTable
+                    columnContentTypes={["text", "text", "text", "text", "text", "numeric", "numeric"]}
+                    headings={["Product", "Variant", "SKU", "Location", "Reason", "Old", "New"]}
+                    rows={batch.rows.map((row) => [
+                      row.productTitle,
+                      row.variantTitle,
+                      row.sku || "—",
+                      row.location ?? "—",
+                      row.reason,
+                      row.oldQty,
+                      row.newQty,
+                    ])}
+                  />
+                </BlockStack>
+              </Card>
+            </Layout.Section>
+          ))
+        ) : (
+          <Layout.Section>
+            <Card>
+              <EmptyState heading="No inventory changes found" image="">
+                <p>Saves from the Bulk Inventory Manager will appear here.</p>
+              </EmptyState>
+            </Card>
+          </Layout.Section>
+        )}
+
+        {(page > 0 || hasNextPage) && (
+          <Layout.Section>
+            <InlineStack align="center">
+              <Pagination
+                hasPrevious={page > 0}
+                onPrevious={() => goTo(appliedFilters, page - 1)}
+                hasNext={hasNextPage}
+                onNext={() => goTo(appliedFilters, page + 1)}
+              />
+            </InlineStack>
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,233 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { useActionData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  Banner,
+  Badge,
+  BlockStack,
+  InlineStack,
+  DropZone,
+  IndexTable,
+  Tabs,
+} from "@shopify/polaris";
+import { TitleBar } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import type { ImportRow, ImportRowStatus } from "../models/inventory-import.server";
+import type { InventoryLevelChange } from "../models/inventory.server";
+import {
+  applyInventoryImport,
+  previewInventoryImport,
+} from "../models/inventory-import.server";
+import { getStaffUser } from "../models/staff.server";
+
+type ActionData =
+  | { success: false; error: string }
+  | { success: true; intent: "preview"; fileName: string; rows: ImportRow[] }
+  | {
+      success: true;
+      intent: "apply";
+      applied: number;
+      failures: Array<{ skus: string[]; message: string }>;
+    };
+
+const STATUS_BADGES: Record<ImportRowStatus, { tone?: "success" | "critical" | "warning"; label: string }> = {
+  change: { tone: "success", label: "Change" },
+  unchanged: { label: "No change" },
+  unknown: { tone: "warning", label: "Unknown" },
+  invalid: { tone: "critical", label: "Invalid" },
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  await authenticate.admin(request);
+  return null;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session, sessionToken } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent") as string;
+
+  try {
+    if (intent === "apply") {
+      // The previewed changes, with the quantities shown as "old" as compareQuantity
+      const changes = JSON.parse(formData.get("changes") as string) as InventoryLevelChange[];
+      if (changes.length === 0) {
+        return Response.json({ success: false, error: "Nothing to apply" });
+      }
+
+      const result = await applyInventoryImport(
+        admin,
+        session.shop,
+        changes,
+        getStaffUser({ session, sessionToken }),
+      );
+      return Response.json({ success: true, intent: "apply", ...result });
+    }
+
+    const { rows } = await previewInventoryImport(admin, formData.get("csv") as string);
+    return Response.json({
+      success: true,
+      intent: "preview",
+      fileName: formData.get("fileName") as string,
+      rows,
+    });
+  } catch (error) {
+    return Response.json({
+      success: false,
+      error: `Import failed: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+};
+
+export default function InventoryImport() {
+  const actionData = useActionData<ActionData>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+
+  const [selectedTab, setSelectedTab] = useState(0);
+  const isSubmitting = navigation.state === "submitting";
+
+  const preview = actionData?.success && actionData.intent === "preview" ? actionData : null;
+  const changes = preview?.rows.filter((row) => row.status === "change") ?? [];
+  const problems = preview?.rows.filter((row) => row.status === "unknown" || row.status === "invalid") ?? [];
+
+  const handleDrop = async (_dropped: File[], accepted: File[]) => {
+    const file = accepted[0];
+    if (!file) {
+      return;
+    }
+    setSelectedTab(0);
+    submit({ intent: "preview", fileName: file.name, csv: await file.text() }, { method: "post" });
+  };
+
+  const handleApply = () => {
+    submit(
+      { intent: "apply", changes: JSON.stringify(changes.map((row) => row.change)) },
+      { method: "post" },
+    );
+  };
+
+  const tabs = [
+    { id: "changes", content: `Changes (${changes.length})` },
+    { id: "problems", content: `Problems (${problems.length})` },
+    { id: "all", content: `All rows (${preview?.rows.length ?? 0})` },
+  ];
+  const visibleRows = [changes, problems, preview?.rows ?? []][selectedTab];
+
+  return (
+    <Page
+      title="Import inventory"
+      backAction={{ content: "Bulk Inventory Manager", url: "/app/inventory" }}
+      primaryAction={
+        preview
+          ? {
+              content: `Apply ${changes.length} change${changes.length === 1 ? "" : "s"}`,
+              onAction: handleApply,
+              loading: isSubmitting,
+              disabled: isSubmitting || changes.length === 0,
+            }
+          : undefined
+      }
+    >
+      <TitleBar title="Import inventory" />
+
+      <Layout>
+        {actionData && !actionData.success && (
+          <Layout.Section>
+            <Banner tone="critical">
+              <p>{actionData.error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+        {actionData?.success && actionData.intent === "apply" && (
+          <Layout.Section>
+            <Banner tone={actionData.failures.length > 0 ? "warning" : "success"}>
+              <p>Updated {actionData.applied} inventory level(s).</p>
+              {actionData.failures.map((failure, index) => (
+                <p key={index}>
+                  Not applied ({failure.skus.length} rows, starting {failure.skus[0]}): {failure.message}
+                </p>
+              ))}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="p">
+                Upload a CSV with the columns <code>sku, variant_id, product, variant, location, quantity</code>. Rows are
+                matched by <code>variant_id</code> when it is filled in, otherwise by <code>sku</code>; the
+                product and variant columns are ignored. An export from the Bulk Inventory Manager has
+                this layout.
+              </Text>
+              <DropZone accept=".csv,text/csv" type="file" allowMultiple={false} onDrop={handleDrop}>
+                <DropZone.FileUpload actionHint="Accepts .csv files" />
+              </DropZone>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        {preview && (
+          <Layout.Section>
+            <Card padding="0">
+              <Tabs tabs={tabs} selected={selectedTab} onSelect={setSelectedTab}>
+                <IndexTable
+                  resourceName={{ singular: "row", plural: "rows" }}
+                  itemCount={visibleRows.length}
+                  selectable={false}
+                  headings={[
+                    { title: "Line" },
+                    { title: "SKU" },
+                    { title: "Product" },
+                    { title: "Location" },
+                    { title: "Old", alignment: "end" },
+                    { title: "New", alignment: "end" },
+                    { title: "Status" },
+                  ]}
+                >
+                  {visibleRows.map((row, index) => (
+                    <IndexTable.Row id={String(row.line)} key={row.line} position={index}>
+                      <IndexTable.Cell>{row.line}</IndexTable.Cell>
+                      <IndexTable.Cell>{row.sku || row.variantId}</IndexTable.Cell>
+                      <IndexTable.Cell>
+                        {row.change ? `${row.change.productTitle} – ${row.change.variantTitle}` : "—"}
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>{row.location || "—"}</IndexTable.Cell>
+                      <IndexTable.Cell>
+                        <Text as="span" alignment="end" numeric>
+                          {row.change?.oldQty ?? "—"}
+                        </Text>
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>
+                        <Text as="span" alignment="end" numeric>
+                          {row.change?.newQty ?? row.quantity}
+                        </Text>
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>
+                        <InlineStack gap="200" blockAlign="center">
+                          <Badge tone={STATUS_BADGES[row.status].tone}>
+                            {STATUS_BADGES[row.status].label}
+                          </Badge>
+                          {row.message && (
+                            <Text as="span" variant="bodySm" tone="subdued">
+                              {row.message}
+                            </Text>
+                          )}
+                        </InlineStack>
+                      </IndexTable.Cell>
+                    </IndexTable.Row>
+                  ))}
+                </IndexTable>
+              </Tabs>
+            </Card>
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,415 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  TextField,
+  Button,
+  Select,
+  Banner,
+  Badge,
+  Box,
+  BlockStack,
+  InlineStack,
+  IndexTable,
+  EmptyState,
+  FormLayout,
+  Tabs,
+} from "@shopify/polaris";
+import { TitleBar } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { findVariantBySku, getLocations } from "../models/inventory.server";
+import {
+  getInventorySettings,
+  saveInventorySettings,
+  validateInventorySettings,
+} from "../models/inventory-settings.server";
+import {
+  deleteLowStockThreshold,
+  getLowStockAlerts,
+  getLowStockThresholds,
+  saveLowStockThreshold,
+  validateLowStockThreshold,
+} from "../models/low-stock.server";
+
+type ActionData =
+  | { success: false; errors: string[] }
+  | { success: true; message: string };
+
+type Alert = {
+  id: string;
+  productTitle: string | null;
+  variantTitle: string | null;
+  sku: string | null;
+  location: string;
+  quantity: number;
+  threshold: number;
+  createdAt: string;
+  notifiedAt: string | null;
+  resolvedAt: string | null;
+};
+
+type LoaderData = {
+  openAlerts: Alert[];
+  resolvedAlerts: Alert[];
+  thresholds: Array<{
+    id: string;
+    productTitle: string | null;
+    variantTitle: string | null;
+    sku: string | null;
+    location: string;
+    threshold: number;
+  }>;
+  locations: Array<{ id: string; name: string }>;
+  settings: {
+    defaultLowStockThreshold: number | null;
+    alertWebhookUrl: string | null;
+    alertEmail: string | null;
+  };
+  emailConfigured: boolean;
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  const [openAlerts, resolvedAlerts, thresholds, settings, locations] = await Promise.all([
+    getLowStockAlerts(session.shop, { open: true }),
+    getLowStockAlerts(session.shop, { open: false }),
+    getLowStockThresholds(session.shop),
+    getInventorySettings(session.shop),
+    getLocations(admin),
+  ]);
+  const locationNames = new Map(locations.map((location) => [location.id, location.name]));
+
+  const toAlert = (alert: (typeof openAlerts)[number]) => ({
+    id: alert.id,
+    productTitle: alert.productTitle,
+    variantTitle: alert.variantTitle,
+    sku: alert.sku,
+    location: locationNames.get(alert.locationId) ?? alert.locationId,
+    quantity: alert.quantity,
+    threshold: alert.threshold,
+    createdAt: alert.createdAt.toISOString(),
+    notifiedAt: alert.notifiedAt?.toISOString() ?? null,
+    resolvedAt: alert.resolvedAt?.toISOString() ?? null,
+  });
+
+  return Response.json({
+    openAlerts: openAlerts.map(toAlert),
+    resolvedAlerts: resolvedAlerts.map(toAlert),
+    thresholds: thresholds.map((threshold) => ({
+      id: threshold.id,
+      productTitle: threshold.productTitle,
+      variantTitle: threshold.variantTitle,
+      sku: threshold.sku,
+      location: threshold.locationId
+        ? locationNames.get(threshold.locationId) ?? threshold.locationId
+        : "All locations",
+      threshold: threshold.threshold,
+    })),
+    locations,
+    settings,
+    emailConfigured: !!process.env.ALERT_EMAIL_ENDPOINT,
+  });
+};
+
+const parseWholeNumber = (value: FormDataEntryValue | null) => {
+  const text = String(value ?? "").trim();
+  return /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent") as string;
+
+  try {
+    if (intent === "settings") {
+      const defaultThreshold = String(formData.get("defaultLowStockThreshold") ?? "").trim();
+      const settings = {
+        defaultLowStockThreshold: defaultThreshold ? parseWholeNumber(defaultThreshold) : null,
+        alertWebhookUrl: String(formData.get("alertWebhookUrl") ?? "").trim() || null,
+        alertEmail: String(formData.get("alertEmail") ?? "").trim() || null,
+      };
+
+      const errors = validateInventorySettings(settings);
+      if (errors.length > 0) {
+        return Response.json({ success: false, errors });
+      }
+
+      await saveInventorySettings(session.shop, settings);
+      return Response.json({ success: true, message: "Alert settings saved" });
+    }
+
+    if (intent === "deleteThreshold") {
+      await deleteLowStockThreshold(session.shop, formData.get("id") as string);
+      return Response.json({ success: true, message: "Reorder point removed" });
+    }
+
+    const sku = String(formData.get("sku") ?? "").trim();
+    if (!sku) {
+      return Response.json({ success: false, errors: ["Enter a SKU"] });
+    }
+
+    const { productId: _productId, ...variant } = await findVariantBySku(admin, sku);
+    const input = {
+      ...variant,
+      locationId: formData.get("locationId") as string,
+      threshold: parseWholeNumber(formData.get("threshold")),
+    };
+
+    const errors = validateLowStockThreshold(input);
+    if (errors.length > 0) {
+      return Response.json({ success: false, errors });
+    }
+
+    await saveLowStockThreshold(session.shop, input);
+    return Response.json({ success: true, message: `Reorder point saved for ${sku}` });
+  } catch (error) {
+    return Response.json({
+      success: false,
+      errors: [error instanceof Error ? error.message : String(error)],
+    });
+  }
+};
+
+export default function LowStock() {
+  const { openAlerts, resolvedAlerts, thresholds, locations, settings, emailConfigured } =
+    useLoaderData<LoaderData>();
+  const actionData = useActionData<ActionData>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+
+  const [selectedTab, setSelectedTab] = useState(0);
+  const [newThreshold, setNewThreshold] = useState({ sku: "", locationId: "", threshold: "" });
+  const [alertSettings, setAlertSettings] = useState({
+    defaultLowStockThreshold: settings.defaultLowStockThreshold?.toString() ?? "",
+    alertWebhookUrl: settings.alertWebhookUrl ?? "",
+    alertEmail: settings.alertEmail ?? "",
+  });
+
+  const isSubmitting = navigation.state === "submitting";
+  const submittingIntent = isSubmitting ? navigation.formData?.get("intent") : null;
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString() + " " + date.toLocaleTimeString();
+  };
+
+  const tabs = [
+    { id: "alerts", content: `Alerts (${openAlerts.length})` },
+    { id: "thresholds", content: "Reorder points" },
+    { id: "settings", content: "Settings" },
+  ];
+
+  const alertRows = [...openAlerts, ...resolvedAlerts];
+
+  return (
+    <Page
+      title="Low stock"
+      backAction={{ content: "Bulk Inventory Manager", url: "/app/inventory" }}
+    >
+      <TitleBar title="Low stock" />
+
+      <Layout>
+        {actionData && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              {actionData.success ? (
+                <p>{actionData.message}</p>
+              ) : (
+                actionData.errors.map((error) => <p key={error}>{error}</p>)
+              )}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card padding="0">
+            <Tabs tabs={tabs} selected={selectedTab} onSelect={setSelectedTab}>
+              {selectedTab === 0 &&
+                (alertRows.length > 0 ? (
+                  <IndexTable
+                    resourceName={{ singular: "alert", plural: "alerts" }}
+                    itemCount={alertRows.length}
+                    selectable={false}
+                    headings={[
+                      { title: "Variant" },
+                      { title: "SKU" },
+                      { title: "Location" },
+                      { title: "Available", alignment: "end" },
+                      { title: "Reorder point", alignment: "end" },
+                      { title: "Raised" },
+                      { title: "Status" },
+                    ]}
+                  >
+                    {alertRows.map((alert, index) => (
+                      <IndexTable.Row id={alert.id} key={alert.id} position={index}>
+                        <IndexTable.Cell>
+                          <Text as="span" fontWeight="bold">{alert.productTitle ?? "Unknown product"}</Text>{" "}
+                          {alert.variantTitle}
+                        </IndexTable.Cell>
+                        <IndexTable.Cell>{alert.sku || "—"}</IndexTable.Cell>
+                        <IndexTable.Cell>{alert.location}</IndexTable.Cell>
+                        <IndexTable.Cell>
+                          <Text as="span" alignment="end" numeric>{alert.quantity}</Text>
+                        </IndexTable.Cell>
+                        <IndexTable.Cell>
+                          <Text as="span" alignment="end" numeric>{alert.threshold}</Text>
+                        </IndexTable.Cell>
+                        <IndexTable.Cell>{formatDate(alert.createdAt)}</IndexTable.Cell>
+                        <IndexTable.Cell>
+                          <InlineStack gap="100">
+                            {alert.resolvedAt ? (
+                              <Badge tone="success">Restocked</Badge>
+                            ) : (
+                              <Badge tone="critical">Low</Badge>
+                            )}
+                            {alert.notifiedAt && <Badge>Notified</Badge>}
+                          </InlineStack>
+                        </IndexTable.Cell>
+                      </IndexTable.Row>
+                    ))}
+                  </IndexTable>
+                ) : (
+                  <EmptyState heading="Nothing is low on stock" image="">
+                    <p>Levels that fall below their reorder point will appear here.</p>
+                  </EmptyState>
+                ))}
+
+              {selectedTab === 1 && (
+                <BlockStack gap="400">
+                  <Box padding="400">
+                    <FormLayout>
+                      <FormLayout.Group condensed>
+                        <TextField
+                          label="SKU"
+                          value={newThreshold.sku}
+                          onChange={(sku) => setNewThreshold({ ...newThreshold, sku })}
+                          autoComplete="off"
+                        />
+                        <Select
+                          label="Location"
+                          options={[
+                            { label: "All locations", value: "" },
+                            ...locations.map((location) => ({ label: location.name, value: location.id })),
+                          ]}
+                          value={newThreshold.locationId}
+                          onChange={(locationId) => setNewThreshold({ ...newThreshold, locationId })}
+                        />
+                        <TextField
+                          label="Reorder point"
+                          type="number"
+                          min={0}
+                          value={newThreshold.threshold}
+                          onChange={(threshold) => setNewThreshold({ ...newThreshold, threshold })}
+                          autoComplete="off"
+                        />
+                      </FormLayout.Group>
+                      <Text as="p" tone="subdued">
+                        A location's own reorder point takes precedence over the variant's for all
+                        locations, which takes precedence over the shop default.
+                      </Text>
+                      <Button
+                        variant="primary"
+                        onClick={() => submit({ intent: "threshold", ...newThreshold }, { method: "post" })}
+                        loading={submittingIntent === "threshold"}
+                      >
+                        Save reorder point
+                      </Button>
+                    </FormLayout>
+                  </Box>
+                  {thresholds.length > 0 && (
+                    <IndexTable
+                      resourceName={{ singular: "reorder point", plural: "reorder points" }}
+                      itemCount={thresholds.length}
+                      selectable={false}
+                      headings={[
+                        { title: "Variant" },
+                        { title: "SKU" },
+                        { title: "Location" },
+                        { title: "Reorder point", alignment: "end" },
+                        { title: "" },
+                      ]}
+                    >
+                      {thresholds.map((threshold, index) => (
+                        <IndexTable.Row id={threshold.id} key={threshold.id} position={index}>
+                          <IndexTable.Cell>
+                            <Text as="span" fontWeight="bold">{threshold.productTitle}</Text>{" "}
+                            {threshold.variantTitle}
+                          </IndexTable.Cell>
+                          <IndexTable.Cell>{threshold.sku || "—"}</IndexTable.Cell>
+                          <IndexTable.Cell>{threshold.location}</IndexTable.Cell>
+                          <IndexTable.Cell>
+                            <Text as="span" alignment="end" numeric>{threshold.threshold}</Text>
+                          </IndexTable.Cell>
+                          <IndexTable.Cell>
+                            <Button
+                              variant="plain"
+                              tone="critical"
+                              onClick={() => submit({ intent: "deleteThreshold", id: threshold.id }, { method: "post" })}
+                              disabled={isSubmitting}
+                            >
+                              Remove
+                            </Button>
+                          </IndexTable.Cell>
+                        </IndexTable.Row>
+                      ))}
+                    </IndexTable>
+                  )}
+                </BlockStack>
+              )}
+
+              {selectedTab === 2 && (
+                <Box padding="400">
+                  <FormLayout>
+                    <TextField
+                      label="Default reorder point"
+                      type="number"
+                      min={0}
+                      value={alertSettings.defaultLowStockThreshold}
+                      onChange={(defaultLowStockThreshold) =>
+                        setAlertSettings({ ...alertSettings, defaultLowStockThreshold })
+                      }
+                      helpText="Applies to every level without a reorder point of its own. Leave blank to only alert on the reorder points you set."
+                      autoComplete="off"
+                    />
+                    <TextField
+                      label="Alert webhook URL"
+                      value={alertSettings.alertWebhookUrl}
+                      onChange={(alertWebhookUrl) => setAlertSettings({ ...alertSettings, alertWebhookUrl })}
+                      helpText="New alerts are POSTed here as JSON."
+                      autoComplete="off"
+                    />
+                    <TextField
+                      label="Alert email"
+                      type="email"
+                      value={alertSettings.alertEmail}
+                      onChange={(alertEmail) => setAlertSettings({ ...alertSettings, alertEmail })}
+                      helpText={
+                        emailConfigured
+                          ? "New alerts are emailed to this address."
+                          : "Email delivery isn't set up for this app, so alerts won't be emailed."
+                      }
+                      autoComplete="email"
+                    />
+                    <Button
+                      variant="primary"
+                      onClick={() => submit({ intent: "settings", ...alertSettings }, { method: "post" })}
+                      loading={submittingIntent === "settings"}
+                    >
+                      Save settings
+                    </Button>
+                  </FormLayout>
+                </Box>
+              )}
+            </Tabs>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
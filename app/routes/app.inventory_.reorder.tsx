@@ -0,0 +1,230 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  TextField,
+  Button,
+  Banner,
+  BlockStack,
+  IndexTable,
+  EmptyState,
+  FormLayout,
+} from "@shopify/polaris";
+import { TitleBar } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import prisma from "../db.server";
+import { enqueueJob } from "../queue.server";
+import {
+  getInventorySettings,
+  saveInventorySettings,
+  validateInventorySettings,
+} from "../models/inventory-settings.server";
+import type { ReorderSuggestion } from "../models/sales-velocity.server";
+import { getReorderSuggestions } from "../models/sales-velocity.server";
+
+type ActionData =
+  | { success: false; errors: string[] }
+  | { success: true; message: string };
+
+type LoaderData = {
+  suggestions: ReorderSuggestion[];
+  settings: { reorderLeadTimeDays: number; reorderCoverDays: number };
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  const settings = await getInventorySettings(session.shop);
+  const suggestions = await getReorderSuggestions(admin, session.shop, settings);
+
+  return Response.json({
+    suggestions,
+    settings: {
+      reorderLeadTimeDays: settings.reorderLeadTimeDays,
+      reorderCoverDays: settings.reorderCoverDays,
+    },
+  });
+};
+
+const parseWholeNumber = (value: FormDataEntryValue | null) => {
+  const text = String(value ?? "").trim();
+  return /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  if (formData.get("intent") === "backfill") {
+    const enqueued = await enqueueJob(prisma, session.shop, "sales-backfill", { days: 90 }, { singleton: true });
+    return Response.json({
+      success: true,
+      message: enqueued
+        ? "Loading the last 90 days of orders in the background. Suggestions update as it goes."
+        : "Past orders are already being loaded",
+    });
+  }
+
+  const settings = {
+    reorderLeadTimeDays: parseWholeNumber(formData.get("reorderLeadTimeDays")),
+    reorderCoverDays: parseWholeNumber(formData.get("reorderCoverDays")),
+  };
+
+  const errors = validateInventorySettings(settings);
+  if (errors.length > 0) {
+    return Response.json({ success: false, errors });
+  }
+
+  await saveInventorySettings(session.shop, settings);
+  return Response.json({ success: true, message: "Reorder settings saved" });
+};
+
+const formatRate = (rate: number) => (rate === 0 ? "0" : rate < 0.1 ? "<0.1" : rate.toFixed(1));
+
+export default function ReorderSuggestions() {
+  const { suggestions, settings } = useLoaderData<LoaderData>();
+  const actionData = useActionData<ActionData>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+
+  const [values, setValues] = useState({
+    reorderLeadTimeDays: String(settings.reorderLeadTimeDays),
+    reorderCoverDays: String(settings.reorderCoverDays),
+  });
+
+  return (
+    <Page
+      title="Reorder suggestions"
+      backAction={{ content: "Bulk Inventory Manager", url: "/app/inventory" }}
+      secondaryActions={[
+        {
+          content: "Load past orders",
+          onAction: () => submit({ intent: "backfill" }, { method: "post" }),
+          disabled: navigation.state === "submitting",
+        },
+      ]}
+    >
+      <TitleBar title="Reorder suggestions" />
+
+      <Layout>
+        {actionData && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              {actionData.success ? (
+                <p>{actionData.message}</p>
+              ) : (
+                actionData.errors.map((error) => <p key={error}>{error}</p>)
+              )}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <Text as="p" tone="subdued">
+                Sales come from orders across every location. Days of cover and suggested quantities
+                use the 30-day average, so a reorder placed today lasts through the lead time and the
+                days of cover after it arrives.
+              </Text>
+              <FormLayout>
+                <FormLayout.Group condensed>
+                  <TextField
+                    label="Lead time (days)"
+                    type="number"
+                    min={0}
+                    value={values.reorderLeadTimeDays}
+                    onChange={(reorderLeadTimeDays) => setValues({ ...values, reorderLeadTimeDays })}
+                    autoComplete="off"
+                  />
+                  <TextField
+                    label="Days of cover to order"
+                    type="number"
+                    min={1}
+                    value={values.reorderCoverDays}
+                    onChange={(reorderCoverDays) => setValues({ ...values, reorderCoverDays })}
+                    autoComplete="off"
+                  />
+                </FormLayout.Group>
+                <Button
+                  onClick={() => submit({ intent: "settings", ...values }, { method: "post" })}
+                  loading={navigation.state === "submitting" && navigation.formData?.get("intent") === "settings"}
+                >
+                  Save
+                </Button>
+              </FormLayout>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card padding="0">
+            {suggestions.length > 0 ? (
+              <IndexTable
+                resourceName={{ singular: "variant", plural: "variants" }}
+                itemCount={suggestions.length}
+                selectable={false}
+                headings={[
+                  { title: "Product" },
+                  { title: "Variant" },
+                  { title: "SKU" },
+                  { title: "Available", alignment: "end" },
+                  { title: "Sold per day (7 · 30 · 90 days)", alignment: "end" },
+                  { title: "Days of cover", alignment: "end" },
+                  { title: "Suggested reorder", alignment: "end" },
+                ]}
+              >
+                {suggestions.map((suggestion, index) => (
+                  <IndexTable.Row id={suggestion.variantId} key={suggestion.variantId} position={index}>
+                    <IndexTable.Cell>
+                      <Text as="span" fontWeight="bold">{suggestion.productTitle}</Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{suggestion.variantTitle}</IndexTable.Cell>
+                    <IndexTable.Cell>{suggestion.sku ?? "—"}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end" numeric>{suggestion.available}</Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end" numeric>
+                        {formatRate(suggestion.velocity[7])} · {formatRate(suggestion.velocity[30])} ·{" "}
+                        {formatRate(suggestion.velocity[90])}
+                      </Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text
+                        as="span"
+                        alignment="end"
+                        numeric
+                        tone={
+                          suggestion.daysOfCover !== null &&
+                          suggestion.daysOfCover <= settings.reorderLeadTimeDays
+                            ? "critical"
+                            : undefined
+                        }
+                      >
+                        {suggestion.daysOfCover === null ? "—" : Math.floor(suggestion.daysOfCover)}
+                      </Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end" numeric fontWeight={suggestion.suggestedReorder > 0 ? "bold" : undefined}>
+                        {suggestion.suggestedReorder}
+                      </Text>
+                    </IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+            ) : (
+              <EmptyState heading="No recent sales" image="">
+                <p>Suggestions appear once orders come in. Load past orders to start from the last 90 days.</p>
+              </EmptyState>
+            )}
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
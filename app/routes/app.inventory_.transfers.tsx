@@ -0,0 +1,344 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  TextField,
+  Button,
+  Select,
+  Banner,
+  Badge,
+  BlockStack,
+  InlineStack,
+  DataTable,
+  EmptyState,
+  FormLayout,
+} from "@shopify/polaris";
+import { TitleBar } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { findVariantBySku, getLocations } from "../models/inventory.server";
+import {
+  createTransfer,
+  deleteDraftTransfer,
+  getTransfers,
+  moveTransferNow,
+  receiveTransfer,
+  shipTransfer,
+  validateTransfer,
+} from "../models/transfers.server";
+import { getStaffUser } from "../models/staff.server";
+
+type ActionData =
+  | { success: false; errors: string[] }
+  | { success: true; message: string };
+
+type TransferStatus = "DRAFT" | "IN_TRANSIT" | "RECEIVED";
+
+type LoaderData = {
+  transfers: Array<{
+    id: string;
+    from: string;
+    to: string;
+    status: TransferStatus;
+    note: string | null;
+    staffName: string | null;
+    createdAt: string;
+    shippedAt: string | null;
+    receivedAt: string | null;
+    lines: Array<{
+      id: string;
+      productTitle: string | null;
+      variantTitle: string | null;
+      sku: string | null;
+      quantity: number;
+    }>;
+  }>;
+  locations: Array<{ id: string; name: string }>;
+};
+
+const STATUS_BADGES: Record<TransferStatus, { tone?: "info" | "success"; label: string }> = {
+  DRAFT: { label: "Draft" },
+  IN_TRANSIT: { tone: "info", label: "In transit" },
+  RECEIVED: { tone: "success", label: "Received" },
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  const [transfers, locations] = await Promise.all([getTransfers(session.shop), getLocations(admin)]);
+  const locationNames = new Map(locations.map((location) => [location.id, location.name]));
+
+  return Response.json({
+    transfers: transfers.map((transfer) => ({
+      id: transfer.id,
+      from: locationNames.get(transfer.fromLocationId) ?? transfer.fromLocationId,
+      to: locationNames.get(transfer.toLocationId) ?? transfer.toLocationId,
+      status: transfer.status,
+      note: transfer.note,
+      staffName: transfer.staffName,
+      createdAt: transfer.createdAt.toISOString(),
+      shippedAt: transfer.shippedAt?.toISOString() ?? null,
+      receivedAt: transfer.receivedAt?.toISOString() ?? null,
+      lines: transfer.lines.map((line) => ({
+        id: line.id,
+        productTitle: line.productTitle,
+        variantTitle: line.variantTitle,
+        sku: line.sku,
+        quantity: line.quantity,
+      })),
+    })),
+    locations,
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session, sessionToken } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent") as string;
+  const id = formData.get("id") as string;
+  const staff = getStaffUser({ session, sessionToken });
+
+  try {
+    switch (intent) {
+      case "ship":
+        await shipTransfer(admin, session.shop, id, staff);
+        return Response.json({ success: true, message: "Transfer shipped" });
+      case "receive":
+        await receiveTransfer(admin, session.shop, id, staff);
+        return Response.json({ success: true, message: "Transfer received" });
+      case "moveNow":
+        await moveTransferNow(admin, session.shop, id, staff);
+        return Response.json({ success: true, message: "Stock moved" });
+      case "delete":
+        await deleteDraftTransfer(session.shop, id);
+        return Response.json({ success: true, message: "Draft deleted" });
+    }
+
+    const requested = JSON.parse(formData.get("lines") as string) as Array<{ sku: string; quantity: string }>;
+    const lines = [];
+    for (const { sku, quantity } of requested.filter((line) => line.sku.trim())) {
+      lines.push({
+        ...(await findVariantBySku(admin, sku.trim())),
+        quantity: /^\d+$/.test(quantity.trim()) ? parseInt(quantity, 10) : NaN,
+      });
+    }
+
+    const transfer = {
+      fromLocationId: formData.get("fromLocationId") as string,
+      toLocationId: formData.get("toLocationId") as string,
+      note: String(formData.get("note") ?? "").trim() || null,
+      lines,
+    };
+
+    const errors = validateTransfer(transfer);
+    if (errors.length > 0) {
+      return Response.json({ success: false, errors });
+    }
+
+    await createTransfer(session.shop, transfer, staff);
+    return Response.json({ success: true, message: "Draft transfer created" });
+  } catch (error) {
+    return Response.json({
+      success: false,
+      errors: [error instanceof Error ? error.message : String(error)],
+    });
+  }
+};
+
+const emptyLine = () => ({ sku: "", quantity: "" });
+
+export default function InventoryTransfers() {
+  const { transfers, locations } = useLoaderData<LoaderData>();
+  const actionData = useActionData<ActionData>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+
+  const [fromLocationId, setFromLocationId] = useState(locations[0]?.id ?? "");
+  const [toLocationId, setToLocationId] = useState(locations[1]?.id ?? "");
+  const [note, setNote] = useState("");
+  const [lines, setLines] = useState([emptyLine()]);
+
+  const isSubmitting = navigation.state === "submitting";
+  const submitting = (intent: string, id?: string) =>
+    isSubmitting &&
+    navigation.formData?.get("intent") === intent &&
+    (id === undefined || navigation.formData?.get("id") === id);
+
+  const locationOptions = locations.map((location) => ({ label: location.name, value: location.id }));
+
+  const updateLine = (index: number, values: Partial<ReturnType<typeof emptyLine>>) =>
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...values } : line)));
+
+  const handleCreate = () => {
+    submit(
+      { intent: "create", fromLocationId, toLocationId, note, lines: JSON.stringify(lines) },
+      { method: "post" },
+    );
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString() + " " + date.toLocaleTimeString();
+  };
+
+  return (
+    <Page
+      title="Stock transfers"
+      backAction={{ content: "Bulk Inventory Manager", url: "/app/inventory" }}
+    >
+      <TitleBar title="Stock transfers" />
+
+      <Layout>
+        {actionData && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              {actionData.success ? (
+                <p>{actionData.message}</p>
+              ) : (
+                actionData.errors.map((error) => <p key={error}>{error}</p>)
+              )}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <Text as="h2" variant="headingMd">
+                New transfer
+              </Text>
+              <FormLayout>
+                <FormLayout.Group>
+                  <Select label="From" options={locationOptions} value={fromLocationId} onChange={setFromLocationId} />
+                  <Select label="To" options={locationOptions} value={toLocationId} onChange={setToLocationId} />
+                </FormLayout.Group>
+                {lines.map((line, index) => (
+                  <FormLayout.Group key={index} condensed>
+                    <TextField
+                      label="SKU"
+                      labelHidden={index > 0}
+                      value={line.sku}
+                      onChange={(sku) => updateLine(index, { sku })}
+                      autoComplete="off"
+                    />
+                    <TextField
+                      label="Quantity"
+                      labelHidden={index > 0}
+                      type="number"
+                      min={1}
+                      value={line.quantity}
+                      onChange={(quantity) => updateLine(index, { quantity })}
+                      autoComplete="off"
+                      connectedRight={
+                        lines.length > 1 ? (
+                          <Button onClick={() => setLines(lines.filter((_, i) => i !== index))}>Remove</Button>
+                        ) : null
+                      }
+                    />
+                  </FormLayout.Group>
+                ))}
+                <InlineStack>
+                  <Button variant="plain" onClick={() => setLines([...lines, emptyLine()])}>
+                    Add another variant
+                  </Button>
+                </InlineStack>
+                <TextField label="Note" value={note} onChange={setNote} autoComplete="off" multiline={2} />
+                <Button variant="primary" onClick={handleCreate} loading={submitting("create")}>
+                  Create draft
+                </Button>
+              </FormLayout>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        {transfers.length > 0 ? (
+          transfers.map((transfer) => (
+            <Layout.Section key={transfer.id}>
+              <Card>
+                <BlockStack gap="300">
+                  <InlineStack align="space-between" blockAlign="center">
+                    <InlineStack gap="200" blockAlign="center">
+                      <Text as="h2" variant="headingMd">
+                        {transfer.from} → {transfer.to}
+                      </Text>
+                      <Badge tone={STATUS_BADGES[transfer.status].tone}>
+                        {STATUS_BADGES[transfer.status].label}
+                      </Badge>
+                    </InlineStack>
+                    <InlineStack gap="200">
+                      {transfer.status === "DRAFT" && (
+                        <>
+                          <Button
+                            tone="critical"
+                            variant="plain"
+                            onClick={() => submit({ intent: "delete", id: transfer.id }, { method: "post" })}
+                            disabled={isSubmitting}
+                          >
+                            Delete
+                          </Button>
+                          <Button
+                            onClick={() => submit({ intent: "moveNow", id: transfer.id }, { method: "post" })}
+                            loading={submitting("moveNow", transfer.id)}
+                            disabled={isSubmitting}
+                          >
+                            Move now
+                          </Button>
+                          <Button
+                            variant="primary"
+                            onClick={() => submit({ intent: "ship", id: transfer.id }, { method: "post" })}
+                            loading={submitting("ship", transfer.id)}
+                            disabled={isSubmitting}
+                          >
+                            Ship
+                          </Button>
+                        </>
+                      )}
+                      {transfer.status === "IN_TRANSIT" && (
+                        <Button
+                          variant="primary"
+                          onClick={() => submit({ intent: "receive", id: transfer.id }, { method: "post" })}
+                          loading={submitting("receive", transfer.id)}
+                          disabled={isSubmitting}
+                        >
+                          Receive
+                        </Button>
+                      )}
+                    </InlineStack>
+                  </InlineStack>
+                  <Text as="p" tone="subdued">
+                    Created {formatDate(transfer.createdAt)}
+                    {transfer.staffName && ` by ${transfer.staffName}`}
+                    {transfer.shippedAt && ` · shipped ${formatDate(transfer.shippedAt)}`}
+                    {transfer.receivedAt && ` · received ${formatDate(transfer.receivedAt)}`}
+                  </Text>
+                  {transfer.note && <Text as="p">{transfer.note}</Text>}
+                  <DataTable
+                    columnContentTypes={["text", "text", "text", "numeric"]}
+                    headings={["Product", "Variant", "SKU", "Quantity"]}
+                    rows={transfer.lines.map((line) => [
+                      line.productTitle ?? "—",
+                      line.variantTitle ?? "—",
+                      line.sku || "—",
+                      line.quantity,
+                    ])}
+                  />
+                </BlockStack>
+              </Card>
+            </Layout.Section>
+          ))
+        ) : (
+          <Layout.Section>
+            <Card>
+              <EmptyState heading="No transfers yet" image="">
+                <p>Transfers you create will appear here.</p>
+              </EmptyState>
+            </Card>
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
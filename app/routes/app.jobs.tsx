@@ -0,0 +1,242 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSearchParams, useSubmit } from "@remix-run/react";
+import type { JobStatus } from "@prisma/client";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  Button,
+  Banner,
+  Badge,
+  InlineStack,
+  IndexTable,
+  EmptyState,
+  Pagination,
+  Tabs,
+} from "@shopify/polaris";
+import { TitleBar } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { deleteJob, getJobs, retryJob } from "../queue.server";
+
+type ActionData =
+  | { success: false; error: string }
+  | { success: true; message: string };
+
+type LoaderData = {
+  jobs: Array<{
+    id: string;
+    name: string;
+    status: JobStatus;
+    attempts: number;
+    maxAttempts: number;
+    runAt: string;
+    lastError: string | null;
+    createdAt: string;
+    completedAt: string | null;
+  }>;
+  counts: Partial<Record<JobStatus, number>>;
+  status: JobStatus | null;
+  page: number;
+  hasNextPage: boolean;
+};
+
+const STATUSES: Array<{ status: JobStatus | null; label: string }> = [
+  { status: null, label: "All" },
+  { status: "PENDING", label: "Queued" },
+  { status: "RUNNING", label: "Running" },
+  { status: "COMPLETED", label: "Completed" },
+  { status: "DEAD", label: "Failed" },
+];
+
+const STATUS_BADGES: Record<JobStatus, { tone?: "info" | "success" | "critical"; label: string }> = {
+  PENDING: { label: "Queued" },
+  RUNNING: { tone: "info", label: "Running" },
+  COMPLETED: { tone: "success", label: "Completed" },
+  DEAD: { tone: "critical", label: "Failed" },
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const url = new URL(request.url);
+  const page = Math.max(0, parseInt(url.searchParams.get("page") || "0", 10) || 0);
+  const status = STATUSES.find((option) => option.status === url.searchParams.get("status"))?.status ?? null;
+
+  const { jobs, counts, hasNextPage } = await getJobs(session.shop, { status, page });
+
+  return Response.json({
+    jobs: jobs.map((job) => ({
+      id: job.id,
+      name: job.name,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      runAt: job.runAt.toISOString(),
+      lastError: job.lastError,
+      createdAt: job.createdAt.toISOString(),
+      completedAt: job.completedAt?.toISOString() ?? null,
+    })),
+    counts,
+    status,
+    page,
+    hasNextPage,
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const id = formData.get("id") as string;
+
+  try {
+    if (formData.get("intent") === "retry") {
+      await retryJob(session.shop, id);
+      return Response.json({ success: true, message: "Job queued to run again" });
+    }
+
+    await deleteJob(session.shop, id);
+    return Response.json({ success: true, message: "Job deleted" });
+  } catch (error) {
+    return Response.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+export default function Jobs() {
+  const { jobs, counts, status, page, hasNextPage } = useLoaderData<LoaderData>();
+  const actionData = useActionData<ActionData>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const [, setSearchParams] = useSearchParams();
+
+  const isSubmitting = navigation.state === "submitting";
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString() + " " + date.toLocaleTimeString();
+  };
+
+  const tabs = STATUSES.map((option) => ({
+    id: option.status ?? "all",
+    content: option.status ? `${option.label} (${counts[option.status] ?? 0})` : option.label,
+  }));
+
+  return (
+    <Page title="Background jobs">
+      <TitleBar title="Background jobs" />
+
+      <Layout>
+        {actionData && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              <p>{actionData.success ? actionData.message : actionData.error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card padding="0">
+            <Tabs
+              tabs={tabs}
+              selected={STATUSES.findIndex((option) => option.status === status)}
+              onSelect={(index) => {
+                const selected = STATUSES[index].status;
+                setSearchParams(selected ? { status: selected } : {});
+              }}
+            >
+              {jobs.length > 0 ? (
+                <IndexTable
+                  resourceName={{ singular: "job", plural: "jobs" }}
+                  itemCount={jobs.length}
+                  selectable={false}
+                  headings={[
+                    { title: "Job" },
+                    { title: "Status" },
+                    { title: "Attempts", alignment: "end" },
+                    { title: "Queued" },
+                    { title: "Next run / finished" },
+                    { title: "Last error" },
+                    { title: "" },
+                  ]}
+                >
+                  {jobs.map((job, index) => (
+                    <IndexTable.Row id={job.id} key={job.id} position={index}>
+                      <IndexTable.Cell>
+                        <Text as="span" fontWeight="bold">{job.name}</Text>
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>
+                        <Badge tone={STATUS_BADGES[job.status].tone}>{STATUS_BADGES[job.status].label}</Badge>
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>
+                        <Text as="span" alignment="end" numeric>
+                          {job.attempts}/{job.maxAttempts}
+                        </Text>
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>{formatDate(job.createdAt)}</IndexTable.Cell>
+                      <IndexTable.Cell>
+                        {job.completedAt
+                          ? formatDate(job.completedAt)
+                          : job.status === "PENDING"
+                            ? formatDate(job.runAt)
+                            : "—"}
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>
+                        <Text as="span" tone="critical" breakWord>
+                          {job.lastError ?? ""}
+                        </Text>
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>
+                        <InlineStack gap="200" align="end">
+                          {job.status === "DEAD" && (
+                            <Button
+                              size="slim"
+                              onClick={() => submit({ intent: "retry", id: job.id }, { method: "post" })}
+                              disabled={isSubmitting}
+                            >
+                              Retry
+                            </Button>
+                          )}
+                          {(job.status === "PENDING" || job.status === "DEAD") && (
+                            <Button
+                              size="slim"
+                              variant="plain"
+                              tone="critical"
+                              onClick={() => submit({ intent: "delete", id: job.id }, { method: "post" })}
+                              disabled={isSubmitting}
+                            >
+                              Delete
+                            </Button>
+                          )}
+                        </InlineStack>
+                      </IndexTable.Cell>
+                    </IndexTable.Row>
+                  ))}
+                </IndexTable>
+              ) : (
+                <EmptyState heading="No jobs" image="">
+                  <p>Work the app does in the background, like catalog syncs and alerts, shows up here.</p>
+                </EmptyState>
+              )}
+            </Tabs>
+          </Card>
+        </Layout.Section>
+
+        {(page > 0 || hasNextPage) && (
+          <Layout.Section>
+            <InlineStack align="center">
+              <Pagination
+                hasPrevious={page > 0}
+                onPrevious={() => setSearchParams({ ...(status && { status }), page: String(page - 1) })}
+                hasNext={hasNextPage}
+                onNext={() => setSearchParams({ ...(status && { status }), page: String(page + 1) })}
+              />
+            </InlineStack>
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import type { AwardTrigger } from "@prisma/client";
 import { json } from "@remix-run/node";
 import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
 import {
@@ -21,16 +22,33 @@ import {
   EmptyState,
   Link,
   Modal,
+  Badge,
 } from "@shopify/polaris";
 import { TitleBar } from "@shopify/app-bridge-react";
 import { authenticate } from "../shopify.server";
+import { adminGraphql } from "../graphql.server";
 import prisma from "../db.server";
+import { getPointsBalance, recordPointsTransaction } from "../models/loyalty.server";
+import { getStaffUser } from "../models/staff.server";
+import {
+  evaluateEarningRules,
+  getEarningRules,
+  loadEarningOrders,
+  withProductDetails,
+} from "../models/earning-rules.server";
+import { getRewardTiers, redeemReward } from "../models/rewards.server";
+import { getMembershipTiers, getTierProgress } from "../models/tiers.server";
+import { getLoyaltySettings } from "../models/loyalty-settings.server";
+import { getCustomerExpirations } from "../models/expiration.server";
 
 type CustomerWithPoints = {
   id: string;
   email: string;
   displayName: string;
   points: number;
+  tier: string | null;
+  nextTier: string | null;
+  expiring: { points: number; date: string } | null;
   updatedAt: string;
 };
 
@@ -46,6 +64,21 @@ type Order = {
   totalPrice: string;
   createdAt: string;
   pointsEarned: number;
+  /** Points actually awarded, null until the shop's award trigger has fired. */
+  pointsAwarded: number | null;
+};
+
+// Orders listed on the Recent Orders tab for each award trigger
+const ORDER_QUERIES: Record<AwardTrigger, string | null> = {
+  ORDER_CREATED: null,
+  ORDER_PAID: "financial_status:paid",
+  ORDER_FULFILLED: "fulfillment_status:fulfilled",
+};
+
+const TRIGGER_LABELS: Record<AwardTrigger, string> = {
+  ORDER_CREATED: "placed",
+  ORDER_PAID: "paid",
+  ORDER_FULFILLED: "fulfilled",
 };
 
 type ActionData = 
@@ -53,23 +86,33 @@ type ActionData =
   | { success: true; message: string };
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
+  const { shop } = session;
   
   const url = new URL(request.url);
   const cursor = url.searchParams.get("cursor") || null;
   const searchTerm = url.searchParams.get("searchTerm") || "";
   const tab = url.searchParams.get("tab") || "customers";
   
-  // First, fetch all loyalty points from database
+  // First, fetch this shop's loyalty points from database
   const loyaltyPoints = await prisma.loyaltyPoints.findMany({
+    where: { shop },
     orderBy: { updatedAt: 'desc' },
   });
   
+  const [rewardTiers, membershipTiers, settings] = await Promise.all([
+    getRewardTiers(shop, { activeOnly: true }),
+    getMembershipTiers(shop),
+    getLoyaltySettings(shop),
+  ]);
+
   // Default response structure
   let responseData = {
     customers: [] as CustomerWithPoints[],
     recentOrders: [] as Order[],
-    pageInfo: { hasNextPage: false, endCursor: null },
+    awardTrigger: settings.awardTrigger,
+    rewardTiers: rewardTiers.map(({ id, name, pointsCost }) => ({ id, name, pointsCost })),
+    pageInfo: { hasNextPage: false, endCursor: null as string | null },
     searchTerm,
     tab,
   };
@@ -78,10 +121,26 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   const pointsMap = loyaltyPoints.reduce((acc, curr) => {
     acc[curr.customerId] = {
       points: curr.points,
+      tierProgress: curr.tierProgress,
       updatedAt: curr.updatedAt.toISOString(),
     };
     return acc;
-  }, {} as Record<string, { points: number, updatedAt: string }>);
+  }, {} as Record<string, { points: number, tierProgress: number, updatedAt: string }>);
+
+  // Describe where a customer stands relative to the membership tiers
+  const describeTier = (customerId: string) => {
+    const progress = getTierProgress(membershipTiers, pointsMap[customerId]?.tierProgress || 0);
+    const remaining = progress.remaining ?? 0;
+
+    return {
+      tier: progress.current?.name ?? null,
+      nextTier: progress.next
+        ? settings.tierQualification === "ROLLING_12_MONTH_SPEND"
+          ? `${remaining.toFixed(2)} spend to ${progress.next.name}`
+          : `${Math.ceil(remaining)} points to ${progress.next.name}`
+        : null,
+    };
+  };
   
   // Get the customer IDs as an array
   const customerIds = loyaltyPoints.map(p => p.customerId);
@@ -92,8 +151,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       return json(responseData);
     }
     
-    // Create a GraphQL query to fetch customer details
-    let queryString = `
+    // Fetch customer details for this page
+    const data = await adminGraphql(admin, `#graphql
       query GetCustomers($first: Int!, $after: String, $query: String) {
         customers(first: $first, after: $after, query: $query) {
           pageInfo {
@@ -107,41 +166,52 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
           }
         }
       }
-    `;
-
-    const variables = {
-      first: 50,
-      after: cursor,
-      query: searchTerm 
-        ? searchTerm 
-        : customerIds.length > 0 
-          ? customerIds.map(id => `id:${id.replace("gid://shopify/Customer/", "")}`).join(" OR ")
-          : "",
-    };
-
-    const response = await admin.graphql(queryString, { variables });
-    const responseJson = await response.json();
-    const { customers } = responseJson.data;
+    `, {
+      variables: {
+        first: 50,
+        after: cursor,
+        query: searchTerm 
+          ? searchTerm 
+          : customerIds.length > 0 
+            ? customerIds.map(id => `id:${id.replace("gid://shopify/Customer/", "")}`).join(" OR ")
+            : "",
+      },
+    });
+    const customers = data.customers;
+    const expirations = await getCustomerExpirations(
+      shop,
+      customers.nodes.map((customer) => customer.id),
+    );
 
     // Combine customer data with loyalty points
     const customersWithPoints = customers.nodes
-      .map((customer: any) => ({
+      .map((customer) => ({
         id: customer.id,
-        email: customer.email,
-        displayName: customer.displayName || customer.email,
+        email: customer.email ?? "",
+        displayName: customer.displayName || customer.email || "",
         points: pointsMap[customer.id]?.points || 0,
+        ...describeTier(customer.id),
+        expiring: expirations[customer.id]?.upcoming
+          ? {
+              points: expirations[customer.id].upcoming!.points,
+              date: expirations[customer.id].upcoming!.date.toISOString(),
+            }
+          : null,
         updatedAt: pointsMap[customer.id]?.updatedAt || new Date().toISOString(),
       }))
       // Only filter by points when not searching
-      .filter((customer: any) => searchTerm ? true : pointsMap[customer.id]);
+      .filter((customer) => searchTerm ? true : pointsMap[customer.id]);
 
     responseData.customers = customersWithPoints;
-    responseData.pageInfo = customers.pageInfo;
+    responseData.pageInfo = {
+      hasNextPage: customers.pageInfo.hasNextPage,
+      endCursor: customers.pageInfo.endCursor ?? null,
+    };
   } else if (tab === "orders") {
-    // Fetch recent fulfilled orders
-    const orderQuery = `
-      query GetRecentOrders($first: Int!, $after: String) {
-        orders(first: $first, after: $after, sortKey: PROCESSED_AT, reverse: true, query: "fulfillment_status:fulfilled") {
+    // Fetch recent orders that have reached the shop's award trigger
+    const orderData = await adminGraphql(admin, `#graphql
+      query GetRecentOrders($first: Int!, $after: String, $query: String) {
+        orders(first: $first, after: $after, sortKey: PROCESSED_AT, reverse: true, query: $query) {
           edges {
             cursor
             node {
@@ -169,23 +239,35 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
           }
         }
       }
-    `;
+    `, {
+      variables: {
+        first: 20,
+        after: cursor,
+        query: ORDER_QUERIES[settings.awardTrigger],
+      },
+    });
+    const orders = orderData.orders;
+    const orderIds = orders.edges.map((edge) => edge.node.id);
 
-    const orderVariables = {
-      first: 20,
-      after: cursor,
-    };
+    // Process orders and calculate points earned under the shop's earning rules.
+    // Line items are loaded separately, as selecting them for the whole page
+    // would be over the query cost limit.
+    const rules = await getEarningRules(shop);
+    const earningOrders = await loadEarningOrders(admin, orderIds);
+    const detailedOrders = await withProductDetails(admin, rules, [...earningOrders.values()]);
+    const pointsByOrder = new Map(
+      [...earningOrders.keys()].map((id, index) => [id, evaluateEarningRules(rules, detailedOrders[index]).points]),
+    );
 
-    const orderResponse = await admin.graphql(orderQuery, { variables: orderVariables });
-    const orderResponseJson = await orderResponse.json();
-    const { orders } = orderResponseJson.data;
+    // Points are awarded by the order webhooks; this page only reads the award records
+    const awards = await prisma.processedOrder.findMany({
+      where: { shop, id: { in: orderIds } },
+    });
+    const awardMap = new Map(awards.map((award) => [award.id, award.pointsAwarded]));
 
-    // Process orders and calculate points earned
-    const processedOrders = orders.edges.map((edge: any) => {
+    const processedOrders = orders.edges.map((edge) => {
       const order = edge.node;
-      const totalPrice = parseFloat(order.totalPriceSet.shopMoney.amount);
-      const pointsEarned = Math.floor(totalPrice / 10); // 1 point per $10
-      
+
       return {
         id: order.id,
         orderNumber: order.name,
@@ -197,75 +279,32 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         fulfillmentStatus: order.displayFulfillmentStatus,
         totalPrice: `${order.totalPriceSet.shopMoney.amount} ${order.totalPriceSet.shopMoney.currencyCode}`,
         createdAt: order.createdAt,
-        pointsEarned,
+        pointsEarned: pointsByOrder.get(order.id) ?? 0,
+        pointsAwarded: awardMap.get(order.id) ?? null,
       };
     });
 
-    // Automatically award points for orders that have customers
-    for (const order of processedOrders) {
-      if (order.customer.id && order.pointsEarned > 0) {
-        // Check if this order has already been processed
-        const processedOrder = await prisma.processedOrder.findUnique({
-          where: { id: order.id },
-        });
-        
-        // Skip if already processed
-        if (processedOrder) {
-          continue;
-        }
-        
-        const customerId = order.customer.id;
-        
-        // Check if customer already has points
-        const existingPoints = await prisma.loyaltyPoints.findUnique({
-          where: { customerId },
-        });
-        
-        if (existingPoints) {
-          // Update existing points
-          await prisma.loyaltyPoints.update({
-            where: { customerId },
-            data: {
-              points: existingPoints.points + order.pointsEarned,
-              updatedAt: new Date(),
-            },
-          });
-        } else {
-          // Create new points record
-          await prisma.loyaltyPoints.create({
-            data: {
-              customerId,
-              points: order.pointsEarned,
-              updatedAt: new Date(),
-            },
-          });
-        }
-        
-        // Mark this order as processed
-        await prisma.processedOrder.create({
-          data: {
-            id: order.id,
-            pointsAwarded: order.pointsEarned,
-          },
-        });
-      }
-    }
-
     responseData.recentOrders = processedOrders;
-    responseData.pageInfo = orders.pageInfo;
+    responseData.pageInfo = {
+      hasNextPage: orders.pageInfo.hasNextPage,
+      endCursor: orders.pageInfo.endCursor ?? null,
+    };
   }
 
   return json(responseData);
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session, sessionToken } = await authenticate.admin(request);
+  const { shop } = session;
   const formData = await request.formData();
+  const intent = (formData.get("intent") as string) || "adjust";
   const customerId = formData.get("customerId") as string;
   const pointsChange = parseInt(formData.get("points") as string, 10);
   const operation = formData.get("operation") as string;
+  const reason = ((formData.get("reason") as string) || "").trim();
   
-  if (!customerId || isNaN(pointsChange) || pointsChange < 0) {
+  if (!customerId || (intent === "adjust" && (isNaN(pointsChange) || pointsChange < 0))) {
     return json<ActionData>({ 
       success: false, 
       error: "Invalid customer ID or points value" 
@@ -273,42 +312,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   }
 
   try {
-    // Fetch current points if they exist
-    const existingPoints = await prisma.loyaltyPoints.findUnique({
-      where: { customerId },
-    });
-
-    let newPoints = pointsChange;
-    
-    if (existingPoints) {
-      if (operation === "add") {
-        newPoints = existingPoints.points + pointsChange;
-      } else if (operation === "subtract") {
-        newPoints = Math.max(0, existingPoints.points - pointsChange);
-      } else if (operation === "set") {
-        newPoints = pointsChange;
-      }
-      
-      await prisma.loyaltyPoints.update({
-        where: { customerId },
-        data: { 
-          points: newPoints,
-          updatedAt: new Date(),
-        },
-      });
-    } else {
-      // Create new record if this is a new customer
-      await prisma.loyaltyPoints.create({
-        data: {
-          customerId,
-          points: newPoints,
-          updatedAt: new Date(),
-        },
-      });
-    }
-
-    // Fetch customer details
-    const response = await admin.graphql(`
+    // Look the customer up through this shop's Admin API first. A customer ID
+    // belonging to another store resolves to null, so it can never be written.
+    const data = await adminGraphql(admin, `#graphql
       query GetCustomer($id: ID!) {
         customer(id: $id) {
           displayName
@@ -318,9 +324,55 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     `, {
       variables: { id: customerId }
     });
-    
-    const responseJson = await response.json();
-    const customer = responseJson.data.customer;
+    const customer = data?.customer;
+
+    if (!customer) {
+      return json<ActionData>({ 
+        success: false, 
+        error: "Customer not found in this store" 
+      });
+    }
+
+    if (intent === "redeem") {
+      const redemption = await redeemReward(admin, shop, {
+        customerId,
+        tierId: formData.get("tierId") as string,
+        staff: getStaffUser({ session, sessionToken }),
+      });
+
+      return json<ActionData>({ 
+        success: true, 
+        message: `Issued code ${redemption.code} to ${customer.displayName || customer.email}` 
+      });
+    }
+
+    // Work out the signed change relative to the current balance
+    const currentPoints = await getPointsBalance(shop, customerId);
+
+    let newPoints = currentPoints;
+    if (operation === "add") {
+      newPoints = currentPoints + pointsChange;
+    } else if (operation === "subtract") {
+      newPoints = Math.max(0, currentPoints - pointsChange);
+    } else if (operation === "set") {
+      newPoints = pointsChange;
+    }
+
+    const delta = newPoints - currentPoints;
+    if (delta === 0) {
+      return json<ActionData>({ 
+        success: false, 
+        error: "The adjustment would not change the balance" 
+      });
+    }
+
+    await recordPointsTransaction(shop, {
+      customerId,
+      type: "ADJUST",
+      delta,
+      staff: getStaffUser({ session, sessionToken }),
+      reason: reason || null,
+    });
     
     return json<ActionData>({ 
       success: true, 
@@ -329,13 +381,13 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   } catch (error) {
     return json<ActionData>({ 
       success: false, 
-      error: `Failed to update points: ${error instanceof Error ? error.message : String(error)}` 
+      error: `Failed to ${intent === "redeem" ? "redeem reward" : "update points"}: ${error instanceof Error ? error.message : String(error)}` 
     });
   }
 };
 
 export default function LoyaltyPointsManager() {
-  const { customers, recentOrders, pageInfo, searchTerm, tab } = useLoaderData<typeof loader>();
+  const { customers, recentOrders, awardTrigger, rewardTiers, pageInfo, searchTerm, tab } = useLoaderData<typeof loader>();
   const actionData = useActionData<ActionData>();
   const navigation = useNavigation();
   const submit = useSubmit();
@@ -350,6 +402,8 @@ export default function LoyaltyPointsManager() {
   const [selectedCustomerId, setSelectedCustomerId] = useState("");
   const [pointsValue, setPointsValue] = useState("0");
   const [operation, setOperation] = useState("add");
+  const [reasonValue, setReasonValue] = useState("");
+  const [selectedTierId, setSelectedTierId] = useState(rewardTiers[0]?.id ?? "");
   
   // For viewing order details
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
@@ -415,10 +469,28 @@ export default function LoyaltyPointsManager() {
     formData.append("customerId", selectedCustomerId);
     formData.append("points", pointsValue);
     formData.append("operation", operation);
+    formData.append("reason", reasonValue);
     
     submit(formData, { method: "post" });
   };
   
+  // Handle staff redeeming a reward on the customer's behalf
+  const handleRedeem = () => {
+    if (!selectedCustomerId || !selectedTierId) {
+      setToastMessage("Please select a customer and a reward");
+      setToastError(true);
+      setShowToast(true);
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("intent", "redeem");
+    formData.append("customerId", selectedCustomerId);
+    formData.append("tierId", selectedTierId);
+
+    submit(formData, { method: "post" });
+  };
+  
   // Handle tab change
   const handleTabChange = (selectedTabIndex: number) => {
     const newTab = tabs[selectedTabIndex].id;
@@ -449,6 +521,11 @@ export default function LoyaltyPointsManager() {
       <Page 
         title="Loyalty Points Manager"
         subtitle="Manage customer loyalty points and view order history"
+        secondaryActions={[
+          { content: "Membership tiers", url: "/app/loyalty/tiers" },
+          { content: "Reward tiers", url: "/app/loyalty/rewards" },
+          { content: "Earning rules", url: "/app/loyalty/settings" },
+        ]}
       >
         <TitleBar title="Loyalty Points Manager" />
         
@@ -487,7 +564,11 @@ export default function LoyaltyPointsManager() {
                           { title: 'Customer' },
                           { title: 'Email' },
                           { title: 'Points' },
+                          { title: 'Tier' },
+                          { title: 'Next Tier' },
+                          { title: 'Expiring' },
                           { title: 'Last Updated' },
+                          { title: 'History' },
                         ]}
                         selectable
                       >
@@ -505,7 +586,21 @@ export default function LoyaltyPointsManager() {
                             </IndexTable.Cell>
                             <IndexTable.Cell>{customer.email}</IndexTable.Cell>
                             <IndexTable.Cell>{customer.points}</IndexTable.Cell>
+                            <IndexTable.Cell>
+                              {customer.tier ? <Badge tone="info">{customer.tier}</Badge> : '—'}
+                            </IndexTable.Cell>
+                            <IndexTable.Cell>{customer.nextTier ?? (customer.tier ? 'Top tier' : '—')}</IndexTable.Cell>
+                            <IndexTable.Cell>
+                              {customer.expiring
+                                ? `${customer.expiring.points} on ${new Date(customer.expiring.date).toLocaleDateString()}`
+                                : '—'}
+                            </IndexTable.Cell>
                             <IndexTable.Cell>{formatDate(customer.updatedAt)}</IndexTable.Cell>
+                            <IndexTable.Cell>
+                              <Link url={`/app/loyalty/customers/${customer.id.replace("gid://shopify/Customer/", "")}`}>
+                                View transactions
+                              </Link>
+                            </IndexTable.Cell>
                           </IndexTable.Row>
                         ))}
                       </IndexTable>
@@ -534,10 +629,11 @@ export default function LoyaltyPointsManager() {
                 {selectedTab === 'orders' && (
                   <>
                     <div style={{ marginBottom: '16px' }}>
-                      <Banner title="Order Fulfillment and Loyalty Points">
+                      <Banner title="Orders and Loyalty Points">
                         <p>
-                          Customers earn 1 loyalty point for every $10 spent on fulfilled orders.
-                          Points are automatically awarded when an order is fulfilled.
+                          Customers earn loyalty points according to the{" "}
+                          <Link url="/app/loyalty/settings">earning rules</Link>.
+                          Points are automatically awarded when an order is {TRIGGER_LABELS[awardTrigger]}.
                         </p>
                       </Banner>
                     </div>
@@ -577,16 +673,16 @@ export default function LoyaltyPointsManager() {
                             <IndexTable.Cell>{order.fulfillmentStatus}</IndexTable.Cell>
                             <IndexTable.Cell>{order.totalPrice}</IndexTable.Cell>
                             <IndexTable.Cell>{formatDate(order.createdAt)}</IndexTable.Cell>
-                            <IndexTable.Cell>{order.pointsEarned}</IndexTable.Cell>
+                            <IndexTable.Cell>{order.pointsAwarded ?? `${order.pointsEarned} (pending)`}</IndexTable.Cell>
                           </IndexTable.Row>
                         ))}
                       </IndexTable>
                     ) : (
                       <EmptyState
-                        heading="No fulfilled orders found"
+                        heading="No orders found"
                         image=""
                       >
-                        <p>No fulfilled orders found that would earn loyalty points.</p>
+                        <p>No orders found that would earn loyalty points.</p>
                       </EmptyState>
                     )}
                     
@@ -636,6 +732,16 @@ export default function LoyaltyPointsManager() {
                         autoComplete="off"
                       />
                     </div>
+
+                    <div style={{ marginTop: '1rem' }}>
+                      <TextField
+                        label="Reason"
+                        value={reasonValue}
+                        onChange={setReasonValue}
+                        placeholder="e.g. Goodwill gesture for delayed shipment"
+                        autoComplete="off"
+                      />
+                    </div>
                   </div>
                   
                   <div style={{ marginTop: '16px' }}>
@@ -658,6 +764,50 @@ export default function LoyaltyPointsManager() {
               </Card>
             </Layout.Section>
           )}
+
+          {selectedTab === 'customers' && (
+            <Layout.Section>
+              <Card>
+                <div style={{ padding: '16px' }}>
+                  <Text variant="headingMd" as="h3">
+                    Redeem Reward
+                  </Text>
+                  
+                  {rewardTiers.length > 0 ? (
+                    <>
+                      <div style={{ marginTop: '16px' }}>
+                        <Select
+                          label="Reward"
+                          options={rewardTiers.map((tier) => ({
+                            label: `${tier.name} (${tier.pointsCost} points)`,
+                            value: tier.id,
+                          }))}
+                          value={selectedTierId}
+                          onChange={setSelectedTierId}
+                        />
+                      </div>
+                      
+                      <div style={{ marginTop: '16px' }}>
+                        <Button
+                          onClick={handleRedeem}
+                          loading={isSubmitting}
+                          disabled={selectedResources.length !== 1}
+                        >
+                          Redeem and issue code
+                        </Button>
+                      </div>
+                    </>
+                  ) : (
+                    <div style={{ marginTop: '16px' }}>
+                      <Text as="p" variant="bodyMd">
+                        No reward tiers yet. <Link url="/app/loyalty/rewards">Set up rewards</Link>
+                      </Text>
+                    </div>
+                  )}
+                </div>
+              </Card>
+            </Layout.Section>
+          )}
         </Layout>
         
         {showToast && (
@@ -704,7 +854,8 @@ export default function LoyaltyPointsManager() {
                     <strong>Date:</strong> {formatDate(selectedOrder.createdAt)}
                   </Text>
                   <Text variant="bodyLg" as="p">
-                    <strong>Points Earned:</strong> {selectedOrder.pointsEarned}
+                    <strong>Points Earned:</strong>{" "}
+                    {selectedOrder.pointsAwarded ?? `${selectedOrder.pointsEarned} (not yet awarded)`}
                   </Text>
                 </Layout.Section>
               </Layout>
@@ -0,0 +1,28 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import {
+  exportLoyaltyReportCsv,
+  formatDay,
+  isLoyaltyReportName,
+  parseReportRange,
+} from "../models/loyalty-analytics.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const { searchParams } = new URL(request.url);
+  const report = searchParams.get("report");
+
+  if (!isLoyaltyReportName(report)) {
+    return new Response(`Unknown report ${report}`, { status: 400 });
+  }
+
+  const range = parseReportRange(searchParams);
+  const csv = await exportLoyaltyReportCsv(session.shop, report, range);
+
+  return new Response(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="loyalty-${report}-${formatDay(range.from)}-to-${formatDay(range.to)}.csv"`,
+    },
+  });
+};
@@ -0,0 +1,315 @@
+import { useState } from "react";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData, useNavigation, useSearchParams } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  TextField,
+  Button,
+  Banner,
+  BlockStack,
+  InlineStack,
+  InlineGrid,
+  DataTable,
+} from "@shopify/polaris";
+import { TitleBar } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import type { LoyaltyReport, LoyaltyReportName } from "../models/loyalty-analytics.server";
+import { formatDay, getLoyaltyReport, parseReportRange } from "../models/loyalty-analytics.server";
+
+type LoaderData = LoyaltyReport & { from: string; to: string };
+
+type ChartSeries = { label: string; color: string; values: number[] };
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const range = parseReportRange(new URL(request.url).searchParams);
+  const report = await getLoyaltyReport(session.shop, range);
+
+  return json({ ...report, from: formatDay(range.from), to: formatDay(range.to) });
+};
+
+const CHART_HEIGHT = 160;
+
+/**
+ * Bars per day for one or more series, side by side. Each bar has a title so
+ * hovering shows the exact figure.
+ */
+function DailyChart({ days, series }: { days: string[]; series: ChartSeries[] }) {
+  const max = Math.max(1, ...series.flatMap((s) => s.values));
+  const groupWidth = series.length * 6 + 4;
+
+  return (
+    <BlockStack gap="200">
+      <InlineStack gap="400">
+        {series.map((s) => (
+          <InlineStack key={s.label} gap="100" blockAlign="center">
+            <svg width="12" height="12" aria-hidden="true">
+              <rect width="12" height="12" rx="2" fill={s.color} />
+            </svg>
+            <Text as="span" variant="bodySm">{s.label}</Text>
+          </InlineStack>
+        ))}
+      </InlineStack>
+      <svg
+        width="100%"
+        height={CHART_HEIGHT}
+        viewBox={`0 0 ${days.length * groupWidth} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={series.map((s) => s.label).join(" and ") + " per day"}
+      >
+        <line
+          x1="0"
+          y1={CHART_HEIGHT - 0.5}
+          x2={days.length * groupWidth}
+          y2={CHART_HEIGHT - 0.5}
+          stroke="var(--p-color-border)"
+        />
+        {days.map((day, dayIndex) =>
+          series.map((s, seriesIndex) => {
+            const height = (s.values[dayIndex] / max) * (CHART_HEIGHT - 8);
+            return (
+              <rect
+                key={`${day}-${s.label}`}
+                x={dayIndex * groupWidth + 2 + seriesIndex * 6}
+                y={CHART_HEIGHT - height}
+                width="5"
+                height={height}
+                fill={s.color}
+              >
+                <title>{`${day}: ${s.values[dayIndex].toLocaleString()} ${s.label.toLowerCase()}`}</title>
+              </rect>
+            );
+          }),
+        )}
+      </svg>
+      <InlineStack align="space-between">
+        <Text as="span" variant="bodySm" tone="subdued">{days[0]}</Text>
+        <Text as="span" variant="bodySm" tone="subdued">Peak {max.toLocaleString()}</Text>
+        <Text as="span" variant="bodySm" tone="subdued">{days[days.length - 1]}</Text>
+      </InlineStack>
+    </BlockStack>
+  );
+}
+
+export default function LoyaltyAnalytics() {
+  const { points, members, repeatPurchases, orderValue, redemptions, from, to } = useLoaderData<LoaderData>();
+  const navigation = useNavigation();
+  const [, setSearchParams] = useSearchParams();
+
+  const [fromValue, setFromValue] = useState(from);
+  const [toValue, setToValue] = useState(to);
+  const [exporting, setExporting] = useState<LoyaltyReportName | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const isLoading = navigation.state === "loading";
+  const days = points.map((point) => point.day);
+  const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+  const amount = (value: number) =>
+    value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  // Fetched rather than linked so the request carries the App Bridge session token
+  const handleExport = async (report: LoyaltyReportName) => {
+    setExporting(report);
+    setExportError(null);
+    try {
+      const searchParams = new URLSearchParams({ report, from, to });
+      const response = await fetch(`/app/loyalty/analytics/export?${searchParams}`);
+      if (!response.ok) {
+        throw new Error(`Export failed with status ${response.status}`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `loyalty-${report}-${from}-to-${to}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const exportButton = (report: LoyaltyReportName) => (
+    <Button
+      size="slim"
+      onClick={() => handleExport(report)}
+      loading={exporting === report}
+      disabled={exporting !== null}
+    >
+      Export CSV
+    </Button>
+  );
+
+  const reportHeading = (title: string, report: LoyaltyReportName) => (
+    <InlineStack align="space-between" blockAlign="center">
+      <Text as="h2" variant="headingMd">{title}</Text>
+      {exportButton(report)}
+    </InlineStack>
+  );
+
+  return (
+    <Page title="Loyalty analytics" backAction={{ content: "Loyalty Points", url: "/app/loyalty" }}>
+      <TitleBar title="Loyalty analytics" />
+
+      <Layout>
+        {exportError && (
+          <Layout.Section>
+            <Banner tone="critical" onDismiss={() => setExportError(null)}>
+              <p>{exportError}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <InlineStack gap="300" blockAlign="end">
+              <TextField label="From" type="date" value={fromValue} onChange={setFromValue} autoComplete="off" />
+              <TextField label="To" type="date" value={toValue} onChange={setToValue} autoComplete="off" />
+              <Button
+                variant="primary"
+                onClick={() => setSearchParams({ from: fromValue, to: toValue })}
+                loading={isLoading}
+              >
+                Apply
+              </Button>
+            </InlineStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <InlineGrid columns={{ xs: 2, md: 4 }} gap="400">
+            <Card>
+              <BlockStack gap="100">
+                <Text as="p" tone="subdued">Points earned</Text>
+                <Text as="p" variant="headingXl">{redemptions.pointsEarned.toLocaleString()}</Text>
+              </BlockStack>
+            </Card>
+            <Card>
+              <BlockStack gap="100">
+                <Text as="p" tone="subdued">Points redeemed</Text>
+                <Text as="p" variant="headingXl">{redemptions.pointsRedeemed.toLocaleString()}</Text>
+              </BlockStack>
+            </Card>
+            <Card>
+              <BlockStack gap="100">
+                <Text as="p" tone="subdued">Redemption rate</Text>
+                <Text as="p" variant="headingXl">{percent(redemptions.rate)}</Text>
+              </BlockStack>
+            </Card>
+            <Card>
+              <BlockStack gap="100">
+                <Text as="p" tone="subdued">Active members</Text>
+                <Text as="p" variant="headingXl">
+                  {members.activeMembers.toLocaleString()} of {members.totalMembers.toLocaleString()}
+                </Text>
+              </BlockStack>
+            </Card>
+          </InlineGrid>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              {reportHeading("Points earned and redeemed per day", "points")}
+              <DailyChart
+                days={days}
+                series={[
+                  { label: "Earned", color: "var(--p-color-bg-fill-success)", values: points.map((p) => p.earned) },
+                  { label: "Redeemed", color: "var(--p-color-bg-fill-info)", values: points.map((p) => p.redeemed) },
+                ]}
+              />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              {reportHeading("Active members per day", "members")}
+              <Text as="p" tone="subdued">Members who earned or redeemed points that day.</Text>
+              <DailyChart
+                days={days}
+                series={[
+                  {
+                    label: "Active members",
+                    color: "var(--p-color-bg-fill-brand)",
+                    values: members.daily.map((d) => d.activeMembers),
+                  },
+                ]}
+              />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section variant="oneHalf">
+          <Card>
+            <BlockStack gap="300">
+              {reportHeading("Repeat purchase rate", "repeat-purchases")}
+              <Text as="p" tone="subdued">Customers who ordered more than once in the range.</Text>
+              <DataTable
+                columnContentTypes={["text", "numeric", "numeric", "numeric"]}
+                headings={["", "Customers", "Repeat", "Rate"]}
+                rows={repeatPurchases.map((row) => [
+                  row.member ? "Members" : "Non-members",
+                  row.customers.toLocaleString(),
+                  row.repeatCustomers.toLocaleString(),
+                  percent(row.rate),
+                ])}
+              />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section variant="oneHalf">
+          <Card>
+            <BlockStack gap="300">
+              {reportHeading("Average order value by tier", "order-value")}
+              {orderValue.length > 0 ? (
+                <DataTable
+                  columnContentTypes={["text", "numeric", "numeric", "numeric"]}
+                  headings={["Tier", "Orders", "Revenue", "Average"]}
+                  rows={orderValue.map((row) => [
+                    row.tier,
+                    row.orders.toLocaleString(),
+                    amount(row.revenue),
+                    amount(row.averageOrderValue),
+                  ])}
+                />
+              ) : (
+                <Text as="p" tone="subdued">No orders in this range.</Text>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              {reportHeading("Redemptions", "redemptions")}
+              <DataTable
+                columnContentTypes={["numeric", "numeric", "numeric", "numeric", "numeric"]}
+                headings={["Points earned", "Points redeemed", "Redemption rate", "Rewards issued", "Rewards used"]}
+                rows={[
+                  [
+                    redemptions.pointsEarned.toLocaleString(),
+                    redemptions.pointsRedeemed.toLocaleString(),
+                    percent(redemptions.rate),
+                    redemptions.rewardsIssued.toLocaleString(),
+                    redemptions.rewardsUsed.toLocaleString(),
+                  ],
+                ]}
+              />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
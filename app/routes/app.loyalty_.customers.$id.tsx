@@ -0,0 +1,225 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  IndexTable,
+  Text,
+  Badge,
+  EmptyState,
+  BlockStack,
+} from "@shopify/polaris";
+import { TitleBar } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { getPointsBalance, getPointsHistory } from "../models/loyalty.server";
+import { getCustomerRedemptions } from "../models/rewards.server";
+
+const TRANSACTION_LABELS: Record<string, string> = {
+  EARN: "Earned",
+  REDEEM: "Redeemed",
+  ADJUST: "Manual adjustment",
+  EXPIRE: "Expired",
+  CLAWBACK: "Refund clawback",
+  REWARD_REFUND: "Reward refund",
+};
+
+const REDEMPTION_TONES = {
+  ISSUED: "info",
+  USED: "success",
+  EXPIRED: undefined,
+} as const;
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const customerId = `gid://shopify/Customer/${params.id}`;
+
+  const response = await admin.graphql(`
+    query GetCustomer($id: ID!) {
+      customer(id: $id) {
+        id
+        displayName
+        email
+      }
+    }
+  `, {
+    variables: { id: customerId }
+  });
+  const responseJson = await response.json();
+  const customer = responseJson.data?.customer;
+
+  // Customers of other stores resolve to null through this shop's Admin API
+  if (!customer) {
+    throw new Response("Customer not found", { status: 404 });
+  }
+
+  const [balance, transactions, redemptions] = await Promise.all([
+    getPointsBalance(session.shop, customerId),
+    getPointsHistory(session.shop, customerId),
+    getCustomerRedemptions(session.shop, customerId),
+  ]);
+
+  return json({
+    customer: {
+      id: customer.id as string,
+      displayName: (customer.displayName || customer.email) as string,
+      email: customer.email as string,
+    },
+    balance,
+    transactions: transactions.map((transaction) => ({
+      id: transaction.id,
+      type: transaction.type,
+      delta: transaction.delta,
+      orderId: transaction.orderId,
+      staffName: transaction.staffName || transaction.staffUserId,
+      reason: transaction.reason,
+      createdAt: transaction.createdAt.toISOString(),
+    })),
+    redemptions: redemptions.map((redemption) => ({
+      id: redemption.id,
+      code: redemption.code,
+      reward: redemption.rewardTier.name,
+      pointsSpent: redemption.pointsSpent,
+      status: redemption.status,
+      expiresAt: redemption.expiresAt?.toISOString() ?? null,
+      createdAt: redemption.createdAt.toISOString(),
+    })),
+  });
+};
+
+export default function CustomerPointsHistory() {
+  const { customer, balance, transactions, redemptions } = useLoaderData<typeof loader>();
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString() + " " + date.toLocaleTimeString();
+  };
+
+  return (
+    <Page
+      title={customer.displayName}
+      subtitle={customer.email}
+      backAction={{ content: "Loyalty Points", url: "/app/loyalty" }}
+    >
+      <TitleBar title="Points history" />
+
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="200">
+              <Text variant="headingMd" as="h2">
+                Current balance
+              </Text>
+              <Text variant="heading2xl" as="p">
+                {balance} points
+              </Text>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card padding="0">
+            {transactions.length > 0 ? (
+              <IndexTable
+                resourceName={{
+                  singular: "transaction",
+                  plural: "transactions",
+                }}
+                itemCount={transactions.length}
+                selectable={false}
+                headings={[
+                  { title: "Date" },
+                  { title: "Type" },
+                  { title: "Points", alignment: "end" },
+                  { title: "Order" },
+                  { title: "Staff" },
+                  { title: "Reason" },
+                ]}
+              >
+                {transactions.map((transaction, index) => (
+                  <IndexTable.Row
+                    id={transaction.id}
+                    key={transaction.id}
+                    position={index}
+                  >
+                    <IndexTable.Cell>{formatDate(transaction.createdAt)}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Badge tone={transaction.delta >= 0 ? "success" : "attention"}>
+                        {TRANSACTION_LABELS[transaction.type] ?? transaction.type}
+                      </Badge>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end" numeric>
+                        {transaction.delta > 0 ? `+${transaction.delta}` : transaction.delta}
+                      </Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {transaction.orderId?.replace("gid://shopify/Order/", "#") ?? "—"}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{transaction.staffName ?? "—"}</IndexTable.Cell>
+                    <IndexTable.Cell>{transaction.reason ?? "—"}</IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+            ) : (
+              <EmptyState heading="No transactions yet" image="">
+                <p>Points this customer earns or spends will appear here.</p>
+              </EmptyState>
+            )}
+          </Card>
+        </Layout.Section>
+
+        {redemptions.length > 0 && (
+          <Layout.Section>
+            <Card padding="0">
+              <IndexTable
+                resourceName={{
+                  singular: "reward code",
+                  plural: "reward codes",
+                }}
+                itemCount={redemptions.length}
+                selectable={false}
+                headings={[
+                  { title: "Code" },
+                  { title: "Reward" },
+                  { title: "Points", alignment: "end" },
+                  { title: "Status" },
+                  { title: "Issued" },
+                  { title: "Expires" },
+                ]}
+              >
+                {redemptions.map((redemption, index) => (
+                  <IndexTable.Row
+                    id={redemption.id}
+                    key={redemption.id}
+                    position={index}
+                  >
+                    <IndexTable.Cell>
+                      <Text as="span" fontWeight="bold">{redemption.code}</Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{redemption.reward}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end" numeric>
+                        {redemption.pointsSpent}
+                      </Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Badge tone={REDEMPTION_TONES[redemption.status]}>
+                        {redemption.status.charAt(0) + redemption.status.slice(1).toLowerCase()}
+                      </Badge>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{formatDate(redemption.createdAt)}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {redemption.expiresAt ? formatDate(redemption.expiresAt) : "Never"}
+                    </IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+            </Card>
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
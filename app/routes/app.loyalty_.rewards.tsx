@@ -0,0 +1,268 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  IndexTable,
+  Text,
+  TextField,
+  Button,
+  Select,
+  Banner,
+  Badge,
+  EmptyState,
+  FormLayout,
+  InlineStack,
+} from "@shopify/polaris";
+import { TitleBar } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import type { RewardTierInput } from "../models/rewards.server";
+import { getRewardTiers, saveRewardTier, validateRewardTier } from "../models/rewards.server";
+
+type ActionData =
+  | { success: false; error: string }
+  | { success: true; message: string };
+
+type TierForm = {
+  id: string | null;
+  name: string;
+  pointsCost: string;
+  rewardType: string;
+  amount: string;
+  expiresAfterDays: string;
+  active: boolean;
+};
+
+const EMPTY_FORM: TierForm = {
+  id: null,
+  name: "",
+  pointsCost: "100",
+  rewardType: "AMOUNT_OFF",
+  amount: "5",
+  expiresAfterDays: "90",
+  active: true,
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const tiers = await getRewardTiers(session.shop);
+
+  return json({ tiers });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const id = (formData.get("id") as string) || null;
+
+  const input: RewardTierInput = {
+    name: ((formData.get("name") as string) || "").trim(),
+    pointsCost: parseInt(formData.get("pointsCost") as string, 10),
+    rewardType: formData.get("rewardType") === "FREE_SHIPPING" ? "FREE_SHIPPING" : "AMOUNT_OFF",
+    amount: parseFloat((formData.get("amount") as string) || "0"),
+    expiresAfterDays: formData.get("expiresAfterDays")
+      ? parseInt(formData.get("expiresAfterDays") as string, 10)
+      : null,
+    active: formData.get("active") === "true",
+  };
+
+  const errors = validateRewardTier(input);
+  if (errors.length > 0) {
+    return json<ActionData>({ success: false, error: errors.join(". ") });
+  }
+
+  try {
+    await saveRewardTier(session.shop, id, input);
+  } catch (error) {
+    return json<ActionData>({
+      success: false,
+      error: `Failed to save reward tier: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+
+  return json<ActionData>({ success: true, message: `Saved ${input.name}` });
+};
+
+export default function RewardTiers() {
+  const { tiers } = useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionData>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+
+  const [form, setForm] = useState<TierForm>(EMPTY_FORM);
+  const isSubmitting = navigation.state === "submitting";
+
+  const describeReward = (tier: (typeof tiers)[number]) =>
+    tier.rewardType === "FREE_SHIPPING" ? "Free shipping" : `${tier.amount.toFixed(2)} off`;
+
+  const handleSave = (values: TierForm) => {
+    submit(
+      {
+        id: values.id ?? "",
+        name: values.name,
+        pointsCost: values.pointsCost,
+        rewardType: values.rewardType,
+        amount: values.amount,
+        expiresAfterDays: values.expiresAfterDays,
+        active: String(values.active),
+      },
+      { method: "post" },
+    );
+    setForm(EMPTY_FORM);
+  };
+
+  const editTier = (tier: (typeof tiers)[number]) => {
+    setForm({
+      id: tier.id,
+      name: tier.name,
+      pointsCost: String(tier.pointsCost),
+      rewardType: tier.rewardType,
+      amount: String(tier.amount),
+      expiresAfterDays: tier.expiresAfterDays ? String(tier.expiresAfterDays) : "",
+      active: tier.active,
+    });
+  };
+
+  return (
+    <Page
+      title="Reward tiers"
+      subtitle="What customers can spend their points on"
+      backAction={{ content: "Loyalty Points", url: "/app/loyalty" }}
+    >
+      <TitleBar title="Reward tiers" />
+
+      <Layout>
+        {actionData && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              <p>{actionData.success ? actionData.message : actionData.error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card padding="0">
+            {tiers.length > 0 ? (
+              <IndexTable
+                resourceName={{ singular: "reward tier", plural: "reward tiers" }}
+                itemCount={tiers.length}
+                selectable={false}
+                headings={[
+                  { title: "Name" },
+                  { title: "Points" },
+                  { title: "Reward" },
+                  { title: "Code expires" },
+                  { title: "Status" },
+                  { title: "" },
+                ]}
+              >
+                {tiers.map((tier, index) => (
+                  <IndexTable.Row id={tier.id} key={tier.id} position={index}>
+                    <IndexTable.Cell>
+                      <Text as="span" fontWeight="bold">{tier.name}</Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{tier.pointsCost}</IndexTable.Cell>
+                    <IndexTable.Cell>{describeReward(tier)}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {tier.expiresAfterDays ? `After ${tier.expiresAfterDays} days` : "Never"}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Badge tone={tier.active ? "success" : undefined}>
+                        {tier.active ? "Active" : "Inactive"}
+                      </Badge>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <InlineStack gap="200">
+                        <Button variant="plain" onClick={() => editTier(tier)}>
+                          Edit
+                        </Button>
+                      </InlineStack>
+                    </IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+            ) : (
+              <EmptyState heading="No reward tiers yet" image="">
+                <p>Add a tier below, for example 100 points for $5 off.</p>
+              </EmptyState>
+            )}
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <FormLayout>
+              <Text variant="headingMd" as="h3">
+                {form.id ? `Edit ${form.name}` : "Add reward tier"}
+              </Text>
+              <TextField
+                label="Name"
+                value={form.name}
+                onChange={(name) => setForm({ ...form, name })}
+                placeholder="$5 off"
+                autoComplete="off"
+              />
+              <FormLayout.Group>
+                <TextField
+                  label="Points cost"
+                  type="number"
+                  value={form.pointsCost}
+                  onChange={(pointsCost) => setForm({ ...form, pointsCost })}
+                  min={1}
+                  autoComplete="off"
+                />
+                <Select
+                  label="Reward"
+                  options={[
+                    { label: "Fixed amount off", value: "AMOUNT_OFF" },
+                    { label: "Free shipping", value: "FREE_SHIPPING" },
+                  ]}
+                  value={form.rewardType}
+                  onChange={(rewardType) => setForm({ ...form, rewardType })}
+                />
+              </FormLayout.Group>
+              <FormLayout.Group>
+                <TextField
+                  label="Discount amount"
+                  type="number"
+                  value={form.amount}
+                  onChange={(amount) => setForm({ ...form, amount })}
+                  disabled={form.rewardType === "FREE_SHIPPING"}
+                  min={0}
+                  autoComplete="off"
+                />
+                <TextField
+                  label="Code expires after (days)"
+                  type="number"
+                  value={form.expiresAfterDays}
+                  onChange={(expiresAfterDays) => setForm({ ...form, expiresAfterDays })}
+                  helpText="Leave empty for codes that never expire. Points for unused expired codes are refunded."
+                  min={1}
+                  autoComplete="off"
+                />
+              </FormLayout.Group>
+              <Select
+                label="Status"
+                options={[
+                  { label: "Active", value: "true" },
+                  { label: "Inactive", value: "false" },
+                ]}
+                value={String(form.active)}
+                onChange={(active) => setForm({ ...form, active: active === "true" })}
+              />
+              <InlineStack gap="200">
+                <Button variant="primary" onClick={() => handleSave(form)} loading={isSubmitting}>
+                  {form.id ? "Save tier" : "Add tier"}
+                </Button>
+                {form.id && <Button onClick={() => setForm(EMPTY_FORM)}>Cancel</Button>}
+              </InlineStack>
+            </FormLayout>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,576 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  TextField,
+  Button,
+  Select,
+  Banner,
+  BlockStack,
+  InlineStack,
+  Tag,
+  DataTable,
+  FormLayout,
+} from "@shopify/polaris";
+import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { adminGraphql } from "../graphql.server";
+import type { GetPreviewOrderQuery } from "../types/admin.generated";
+import type { EarningRuleSet, PointsBreakdown } from "../models/earning-rules.server";
+import {
+  EARNING_ORDER_FIELDS,
+  earningOrderFromGraphQL,
+  evaluateEarningRules,
+  getEarningRules,
+  saveEarningRules,
+  validateEarningRules,
+  withProductDetails,
+} from "../models/earning-rules.server";
+import { getLoyaltySettings, saveLoyaltySettings } from "../models/loyalty-settings.server";
+import { runPointsExpiry } from "../models/expiration.server";
+
+type ActionData =
+  | { success: false; error: string }
+  | { success: true; intent: "save" | "expiration" | "clawback" | "trigger"; message: string }
+  | { success: true; intent: "preview"; orderName: string; breakdown: PointsBreakdown }
+  | {
+      success: true;
+      intent: "expiryPreview";
+      totalPoints: number;
+      expired: Array<{ customerId: string; points: number }>;
+    };
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const [rules, settings] = await Promise.all([
+    getEarningRules(session.shop),
+    getLoyaltySettings(session.shop),
+  ]);
+
+  // Look up display titles for the collections and products the rules refer to
+  const ids = [
+    ...rules.excludedCollectionIds,
+    ...rules.productMultipliers.map((m) => m.productId),
+  ];
+  const titles: Record<string, string> = {};
+
+  if (ids.length > 0) {
+    const data = await adminGraphql(admin, `#graphql
+      query GetRuleResourceTitles($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          ... on Collection { id title }
+          ... on Product { id title }
+        }
+      }
+    `, {
+      variables: { ids },
+    });
+
+    for (const node of data.nodes) {
+      if (node && "title" in node) {
+        titles[node.id] = node.title;
+      }
+    }
+  }
+
+  return json({
+    rules,
+    titles,
+    expiration: {
+      expirationMode: settings.expirationMode,
+      expirationMonths: settings.expirationMonths,
+    },
+    clawbackPolicy: settings.clawbackPolicy,
+    awardTrigger: settings.awardTrigger,
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent") as string;
+
+  if (intent === "expiration") {
+    const expirationMonths = parseInt(formData.get("expirationMonths") as string, 10);
+    if (!Number.isInteger(expirationMonths) || expirationMonths <= 0) {
+      return json<ActionData>({ success: false, error: "Expiry period must be a whole number of months above zero" });
+    }
+
+    const mode = formData.get("expirationMode");
+    await saveLoyaltySettings(session.shop, {
+      expirationMode: mode === "AFTER_EARNED" || mode === "AFTER_INACTIVITY" ? mode : "NEVER",
+      expirationMonths,
+    });
+    return json<ActionData>({ success: true, intent: "expiration", message: "Expiration policy saved" });
+  }
+
+  if (intent === "trigger") {
+    const awardTrigger = formData.get("awardTrigger");
+    await saveLoyaltySettings(session.shop, {
+      awardTrigger:
+        awardTrigger === "ORDER_CREATED" || awardTrigger === "ORDER_PAID" ? awardTrigger : "ORDER_FULFILLED",
+    });
+    return json<ActionData>({ success: true, intent: "trigger", message: "Award trigger saved" });
+  }
+
+  if (intent === "clawback") {
+    await saveLoyaltySettings(session.shop, {
+      clawbackPolicy: formData.get("clawbackPolicy") === "STOP_AT_ZERO" ? "STOP_AT_ZERO" : "ALLOW_NEGATIVE",
+    });
+    return json<ActionData>({ success: true, intent: "clawback", message: "Refund policy saved" });
+  }
+
+  if (intent === "expiryPreview") {
+    // Runs the scheduled job against the saved policy without writing anything
+    const report = await runPointsExpiry(session.shop, { dryRun: true });
+    return json<ActionData>({
+      success: true,
+      intent: "expiryPreview",
+      totalPoints: report.totalPoints,
+      expired: report.expired,
+    });
+  }
+
+  const rules = JSON.parse(formData.get("rules") as string) as EarningRuleSet;
+
+  const errors = validateEarningRules(rules);
+  if (errors.length > 0) {
+    return json<ActionData>({ success: false, error: errors.join(". ") });
+  }
+
+  if (intent === "save") {
+    await saveEarningRules(session.shop, rules);
+    return json<ActionData>({ success: true, intent: "save", message: "Earning rules saved" });
+  }
+
+  // Preview the submitted (possibly unsaved) rules against a real order
+  const orderName = ((formData.get("orderName") as string) || "").trim();
+  const data: GetPreviewOrderQuery = await adminGraphql(admin, `#graphql
+    query GetPreviewOrder($query: String) {
+      orders(first: 1, sortKey: PROCESSED_AT, reverse: true, query: $query) {
+        nodes {
+          name
+          ...EarningOrderFields
+        }
+      }
+    }
+    ${EARNING_ORDER_FIELDS}
+  `, {
+    variables: {
+      query: orderName ? `name:${orderName.startsWith("#") ? orderName : `#${orderName}`}` : null,
+    },
+  });
+  const order = data.orders.nodes[0];
+
+  if (!order) {
+    return json<ActionData>({
+      success: false,
+      error: orderName ? `Order ${orderName} not found` : "This store has no orders to preview against",
+    });
+  }
+
+  const [earningOrder] = await withProductDetails(admin, rules, [earningOrderFromGraphQL(order)]);
+
+  return json<ActionData>({
+    success: true,
+    intent: "preview",
+    orderName: order.name,
+    breakdown: evaluateEarningRules(rules, earningOrder),
+  });
+};
+
+const parseList = (value: string) =>
+  value.split(",").map((item) => item.trim()).filter(Boolean);
+
+export default function LoyaltySettings() {
+  const { rules: savedRules, titles: savedTitles, expiration, clawbackPolicy, awardTrigger } = useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionData>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const shopify = useAppBridge();
+
+  const [rules, setRules] = useState<EarningRuleSet>(savedRules);
+  const [titles, setTitles] = useState<Record<string, string>>(savedTitles);
+  const [pointsPerUnit, setPointsPerUnit] = useState(String(savedRules.pointsPerUnit));
+  const [minimumOrderValue, setMinimumOrderValue] = useState(String(savedRules.minimumOrderValue));
+  const [excludedTags, setExcludedTags] = useState(savedRules.excludedProductTags.join(", "));
+  const [excludedVendors, setExcludedVendors] = useState(savedRules.excludedVendors.join(", "));
+  const [orderName, setOrderName] = useState("");
+  const [expirationMode, setExpirationMode] = useState<string>(expiration.expirationMode);
+  const [expirationMonths, setExpirationMonths] = useState(String(expiration.expirationMonths));
+
+  const isSubmitting = navigation.state === "submitting";
+
+  const currentRules = (): EarningRuleSet => ({
+    ...rules,
+    pointsPerUnit: parseFloat(pointsPerUnit),
+    minimumOrderValue: parseFloat(minimumOrderValue || "0"),
+    excludedProductTags: parseList(excludedTags),
+    excludedVendors: parseList(excludedVendors),
+  });
+
+  const handleSubmit = (intent: "save" | "preview") => {
+    submit(
+      { intent, rules: JSON.stringify(currentRules()), orderName },
+      { method: "post" },
+    );
+  };
+
+  const handlePickCollections = async () => {
+    const selection = await shopify.resourcePicker({
+      type: "collection",
+      multiple: true,
+      selectionIds: rules.excludedCollectionIds.map((id) => ({ id })),
+    });
+    if (!selection) {
+      return;
+    }
+    setTitles({ ...titles, ...Object.fromEntries(selection.map((c) => [c.id, c.title])) });
+    setRules({ ...rules, excludedCollectionIds: selection.map((c) => c.id) });
+  };
+
+  const handlePickProducts = async () => {
+    const selection = await shopify.resourcePicker({
+      type: "product",
+      multiple: true,
+      filter: { variants: false },
+      selectionIds: rules.productMultipliers.map((m) => ({ id: m.productId })),
+    });
+    if (!selection) {
+      return;
+    }
+    setTitles({ ...titles, ...Object.fromEntries(selection.map((p) => [p.id, p.title])) });
+    setRules({
+      ...rules,
+      productMultipliers: selection.map((product) => ({
+        productId: product.id,
+        multiplier:
+          rules.productMultipliers.find((m) => m.productId === product.id)?.multiplier ?? 2,
+      })),
+    });
+  };
+
+  const handleMultiplierChange = (productId: string, value: string) => {
+    setRules({
+      ...rules,
+      productMultipliers: rules.productMultipliers.map((m) =>
+        m.productId === productId ? { ...m, multiplier: parseFloat(value) } : m,
+      ),
+    });
+  };
+
+  const rate = parseFloat(pointsPerUnit);
+
+  return (
+    <Page
+      title="Loyalty settings"
+      backAction={{ content: "Loyalty Points", url: "/app/loyalty" }}
+      primaryAction={{
+        content: "Save",
+        onAction: () => handleSubmit("save"),
+        loading: isSubmitting,
+      }}
+    >
+      <TitleBar title="Loyalty settings" />
+
+      <Layout>
+        {actionData && !actionData.success && (
+          <Layout.Section>
+            <Banner tone="critical">
+              <p>{actionData.error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+        {actionData?.success && actionData.intent !== "preview" && actionData.intent !== "expiryPreview" && (
+          <Layout.Section>
+            <Banner tone="success">
+              <p>{actionData.message}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.AnnotatedSection
+          title="Earning rate"
+          description="How many points an order earns and which amount they are calculated from."
+        >
+          <Card>
+            <FormLayout>
+              <TextField
+                label="Points per currency unit"
+                type="number"
+                value={pointsPerUnit}
+                onChange={setPointsPerUnit}
+                min={0}
+                step={0.01}
+                autoComplete="off"
+                helpText={
+                  rate > 0
+                    ? `1 point for every ${(1 / rate).toFixed(2)} spent`
+                    : "Orders earn no points"
+                }
+              />
+              <Select
+                label="Calculate points from"
+                options={[
+                  { label: "Subtotal (after discounts)", value: "SUBTOTAL" },
+                  { label: "Order total", value: "TOTAL" },
+                  { label: "Total minus shipping and tax", value: "TOTAL_EXCLUDING_SHIPPING_AND_TAX" },
+                ]}
+                value={rules.basis}
+                onChange={(basis) => setRules({ ...rules, basis: basis as EarningRuleSet["basis"] })}
+              />
+              <Select
+                label="Rounding"
+                options={[
+                  { label: "Round down", value: "FLOOR" },
+                  { label: "Round to nearest", value: "NEAREST" },
+                  { label: "Round up", value: "CEIL" },
+                ]}
+                value={rules.rounding}
+                onChange={(rounding) => setRules({ ...rules, rounding: rounding as EarningRuleSet["rounding"] })}
+              />
+              <TextField
+                label="Minimum order value"
+                type="number"
+                value={minimumOrderValue}
+                onChange={setMinimumOrderValue}
+                min={0}
+                autoComplete="off"
+                helpText="Orders below this amount earn no points"
+              />
+            </FormLayout>
+          </Card>
+        </Layout.AnnotatedSection>
+
+        <Layout.AnnotatedSection
+          title="When points are awarded"
+          description="Orders earn points once, on the event chosen here. Changing it doesn't re-award orders that already earned points."
+        >
+          <Card>
+            <Select
+              label="Award points when an order is"
+              options={[
+                { label: "Placed", value: "ORDER_CREATED" },
+                { label: "Paid", value: "ORDER_PAID" },
+                { label: "Fulfilled", value: "ORDER_FULFILLED" },
+              ]}
+              value={awardTrigger}
+              onChange={(value) => submit({ intent: "trigger", awardTrigger: value }, { method: "post" })}
+            />
+          </Card>
+        </Layout.AnnotatedSection>
+
+        <Layout.AnnotatedSection
+          title="Exclusions"
+          description="Products matching any exclusion earn no points."
+        >
+          <Card>
+            <FormLayout>
+              <TextField
+                label="Excluded product tags"
+                value={excludedTags}
+                onChange={setExcludedTags}
+                autoComplete="off"
+                helpText="Comma-separated, e.g. gift-card, clearance"
+              />
+              <TextField
+                label="Excluded vendors"
+                value={excludedVendors}
+                onChange={setExcludedVendors}
+                autoComplete="off"
+                helpText="Comma-separated vendor names"
+              />
+              <BlockStack gap="200">
+                <Text as="p" variant="bodyMd">Excluded collections</Text>
+                <InlineStack gap="200">
+                  {rules.excludedCollectionIds.map((id) => (
+                    <Tag
+                      key={id}
+                      onRemove={() =>
+                        setRules({
+                          ...rules,
+                          excludedCollectionIds: rules.excludedCollectionIds.filter((c) => c !== id),
+                        })
+                      }
+                    >
+                      {titles[id] || id}
+                    </Tag>
+                  ))}
+                </InlineStack>
+                <InlineStack>
+                  <Button onClick={handlePickCollections}>Select collections</Button>
+                </InlineStack>
+              </BlockStack>
+            </FormLayout>
+          </Card>
+        </Layout.AnnotatedSection>
+
+        <Layout.AnnotatedSection
+          title="Product multipliers"
+          description="Award more (or fewer) points for specific products."
+        >
+          <Card>
+            <BlockStack gap="300">
+              {rules.productMultipliers.map((m) => (
+                <TextField
+                  key={m.productId}
+                  label={titles[m.productId] || m.productId}
+                  type="number"
+                  value={Number.isNaN(m.multiplier) ? "" : String(m.multiplier)}
+                  onChange={(value) => handleMultiplierChange(m.productId, value)}
+                  min={0}
+                  step={0.5}
+                  suffix="×"
+                  autoComplete="off"
+                />
+              ))}
+              <InlineStack>
+                <Button onClick={handlePickProducts}>Select products</Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.AnnotatedSection>
+
+        <Layout.AnnotatedSection
+          title="Preview"
+          description="Try the rules above against an existing order before saving them."
+        >
+          <Card>
+            <BlockStack gap="300">
+              <TextField
+                label="Order number"
+                value={orderName}
+                onChange={setOrderName}
+                placeholder="#1001 (leave empty for the latest order)"
+                autoComplete="off"
+                connectedRight={
+                  <Button onClick={() => handleSubmit("preview")} loading={isSubmitting}>
+                    Preview
+                  </Button>
+                }
+              />
+              {actionData?.success && actionData.intent === "preview" && (
+                <BlockStack gap="200">
+                  <Text as="p" variant="headingMd">
+                    {actionData.orderName} earns {actionData.breakdown.points} points
+                  </Text>
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    Calculated from {actionData.breakdown.basisAmount.toFixed(2)}
+                    {actionData.breakdown.skippedReason && ` — ${actionData.breakdown.skippedReason}`}
+                  </Text>
+                  {actionData.breakdown.lines.length > 0 && (
+                    <DataTable
+                      columnContentTypes={["text", "numeric", "numeric", "text", "numeric"]}
+                      headings={["Item", "Amount", "Multiplier", "Excluded", "Points"]}
+                      rows={actionData.breakdown.lines.map((line) => [
+                        line.title,
+                        line.basisAmount.toFixed(2),
+                        `${line.multiplier}×`,
+                        line.excludedReason || "—",
+                        line.points.toFixed(2),
+                      ])}
+                    />
+                  )}
+                </BlockStack>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.AnnotatedSection>
+
+        <Layout.AnnotatedSection
+          title="Points expiration"
+          description="Expired points are removed by the scheduled expiry job and recorded in each customer's history."
+        >
+          <Card>
+            <BlockStack gap="300">
+              <FormLayout>
+                <Select
+                  label="Points expire"
+                  options={[
+                    { label: "Never", value: "NEVER" },
+                    { label: "A set time after they are earned", value: "AFTER_EARNED" },
+                    { label: "After a period of inactivity", value: "AFTER_INACTIVITY" },
+                  ]}
+                  value={expirationMode}
+                  onChange={setExpirationMode}
+                />
+                {expirationMode !== "NEVER" && (
+                  <TextField
+                    label={expirationMode === "AFTER_EARNED" ? "Expire after" : "Inactive for"}
+                    type="number"
+                    value={expirationMonths}
+                    onChange={setExpirationMonths}
+                    min={1}
+                    suffix="months"
+                    autoComplete="off"
+                    helpText={
+                      expirationMode === "AFTER_EARNED"
+                        ? "Spent points are taken from the oldest earned first"
+                        : "Earning or redeeming points resets the clock"
+                    }
+                  />
+                )}
+              </FormLayout>
+              <InlineStack gap="200">
+                <Button
+                  onClick={() =>
+                    submit({ intent: "expiration", expirationMode, expirationMonths }, { method: "post" })
+                  }
+                  loading={isSubmitting}
+                >
+                  Save expiration policy
+                </Button>
+                <Button
+                  variant="plain"
+                  onClick={() => submit({ intent: "expiryPreview" }, { method: "post" })}
+                  disabled={expiration.expirationMode === "NEVER"}
+                >
+                  Preview next run
+                </Button>
+              </InlineStack>
+              {actionData?.success && actionData.intent === "expiryPreview" && (
+                <BlockStack gap="200">
+                  <Text as="p" variant="headingMd">
+                    {actionData.totalPoints} points would expire for {actionData.expired.length} customers
+                  </Text>
+                  {actionData.expired.length > 0 && (
+                    <DataTable
+                      columnContentTypes={["text", "numeric"]}
+                      headings={["Customer", "Points"]}
+                      rows={actionData.expired.map(({ customerId, points }) => [
+                        customerId.replace("gid://shopify/Customer/", ""),
+                        points,
+                      ])}
+                    />
+                  )}
+                </BlockStack>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.AnnotatedSection>
+
+        <Layout.AnnotatedSection
+          title="Refunds and cancellations"
+          description="Points earned on refunded items or cancelled orders are taken back automatically."
+        >
+          <Card>
+            <Select
+              label="When a customer has already spent the points"
+              options={[
+                { label: "Take them back anyway (balance may go negative)", value: "ALLOW_NEGATIVE" },
+                { label: "Take back what's left (balance stops at zero)", value: "STOP_AT_ZERO" },
+              ]}
+              value={clawbackPolicy}
+              onChange={(value) => submit({ intent: "clawback", clawbackPolicy: value }, { method: "post" })}
+            />
+          </Card>
+        </Layout.AnnotatedSection>
+      </Layout>
+    </Page>
+  );
+}
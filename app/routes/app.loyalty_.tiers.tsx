@@ -0,0 +1,264 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  IndexTable,
+  Text,
+  TextField,
+  Button,
+  Select,
+  Banner,
+  EmptyState,
+  FormLayout,
+  InlineStack,
+} from "@shopify/polaris";
+import { TitleBar } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import type { MembershipTierInput } from "../models/tiers.server";
+import {
+  deleteMembershipTier,
+  getMembershipTiers,
+  saveMembershipTier,
+  validateMembershipTier,
+} from "../models/tiers.server";
+import { getLoyaltySettings, saveLoyaltySettings } from "../models/loyalty-settings.server";
+
+type ActionData =
+  | { success: false; error: string }
+  | { success: true; message: string };
+
+type TierForm = {
+  id: string | null;
+  name: string;
+  threshold: string;
+  multiplier: string;
+  perks: string;
+};
+
+const EMPTY_FORM: TierForm = {
+  id: null,
+  name: "",
+  threshold: "",
+  multiplier: "1",
+  perks: "",
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const [tiers, settings] = await Promise.all([
+    getMembershipTiers(session.shop),
+    getLoyaltySettings(session.shop),
+  ]);
+
+  return json({ tiers, tierQualification: settings.tierQualification });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent") as string;
+
+  try {
+    if (intent === "qualification") {
+      await saveLoyaltySettings(session.shop, {
+        tierQualification:
+          formData.get("tierQualification") === "ROLLING_12_MONTH_SPEND"
+            ? "ROLLING_12_MONTH_SPEND"
+            : "LIFETIME_POINTS",
+      });
+      return json<ActionData>({ success: true, message: "Tier qualification saved" });
+    }
+
+    if (intent === "delete") {
+      await deleteMembershipTier(session.shop, formData.get("id") as string);
+      return json<ActionData>({ success: true, message: "Tier deleted" });
+    }
+
+    const input: MembershipTierInput = {
+      name: ((formData.get("name") as string) || "").trim(),
+      threshold: parseFloat(formData.get("threshold") as string),
+      multiplier: parseFloat(formData.get("multiplier") as string),
+      perks: ((formData.get("perks") as string) || "").trim() || null,
+    };
+
+    const errors = validateMembershipTier(input);
+    if (errors.length > 0) {
+      return json<ActionData>({ success: false, error: errors.join(". ") });
+    }
+
+    await saveMembershipTier(session.shop, (formData.get("id") as string) || null, input);
+    return json<ActionData>({ success: true, message: `Saved ${input.name}` });
+  } catch (error) {
+    return json<ActionData>({
+      success: false,
+      error: `Failed to save tiers: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+};
+
+export default function MembershipTiers() {
+  const { tiers, tierQualification } = useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionData>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+
+  const [form, setForm] = useState<TierForm>(EMPTY_FORM);
+  const isSubmitting = navigation.state === "submitting";
+  const bySpend = tierQualification === "ROLLING_12_MONTH_SPEND";
+
+  const handleSave = () => {
+    submit({ intent: "save", ...form, id: form.id ?? "" }, { method: "post" });
+    setForm(EMPTY_FORM);
+  };
+
+  return (
+    <Page
+      title="Membership tiers"
+      subtitle="Reward your best customers with higher earning rates"
+      backAction={{ content: "Loyalty Points", url: "/app/loyalty" }}
+    >
+      <TitleBar title="Membership tiers" />
+
+      <Layout>
+        {actionData && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              <p>{actionData.success ? actionData.message : actionData.error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <Select
+              label="Customers qualify for a tier by"
+              options={[
+                { label: "Lifetime points earned", value: "LIFETIME_POINTS" },
+                { label: "Spend over the last 12 months", value: "ROLLING_12_MONTH_SPEND" },
+              ]}
+              value={tierQualification}
+              onChange={(value) =>
+                submit({ intent: "qualification", tierQualification: value }, { method: "post" })
+              }
+              helpText="Tiers are re-evaluated each time a customer is awarded points."
+            />
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card padding="0">
+            {tiers.length > 0 ? (
+              <IndexTable
+                resourceName={{ singular: "tier", plural: "tiers" }}
+                itemCount={tiers.length}
+                selectable={false}
+                headings={[
+                  { title: "Name" },
+                  { title: bySpend ? "Minimum spend" : "Minimum points" },
+                  { title: "Earning multiplier" },
+                  { title: "Perks" },
+                  { title: "" },
+                ]}
+              >
+                {tiers.map((tier, index) => (
+                  <IndexTable.Row id={tier.id} key={tier.id} position={index}>
+                    <IndexTable.Cell>
+                      <Text as="span" fontWeight="bold">{tier.name}</Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{tier.threshold}</IndexTable.Cell>
+                    <IndexTable.Cell>{tier.multiplier}×</IndexTable.Cell>
+                    <IndexTable.Cell>{tier.perks ?? "—"}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <InlineStack gap="200">
+                        <Button
+                          variant="plain"
+                          onClick={() =>
+                            setForm({
+                              id: tier.id,
+                              name: tier.name,
+                              threshold: String(tier.threshold),
+                              multiplier: String(tier.multiplier),
+                              perks: tier.perks ?? "",
+                            })
+                          }
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          variant="plain"
+                          tone="critical"
+                          onClick={() => submit({ intent: "delete", id: tier.id }, { method: "post" })}
+                        >
+                          Delete
+                        </Button>
+                      </InlineStack>
+                    </IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+            ) : (
+              <EmptyState heading="No membership tiers yet" image="">
+                <p>Add tiers such as Bronze, Silver and Gold below.</p>
+              </EmptyState>
+            )}
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <FormLayout>
+              <Text variant="headingMd" as="h3">
+                {form.id ? `Edit ${form.name}` : "Add tier"}
+              </Text>
+              <TextField
+                label="Name"
+                value={form.name}
+                onChange={(name) => setForm({ ...form, name })}
+                placeholder="Gold"
+                autoComplete="off"
+              />
+              <FormLayout.Group>
+                <TextField
+                  label={bySpend ? "Minimum spend (12 months)" : "Minimum lifetime points"}
+                  type="number"
+                  value={form.threshold}
+                  onChange={(threshold) => setForm({ ...form, threshold })}
+                  min={0}
+                  autoComplete="off"
+                />
+                <TextField
+                  label="Earning multiplier"
+                  type="number"
+                  value={form.multiplier}
+                  onChange={(multiplier) => setForm({ ...form, multiplier })}
+                  min={0}
+                  step={0.25}
+                  suffix="×"
+                  autoComplete="off"
+                />
+              </FormLayout.Group>
+              <TextField
+                label="Perks"
+                value={form.perks}
+                onChange={(perks) => setForm({ ...form, perks })}
+                placeholder="Free shipping on all orders, early access to sales"
+                multiline={2}
+                autoComplete="off"
+              />
+              <InlineStack gap="200">
+                <Button variant="primary" onClick={handleSave} loading={isSubmitting}>
+                  {form.id ? "Save tier" : "Add tier"}
+                </Button>
+                {form.id && <Button onClick={() => setForm(EMPTY_FORM)}>Cancel</Button>}
+              </InlineStack>
+            </FormLayout>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -26,7 +26,8 @@ export default function App() {
         </Link>
         <Link to="/app/inventory">Inventory Manager</Link>
         <Link to="/app/loyalty">Loyalty Points</Link>
-        <Link to="/app/additional">Additional page</Link>
+        <Link to="/app/loyalty/analytics">Loyalty analytics</Link>
+        <Link to="/app/jobs">Background jobs</Link>
       </NavMenu>
       <Outlet />
     </AppProvider>
@@ -0,0 +1,83 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
+import { Page, Layout, Card, Text, IndexTable, EmptyState } from "@shopify/polaris";
+import { TitleBar } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { getWebhookFailures } from "../webhooks.server";
+
+type LoaderData = {
+  failures: Array<{
+    id: string;
+    topic: string;
+    webhookId: string;
+    error: string;
+    createdAt: string;
+  }>;
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const failures = await getWebhookFailures(session.shop);
+
+  return Response.json({
+    failures: failures.map((failure) => ({
+      id: failure.id,
+      topic: failure.topic,
+      webhookId: failure.webhookId,
+      error: failure.error,
+      createdAt: failure.createdAt.toISOString(),
+    })),
+  });
+};
+
+export default function Webhooks() {
+  const { failures } = useLoaderData<LoaderData>();
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString() + " " + date.toLocaleTimeString();
+  };
+
+  return (
+    <Page title="Webhook failures" backAction={{ content: "Dashboard", url: "/app" }}>
+      <TitleBar title="Webhook failures" />
+
+      <Layout>
+        <Layout.Section>
+          <Card padding="0">
+            {failures.length > 0 ? (
+              <IndexTable
+                resourceName={{ singular: "failure", plural: "failures" }}
+                itemCount={failures.length}
+                selectable={false}
+                headings={[
+                  { title: "Topic" },
+                  { title: "Failed" },
+                  { title: "Webhook ID" },
+                  { title: "Error" },
+                ]}
+              >
+                {failures.map((failure, index) => (
+                  <IndexTable.Row id={failure.id} key={failure.id} position={index}>
+                    <IndexTable.Cell>
+                      <Text as="span" fontWeight="bold">{failure.topic}</Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{formatDate(failure.createdAt)}</IndexTable.Cell>
+                    <IndexTable.Cell>{failure.webhookId}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" tone="critical" breakWord>{failure.error}</Text>
+                    </IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+            ) : (
+              <EmptyState heading="No webhook failures" image="">
+                <p>Webhooks from Shopify that the app fails to process show up here. Shopify retries them for up to 48 hours.</p>
+              </EmptyState>
+            )}
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
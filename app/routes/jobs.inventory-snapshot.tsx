@@ -0,0 +1,12 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { forEachShop, requireJobSecret } from "../jobs.server";
+import { refreshInventorySnapshot } from "../models/inventory-snapshot.server";
+
+/** Refreshes every shop's inventory snapshot. */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  requireJobSecret(request);
+
+  const results = await forEachShop((shop, admin) => refreshInventorySnapshot(admin, shop));
+
+  return Response.json({ results });
+};
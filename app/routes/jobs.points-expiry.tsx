@@ -0,0 +1,13 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { forEachShop, requireJobSecret } from "../jobs.server";
+import { runPointsExpiry } from "../models/expiration.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  requireJobSecret(request);
+
+  // POST /jobs/points-expiry?dryRun=true reports what would expire without writing
+  const dryRun = new URL(request.url).searchParams.get("dryRun") === "true";
+  const results = await forEachShop((shop) => runPointsExpiry(shop, { dryRun }));
+
+  return Response.json({ dryRun, results });
+};
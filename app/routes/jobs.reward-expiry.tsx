@@ -0,0 +1,11 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { forEachShop, requireJobSecret } from "../jobs.server";
+import { expireUnusedRedemptions } from "../models/rewards.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  requireJobSecret(request);
+
+  const results = await forEachShop((shop, admin) => expireUnusedRedemptions(admin, shop));
+
+  return Response.json({ results });
+};
@@ -0,0 +1,21 @@
+import { randomUUID } from "crypto";
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { requireJobSecret, runDueJobs, scheduleRecurringJobs } from "../jobs.server";
+import { recoverStaleJobs } from "../queue.server";
+
+/**
+ * Works through the job queue for hosts that can't keep a worker running
+ * (set JOB_WORKER=off there). POST /jobs/run?seconds=50 every minute; it stops
+ * claiming new jobs once the time is up.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  requireJobSecret(request);
+
+  const seconds = Math.min(300, Math.max(1, Number(new URL(request.url).searchParams.get("seconds")) || 50));
+
+  const recovered = await recoverStaleJobs();
+  await scheduleRecurringJobs();
+  const ran = await runDueJobs(`run-${randomUUID()}`, { deadline: Date.now() + seconds * 1000 });
+
+  return Response.json({ recovered, ran });
+};
@@ -0,0 +1,18 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { forEachShop, requireJobSecret } from "../jobs.server";
+import { backfillSales } from "../models/sales-velocity.server";
+
+/**
+ * Loads past orders into the sales table, for shops that installed before
+ * sales were tracked or that missed `orders/create` deliveries. Orders already
+ * recorded are skipped, so it's safe to run again.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  requireJobSecret(request);
+
+  // POST /jobs/sales-backfill?days=30 limits how far back it goes (default 90)
+  const days = Math.min(90, Math.max(1, parseInt(new URL(request.url).searchParams.get("days") || "90", 10) || 90));
+  const results = await forEachShop((shop, admin) => backfillSales(admin, shop, { days }));
+
+  return Response.json({ days, results });
+};
@@ -0,0 +1,15 @@
+import { webhookAction } from "../webhooks.server";
+import { collectCustomerData, logComplianceRequest } from "../models/compliance.server";
+
+export const action = webhookAction(async ({ shop, topic, webhookId, payload }, tx) => {
+  const data = await collectCustomerData(tx, shop, payload.customer.id, payload.orders_requested);
+
+  // The log holds the export so it can be handed to the merchant on request
+  await logComplianceRequest(tx, {
+    shop,
+    topic,
+    webhookId,
+    customerId: data.customerId,
+    result: { dataRequestId: payload.data_request?.id ?? null, ...data },
+  });
+});
@@ -0,0 +1,15 @@
+import { webhookAction } from "../webhooks.server";
+import { logComplianceRequest, redactCustomer } from "../models/compliance.server";
+import { toCustomerGid } from "../models/loyalty.server";
+
+export const action = webhookAction(async ({ shop, topic, webhookId, payload }, tx) => {
+  const result = await redactCustomer(tx, shop, payload.customer.id, payload.orders_to_redact);
+
+  await logComplianceRequest(tx, {
+    shop,
+    topic,
+    webhookId,
+    customerId: toCustomerGid(payload.customer.id),
+    result,
+  });
+});
@@ -1,14 +1,9 @@
-import type { ActionFunctionArgs } from "@remix-run/node";
-import { authenticate } from "../shopify.server";
-import db from "../db.server";
-
-export const action = async ({ request }: ActionFunctionArgs) => {
-    const { payload, session, topic, shop } = await authenticate.webhook(request);
-    console.log(`Received ${topic} webhook for ${shop}`);
+import { webhookAction } from "../webhooks.server";
 
+export const action = webhookAction(async ({ payload, session }, tx) => {
     const current = payload.current as string[];
     if (session) {
-        await db.session.update({   
+        await tx.session.update({   
             where: {
                 id: session.id
             },
@@ -17,5 +12,4 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             },
         });
     }
-    return new Response();
-};
+});
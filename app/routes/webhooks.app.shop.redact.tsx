@@ -0,0 +1,8 @@
+import { webhookAction } from "../webhooks.server";
+import { logComplianceRequest, redactShop } from "../models/compliance.server";
+
+export const action = webhookAction(async ({ shop, topic, webhookId }, tx) => {
+  const result = await redactShop(tx, shop);
+
+  await logComplianceRequest(tx, { shop, topic, webhookId, result });
+});
@@ -0,0 +1,21 @@
+import { webhookAction } from "../webhooks.server";
+import { enqueueJob } from "../queue.server";
+
+/**
+ * Importing a full catalog takes longer than Shopify waits for a webhook
+ * response, so the import is handed to the job queue, which retries it if the
+ * worker fails. `completeInventorySync` only picks up each operation once.
+ */
+export const action = webhookAction(
+  async ({ shop, payload }, tx) => {
+    if (payload.type !== "query") {
+      return new Response("Not a bulk query", { status: 200 });
+    }
+
+    const bulkOperationId = payload.admin_graphql_api_id;
+    await enqueueJob(tx, shop, "inventory-sync-import", { bulkOperationId }, {
+      uniqueKey: `inventory-sync-import|${bulkOperationId}`,
+    });
+  },
+  { deliveryKey: ({ payload }) => payload.admin_graphql_api_id },
+);
@@ -0,0 +1,44 @@
+import { webhookAction } from "../webhooks.server";
+import { checkLowStock } from "../models/low-stock.server";
+import { updateSnapshotLevels } from "../models/inventory-snapshot.server";
+
+export const action = webhookAction(
+  async ({ admin, shop, payload }, tx) => {
+    const level = payload;
+
+    // Untracked items report no available quantity
+    if (typeof level.available !== "number") {
+      return new Response("Inventory not tracked", { status: 200 });
+    }
+
+    const change = {
+      inventoryItemId: `gid://shopify/InventoryItem/${level.inventory_item_id}`,
+      locationId: `gid://shopify/Location/${level.location_id}`,
+      available: level.available,
+    };
+
+    await updateSnapshotLevels(tx, shop, [change]);
+
+    const result = await checkLowStock(admin, tx, shop, change);
+
+    switch (result.status) {
+      case "untracked":
+        return new Response(result.resolved ? "Low stock alert resolved; no reorder point set" : "No reorder point set", {
+          status: 200,
+        });
+      case "ok":
+        return new Response(result.resolved ? "Low stock alert resolved" : "Stock above reorder point", {
+          status: 200,
+        });
+      case "low":
+        return new Response(result.alert ? `Opened low stock alert ${result.alert.id}` : "Low stock alert already open", {
+          status: 200,
+        });
+    }
+  },
+  // Each update of a level is delivered with its own timestamp
+  {
+    deliveryKey: ({ payload }) =>
+      `${payload.inventory_item_id}|${payload.location_id}|${payload.updated_at}`,
+  },
+);
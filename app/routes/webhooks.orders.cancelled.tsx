@@ -0,0 +1,29 @@
+import { webhookAction } from "../webhooks.server";
+import { evaluateCustomerTier } from "../models/tiers.server";
+import { clawBackOrderPoints, getAwardTierSpend } from "../models/order-points.server";
+
+export const action = webhookAction<number | null>(
+  async ({ shop, payload }, tx, spend) => {
+    const order = payload;
+
+    // Reverses whatever earlier refunds on this order haven't already taken back
+    const result = await clawBackOrderPoints(tx, shop, {
+      orderId: order.admin_graphql_api_id,
+      reason: `Order cancelled ${order.name}`,
+    });
+
+    if (!result) {
+      return new Response("No points to claw back", { status: 200 });
+    }
+
+    await evaluateCustomerTier(tx, shop, result.customerId, spend);
+
+    return new Response(`Clawed back ${result.points} points from customer ${result.customerId}`, {
+      status: 200,
+    });
+  },
+  {
+    deliveryKey: ({ payload }) => payload.admin_graphql_api_id,
+    prepare: ({ admin, shop, payload }) => getAwardTierSpend(admin, shop, payload.admin_graphql_api_id),
+  },
+);
@@ -0,0 +1,24 @@
+import { webhookAction } from "../webhooks.server";
+import type { OrderWebhookPayload } from "../models/earning-rules.server";
+import type { PreparedOrderAward } from "../models/order-points.server";
+import { awardPointsForOrderWebhook, prepareOrderWebhookAward } from "../models/order-points.server";
+
+export const action = webhookAction<PreparedOrderAward | null>(
+  async ({ shop, payload }, tx, prepared) => {
+    const message = await awardPointsForOrderWebhook(
+      tx,
+      shop,
+      payload as OrderWebhookPayload,
+      "ORDER_PAID",
+      prepared,
+    );
+
+    return new Response(message, { status: 200 });
+  },
+  // Keyed on the order so separate deliveries for the same order award once
+  {
+    deliveryKey: ({ payload }) => payload.admin_graphql_api_id,
+    prepare: ({ admin, shop, payload }) =>
+      prepareOrderWebhookAward(admin, shop, payload as OrderWebhookPayload, "ORDER_PAID"),
+  },
+);
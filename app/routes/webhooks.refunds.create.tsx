@@ -0,0 +1,39 @@
+import { webhookAction } from "../webhooks.server";
+import { evaluateCustomerTier } from "../models/tiers.server";
+import { clawBackOrderPoints, getAwardTierSpend } from "../models/order-points.server";
+
+export const action = webhookAction<number | null>(
+  async ({ shop, payload }, tx, spend) => {
+    const refund = payload;
+
+    const lineItems = (refund.refund_line_items || []).map((item: any) => ({
+      lineItemId: `gid://shopify/LineItem/${item.line_item_id}`,
+      quantity: item.quantity || 0,
+    }));
+
+    // Shipping-only or custom amount refunds don't touch the points of any line
+    if (lineItems.length === 0) {
+      return new Response("No line items refunded", { status: 200 });
+    }
+
+    const result = await clawBackOrderPoints(tx, shop, {
+      orderId: `gid://shopify/Order/${refund.order_id}`,
+      lineItems,
+      reason: `Refund ${refund.id}`,
+    });
+
+    if (!result) {
+      return new Response("No points to claw back", { status: 200 });
+    }
+
+    await evaluateCustomerTier(tx, shop, result.customerId, spend);
+
+    return new Response(`Clawed back ${result.points} points from customer ${result.customerId}`, {
+      status: 200,
+    });
+  },
+  {
+    deliveryKey: ({ payload }) => payload.admin_graphql_api_id,
+    prepare: ({ admin, shop, payload }) => getAwardTierSpend(admin, shop, `gid://shopify/Order/${payload.order_id}`),
+  },
+);
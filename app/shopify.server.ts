@@ -1,4 +1,5 @@
 import "@shopify/shopify-app-remix/adapters/node";
+import type { AdminApiContext } from "@shopify/shopify-app-remix/server";
 import {
   ApiVersion,
   AppDistribution,
@@ -33,3 +34,4 @@ export const unauthenticated = shopify.unauthenticated;
 export const login = shopify.login;
 export const registerWebhooks = shopify.registerWebhooks;
 export const sessionStorage = shopify.sessionStorage;
+export type AdminApi = AdminApiContext<typeof shopify>;
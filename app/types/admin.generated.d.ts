@@ -0,0 +1,458 @@
+/* eslint-disable eslint-comments/disable-enable-pair */
+/* eslint-disable eslint-comments/no-unlimited-disable */
+/* eslint-disable */
+import type * as AdminTypes from './admin.types';
+
+export type CountVariantFieldsFragment = (
+  Pick<AdminTypes.ProductVariant, 'id' | 'title' | 'sku' | 'barcode'>
+  & { product: Pick<AdminTypes.Product, 'id' | 'title'>, inventoryItem: (
+    Pick<AdminTypes.InventoryItem, 'id'>
+    & { inventoryLevel?: AdminTypes.Maybe<{ quantities: Array<Pick<AdminTypes.InventoryQuantity, 'name' | 'quantity'>> }> }
+  ) }
+);
+
+export type GetCollectionsQueryVariables = AdminTypes.Exact<{ [key: string]: never; }>;
+
+
+export type GetCollectionsQuery = { collections: { nodes: Array<Pick<AdminTypes.Collection, 'id' | 'title'>> } };
+
+export type GetCountScopeQueryVariables = AdminTypes.Exact<{
+  query: AdminTypes.Scalars['String']['input'];
+  after?: AdminTypes.InputMaybe<AdminTypes.Scalars['String']['input']>;
+  locationId: AdminTypes.Scalars['ID']['input'];
+}>;
+
+
+export type GetCountScopeQuery = { productVariants: { pageInfo: Pick<AdminTypes.PageInfo, 'hasNextPage' | 'endCursor'>, nodes: Array<(
+      Pick<AdminTypes.ProductVariant, 'id' | 'title' | 'sku' | 'barcode'>
+      & { product: Pick<AdminTypes.Product, 'id' | 'title'>, inventoryItem: (
+        Pick<AdminTypes.InventoryItem, 'id'>
+        & { inventoryLevel?: AdminTypes.Maybe<{ quantities: Array<Pick<AdminTypes.InventoryQuantity, 'name' | 'quantity'>> }> }
+      ) }
+    )> } };
+
+export type FindVariantByCodeQueryVariables = AdminTypes.Exact<{
+  query: AdminTypes.Scalars['String']['input'];
+  locationId: AdminTypes.Scalars['ID']['input'];
+}>;
+
+
+export type FindVariantByCodeQuery = { productVariants: { nodes: Array<(
+      Pick<AdminTypes.ProductVariant, 'id' | 'title' | 'sku' | 'barcode'>
+      & { product: Pick<AdminTypes.Product, 'id' | 'title'>, inventoryItem: (
+        Pick<AdminTypes.InventoryItem, 'id'>
+        & { inventoryLevel?: AdminTypes.Maybe<{ quantities: Array<Pick<AdminTypes.InventoryQuantity, 'name' | 'quantity'>> }> }
+      ) }
+    )> } };
+
+export type EarningOrderFieldsFragment = { subtotalPriceSet?: AdminTypes.Maybe<{ shopMoney: Pick<AdminTypes.MoneyV2, 'amount'> }>, totalPriceSet: { shopMoney: Pick<AdminTypes.MoneyV2, 'amount' | 'currencyCode'> }, totalShippingPriceSet: { shopMoney: Pick<AdminTypes.MoneyV2, 'amount'> }, totalTaxSet?: AdminTypes.Maybe<{ shopMoney: Pick<AdminTypes.MoneyV2, 'amount'> }>, lineItems: { nodes: Array<(
+      Pick<AdminTypes.LineItem, 'id' | 'title' | 'quantity' | 'vendor'>
+      & { discountedTotalSet: { shopMoney: Pick<AdminTypes.MoneyV2, 'amount'> }, product?: AdminTypes.Maybe<Pick<AdminTypes.Product, 'id'>> }
+    )> } };
+
+export type GetEarningOrdersQueryVariables = AdminTypes.Exact<{
+  ids: Array<AdminTypes.Scalars['ID']['input']> | AdminTypes.Scalars['ID']['input'];
+}>;
+
+
+export type GetEarningOrdersQuery = { nodes: Array<AdminTypes.Maybe<{ __typename: 'AbandonedCheckout' | 'AbandonedCheckoutLineItem' | 'Abandonment' | 'AddAllProductsOperation' | 'AdditionalFee' | 'App' | 'AppCatalog' | 'AppCredit' | 'AppInstallation' | 'AppPurchaseOneTime' | 'AppRevenueAttributionRecord' | 'AppSubscription' | 'AppUsageRecord' | 'Article' | 'BasicEvent' | 'Blog' | 'BulkOperation' | 'BusinessEntity' | 'CalculatedOrder' | 'CartTransform' } | { __typename: 'CashTrackingAdjustment' | 'CashTrackingSession' | 'CatalogCsvOperation' | 'Channel' | 'ChannelDefinition' | 'ChannelInformation' | 'CheckoutProfile' | 'Collection' | 'Comment' | 'CommentEvent' | 'Company' | 'CompanyAddress' | 'CompanyContact' | 'CompanyContactRole' | 'CompanyContactRoleAssignment' | 'CompanyLocation' | 'CompanyLocationCatalog' | 'CompanyLocationStaffMemberAssignment' | 'Customer' | 'CustomerAccountAppExtensionPage' } | { __typename: 'CustomerAccountNativePage' | 'CustomerPaymentMethod' | 'CustomerSegmentMembersQuery' | 'CustomerVisit' | 'DeliveryCarrierService' | 'DeliveryCondition' | 'DeliveryCountry' | 'DeliveryCustomization' | 'DeliveryLocationGroup' | 'DeliveryMethod' | 'DeliveryMethodDefinition' | 'DeliveryParticipant' | 'DeliveryProfile' | 'DeliveryProfileItem' | 'DeliveryPromiseParticipant' | 'DeliveryPromiseProvider' | 'DeliveryProvince' | 'DeliveryRateDefinition' | 'DeliveryZone' | 'DiscountAutomaticBxgy' } | { __typename: 'DiscountAutomaticNode' | 'DiscountCodeNode' | 'DiscountNode' | 'DiscountRedeemCodeBulkCreation' | 'Domain' | 'DraftOrder' | 'DraftOrderLineItem' | 'DraftOrderTag' | 'Duty' | 'ExchangeLineItem' | 'ExchangeV2' | 'ExternalVideo' | 'Fulfillment' | 'FulfillmentConstraintRule' | 'FulfillmentEvent' | 'FulfillmentHold' | 'FulfillmentLineItem' | 'FulfillmentOrder' | 'FulfillmentOrderDestination' | 'FulfillmentOrderLineItem' } | { __typename: 'FulfillmentOrderMerchantRequest' | 'GenericFile' | 'GiftCard' | 'GiftCardCreditTransaction' | 'GiftCardDebitTransaction' | 'InventoryAdjustmentGroup' | 'InventoryItem' | 'InventoryItemMeasurement' | 'InventoryLevel' | 'InventoryQuantity' | 'LineItem' | 'LineItemGroup' | 'Location' | 'MailingAddress' | 'Market' | 'MarketCatalog' | 'MarketRegionCountry' | 'MarketWebPresence' | 'MarketingActivity' | 'MarketingEvent' } | { __typename: 'MediaImage' | 'Menu' | 'Metafield' | 'MetafieldDefinition' | 'Metaobject' | 'MetaobjectDefinition' | 'Model3d' | 'OnlineStoreTheme' | 'OrderAdjustment' | 'OrderDisputeSummary' | 'OrderTransaction' | 'Page' | 'PaymentCustomization' | 'PaymentMandate' | 'PaymentSchedule' | 'PaymentTerms' | 'PaymentTermsTemplate' | 'PriceList' | 'PriceRule' | 'PriceRuleDiscountCode' } | { __typename: 'Product' | 'ProductBundleOperation' | 'ProductDeleteOperation' | 'ProductDuplicateOperation' | 'ProductFeed' | 'ProductOption' | 'ProductOptionValue' | 'ProductSetOperation' | 'ProductTaxonomyNode' | 'ProductVariant' | 'ProductVariantComponent' | 'Publication' | 'PublicationResourceOperation' | 'QuantityPriceBreak' | 'Refund' | 'RefundShippingLine' | 'Return' | 'ReturnLineItem' | 'ReturnableFulfillment' | 'ReverseDelivery' } | { __typename: 'ReverseDeliveryLineItem' | 'ReverseFulfillmentOrder' | 'ReverseFulfillmentOrderDisposition' | 'ReverseFulfillmentOrderLineItem' | 'SaleAdditionalFee' | 'SavedSearch' | 'ScriptTag' | 'Segment' | 'SellingPlan' | 'SellingPlanGroup' | 'ServerPixel' | 'Shop' | 'ShopAddress' | 'ShopPolicy' | 'ShopifyPaymentsAccount' | 'ShopifyPaymentsBalanceTransaction' | 'ShopifyPaymentsBankAccount' | 'ShopifyPaymentsDispute' | 'ShopifyPaymentsDisputeEvidence' | 'ShopifyPaymentsDisputeFileUpload' } | { __typename: 'ShopifyPaymentsDisputeFulfillment' | 'ShopifyPaymentsPayout' | 'ShopifyPaymentsVerification' | 'StaffMember' | 'StandardMetafieldDefinitionTemplate' | 'StoreCreditAccount' | 'StoreCreditAccountCreditTransaction' | 'StoreCreditAccountDebitRevertTransaction' | 'StoreCreditAccountDebitTransaction' | 'StorefrontAccessToken' | 'SubscriptionBillingAttempt' | 'SubscriptionContract' | 'SubscriptionDraft' | 'TaxonomyAttribute' | 'TaxonomyCategory' | 'TaxonomyChoiceListAttribute' | 'TaxonomyMeasurementAttribute' | 'TaxonomyValue' | 'TenderTransaction' | 'TransactionFee' } | { __typename: 'UnverifiedReturnLineItem' | 'UrlRedirect' | 'UrlRedirectImport' | 'Validation' | 'Video' | 'WebPixel' | 'WebhookSubscription' } | (
+    { __typename: 'Order' }
+    & Pick<AdminTypes.Order, 'id'>
+    & { subtotalPriceSet?: AdminTypes.Maybe<{ shopMoney: Pick<AdminTypes.MoneyV2, 'amount'> }>, totalPriceSet: { shopMoney: Pick<AdminTypes.MoneyV2, 'amount' | 'currencyCode'> }, totalShippingPriceSet: { shopMoney: Pick<AdminTypes.MoneyV2, 'amount'> }, totalTaxSet?: AdminTypes.Maybe<{ shopMoney: Pick<AdminTypes.MoneyV2, 'amount'> }>, lineItems: { nodes: Array<(
+        Pick<AdminTypes.LineItem, 'id' | 'title' | 'quantity' | 'vendor'>
+        & { discountedTotalSet: { shopMoney: Pick<AdminTypes.MoneyV2, 'amount'> }, product?: AdminTypes.Maybe<Pick<AdminTypes.Product, 'id'>> }
+      )> } }
+  )>> };
+
+export type GetProductTagsQueryVariables = AdminTypes.Exact<{
+  ids: Array<AdminTypes.Scalars['ID']['input']> | AdminTypes.Scalars['ID']['input'];
+}>;
+
+
+export type GetProductTagsQuery = { nodes: Array<AdminTypes.Maybe<Pick<AdminTypes.Product, 'id' | 'tags'>>> };
+
+export type GetProductsInCollectionQueryVariables = AdminTypes.Exact<{
+  ids: Array<AdminTypes.Scalars['ID']['input']> | AdminTypes.Scalars['ID']['input'];
+  collectionId: AdminTypes.Scalars['ID']['input'];
+}>;
+
+
+export type GetProductsInCollectionQuery = { nodes: Array<AdminTypes.Maybe<Pick<AdminTypes.Product, 'id' | 'inCollection'>>> };
+
+export type ImportVariantFieldsFragment = (
+  Pick<AdminTypes.ProductVariant, 'id' | 'sku' | 'title'>
+  & { product: Pick<AdminTypes.Product, 'id' | 'title'>, inventoryItem: (
+    Pick<AdminTypes.InventoryItem, 'id'>
+    & { inventoryLevels: { nodes: Array<{ location: Pick<AdminTypes.Location, 'id'>, quantities: Array<Pick<AdminTypes.InventoryQuantity, 'name' | 'quantity'>> }> } }
+  ) }
+);
+
+export type GetExportProductsQueryVariables = AdminTypes.Exact<{
+  after?: AdminTypes.InputMaybe<AdminTypes.Scalars['String']['input']>;
+  query?: AdminTypes.InputMaybe<AdminTypes.Scalars['String']['input']>;
+  levels: AdminTypes.Scalars['Int']['input'];
+}>;
+
+
+export type GetExportProductsQuery = { products: { pageInfo: Pick<AdminTypes.PageInfo, 'hasNextPage' | 'endCursor'>, nodes: Array<(
+      Pick<AdminTypes.Product, 'id'>
+      & { variants: { pageInfo: Pick<AdminTypes.PageInfo, 'hasNextPage' | 'endCursor'>, nodes: Array<(
+          Pick<AdminTypes.ProductVariant, 'id' | 'sku' | 'title'>
+          & { product: Pick<AdminTypes.Product, 'id' | 'title'>, inventoryItem: (
+            Pick<AdminTypes.InventoryItem, 'id'>
+            & { inventoryLevels: { nodes: Array<{ location: Pick<AdminTypes.Location, 'id'>, quantities: Array<Pick<AdminTypes.InventoryQuantity, 'name' | 'quantity'>> }> } }
+          ) }
+        )> } }
+    )> } };
+
+export type GetExportProductVariantsQueryVariables = AdminTypes.Exact<{
+  id: AdminTypes.Scalars['ID']['input'];
+  after?: AdminTypes.InputMaybe<AdminTypes.Scalars['String']['input']>;
+  levels: AdminTypes.Scalars['Int']['input'];
+}>;
+
+
+export type GetExportProductVariantsQuery = { product?: AdminTypes.Maybe<{ variants: { pageInfo: Pick<AdminTypes.PageInfo, 'hasNextPage' | 'endCursor'>, nodes: Array<(
+        Pick<AdminTypes.ProductVariant, 'id' | 'sku' | 'title'>
+        & { product: Pick<AdminTypes.Product, 'id' | 'title'>, inventoryItem: (
+          Pick<AdminTypes.InventoryItem, 'id'>
+          & { inventoryLevels: { nodes: Array<{ location: Pick<AdminTypes.Location, 'id'>, quantities: Array<Pick<AdminTypes.InventoryQuantity, 'name' | 'quantity'>> }> } }
+        ) }
+      )> } }> };
+
+export type GetImportVariantsByIdQueryVariables = AdminTypes.Exact<{
+  ids: Array<AdminTypes.Scalars['ID']['input']> | AdminTypes.Scalars['ID']['input'];
+  levels: AdminTypes.Scalars['Int']['input'];
+}>;
+
+
+export type GetImportVariantsByIdQuery = { nodes: Array<AdminTypes.Maybe<(
+    Pick<AdminTypes.ProductVariant, 'id' | 'sku' | 'title'>
+    & { product: Pick<AdminTypes.Product, 'id' | 'title'>, inventoryItem: (
+      Pick<AdminTypes.InventoryItem, 'id'>
+      & { inventoryLevels: { nodes: Array<{ location: Pick<AdminTypes.Location, 'id'>, quantities: Array<Pick<AdminTypes.InventoryQuantity, 'name' | 'quantity'>> }> } }
+    ) }
+  )>> };
+
+export type GetImportVariantsBySkuQueryVariables = AdminTypes.Exact<{
+  query: AdminTypes.Scalars['String']['input'];
+  levels: AdminTypes.Scalars['Int']['input'];
+}>;
+
+
+export type GetImportVariantsBySkuQuery = { productVariants: { nodes: Array<(
+      Pick<AdminTypes.ProductVariant, 'id' | 'sku' | 'title'>
+      & { product: Pick<AdminTypes.Product, 'id' | 'title'>, inventoryItem: (
+        Pick<AdminTypes.InventoryItem, 'id'>
+        & { inventoryLevels: { nodes: Array<{ location: Pick<AdminTypes.Location, 'id'>, quantities: Array<Pick<AdminTypes.InventoryQuantity, 'name' | 'quantity'>> }> } }
+      ) }
+    )> } };
+
+export type RunInventorySnapshotQueryMutationVariables = AdminTypes.Exact<{
+  query: AdminTypes.Scalars['String']['input'];
+}>;
+
+
+export type RunInventorySnapshotQueryMutation = { bulkOperationRunQuery?: AdminTypes.Maybe<{ bulkOperation?: AdminTypes.Maybe<Pick<AdminTypes.BulkOperation, 'id' | 'status'>>, userErrors: Array<Pick<AdminTypes.BulkOperationUserError, 'field' | 'message'>> }> };
+
+export type GetBulkOperationQueryVariables = AdminTypes.Exact<{
+  id: AdminTypes.Scalars['ID']['input'];
+}>;
+
+
+export type GetBulkOperationQuery = { node?: AdminTypes.Maybe<Pick<AdminTypes.BulkOperation, 'status' | 'errorCode' | 'url'>> };
+
+export type GetLocationsQueryVariables = AdminTypes.Exact<{
+  after?: AdminTypes.InputMaybe<AdminTypes.Scalars['String']['input']>;
+}>;
+
+
+export type GetLocationsQuery = { locations: { pageInfo: Pick<AdminTypes.PageInfo, 'hasNextPage' | 'endCursor'>, nodes: Array<Pick<AdminTypes.Location, 'id' | 'name'>> } };
+
+export type GetProductsQueryVariables = AdminTypes.Exact<{
+  first?: AdminTypes.InputMaybe<AdminTypes.Scalars['Int']['input']>;
+  last?: AdminTypes.InputMaybe<AdminTypes.Scalars['Int']['input']>;
+  after?: AdminTypes.InputMaybe<AdminTypes.Scalars['String']['input']>;
+  before?: AdminTypes.InputMaybe<AdminTypes.Scalars['String']['input']>;
+  query?: AdminTypes.InputMaybe<AdminTypes.Scalars['String']['input']>;
+  levels: AdminTypes.Scalars['Int']['input'];
+}>;
+
+
+export type GetProductsQuery = { products: { pageInfo: Pick<AdminTypes.PageInfo, 'hasNextPage' | 'hasPreviousPage' | 'startCursor' | 'endCursor'>, nodes: Array<(
+      Pick<AdminTypes.Product, 'id' | 'title'>
+      & { variants: { nodes: Array<(
+          Pick<AdminTypes.ProductVariant, 'id' | 'title' | 'sku'>
+          & { inventoryItem: (
+            Pick<AdminTypes.InventoryItem, 'id'>
+            & { inventoryLevels: { nodes: Array<{ quantities: Array<Pick<AdminTypes.InventoryQuantity, 'name' | 'quantity'>>, location: Pick<AdminTypes.Location, 'id'> }> } }
+          ) }
+        )> } }
+    )> } };
+
+export type InventorySetQuantitiesMutationVariables = AdminTypes.Exact<{
+  input: AdminTypes.InventorySetQuantitiesInput;
+}>;
+
+
+export type InventorySetQuantitiesMutation = { inventorySetQuantities?: AdminTypes.Maybe<{ userErrors: Array<Pick<AdminTypes.InventorySetQuantitiesUserError, 'field' | 'message'>>, inventoryAdjustmentGroup?: AdminTypes.Maybe<(
+      Pick<AdminTypes.InventoryAdjustmentGroup, 'createdAt'>
+      & { changes: Array<Pick<AdminTypes.InventoryChange, 'name' | 'delta'>> }
+    )> }> };
+
+export type InventoryAdjustQuantitiesMutationVariables = AdminTypes.Exact<{
+  input: AdminTypes.InventoryAdjustQuantitiesInput;
+}>;
+
+
+export type InventoryAdjustQuantitiesMutation = { inventoryAdjustQuantities?: AdminTypes.Maybe<{ userErrors: Array<Pick<AdminTypes.InventoryAdjustQuantitiesUserError, 'field' | 'message'>>, inventoryAdjustmentGroup?: AdminTypes.Maybe<(
+      Pick<AdminTypes.InventoryAdjustmentGroup, 'createdAt'>
+      & { changes: Array<(
+        Pick<AdminTypes.InventoryChange, 'name' | 'delta' | 'quantityAfterChange'>
+        & { item?: AdminTypes.Maybe<Pick<AdminTypes.InventoryItem, 'id'>>, location?: AdminTypes.Maybe<Pick<AdminTypes.Location, 'id'>> }
+      )> }
+    )> }> };
+
+export type GetCurrentLevelsQueryVariables = AdminTypes.Exact<{
+  ids: Array<AdminTypes.Scalars['ID']['input']> | AdminTypes.Scalars['ID']['input'];
+}>;
+
+
+export type GetCurrentLevelsQuery = { nodes: Array<AdminTypes.Maybe<(
+    Pick<AdminTypes.InventoryItem, 'id'>
+    & { inventoryLevels: { nodes: Array<{ location: Pick<AdminTypes.Location, 'id'>, quantities: Array<Pick<AdminTypes.InventoryQuantity, 'name' | 'quantity'>> }> } }
+  )>> };
+
+export type InventoryActivateMutationVariables = AdminTypes.Exact<{
+  inventoryItemId: AdminTypes.Scalars['ID']['input'];
+  locationId: AdminTypes.Scalars['ID']['input'];
+}>;
+
+
+export type InventoryActivateMutation = { inventoryActivate?: AdminTypes.Maybe<{ userErrors: Array<Pick<AdminTypes.UserError, 'field' | 'message'>> }> };
+
+export type FindVariantBySkuQueryVariables = AdminTypes.Exact<{
+  query: AdminTypes.Scalars['String']['input'];
+}>;
+
+
+export type FindVariantBySkuQuery = { productVariants: { nodes: Array<(
+      Pick<AdminTypes.ProductVariant, 'id' | 'sku' | 'title'>
+      & { product: Pick<AdminTypes.Product, 'id' | 'title'>, inventoryItem: Pick<AdminTypes.InventoryItem, 'id'> }
+    )> } };
+
+export type GetTopLoyaltyCustomersQueryVariables = AdminTypes.Exact<{
+  ids: Array<AdminTypes.Scalars['ID']['input']> | AdminTypes.Scalars['ID']['input'];
+}>;
+
+
+export type GetTopLoyaltyCustomersQuery = { nodes: Array<AdminTypes.Maybe<Pick<AdminTypes.Customer, 'id' | 'displayName' | 'email'>>> };
+
+export type CreateFreeShippingRewardMutationVariables = AdminTypes.Exact<{
+  discount: AdminTypes.DiscountCodeFreeShippingInput;
+}>;
+
+
+export type CreateFreeShippingRewardMutation = { result?: AdminTypes.Maybe<{ codeDiscountNode?: AdminTypes.Maybe<Pick<AdminTypes.DiscountCodeNode, 'id'>>, userErrors: Array<Pick<AdminTypes.DiscountUserError, 'field' | 'message'>> }> };
+
+export type CreateAmountOffRewardMutationVariables = AdminTypes.Exact<{
+  discount: AdminTypes.DiscountCodeBasicInput;
+}>;
+
+
+export type CreateAmountOffRewardMutation = { result?: AdminTypes.Maybe<{ codeDiscountNode?: AdminTypes.Maybe<Pick<AdminTypes.DiscountCodeNode, 'id'>>, userErrors: Array<Pick<AdminTypes.DiscountUserError, 'field' | 'message'>> }> };
+
+export type DeleteRewardMutationVariables = AdminTypes.Exact<{
+  id: AdminTypes.Scalars['ID']['input'];
+}>;
+
+
+export type DeleteRewardMutation = { discountCodeDelete?: AdminTypes.Maybe<(
+    Pick<AdminTypes.DiscountCodeDeletePayload, 'deletedCodeDiscountId'>
+    & { userErrors: Array<Pick<AdminTypes.DiscountUserError, 'field' | 'message'>> }
+  )> };
+
+export type GetRewardUsageQueryVariables = AdminTypes.Exact<{
+  id: AdminTypes.Scalars['ID']['input'];
+}>;
+
+
+export type GetRewardUsageQuery = { codeDiscountNode?: AdminTypes.Maybe<{ codeDiscount: Pick<AdminTypes.DiscountCodeBasic, 'asyncUsageCount'> | Pick<AdminTypes.DiscountCodeFreeShipping, 'asyncUsageCount'> }> };
+
+export type GetRewardByCodeQueryVariables = AdminTypes.Exact<{
+  code: AdminTypes.Scalars['String']['input'];
+}>;
+
+
+export type GetRewardByCodeQuery = { codeDiscountNodeByCode?: AdminTypes.Maybe<Pick<AdminTypes.DiscountCodeNode, 'id'>> };
+
+export type GetSalesOrderLineItemsQueryVariables = AdminTypes.Exact<{
+  id: AdminTypes.Scalars['ID']['input'];
+  after?: AdminTypes.InputMaybe<AdminTypes.Scalars['String']['input']>;
+}>;
+
+
+export type GetSalesOrderLineItemsQuery = { order?: AdminTypes.Maybe<{ lineItems: { pageInfo: Pick<AdminTypes.PageInfo, 'hasNextPage' | 'endCursor'>, nodes: Array<(
+        Pick<AdminTypes.LineItem, 'quantity'>
+        & { variant?: AdminTypes.Maybe<Pick<AdminTypes.ProductVariant, 'id'>> }
+      )> } }> };
+
+export type GetSalesOrdersQueryVariables = AdminTypes.Exact<{
+  query: AdminTypes.Scalars['String']['input'];
+  after?: AdminTypes.InputMaybe<AdminTypes.Scalars['String']['input']>;
+}>;
+
+
+export type GetSalesOrdersQuery = { orders: { pageInfo: Pick<AdminTypes.PageInfo, 'hasNextPage' | 'endCursor'>, nodes: Array<(
+      Pick<AdminTypes.Order, 'id' | 'createdAt'>
+      & { customer?: AdminTypes.Maybe<Pick<AdminTypes.Customer, 'id'>>, totalPriceSet: { shopMoney: Pick<AdminTypes.MoneyV2, 'amount'> }, retailLocation?: AdminTypes.Maybe<Pick<AdminTypes.Location, 'id'>>, lineItems: { pageInfo: Pick<AdminTypes.PageInfo, 'hasNextPage' | 'endCursor'>, nodes: Array<(
+          Pick<AdminTypes.LineItem, 'quantity'>
+          & { variant?: AdminTypes.Maybe<Pick<AdminTypes.ProductVariant, 'id'>> }
+        )> } }
+    )> } };
+
+export type GetReorderVariantsQueryVariables = AdminTypes.Exact<{
+  ids: Array<AdminTypes.Scalars['ID']['input']> | AdminTypes.Scalars['ID']['input'];
+}>;
+
+
+export type GetReorderVariantsQuery = { nodes: Array<AdminTypes.Maybe<(
+    Pick<AdminTypes.ProductVariant, 'id' | 'title' | 'sku' | 'inventoryQuantity'>
+    & { product: Pick<AdminTypes.Product, 'id' | 'title'> }
+  )>> };
+
+export type GetCustomerSpendQueryVariables = AdminTypes.Exact<{
+  query: AdminTypes.Scalars['String']['input'];
+  after?: AdminTypes.InputMaybe<AdminTypes.Scalars['String']['input']>;
+}>;
+
+
+export type GetCustomerSpendQuery = { orders: { pageInfo: Pick<AdminTypes.PageInfo, 'hasNextPage' | 'endCursor'>, nodes: Array<{ currentTotalPriceSet: { shopMoney: Pick<AdminTypes.MoneyV2, 'amount'> } }> } };
+
+export type GetCustomerTagsQueryVariables = AdminTypes.Exact<{
+  id: AdminTypes.Scalars['ID']['input'];
+}>;
+
+
+export type GetCustomerTagsQuery = { customer?: AdminTypes.Maybe<Pick<AdminTypes.Customer, 'tags'>> };
+
+export type UpdateCustomerTierMutationVariables = AdminTypes.Exact<{
+  input: AdminTypes.CustomerInput;
+}>;
+
+
+export type UpdateCustomerTierMutation = { customerUpdate?: AdminTypes.Maybe<{ userErrors: Array<Pick<AdminTypes.UserError, 'field' | 'message'>> }> };
+
+export type DeleteCustomerTierMutationVariables = AdminTypes.Exact<{
+  metafields: Array<AdminTypes.MetafieldIdentifierInput> | AdminTypes.MetafieldIdentifierInput;
+}>;
+
+
+export type DeleteCustomerTierMutation = { metafieldsDelete?: AdminTypes.Maybe<{ userErrors: Array<Pick<AdminTypes.UserError, 'field' | 'message'>> }> };
+
+export type GetLocationNamesQueryVariables = AdminTypes.Exact<{
+  after?: AdminTypes.InputMaybe<AdminTypes.Scalars['String']['input']>;
+}>;
+
+
+export type GetLocationNamesQuery = { locations: { pageInfo: Pick<AdminTypes.PageInfo, 'hasNextPage' | 'endCursor'>, nodes: Array<Pick<AdminTypes.Location, 'id' | 'name'>> } };
+
+export type GetCustomersQueryVariables = AdminTypes.Exact<{
+  first: AdminTypes.Scalars['Int']['input'];
+  after?: AdminTypes.InputMaybe<AdminTypes.Scalars['String']['input']>;
+  query?: AdminTypes.InputMaybe<AdminTypes.Scalars['String']['input']>;
+}>;
+
+
+export type GetCustomersQuery = { customers: { pageInfo: Pick<AdminTypes.PageInfo, 'hasNextPage' | 'endCursor'>, nodes: Array<Pick<AdminTypes.Customer, 'id' | 'email' | 'displayName'>> } };
+
+export type GetRecentOrdersQueryVariables = AdminTypes.Exact<{
+  first: AdminTypes.Scalars['Int']['input'];
+  after?: AdminTypes.InputMaybe<AdminTypes.Scalars['String']['input']>;
+  query?: AdminTypes.InputMaybe<AdminTypes.Scalars['String']['input']>;
+}>;
+
+
+export type GetRecentOrdersQuery = { orders: { edges: Array<(
+      Pick<AdminTypes.OrderEdge, 'cursor'>
+      & { node: (
+        Pick<AdminTypes.Order, 'id' | 'name' | 'processedAt' | 'createdAt' | 'displayFulfillmentStatus'>
+        & { customer?: AdminTypes.Maybe<Pick<AdminTypes.Customer, 'id' | 'email' | 'displayName'>>, totalPriceSet: { shopMoney: Pick<AdminTypes.MoneyV2, 'amount' | 'currencyCode'> } }
+      ) }
+    )>, pageInfo: Pick<AdminTypes.PageInfo, 'hasNextPage' | 'endCursor'> } };
+
+export type GetCustomerQueryVariables = AdminTypes.Exact<{
+  id: AdminTypes.Scalars['ID']['input'];
+}>;
+
+
+export type GetCustomerQuery = { customer?: AdminTypes.Maybe<Pick<AdminTypes.Customer, 'displayName' | 'email'>> };
+
+export type GetRuleResourceTitlesQueryVariables = AdminTypes.Exact<{
+  ids: Array<AdminTypes.Scalars['ID']['input']> | AdminTypes.Scalars['ID']['input'];
+}>;
+
+
+export type GetRuleResourceTitlesQuery = { nodes: Array<AdminTypes.Maybe<Pick<AdminTypes.Collection, 'id' | 'title'> | Pick<AdminTypes.Product, 'id' | 'title'>>> };
+
+export type GetPreviewOrderQueryVariables = AdminTypes.Exact<{
+  query?: AdminTypes.InputMaybe<AdminTypes.Scalars['String']['input']>;
+}>;
+
+
+export type GetPreviewOrderQuery = { orders: { nodes: Array<(
+      Pick<AdminTypes.Order, 'name'>
+      & { subtotalPriceSet?: AdminTypes.Maybe<{ shopMoney: Pick<AdminTypes.MoneyV2, 'amount'> }>, totalPriceSet: { shopMoney: Pick<AdminTypes.MoneyV2, 'amount' | 'currencyCode'> }, totalShippingPriceSet: { shopMoney: Pick<AdminTypes.MoneyV2, 'amount'> }, totalTaxSet?: AdminTypes.Maybe<{ shopMoney: Pick<AdminTypes.MoneyV2, 'amount'> }>, lineItems: { nodes: Array<(
+          Pick<AdminTypes.LineItem, 'id' | 'title' | 'quantity' | 'vendor'>
+          & { discountedTotalSet: { shopMoney: Pick<AdminTypes.MoneyV2, 'amount'> }, product?: AdminTypes.Maybe<Pick<AdminTypes.Product, 'id'>> }
+        )> } }
+    )> } };
+
+interface GeneratedQueryTypes {
+  "#graphql\n    query GetCollections {\n      collections(first: 250, sortKey: TITLE) {\n        nodes { id title }\n      }\n    }\n  ": {return: GetCollectionsQuery, variables: GetCollectionsQueryVariables},
+  "#graphql\n      query GetCountScope($query: String!, $after: String, $locationId: ID!) {\n        productVariants(first: 100, after: $after, query: $query) {\n          pageInfo { hasNextPage endCursor }\n          nodes {\n            ...CountVariantFields\n          }\n        }\n      }\n      #graphql\n  fragment CountVariantFields on ProductVariant {\n    id\n    title\n    sku\n    barcode\n    product { id title }\n    inventoryItem {\n      id\n      inventoryLevel(locationId: $locationId) {\n        quantities(names: [\"available\"]) { name quantity }\n      }\n    }\n  }\n\n    ": {return: GetCountScopeQuery, variables: GetCountScopeQueryVariables},
+  "#graphql\n    query FindVariantByCode($query: String!, $locationId: ID!) {\n      productVariants(first: 10, query: $query) {\n        nodes {\n          ...CountVariantFields\n        }\n      }\n    }\n    #graphql\n  fragment CountVariantFields on ProductVariant {\n    id\n    title\n    sku\n    barcode\n    product { id title }\n    inventoryItem {\n      id\n      inventoryLevel(locationId: $locationId) {\n        quantities(names: [\"available\"]) { name quantity }\n      }\n    }\n  }\n\n  ": {return: FindVariantByCodeQuery, variables: FindVariantByCodeQueryVariables},
+  "#graphql\n      query GetEarningOrders($ids: [ID!]!) {\n        nodes(ids: $ids) {\n          __typename\n          ... on Order {\n            id\n            ...EarningOrderFields\n          }\n        }\n      }\n      #graphql\n  fragment EarningOrderFields on Order {\n    subtotalPriceSet { shopMoney { amount } }\n    totalPriceSet { shopMoney { amount currencyCode } }\n    totalShippingPriceSet { shopMoney { amount } }\n    totalTaxSet { shopMoney { amount } }\n    lineItems(first: 25) {\n      nodes {\n        id\n        title\n        quantity\n        vendor\n        discountedTotalSet { shopMoney { amount } }\n        product { id }\n      }\n    }\n  }\n\n    ": {return: GetEarningOrdersQuery, variables: GetEarningOrdersQueryVariables},
+  "#graphql\n        query GetProductTags($ids: [ID!]!) {\n          nodes(ids: $ids) {\n            ... on Product {\n              id\n              tags\n            }\n          }\n        }\n      ": {return: GetProductTagsQuery, variables: GetProductTagsQueryVariables},
+  "#graphql\n        query GetProductsInCollection($ids: [ID!]!, $collectionId: ID!) {\n          nodes(ids: $ids) {\n            ... on Product {\n              id\n              inCollection(id: $collectionId)\n            }\n          }\n        }\n      ": {return: GetProductsInCollectionQuery, variables: GetProductsInCollectionQueryVariables},
+  "#graphql\n      query GetExportProducts($after: String, $query: String, $levels: Int!) {\n        products(first: 10, after: $after, query: $query) {\n          pageInfo { hasNextPage endCursor }\n          nodes {\n            id\n            variants(first: 20) {\n              pageInfo { hasNextPage endCursor }\n              nodes { ...ImportVariantFields }\n            }\n          }\n        }\n      }\n      #graphql\n  fragment ImportVariantFields on ProductVariant {\n    id\n    sku\n    title\n    product { id title }\n    inventoryItem {\n      id\n      inventoryLevels(first: $levels) {\n        nodes {\n          location { id }\n          quantities(names: [\"available\"]) { name quantity }\n        }\n      }\n    }\n  }\n\n    ": {return: GetExportProductsQuery, variables: GetExportProductsQueryVariables},
+  "#graphql\n        query GetExportProductVariants($id: ID!, $after: String, $levels: Int!) {\n          product(id: $id) {\n            variants(first: 20, after: $after) {\n              pageInfo { hasNextPage endCursor }\n              nodes { ...ImportVariantFields }\n            }\n          }\n        }\n        #graphql\n  fragment ImportVariantFields on ProductVariant {\n    id\n    sku\n    title\n    product { id title }\n    inventoryItem {\n      id\n      inventoryLevels(first: $levels) {\n        nodes {\n          location { id }\n          quantities(names: [\"available\"]) { name quantity }\n        }\n      }\n    }\n  }\n\n      ": {return: GetExportProductVariantsQuery, variables: GetExportProductVariantsQueryVariables},
+  "#graphql\n      query GetImportVariantsById($ids: [ID!]!, $levels: Int!) {\n        nodes(ids: $ids) {\n          ...ImportVariantFields\n        }\n      }\n      #graphql\n  fragment ImportVariantFields on ProductVariant {\n    id\n    sku\n    title\n    product { id title }\n    inventoryItem {\n      id\n      inventoryLevels(first: $levels) {\n        nodes {\n          location { id }\n          quantities(names: [\"available\"]) { name quantity }\n        }\n      }\n    }\n  }\n\n    ": {return: GetImportVariantsByIdQuery, variables: GetImportVariantsByIdQueryVariables},
+  "#graphql\n      query GetImportVariantsBySku($query: String!, $levels: Int!) {\n        productVariants(first: 250, query: $query) {\n          nodes {\n            ...ImportVariantFields\n          }\n        }\n      }\n      #graphql\n  fragment ImportVariantFields on ProductVariant {\n    id\n    sku\n    title\n    product { id title }\n    inventoryItem {\n      id\n      inventoryLevels(first: $levels) {\n        nodes {\n          location { id }\n          quantities(names: [\"available\"]) { name quantity }\n        }\n      }\n    }\n  }\n\n    ": {return: GetImportVariantsBySkuQuery, variables: GetImportVariantsBySkuQueryVariables},
+  "#graphql\n    query GetBulkOperation($id: ID!) {\n      node(id: $id) {\n        ... on BulkOperation {\n          status\n          errorCode\n          url\n        }\n      }\n    }\n  ": {return: GetBulkOperationQuery, variables: GetBulkOperationQueryVariables},
+  "#graphql\n      query GetLocations($after: String) {\n        locations(first: 250, after: $after, sortKey: NAME) {\n          pageInfo {\n            hasNextPage\n            endCursor\n          }\n          nodes {\n            id\n            name\n          }\n        }\n      }\n    ": {return: GetLocationsQuery, variables: GetLocationsQueryVariables},
+  "#graphql\n    query GetProducts($first: Int, $last: Int, $after: String, $before: String, $query: String, $levels: Int!) {\n      products(first: $first, last: $last, after: $after, before: $before, query: $query) {\n        pageInfo {\n          hasNextPage\n          hasPreviousPage\n          startCursor\n          endCursor\n        }\n        nodes {\n          id\n          title\n          variants(first: 20) {\n            nodes {\n              id\n              title\n              sku\n              inventoryItem {\n                id\n                inventoryLevels(first: $levels) {\n                  nodes {\n                    quantities(names: [\"available\"]) {\n                      name\n                      quantity\n                    }\n                    location {\n                      id\n                    }\n                  }\n                }\n              }\n            }\n          }\n        }\n      }\n    }\n  ": {return: GetProductsQuery, variables: GetProductsQueryVariables},
+  "#graphql\n      query GetCurrentLevels($ids: [ID!]!) {\n        nodes(ids: $ids) {\n          ... on InventoryItem {\n            id\n            inventoryLevels(first: 50) {\n              nodes {\n                location { id }\n                quantities(names: [\"available\"]) { name quantity }\n              }\n            }\n          }\n        }\n      }\n    ": {return: GetCurrentLevelsQuery, variables: GetCurrentLevelsQueryVariables},
+  "#graphql\n    query FindVariantBySku($query: String!) {\n      productVariants(first: 10, query: $query) {\n        nodes {\n          id\n          sku\n          title\n          product { id title }\n          inventoryItem { id }\n        }\n      }\n    }\n  ": {return: FindVariantBySkuQuery, variables: FindVariantBySkuQueryVariables},
+  "#graphql\n      query GetTopLoyaltyCustomers($ids: [ID!]!) {\n        nodes(ids: $ids) {\n          ... on Customer { id displayName email }\n        }\n      }\n    ": {return: GetTopLoyaltyCustomersQuery, variables: GetTopLoyaltyCustomersQueryVariables},
+  "#graphql\n    query GetRewardUsage($id: ID!) {\n      codeDiscountNode(id: $id) {\n        codeDiscount {\n          ... on DiscountCodeBasic { asyncUsageCount }\n          ... on DiscountCodeFreeShipping { asyncUsageCount }\n        }\n      }\n    }\n  ": {return: GetRewardUsageQuery, variables: GetRewardUsageQueryVariables},
+  "#graphql\n      query GetRewardByCode($code: String!) {\n        codeDiscountNodeByCode(code: $code) { id }\n      }\n    ": {return: GetRewardByCodeQuery, variables: GetRewardByCodeQueryVariables},
+  "#graphql\n      query GetSalesOrderLineItems($id: ID!, $after: String) {\n        order(id: $id) {\n          lineItems(first: 100, after: $after) {\n            pageInfo { hasNextPage endCursor }\n            nodes {\n              quantity\n              variant { id }\n            }\n          }\n        }\n      }\n    ": {return: GetSalesOrderLineItemsQuery, variables: GetSalesOrderLineItemsQueryVariables},
+  "#graphql\n      query GetSalesOrders($query: String!, $after: String) {\n        orders(first: 10, after: $after, query: $query, sortKey: CREATED_AT) {\n          pageInfo { hasNextPage endCursor }\n          nodes {\n            id\n            createdAt\n            customer { id }\n            totalPriceSet { shopMoney { amount } }\n            retailLocation { id }\n            lineItems(first: 50) {\n              pageInfo { hasNextPage endCursor }\n              nodes {\n                quantity\n                variant { id }\n              }\n            }\n          }\n        }\n      }\n    ": {return: GetSalesOrdersQuery, variables: GetSalesOrdersQueryVariables},
+  "#graphql\n      query GetReorderVariants($ids: [ID!]!) {\n        nodes(ids: $ids) {\n          ... on ProductVariant {\n            id\n            title\n            sku\n            inventoryQuantity\n            product { id title }\n          }\n        }\n      }\n    ": {return: GetReorderVariantsQuery, variables: GetReorderVariantsQueryVariables},
+  "#graphql\n      query GetCustomerSpend($query: String!, $after: String) {\n        orders(first: 250, after: $after, query: $query) {\n          pageInfo { hasNextPage endCursor }\n          nodes {\n            currentTotalPriceSet { shopMoney { amount } }\n          }\n        }\n      }\n    ": {return: GetCustomerSpendQuery, variables: GetCustomerSpendQueryVariables},
+  "#graphql\n    query GetCustomerTags($id: ID!) {\n      customer(id: $id) { tags }\n    }\n  ": {return: GetCustomerTagsQuery, variables: GetCustomerTagsQueryVariables},
+  "#graphql\n        query GetLocationNames($after: String) {\n          locations(first: 250, after: $after, includeInactive: true) {\n            pageInfo { hasNextPage endCursor }\n            nodes { id name }\n          }\n        }\n      ": {return: GetLocationNamesQuery, variables: GetLocationNamesQueryVariables},
+  "#graphql\n      query GetCustomers($first: Int!, $after: String, $query: String) {\n        customers(first: $first, after: $after, query: $query) {\n          pageInfo {\n            hasNextPage\n            endCursor\n          }\n          nodes {\n            id\n            email\n            displayName\n          }\n        }\n      }\n    ": {return: GetCustomersQuery, variables: GetCustomersQueryVariables},
+  "#graphql\n      query GetRecentOrders($first: Int!, $after: String, $query: String) {\n        orders(first: $first, after: $after, sortKey: PROCESSED_AT, reverse: true, query: $query) {\n          edges {\n            cursor\n            node {\n              id\n              name\n              processedAt\n              createdAt\n              customer {\n                id\n                email\n                displayName\n              }\n              displayFulfillmentStatus\n              totalPriceSet {\n                shopMoney {\n                  amount\n                  currencyCode\n                }\n              }\n            }\n          }\n          pageInfo {\n            hasNextPage\n            endCursor\n          }\n        }\n      }\n    ": {return: GetRecentOrdersQuery, variables: GetRecentOrdersQueryVariables},
+  "#graphql\n      query GetCustomer($id: ID!) {\n        customer(id: $id) {\n          displayName\n          email\n        }\n      }\n    ": {return: GetCustomerQuery, variables: GetCustomerQueryVariables},
+  "#graphql\n      query GetRuleResourceTitles($ids: [ID!]!) {\n        nodes(ids: $ids) {\n          ... on Collection { id title }\n          ... on Product { id title }\n        }\n      }\n    ": {return: GetRuleResourceTitlesQuery, variables: GetRuleResourceTitlesQueryVariables},
+  "#graphql\n    query GetPreviewOrder($query: String) {\n      orders(first: 1, sortKey: PROCESSED_AT, reverse: true, query: $query) {\n        nodes {\n          name\n          ...EarningOrderFields\n        }\n      }\n    }\n    #graphql\n  fragment EarningOrderFields on Order {\n    subtotalPriceSet { shopMoney { amount } }\n    totalPriceSet { shopMoney { amount currencyCode } }\n    totalShippingPriceSet { shopMoney { amount } }\n    totalTaxSet { shopMoney { amount } }\n    lineItems(first: 25) {\n      nodes {\n        id\n        title\n        quantity\n        vendor\n        discountedTotalSet { shopMoney { amount } }\n        product { id }\n      }\n    }\n  }\n\n  ": {return: GetPreviewOrderQuery, variables: GetPreviewOrderQueryVariables},
+}
+
+interface GeneratedMutationTypes {
+  "#graphql\n    mutation RunInventorySnapshotQuery($query: String!) {\n      bulkOperationRunQuery(query: $query) {\n        bulkOperation {\n          id\n          status\n        }\n        userErrors {\n          field\n          message\n        }\n      }\n    }\n  ": {return: RunInventorySnapshotQueryMutation, variables: RunInventorySnapshotQueryMutationVariables},
+  "#graphql\n    mutation inventorySetQuantities($input: InventorySetQuantitiesInput!) {\n      inventorySetQuantities(input: $input) {\n        userErrors {\n          field\n          message\n        }\n        inventoryAdjustmentGroup {\n          createdAt\n          changes {\n            name\n            delta\n          }\n        }\n      }\n    }": {return: InventorySetQuantitiesMutation, variables: InventorySetQuantitiesMutationVariables},
+  "#graphql\n    mutation inventoryAdjustQuantities($input: InventoryAdjustQuantitiesInput!) {\n      inventoryAdjustQuantities(input: $input) {\n        userErrors {\n          field\n          message\n        }\n        inventoryAdjustmentGroup {\n          createdAt\n          changes {\n            name\n            delta\n            quantityAfterChange\n            item { id }\n            location { id }\n          }\n        }\n      }\n    }": {return: InventoryAdjustQuantitiesMutation, variables: InventoryAdjustQuantitiesMutationVariables},
+  "#graphql\n      mutation inventoryActivate($inventoryItemId: ID!, $locationId: ID!) {\n        inventoryActivate(inventoryItemId: $inventoryItemId, locationId: $locationId) {\n          userErrors {\n            field\n            message\n          }\n        }\n      }": {return: InventoryActivateMutation, variables: InventoryActivateMutationVariables},
+  "#graphql\n          mutation CreateFreeShippingReward($discount: DiscountCodeFreeShippingInput!) {\n            result: discountCodeFreeShippingCreate(freeShippingCodeDiscount: $discount) {\n              codeDiscountNode { id }\n              userErrors { field message }\n            }\n          }\n        ": {return: CreateFreeShippingRewardMutation, variables: CreateFreeShippingRewardMutationVariables},
+  "#graphql\n          mutation CreateAmountOffReward($discount: DiscountCodeBasicInput!) {\n            result: discountCodeBasicCreate(basicCodeDiscount: $discount) {\n              codeDiscountNode { id }\n              userErrors { field message }\n            }\n          }\n        ": {return: CreateAmountOffRewardMutation, variables: CreateAmountOffRewardMutationVariables},
+  "#graphql\n    mutation DeleteReward($id: ID!) {\n      discountCodeDelete(id: $id) {\n        deletedCodeDiscountId\n        userErrors { field message }\n      }\n    }\n  ": {return: DeleteRewardMutation, variables: DeleteRewardMutationVariables},
+  "#graphql\n    mutation UpdateCustomerTier($input: CustomerInput!) {\n      customerUpdate(input: $input) {\n        userErrors { field message }\n      }\n    }\n  ": {return: UpdateCustomerTierMutation, variables: UpdateCustomerTierMutationVariables},
+  "#graphql\n      mutation DeleteCustomerTier($metafields: [MetafieldIdentifierInput!]!) {\n        metafieldsDelete(metafields: $metafields) {\n          userErrors { field message }\n        }\n      }\n    ": {return: DeleteCustomerTierMutation, variables: DeleteCustomerTierMutationVariables},
+}
+declare module '@shopify/admin-api-client' {
+  type InputMaybe<T> = AdminTypes.InputMaybe<T>;
+  interface AdminQueries extends GeneratedQueryTypes {}
+  interface AdminMutations extends GeneratedMutationTypes {}
+}
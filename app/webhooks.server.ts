@@ -0,0 +1,137 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import type { Prisma } from "@prisma/client";
+import { authenticate } from "./shopify.server";
+import prisma, { isUniqueConstraintError } from "./db.server";
+
+export type WebhookContext = Awaited<ReturnType<typeof authenticate.webhook>>;
+
+type WebhookHandler<Prepared> = (
+  context: WebhookContext,
+  tx: Prisma.TransactionClient,
+  prepared: Prepared,
+) => Promise<Response | void>;
+
+type WebhookOptions<Prepared> = {
+  /**
+   * Identifies the delivery for deduplication. Defaults to the webhook ID, which
+   * only catches retries of the same delivery; return a resource ID (such as the
+   * order GID) to also catch separate deliveries about the same resource.
+   */
+  deliveryKey?: (context: WebhookContext) => string | null | undefined;
+  /**
+   * Runs before the transaction opens and passes its result to the handler.
+   * Slow Admin API reads belong here so they don't hold the transaction open.
+   */
+  prepare?: (context: WebhookContext) => Promise<Prepared>;
+};
+
+/**
+ * Builds the action for a webhook route. The request is authenticated, a
+ * delivery record keyed on shop, topic and delivery key is written and the
+ * handler runs in the same transaction, after the optional `prepare` step. A concurrent or repeated delivery hits
+ * the unique key and is acknowledged without running the handler again, and a
+ * failing handler rolls the delivery record back so Shopify's retry can succeed.
+ */
+export function webhookAction<Prepared = undefined>(
+  handler: WebhookHandler<Prepared>,
+  { deliveryKey, prepare }: WebhookOptions<Prepared> = {},
+) {
+  return async ({ request }: ActionFunctionArgs) => {
+    const context = await authenticate.webhook(request);
+    const { shop, topic, webhookId } = context;
+
+    console.log(`Received ${topic} webhook for ${shop}`);
+
+    const key = deliveryKey?.(context) || webhookId;
+
+    try {
+      const prepared = (await prepare?.(context)) as Prepared;
+      const response = await prisma.$transaction(
+        async (tx) => {
+          await tx.webhookDelivery.create({
+            data: { shop, topic, deliveryKey: key, webhookId },
+          });
+
+          return handler(context, tx, prepared);
+        },
+        // Handlers may call the Admin API while the transaction is open
+        { timeout: 15000 },
+      );
+
+      return response ?? new Response();
+    } catch (error) {
+      if (isUniqueConstraintError(error)) {
+        return new Response(`${topic} webhook already processed`, {
+          status: 200,
+        });
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+
+      console.error(`Error processing ${topic} webhook for ${shop}:`, error);
+      await prisma.webhookFailure
+        .create({ data: { shop, topic, webhookId, error: message } })
+        .catch((recordError) => console.error("Failed to record webhook failure:", recordError));
+
+      return new Response(`Error processing webhook: ${message}`, { status: 500 });
+    }
+  };
+}
+
+export type WebhookTopicHealth = {
+  topic: string;
+  lastDeliveryAt: Date | null;
+  failures: number;
+  lastFailureAt: Date | null;
+  lastError: string | null;
+};
+
+/**
+ * The last processed delivery of each topic the shop has received, with the
+ * failures since `since`. Topics that have only ever failed are included.
+ */
+export async function getWebhookHealth(shop: string, since: Date) {
+  const [deliveries, failures, lastFailures] = await Promise.all([
+    prisma.webhookDelivery.groupBy({
+      by: ["topic"],
+      where: { shop },
+      _max: { processedAt: true },
+    }),
+    prisma.webhookFailure.groupBy({
+      by: ["topic"],
+      where: { shop, createdAt: { gte: since } },
+      _count: { _all: true },
+    }),
+    // The newest failure of each topic
+    prisma.webhookFailure.findMany({
+      where: { shop, createdAt: { gte: since } },
+      orderBy: { createdAt: "desc" },
+      distinct: ["topic"],
+    }),
+  ]);
+
+  const topics = new Set([
+    ...deliveries.map((delivery) => delivery.topic),
+    ...failures.map((failure) => failure.topic),
+  ]);
+
+  return [...topics].sort().map((topic): WebhookTopicHealth => {
+    const lastFailure = lastFailures.find((failure) => failure.topic === topic);
+
+    return {
+      topic,
+      lastDeliveryAt: deliveries.find((delivery) => delivery.topic === topic)?._max.processedAt ?? null,
+      failures: failures.find((failure) => failure.topic === topic)?._count._all ?? 0,
+      lastFailureAt: lastFailure?.createdAt ?? null,
+      lastError: lastFailure?.error ?? null,
+    };
+  });
+}
+
+export async function getWebhookFailures(shop: string, take = 50) {
+  return prisma.webhookFailure.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+    take,
+  });
+}
@@ -0,0 +1,40 @@
+-- Existing rows were written before the app tracked which store they belong to.
+-- When only one shop has ever installed the app they can safely be attributed to it;
+-- otherwise they stay with an empty shop and are no longer visible to any tenant.
+
+-- AlterTable
+ALTER TABLE "InventoryLog" ADD COLUMN "shop" TEXT NOT NULL DEFAULT '';
+
+-- AlterTable
+ALTER TABLE "LoyaltyPoints" ADD COLUMN "shop" TEXT NOT NULL DEFAULT '';
+
+-- AlterTable
+ALTER TABLE "ProcessedOrder" DROP CONSTRAINT "ProcessedOrder_pkey",
+ADD COLUMN "shop" TEXT NOT NULL DEFAULT '';
+
+-- Backfill
+UPDATE "InventoryLog" SET "shop" = (SELECT MIN("shop") FROM "Session")
+WHERE (SELECT COUNT(DISTINCT "shop") FROM "Session") = 1;
+
+UPDATE "LoyaltyPoints" SET "shop" = (SELECT MIN("shop") FROM "Session")
+WHERE (SELECT COUNT(DISTINCT "shop") FROM "Session") = 1;
+
+UPDATE "ProcessedOrder" SET "shop" = (SELECT MIN("shop") FROM "Session")
+WHERE (SELECT COUNT(DISTINCT "shop") FROM "Session") = 1;
+
+-- Drop defaults now that existing rows are backfilled
+ALTER TABLE "InventoryLog" ALTER COLUMN "shop" DROP DEFAULT;
+ALTER TABLE "LoyaltyPoints" ALTER COLUMN "shop" DROP DEFAULT;
+ALTER TABLE "ProcessedOrder" ALTER COLUMN "shop" DROP DEFAULT;
+
+-- AddPrimaryKey
+ALTER TABLE "ProcessedOrder" ADD CONSTRAINT "ProcessedOrder_pkey" PRIMARY KEY ("shop", "id");
+
+-- DropIndex
+DROP INDEX "LoyaltyPoints_customerId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LoyaltyPoints_shop_customerId_key" ON "LoyaltyPoints"("shop", "customerId");
+
+-- CreateIndex
+CREATE INDEX "InventoryLog_shop_updatedAt_idx" ON "InventoryLog"("shop", "updatedAt");
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "PointsTransactionType" AS ENUM ('EARN', 'REDEEM', 'ADJUST', 'EXPIRE', 'CLAWBACK');
+
+-- CreateTable
+CREATE TABLE "PointsTransaction" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "type" "PointsTransactionType" NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "orderId" TEXT,
+    "staffUserId" TEXT,
+    "staffName" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PointsTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PointsTransaction_shop_customerId_createdAt_idx" ON "PointsTransaction"("shop", "customerId", "createdAt");
+
+-- Seed the ledger with an opening entry for every existing balance so that
+-- the cached LoyaltyPoints.points always equals the sum of the ledger.
+INSERT INTO "PointsTransaction" ("id", "shop", "customerId", "type", "delta", "reason", "createdAt")
+SELECT gen_random_uuid()::text, "shop", "customerId", 'ADJUST', "points", 'Opening balance', "updatedAt"
+FROM "LoyaltyPoints"
+WHERE "points" <> 0;
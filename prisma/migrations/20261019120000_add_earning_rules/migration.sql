@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "EarningBasis" AS ENUM ('SUBTOTAL', 'TOTAL', 'TOTAL_EXCLUDING_SHIPPING_AND_TAX');
+
+-- CreateEnum
+CREATE TYPE "RoundingMode" AS ENUM ('FLOOR', 'NEAREST', 'CEIL');
+
+-- CreateTable
+CREATE TABLE "EarningRules" (
+    "shop" TEXT NOT NULL,
+    "pointsPerUnit" DOUBLE PRECISION NOT NULL DEFAULT 0.1,
+    "basis" "EarningBasis" NOT NULL DEFAULT 'SUBTOTAL',
+    "rounding" "RoundingMode" NOT NULL DEFAULT 'FLOOR',
+    "minimumOrderValue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "excludedProductTags" TEXT[],
+    "excludedCollectionIds" TEXT[],
+    "excludedVendors" TEXT[],
+    "productMultipliers" JSONB NOT NULL DEFAULT '[]',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EarningRules_pkey" PRIMARY KEY ("shop")
+);
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "RewardType" AS ENUM ('AMOUNT_OFF', 'FREE_SHIPPING');
+
+-- CreateEnum
+CREATE TYPE "RedemptionStatus" AS ENUM ('ISSUED', 'USED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "RewardTier" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "pointsCost" INTEGER NOT NULL,
+    "rewardType" "RewardType" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "expiresAfterDays" INTEGER,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RewardTier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Redemption" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "rewardTierId" TEXT NOT NULL,
+    "pointsSpent" INTEGER NOT NULL,
+    "code" TEXT NOT NULL,
+    "discountId" TEXT,
+    "status" "RedemptionStatus" NOT NULL DEFAULT 'ISSUED',
+    "orderId" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Redemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RewardTier_shop_idx" ON "RewardTier"("shop");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Redemption_shop_code_key" ON "Redemption"("shop", "code");
+
+-- CreateIndex
+CREATE INDEX "Redemption_shop_customerId_idx" ON "Redemption"("shop", "customerId");
+
+-- CreateIndex
+CREATE INDEX "Redemption_shop_status_expiresAt_idx" ON "Redemption"("shop", "status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "Redemption" ADD CONSTRAINT "Redemption_rewardTierId_fkey" FOREIGN KEY ("rewardTierId") REFERENCES "RewardTier"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
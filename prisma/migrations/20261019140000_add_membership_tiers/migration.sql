@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "TierQualification" AS ENUM ('LIFETIME_POINTS', 'ROLLING_12_MONTH_SPEND');
+
+-- AlterTable
+ALTER TABLE "LoyaltyPoints" ADD COLUMN "tierId" TEXT,
+ADD COLUMN "tierProgress" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "LoyaltySettings" (
+    "shop" TEXT NOT NULL,
+    "tierQualification" "TierQualification" NOT NULL DEFAULT 'LIFETIME_POINTS',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LoyaltySettings_pkey" PRIMARY KEY ("shop")
+);
+
+-- CreateTable
+CREATE TABLE "MembershipTier" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "threshold" DOUBLE PRECISION NOT NULL,
+    "multiplier" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "perks" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MembershipTier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MembershipTier_shop_name_key" ON "MembershipTier"("shop", "name");
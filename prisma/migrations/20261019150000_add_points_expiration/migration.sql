@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "ExpirationMode" AS ENUM ('NEVER', 'AFTER_EARNED', 'AFTER_INACTIVITY');
+
+-- AlterTable
+ALTER TABLE "LoyaltySettings" ADD COLUMN "expirationMode" "ExpirationMode" NOT NULL DEFAULT 'NEVER',
+ADD COLUMN "expirationMonths" INTEGER NOT NULL DEFAULT 12;
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "ClawbackPolicy" AS ENUM ('ALLOW_NEGATIVE', 'STOP_AT_ZERO');
+
+-- AlterTable
+ALTER TABLE "LoyaltySettings" ADD COLUMN "clawbackPolicy" "ClawbackPolicy" NOT NULL DEFAULT 'ALLOW_NEGATIVE';
+
+-- AlterTable
+ALTER TABLE "ProcessedOrder" ADD COLUMN "customerId" TEXT,
+ADD COLUMN "lineItemPoints" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN "pointsClawedBack" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill the customer of existing awards from the ledger
+UPDATE "ProcessedOrder" AS "order"
+SET "customerId" = "earn"."customerId"
+FROM "PointsTransaction" AS "earn"
+WHERE "earn"."shop" = "order"."shop"
+  AND "earn"."orderId" = "order"."id"
+  AND "earn"."type" = 'EARN';
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "AwardTrigger" AS ENUM ('ORDER_CREATED', 'ORDER_PAID', 'ORDER_FULFILLED');
+
+-- AlterTable
+ALTER TABLE "LoyaltySettings" ADD COLUMN "awardTrigger" "AwardTrigger" NOT NULL DEFAULT 'ORDER_FULFILLED';
+
+-- The orders/create webhook stored numeric customer IDs; store them as GIDs
+UPDATE "PointsTransaction"
+SET "customerId" = 'gid://shopify/Customer/' || "customerId"
+WHERE "customerId" ~ '^[0-9]+$';
+
+UPDATE "Redemption"
+SET "customerId" = 'gid://shopify/Customer/' || "customerId"
+WHERE "customerId" ~ '^[0-9]+$';
+
+UPDATE "ProcessedOrder"
+SET "customerId" = 'gid://shopify/Customer/' || "customerId"
+WHERE "customerId" ~ '^[0-9]+$';
+
+-- Fold numeric balances into the GID balance of the same customer
+UPDATE "LoyaltyPoints" AS "gid"
+SET "points" = "gid"."points" + "numeric"."points",
+    "tierProgress" = GREATEST("gid"."tierProgress", "numeric"."tierProgress"),
+    "updatedAt" = GREATEST("gid"."updatedAt", "numeric"."updatedAt")
+FROM "LoyaltyPoints" AS "numeric"
+WHERE "numeric"."shop" = "gid"."shop"
+  AND "numeric"."customerId" ~ '^[0-9]+$'
+  AND "gid"."customerId" = 'gid://shopify/Customer/' || "numeric"."customerId";
+
+DELETE FROM "LoyaltyPoints" AS "numeric"
+WHERE "numeric"."customerId" ~ '^[0-9]+$'
+  AND EXISTS (
+    SELECT 1 FROM "LoyaltyPoints" AS "gid"
+    WHERE "gid"."shop" = "numeric"."shop"
+      AND "gid"."customerId" = 'gid://shopify/Customer/' || "numeric"."customerId"
+  );
+
+-- Numeric balances without a GID twin are simply renamed
+UPDATE "LoyaltyPoints"
+SET "customerId" = 'gid://shopify/Customer/' || "customerId"
+WHERE "customerId" ~ '^[0-9]+$';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "InventoryLog" ADD COLUMN "locationId" TEXT;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "InventoryLog" ADD COLUMN "batchId" TEXT,
+ADD COLUMN "inventoryItemId" TEXT,
+ADD COLUMN "productTitle" TEXT,
+ADD COLUMN "variantTitle" TEXT,
+ADD COLUMN "sku" TEXT,
+ADD COLUMN "staffUserId" TEXT,
+ADD COLUMN "staffName" TEXT,
+ADD COLUMN "revertedBatchId" TEXT;
+
+-- Existing rows weren't grouped, so each becomes a batch of its own
+UPDATE "InventoryLog" SET "batchId" = "id";
+
+ALTER TABLE "InventoryLog" ALTER COLUMN "batchId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "InventoryLog_shop_batchId_idx" ON "InventoryLog"("shop", "batchId");
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "InventorySettings" (
+    "shop" TEXT NOT NULL,
+    "defaultLowStockThreshold" INTEGER,
+    "alertWebhookUrl" TEXT,
+    "alertEmail" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InventorySettings_pkey" PRIMARY KEY ("shop")
+);
+
+-- CreateTable
+CREATE TABLE "LowStockThreshold" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "inventoryItemId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL DEFAULT '',
+    "variantId" TEXT NOT NULL,
+    "productTitle" TEXT,
+    "variantTitle" TEXT,
+    "sku" TEXT,
+    "threshold" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LowStockThreshold_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LowStockAlert" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "inventoryItemId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "productTitle" TEXT,
+    "variantTitle" TEXT,
+    "sku" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "notifiedAt" TIMESTAMP(3),
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "LowStockAlert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LowStockThreshold_shop_inventoryItemId_locationId_key" ON "LowStockThreshold"("shop", "inventoryItemId", "locationId");
+
+-- CreateIndex
+CREATE INDEX "LowStockAlert_shop_inventoryItemId_locationId_idx" ON "LowStockAlert"("shop", "inventoryItemId", "locationId");
+
+-- CreateIndex
+CREATE INDEX "LowStockAlert_shop_createdAt_idx" ON "LowStockAlert"("shop", "createdAt");
@@ -0,0 +1,3 @@
+-- AlterTable
+-- Every earlier save was sent to Shopify as a correction
+ALTER TABLE "InventoryLog" ADD COLUMN "reason" TEXT NOT NULL DEFAULT 'correction';
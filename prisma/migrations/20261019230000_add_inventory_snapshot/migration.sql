@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "InventorySyncStatus" AS ENUM ('RUNNING', 'IMPORTING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "InventorySync" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "bulkOperationId" TEXT NOT NULL,
+    "status" "InventorySyncStatus" NOT NULL DEFAULT 'RUNNING',
+    "rowCount" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "InventorySync_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InventorySnapshot" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "syncId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "productTitle" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "variantTitle" TEXT NOT NULL,
+    "sku" TEXT,
+    "inventoryItemId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "available" INTEGER NOT NULL,
+
+    CONSTRAINT "InventorySnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InventorySync_bulkOperationId_key" ON "InventorySync"("bulkOperationId");
+
+-- CreateIndex
+CREATE INDEX "InventorySync_shop_startedAt_idx" ON "InventorySync"("shop", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "InventorySnapshot_shop_syncId_idx" ON "InventorySnapshot"("shop", "syncId");
+
+-- CreateIndex
+CREATE INDEX "InventorySnapshot_syncId_variantId_idx" ON "InventorySnapshot"("syncId", "variantId");
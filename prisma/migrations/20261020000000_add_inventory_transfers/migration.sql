@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "InventoryTransferStatus" AS ENUM ('DRAFT', 'IN_TRANSIT', 'RECEIVED');
+
+-- AlterTable
+ALTER TABLE "InventoryLog" ADD COLUMN "transferId" TEXT;
+
+-- CreateTable
+CREATE TABLE "InventoryTransfer" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "fromLocationId" TEXT NOT NULL,
+    "toLocationId" TEXT NOT NULL,
+    "status" "InventoryTransferStatus" NOT NULL DEFAULT 'DRAFT',
+    "note" TEXT,
+    "staffUserId" TEXT,
+    "staffName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "shippedAt" TIMESTAMP(3),
+    "receivedAt" TIMESTAMP(3),
+
+    CONSTRAINT "InventoryTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InventoryTransferLine" (
+    "id" TEXT NOT NULL,
+    "transferId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "inventoryItemId" TEXT NOT NULL,
+    "productTitle" TEXT,
+    "variantTitle" TEXT,
+    "sku" TEXT,
+    "quantity" INTEGER NOT NULL,
+
+    CONSTRAINT "InventoryTransferLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryTransfer_shop_createdAt_idx" ON "InventoryTransfer"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "InventoryTransferLine_transferId_idx" ON "InventoryTransferLine"("transferId");
+
+-- AddForeignKey
+ALTER TABLE "InventoryTransferLine" ADD CONSTRAINT "InventoryTransferLine_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "InventoryTransfer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
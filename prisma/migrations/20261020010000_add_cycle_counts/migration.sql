@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "CycleCountStatus" AS ENUM ('OPEN', 'COMMITTED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "CycleCount" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "collectionId" TEXT,
+    "collectionTitle" TEXT,
+    "vendor" TEXT,
+    "status" "CycleCountStatus" NOT NULL DEFAULT 'OPEN',
+    "staffUserId" TEXT,
+    "staffName" TEXT,
+    "batchId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "committedAt" TIMESTAMP(3),
+
+    CONSTRAINT "CycleCount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CycleCountLine" (
+    "id" TEXT NOT NULL,
+    "countId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "inventoryItemId" TEXT NOT NULL,
+    "productTitle" TEXT,
+    "variantTitle" TEXT,
+    "sku" TEXT,
+    "barcode" TEXT,
+    "expectedQty" INTEGER NOT NULL,
+    "countedQty" INTEGER NOT NULL DEFAULT 0,
+    "countedAt" TIMESTAMP(3),
+    "systemQty" INTEGER,
+
+    CONSTRAINT "CycleCountLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CycleCount_shop_createdAt_idx" ON "CycleCount"("shop", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CycleCountLine_countId_variantId_key" ON "CycleCountLine"("countId", "variantId");
+
+-- AddForeignKey
+ALTER TABLE "CycleCountLine" ADD CONSTRAINT "CycleCountLine_countId_fkey" FOREIGN KEY ("countId") REFERENCES "CycleCount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
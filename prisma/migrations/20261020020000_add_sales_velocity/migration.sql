@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "InventorySettings" ADD COLUMN     "reorderCoverDays" INTEGER NOT NULL DEFAULT 30,
+ADD COLUMN     "reorderLeadTimeDays" INTEGER NOT NULL DEFAULT 7;
+
+-- CreateTable
+CREATE TABLE "SalesOrder" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SalesOrder_pkey" PRIMARY KEY ("shop","id")
+);
+
+-- CreateTable
+CREATE TABLE "VariantDailySales" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL DEFAULT '',
+    "day" DATE NOT NULL,
+    "quantity" INTEGER NOT NULL,
+
+    CONSTRAINT "VariantDailySales_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VariantDailySales_shop_variantId_locationId_day_key" ON "VariantDailySales"("shop", "variantId", "locationId", "day");
+
+-- CreateIndex
+CREATE INDEX "VariantDailySales_shop_day_idx" ON "VariantDailySales"("shop", "day");
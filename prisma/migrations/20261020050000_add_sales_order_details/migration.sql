@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "SalesOrder" ADD COLUMN     "customerId" TEXT,
+ADD COLUMN     "tierId" TEXT,
+ADD COLUMN     "totalPrice" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "SalesOrder_shop_createdAt_idx" ON "SalesOrder"("shop", "createdAt");
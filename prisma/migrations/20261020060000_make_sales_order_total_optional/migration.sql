@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "SalesOrder" ALTER COLUMN "totalPrice" DROP NOT NULL,
+ALTER COLUMN "totalPrice" DROP DEFAULT;
+
+-- Orders recorded before their details were kept got the default total of
+-- zero; a null total marks them for the sales backfill to fill in
+UPDATE "SalesOrder" SET "totalPrice" = NULL
+WHERE "totalPrice" = 0 AND "customerId" IS NULL AND "tierId" IS NULL;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "PointsTransactionType" ADD VALUE 'REWARD_REFUND';
@@ -0,0 +1,4 @@
+-- Refunds for unused reward codes were recorded as redemptions with a
+-- positive delta. Kept apart from the enum change, since Postgres can't use a
+-- new enum value in the transaction that adds it.
+UPDATE "PointsTransaction" SET "type" = 'REWARD_REFUND' WHERE "type" = 'REDEEM' AND "delta" > 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "InventorySync" ADD COLUMN     "importStartedAt" TIMESTAMP(3);
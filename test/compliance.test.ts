@@ -0,0 +1,42 @@
+import { randomUUID } from "crypto";
+import { describe, expect, it } from "vitest";
+import { action as shopRedact } from "../app/routes/webhooks.app.shop.redact";
+import prisma from "../app/db.server";
+import { alice } from "./fixtures/customers";
+import { deliverWebhook } from "./harness/requests";
+import { TEST_SHOP } from "./harness/session";
+
+const shopRedactPayload = { shop_id: 1, shop_domain: TEST_SHOP };
+
+describe("compliance webhooks", () => {
+  it("removes the shop's data on shop/redact but keeps the delivery and its log", async () => {
+    await prisma.loyaltyPoints.create({ data: { shop: TEST_SHOP, customerId: alice.id, points: 40 } });
+    await prisma.pointsTransaction.create({
+      data: { shop: TEST_SHOP, customerId: alice.id, type: "EARN", delta: 40 },
+    });
+    await prisma.webhookDelivery.create({
+      data: { shop: TEST_SHOP, topic: "ORDERS_CREATE", deliveryKey: "gid://shopify/Order/5001", webhookId: "w-1" },
+    });
+    const webhookId = randomUUID();
+
+    const response = await deliverWebhook(shopRedact, "shop/redact", shopRedactPayload, { webhookId });
+
+    expect(response.status).toBe(200);
+    expect(await prisma.loyaltyPoints.count()).toBe(0);
+    expect(await prisma.pointsTransaction.count()).toBe(0);
+    expect(await prisma.session.count({ where: { shop: TEST_SHOP } })).toBe(0);
+    expect(await prisma.webhookDelivery.findMany({ where: { shop: TEST_SHOP } })).toEqual([
+      expect.objectContaining({ topic: "SHOP_REDACT", webhookId }),
+    ]);
+    expect(await prisma.complianceLog.findFirst({ where: { shop: TEST_SHOP } })).toMatchObject({
+      topic: "SHOP_REDACT",
+      webhookId,
+      result: expect.objectContaining({ balances: 1, transactions: 1, webhookDeliveries: 1 }),
+    });
+
+    // Shopify's retry of the same delivery finds the record and does nothing
+    const retry = await deliverWebhook(shopRedact, "shop/redact", shopRedactPayload, { webhookId });
+    expect(await retry.text()).toBe("SHOP_REDACT webhook already processed");
+    expect(await prisma.complianceLog.count()).toBe(1);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import prisma from "../app/db.server";
+import { commitCycleCount, scanIntoCount, startCycleCount } from "../app/models/cycle-counts.server";
+import { unauthenticated } from "../app/shopify.server";
+import { mug, tee, warehouse } from "./fixtures/products";
+import { adminApi } from "./harness/admin-api";
+import { TEST_SHOP } from "./harness/session";
+
+const [small, large] = tee.variants;
+
+async function startTeeCount() {
+  const { admin } = await unauthenticated.admin(TEST_SHOP);
+  const count = await startCycleCount(admin, TEST_SHOP, {
+    locationId: warehouse.id,
+    collectionId: tee.collectionIds[0],
+  });
+  return { admin, count };
+}
+
+describe("cycle counts", () => {
+  it("starts with every variant in scope that the location stocks", async () => {
+    const { count } = await startTeeCount();
+
+    const lines = await prisma.cycleCountLine.findMany({ where: { countId: count.id }, orderBy: { sku: "desc" } });
+    expect(lines.map(({ variantId, expectedQty, countedQty }) => ({ variantId, expectedQty, countedQty }))).toEqual([
+      { variantId: small.id, expectedQty: 10, countedQty: 0 },
+      { variantId: large.id, expectedQty: 6, countedQty: 0 },
+    ]);
+  });
+
+  it("sets counted levels on commit and records the system quantities", async () => {
+    const { admin, count } = await startTeeCount();
+    await scanIntoCount(admin, TEST_SHOP, count.id, small.barcode!, 8);
+    // Outside the count's collection, so added on first scan
+    await scanIntoCount(admin, TEST_SHOP, count.id, mug.variants[0].sku, 1);
+    // Sold while counting; the commit compares against the live quantity
+    adminApi.setLevel(mug.variants[0].inventoryItemId, warehouse.id, 19);
+
+    const result = await commitCycleCount(admin, TEST_SHOP, count.id);
+
+    expect(result.adjusted).toBe(2);
+    expect(adminApi.getLevel(small.inventoryItemId, warehouse.id)).toBe(8);
+    expect(adminApi.getLevel(mug.variants[0].inventoryItemId, warehouse.id)).toBe(1);
+    // Never counted, so left alone
+    expect(adminApi.getLevel(large.inventoryItemId, warehouse.id)).toBe(6);
+
+    expect(await prisma.cycleCount.findUnique({ where: { id: count.id } })).toMatchObject({
+      status: "COMMITTED",
+      batchId: result.batchId,
+    });
+    const mugLine = await prisma.cycleCountLine.findFirst({ where: { countId: count.id, sku: mug.variants[0].sku } });
+    expect(mugLine).toMatchObject({ expectedQty: 20, countedQty: 1, systemQty: 19 });
+
+    await expect(scanIntoCount(admin, TEST_SHOP, count.id, small.sku)).rejects.toThrow("This count is no longer open");
+  });
+
+  it("zeroes uncounted lines when asked to", async () => {
+    const { admin, count } = await startTeeCount();
+    await scanIntoCount(admin, TEST_SHOP, count.id, small.sku, 10);
+
+    const result = await commitCycleCount(admin, TEST_SHOP, count.id, { includeUncounted: true });
+
+    expect(result.adjusted).toBe(1);
+    expect(adminApi.getLevel(small.inventoryItemId, warehouse.id)).toBe(10);
+    expect(adminApi.getLevel(large.inventoryItemId, warehouse.id)).toBe(0);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { loader } from "../app/routes/app.loyalty";
+import { action as orderFulfilled } from "../app/routes/webhooks.orders.fulfilled";
+import {
+  DEFAULT_EARNING_RULES,
+  evaluateEarningRules,
+  saveEarningRules,
+} from "../app/models/earning-rules.server";
+import type { EarningOrder } from "../app/models/earning-rules.server";
+import { alice } from "./fixtures/customers";
+import { aliceOrder, orderWebhookPayload } from "./fixtures/orders";
+import { mug, tee } from "./fixtures/products";
+import { adminApi } from "./harness/admin-api";
+import { deliverWebhook, loadRoute } from "./harness/requests";
+import { TEST_SHOP } from "./harness/session";
+
+const line = (productId: string, amount: number, details: Partial<EarningOrder["lineItems"][number]> = {}) => ({
+  id: null,
+  title: productId,
+  quantity: 1,
+  productId,
+  vendor: null,
+  tags: [],
+  collectionIds: [],
+  amount,
+  ...details,
+});
+
+describe("earning rules", () => {
+  it("spreads the basis over line items before exclusions and multipliers", () => {
+    const order: EarningOrder = {
+      subtotal: 90,
+      total: 110,
+      shipping: 10,
+      tax: 10,
+      lineItems: [line(tee.id, 50), line(mug.id, 25, { tags: ["Gift-Card"] }), line("gid://shopify/Product/9", 25)],
+    };
+    const rules = {
+      ...DEFAULT_EARNING_RULES,
+      basis: "TOTAL" as const,
+      excludedProductTags: ["gift-card"],
+      productMultipliers: [{ productId: tee.id, multiplier: 2 }],
+    };
+
+    // $110 split 2:1:1, the tee's $55 doubled and the gift card's $27.50 excluded
+    const breakdown = evaluateEarningRules(rules, order, 1.5);
+    expect(breakdown.points).toBe(Math.floor((55 * 2 + 27.5) * 0.1 * 1.5));
+    expect(breakdown.lines.map((l) => l.excludedReason)).toEqual([null, 'Tagged "Gift-Card"', null]);
+
+    expect(evaluateEarningRules({ ...rules, minimumOrderValue: 200 }, order)).toMatchObject({
+      points: 0,
+      skippedReason: "Below the minimum order value of 200",
+    });
+  });
+
+  it("excludes products in an excluded collection when awarding", async () => {
+    await saveEarningRules(TEST_SHOP, { ...DEFAULT_EARNING_RULES, excludedCollectionIds: tee.collectionIds });
+
+    const response = await deliverWebhook(orderFulfilled, "orders/fulfilled", orderWebhookPayload(aliceOrder));
+
+    // Only the $12.50 mug earns
+    expect(await response.text()).toBe(`Added 1 points to customer ${alice.id}`);
+    expect(adminApi.requestsFor("GetProductsInCollection")).toHaveLength(1);
+  });
+
+  it("scores recent orders from line items loaded apart from the listing", async () => {
+    await saveEarningRules(TEST_SHOP, { ...DEFAULT_EARNING_RULES, excludedCollectionIds: tee.collectionIds });
+    adminApi.addOrder({ ...aliceOrder, fulfillmentStatus: "FULFILLED" });
+
+    const data = await loadRoute(loader, "/app/loyalty?tab=orders");
+
+    expect(data.recentOrders).toEqual([
+      expect.objectContaining({ id: aliceOrder.id, totalPrice: "72.00 USD", pointsEarned: 1, pointsAwarded: null }),
+    ]);
+    expect(adminApi.requestsFor("GetRecentOrders")[0].query).not.toContain("lineItems");
+    expect(adminApi.requestsFor("GetEarningOrders")[0].variables).toEqual({ ids: [aliceOrder.id] });
+  });
+});
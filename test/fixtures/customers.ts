@@ -0,0 +1,26 @@
+export type CustomerFixture = {
+  id: string;
+  email: string;
+  displayName: string;
+  tags: string[];
+  /** Metafield values keyed by `namespace.key`. */
+  metafields: Record<string, string>;
+};
+
+export const alice: CustomerFixture = {
+  id: "gid://shopify/Customer/1001",
+  email: "alice@example.com",
+  displayName: "Alice Archer",
+  tags: ["newsletter"],
+  metafields: {},
+};
+
+export const bob: CustomerFixture = {
+  id: "gid://shopify/Customer/1002",
+  email: "bob@example.com",
+  displayName: "Bob Baker",
+  tags: [],
+  metafields: {},
+};
+
+export const customers = [alice, bob];
@@ -0,0 +1,126 @@
+import { alice } from "./customers";
+import { mug, tee, warehouse } from "./products";
+
+export type OrderFixture = {
+  id: string;
+  name: string;
+  createdAt: string;
+  customerId: string | null;
+  locationId: string | null;
+  financialStatus: "PENDING" | "PAID" | "REFUNDED";
+  fulfillmentStatus: "UNFULFILLED" | "FULFILLED";
+  shipping: number;
+  tax: number;
+  discountCodes: string[];
+  lineItems: Array<{
+    id: string;
+    title: string;
+    quantity: number;
+    /** Unit price before discounts. */
+    price: number;
+    productId: string | null;
+    variantId: string | null;
+    vendor?: string;
+  }>;
+};
+
+const legacyId = (gid: string) => Number(gid.slice(gid.lastIndexOf("/") + 1));
+
+/**
+ * Alice's order for two small tees and a mug: a $62.50 subtotal, which earns
+ * 6 points under the default rules.
+ */
+export const aliceOrder: OrderFixture = {
+  id: "gid://shopify/Order/5001",
+  name: "#1001",
+  createdAt: "2026-10-01T15:00:00Z",
+  customerId: alice.id,
+  locationId: null,
+  financialStatus: "PAID",
+  fulfillmentStatus: "UNFULFILLED",
+  shipping: 5,
+  tax: 4.5,
+  discountCodes: [],
+  lineItems: [
+    {
+      id: "gid://shopify/LineItem/6001",
+      title: `${tee.title} - ${tee.variants[0].title}`,
+      quantity: 2,
+      price: tee.variants[0].price,
+      productId: tee.id,
+      variantId: tee.variants[0].id,
+      vendor: tee.vendor,
+    },
+    {
+      id: "gid://shopify/LineItem/6002",
+      title: mug.title,
+      quantity: 1,
+      price: mug.variants[0].price,
+      productId: mug.id,
+      variantId: mug.variants[0].id,
+      vendor: mug.vendor,
+    },
+  ],
+};
+
+/** A point-of-sale order at the warehouse with no customer attached. */
+export const guestOrder: OrderFixture = {
+  id: "gid://shopify/Order/5002",
+  name: "#1002",
+  createdAt: "2026-10-02T10:30:00Z",
+  customerId: null,
+  locationId: warehouse.id,
+  financialStatus: "PAID",
+  fulfillmentStatus: "FULFILLED",
+  shipping: 0,
+  tax: 1,
+  discountCodes: [],
+  lineItems: [
+    {
+      id: "gid://shopify/LineItem/6003",
+      title: mug.title,
+      quantity: 3,
+      price: mug.variants[0].price,
+      productId: mug.id,
+      variantId: mug.variants[0].id,
+      vendor: mug.vendor,
+    },
+  ],
+};
+
+/**
+ * The REST-shaped payload Shopify sends to the `orders/*` webhooks, with the
+ * fields the app reads.
+ */
+export function orderWebhookPayload(order: OrderFixture) {
+  const subtotal = order.lineItems.reduce((sum, line) => sum + line.price * line.quantity, 0);
+
+  return {
+    id: legacyId(order.id),
+    admin_graphql_api_id: order.id,
+    name: order.name,
+    created_at: order.createdAt,
+    location_id: order.locationId ? legacyId(order.locationId) : null,
+    financial_status: order.financialStatus.toLowerCase(),
+    fulfillment_status: order.fulfillmentStatus === "FULFILLED" ? "fulfilled" : null,
+    customer: order.customerId
+      ? { id: legacyId(order.customerId), admin_graphql_api_id: order.customerId }
+      : null,
+    subtotal_price: subtotal.toFixed(2),
+    total_price: (subtotal + order.shipping + order.tax).toFixed(2),
+    total_tax: order.tax.toFixed(2),
+    total_shipping_price_set: { shop_money: { amount: order.shipping.toFixed(2), currency_code: "USD" } },
+    discount_codes: order.discountCodes.map((code) => ({ code, amount: "0.00", type: "fixed_amount" })),
+    line_items: order.lineItems.map((line) => ({
+      id: legacyId(line.id),
+      admin_graphql_api_id: line.id,
+      title: line.title,
+      quantity: line.quantity,
+      price: line.price.toFixed(2),
+      product_id: line.productId ? legacyId(line.productId) : null,
+      variant_id: line.variantId ? legacyId(line.variantId) : null,
+      vendor: line.vendor ?? null,
+      discount_allocations: [],
+    })),
+  };
+}
@@ -0,0 +1,79 @@
+export type LocationFixture = {
+  id: string;
+  name: string;
+};
+
+export type ProductFixture = {
+  id: string;
+  title: string;
+  vendor: string;
+  tags: string[];
+  collectionIds: string[];
+  variants: Array<{
+    id: string;
+    title: string;
+    sku: string;
+    barcode?: string;
+    price: number;
+    inventoryItemId: string;
+  }>;
+};
+
+export const warehouse: LocationFixture = { id: "gid://shopify/Location/11", name: "Warehouse" };
+export const storefront: LocationFixture = { id: "gid://shopify/Location/12", name: "Storefront" };
+
+export const locations = [warehouse, storefront];
+
+export const tee: ProductFixture = {
+  id: "gid://shopify/Product/2001",
+  title: "Organic Tee",
+  vendor: "Acme Apparel",
+  tags: ["apparel"],
+  collectionIds: ["gid://shopify/Collection/51"],
+  variants: [
+    {
+      id: "gid://shopify/ProductVariant/3001",
+      title: "Small",
+      sku: "TEE-S",
+      barcode: "0001",
+      price: 25,
+      inventoryItemId: "gid://shopify/InventoryItem/4001",
+    },
+    {
+      id: "gid://shopify/ProductVariant/3002",
+      title: "Large",
+      sku: "TEE-L",
+      barcode: "0002",
+      price: 25,
+      inventoryItemId: "gid://shopify/InventoryItem/4002",
+    },
+  ],
+};
+
+export const mug: ProductFixture = {
+  id: "gid://shopify/Product/2002",
+  title: "Camp Mug",
+  vendor: "Acme Goods",
+  tags: ["homeware"],
+  collectionIds: [],
+  variants: [
+    {
+      id: "gid://shopify/ProductVariant/3003",
+      title: "Default Title",
+      sku: "MUG",
+      price: 12.5,
+      inventoryItemId: "gid://shopify/InventoryItem/4003",
+    },
+  ],
+};
+
+export const products = [tee, mug];
+
+/** Starting quantities; the large tee isn't stocked at the storefront. */
+export const levels: Record<string, number> = {
+  [`${tee.variants[0].inventoryItemId}|${warehouse.id}`]: 10,
+  [`${tee.variants[0].inventoryItemId}|${storefront.id}`]: 4,
+  [`${tee.variants[1].inventoryItemId}|${warehouse.id}`]: 6,
+  [`${mug.variants[0].inventoryItemId}|${warehouse.id}`]: 20,
+  [`${mug.variants[0].inventoryItemId}|${storefront.id}`]: 8,
+};
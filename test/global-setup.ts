@@ -0,0 +1,41 @@
+import { execFileSync } from "node:child_process";
+import { PrismaClient } from "@prisma/client";
+import type { TestProject } from "vitest/node";
+
+declare module "vitest" {
+  export interface ProvidedContext {
+    databaseUrl: string;
+  }
+}
+
+/**
+ * Migrates a throwaway schema in the Postgres database at TEST_DATABASE_URL
+ * for this run and drops it afterwards, so runs never see each other's data
+ * or touch the database the app uses.
+ */
+export default async function setup(project: TestProject) {
+  const baseUrl = process.env.TEST_DATABASE_URL;
+  if (!baseUrl) {
+    throw new Error("Set TEST_DATABASE_URL to a Postgres database the tests can create a schema in");
+  }
+
+  const schema = `test_${process.pid}_${Date.now()}`;
+  const url = new URL(baseUrl);
+  url.searchParams.set("schema", schema);
+
+  execFileSync("npx", ["--no-install", "prisma", "migrate", "deploy"], {
+    env: { ...process.env, DATABASE_URL: url.href },
+    stdio: "inherit",
+  });
+
+  project.provide("databaseUrl", url.href);
+
+  return async () => {
+    const prisma = new PrismaClient({ datasourceUrl: baseUrl });
+    try {
+      await prisma.$executeRawUnsafe(`DROP SCHEMA IF EXISTS "${schema}" CASCADE`);
+    } finally {
+      await prisma.$disconnect();
+    }
+  };
+}
@@ -0,0 +1,684 @@
+import type { FieldNode, FragmentDefinitionNode, OperationDefinitionNode, SelectionSetNode } from "graphql";
+import { Kind, parse, valueFromASTUntyped, visit } from "graphql";
+import type { CustomerFixture } from "../fixtures/customers";
+import type { OrderFixture } from "../fixtures/orders";
+import type { LocationFixture, ProductFixture } from "../fixtures/products";
+import { TEST_ACCESS_TOKEN } from "./session";
+
+/**
+ * An in-process stand-in for the Admin GraphQL API. It holds a small store of
+ * locations, products, inventory levels, customers and orders, and answers the
+ * queries and mutations the app sends against it. Responses follow the
+ * operation's selection set, including aliases and inline fragments, so the
+ * app's own query documents are exercised rather than canned responses.
+ *
+ * Root fields the app doesn't use aren't implemented and come back as GraphQL
+ * errors, which makes a missing piece of the stand-in obvious in a failing test.
+ */
+
+export type AdminRequest = {
+  operationName: string | null;
+  query: string;
+  variables: Record<string, any>;
+};
+
+export type CreatedDiscount = {
+  id: string;
+  type: "basic" | "freeShipping";
+  input: Record<string, any>;
+  /** Orders that used the code; set it to simulate a missed order webhook. */
+  usageCount: number;
+};
+
+type Args = Record<string, any>;
+type Resolvable = Record<string, any>;
+
+type ShopData = {
+  locations: LocationFixture[];
+  products: ProductFixture[];
+  customers: CustomerFixture[];
+  orders: OrderFixture[];
+  /** Available quantities keyed by `inventoryItemId|locationId`. */
+  levels: Record<string, number>;
+};
+
+const levelKey = (inventoryItemId: string, locationId: string) => `${inventoryItemId}|${locationId}`;
+
+const legacyId = (gid: string) => gid.slice(gid.lastIndexOf("/") + 1);
+
+/** Relay-style connection over `nodes`, paginated with opaque index cursors. */
+function connection<Node>(nodes: Node[], { first, last, after, before }: Args = {}) {
+  const cursor = (index: number) => Buffer.from(`cursor:${index}`).toString("base64");
+  const position = (value: string) => parseInt(Buffer.from(value, "base64").toString().split(":")[1], 10);
+
+  let start = after ? position(after) + 1 : 0;
+  let end = before ? position(before) : nodes.length;
+  if (typeof first === "number") end = Math.min(end, start + first);
+  if (typeof last === "number") start = Math.max(start, end - last);
+
+  const edges = nodes.slice(start, end).map((node, offset) => ({ cursor: cursor(start + offset), node }));
+
+  return {
+    edges,
+    nodes: edges.map((edge) => edge.node),
+    pageInfo: {
+      hasNextPage: end < nodes.length,
+      hasPreviousPage: start > 0,
+      startCursor: edges[0]?.cursor ?? null,
+      endCursor: edges[edges.length - 1]?.cursor ?? null,
+    },
+  };
+}
+
+type SearchValue = string | number | null | undefined | Array<string | number>;
+
+/**
+ * Matches a record against Shopify search syntax: `key:value` terms with `*`
+ * wildcards and `>=`-style comparisons, free text, implicit AND, `OR` and
+ * parentheses. Filtering on a key the record doesn't describe throws, so the
+ * stand-in never quietly ignores part of a query.
+ */
+function matchesSearch(query: string | null | undefined, fields: Record<string, SearchValue>) {
+  const tokens = (query || "").match(/\(|\)|[^\s()]+:"[^"]*"|[^\s()]+/g) || [];
+  let index = 0;
+
+  const term = (token: string): boolean => {
+    const separator = token.indexOf(":");
+    if (separator === -1) {
+      const text = token.replace(/"/g, "").toLowerCase();
+      return Object.values(fields).some((value) =>
+        [value ?? []].flat().some((v) => String(v).toLowerCase().includes(text)),
+      );
+    }
+
+    const key = token.slice(0, separator);
+    if (!(key in fields)) {
+      throw new Error(`The Admin API stand-in can't filter on ${key}`);
+    }
+
+    const [, comparator = "", raw] = token.slice(separator + 1).match(/^(>=|<=|>|<)?(.*)$/)!;
+    const expected = raw.replace(/^"|"$/g, "");
+    const pattern = new RegExp(
+      `^${expected.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`,
+      "i",
+    );
+
+    return [fields[key] ?? []].flat().some((value) => {
+      if (!comparator) {
+        return pattern.test(String(value));
+      }
+      const [a, b] =
+        typeof value === "number" ? [value, Number(expected)] : [Date.parse(value), Date.parse(expected)];
+      return comparator === ">=" ? a >= b : comparator === "<=" ? a <= b : comparator === ">" ? a > b : a < b;
+    });
+  };
+
+  const atom = (): boolean => {
+    const token = tokens[index++];
+    if (token === "(") {
+      const result = or();
+      index++;
+      return result;
+    }
+    return term(token);
+  };
+
+  const and = (): boolean => {
+    let result = true;
+    while (index < tokens.length && tokens[index] !== ")" && tokens[index] !== "OR") {
+      // Evaluate every term so the whole query is checked, even once one fails
+      result = atom() && result;
+    }
+    return result;
+  };
+
+  const or = (): boolean => {
+    let result = and();
+    while (tokens[index] === "OR") {
+      index++;
+      result = and() || result;
+    }
+    return result;
+  };
+
+  return or();
+}
+
+function money(amount: number, currencyCode = "USD") {
+  return { shopMoney: { amount: amount.toFixed(2), currencyCode } };
+}
+
+export class FakeAdminApi {
+  readonly requests: AdminRequest[] = [];
+  readonly discounts: CreatedDiscount[] = [];
+  private data: ShopData = { locations: [], products: [], customers: [], orders: [], levels: {} };
+  private rejections = new Map<string, string>();
+  private discountCount = 0;
+
+  /** Requests authenticated with any other token are refused with a 401. */
+  constructor(private readonly accessToken: string) {
+    this.reset();
+  }
+
+  /** Replaces the store's contents. Fixtures are copied, so tests can reuse them. */
+  reset(data: Partial<ShopData> = {}) {
+    this.data = structuredClone({ locations: [], products: [], customers: [], orders: [], levels: {}, ...data });
+    this.requests.length = 0;
+    this.discounts.length = 0;
+    this.rejections.clear();
+    this.discountCount = 0;
+  }
+
+  /**
+   * Makes the next call to a mutation, such as `discountCodeBasicCreate`,
+   * fail with a user error instead of changing anything.
+   */
+  rejectNext(mutation: string, message: string) {
+    this.rejections.set(mutation, message);
+  }
+
+  /** The `available` quantity at a level, or undefined when it isn't stocked there. */
+  getLevel(inventoryItemId: string, locationId: string): number | undefined {
+    return this.data.levels[levelKey(inventoryItemId, locationId)];
+  }
+
+  /** Changes a quantity behind the app's back, as another staff member or app would. */
+  setLevel(inventoryItemId: string, locationId: string, quantity: number) {
+    this.data.levels[levelKey(inventoryItemId, locationId)] = quantity;
+  }
+
+  getCustomer(id: string) {
+    return this.data.customers.find((customer) => customer.id === id);
+  }
+
+  addOrder(order: OrderFixture) {
+    this.data.orders.push(structuredClone(order));
+  }
+
+  /** The requests made for one operation, such as `GetCustomer`. */
+  requestsFor(operationName: string) {
+    return this.requests.filter((request) => request.operationName === operationName);
+  }
+
+  /**
+   * A drop-in for the Shopify API library's fetch. Admin GraphQL requests are
+   * answered from the store; anything else fails, since tests run offline.
+   */
+  fetch = async (input: Parameters<typeof fetch>[0], init?: RequestInit): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+
+    if (!/^\/admin\/api\/[^/]+\/graphql\.json$/.test(url.pathname)) {
+      throw new Error(`Unexpected request to ${url.href} in tests`);
+    }
+
+    const headers = new Headers(init?.headers);
+    if (headers.get("X-Shopify-Access-Token") !== this.accessToken) {
+      return Response.json({ errors: "[API] Invalid API key or access token" }, { status: 401 });
+    }
+
+    const { query, variables = {} } = JSON.parse(String(init?.body));
+    return Response.json(this.execute(query, variables));
+  };
+
+  execute(query: string, variables: Record<string, any>) {
+    const document = parse(query);
+    const found = document.definitions.find(
+      (definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION,
+    );
+    if (!found) {
+      return { errors: [{ message: "No operation in the document" }] };
+    }
+
+    // Fragment spreads are swapped for the equivalent inline fragments up front
+    const fragments = new Map(
+      document.definitions
+        .filter((definition): definition is FragmentDefinitionNode => definition.kind === Kind.FRAGMENT_DEFINITION)
+        .map((fragment) => [fragment.name.value, fragment]),
+    );
+    const operation = visit(found, {
+      FragmentSpread: (spread) => {
+        const fragment = fragments.get(spread.name.value);
+        if (!fragment) {
+          throw new Error(`Unknown fragment ${spread.name.value}`);
+        }
+        return { kind: Kind.INLINE_FRAGMENT, typeCondition: fragment.typeCondition, selectionSet: fragment.selectionSet };
+      },
+    });
+
+    this.requests.push({ operationName: operation.name?.value ?? null, query, variables });
+
+    const root = operation.operation === "mutation" ? this.mutationRoot() : this.queryRoot();
+    const rootType = operation.operation === "mutation" ? "Mutation" : "QueryRoot";
+    const missing = operation.selectionSet.selections.filter(
+      (selection): selection is FieldNode =>
+        selection.kind === Kind.FIELD && selection.name.value !== "__typename" && !(selection.name.value in root),
+    );
+
+    if (missing.length > 0) {
+      return {
+        errors: missing.map((field) => ({
+          message: `Field '${field.name.value}' doesn't exist on type '${rootType}'`,
+          extensions: { code: "undefinedField" },
+        })),
+      };
+    }
+
+    try {
+      return { data: this.select(root, operation.selectionSet, variables) };
+    } catch (error) {
+      return { errors: [{ message: error instanceof Error ? error.message : String(error) }] };
+    }
+  }
+
+  private select(value: Resolvable, selectionSet: SelectionSetNode, variables: Record<string, any>) {
+    const result: Record<string, any> = {};
+
+    for (const selection of selectionSet.selections) {
+      if (selection.kind === Kind.INLINE_FRAGMENT) {
+        const typeName = selection.typeCondition?.name.value;
+        if (!typeName || typeName === value.__typename) {
+          Object.assign(result, this.select(value, selection.selectionSet, variables));
+        }
+        continue;
+      }
+      if (selection.kind !== Kind.FIELD) {
+        throw new Error("Fragment spreads should have been inlined before selecting");
+      }
+
+      const name = selection.name.value;
+      const args = Object.fromEntries(
+        (selection.arguments || []).map((arg) => [arg.name.value, valueFromASTUntyped(arg.value, variables)]),
+      );
+      const field = value[name];
+      const resolved = typeof field === "function" ? field(args) : field;
+
+      result[selection.alias?.value ?? name] = this.complete(resolved, selection.selectionSet, variables);
+    }
+
+    return result;
+  }
+
+  private complete(value: any, selectionSet: SelectionSetNode | undefined, variables: Record<string, any>): any {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.complete(item, selectionSet, variables));
+    }
+    return selectionSet && typeof value === "object" ? this.select(value, selectionSet, variables) : value;
+  }
+
+  private locationNode(location: LocationFixture): Resolvable {
+    return { __typename: "Location", id: location.id, name: location.name };
+  }
+
+  private inventoryItemNode(inventoryItemId: string): Resolvable {
+    const levels = this.data.locations
+      .filter((location) => this.getLevel(inventoryItemId, location.id) !== undefined)
+      .map((location) => ({
+        location: this.locationNode(location),
+        quantities: ({ names }: Args) =>
+          (names as string[]).map((name) => ({
+            name,
+            quantity: name === "available" ? this.getLevel(inventoryItemId, location.id) : 0,
+          })),
+      }));
+
+    return {
+      __typename: "InventoryItem",
+      id: inventoryItemId,
+      inventoryLevels: (args: Args) => connection(levels, args),
+      inventoryLevel: ({ locationId }: Args) => levels.find((level) => level.location.id === locationId) ?? null,
+    };
+  }
+
+  private variantNode(product: ProductFixture, variant: ProductFixture["variants"][number]): Resolvable {
+    return {
+      __typename: "ProductVariant",
+      id: variant.id,
+      title: variant.title,
+      sku: variant.sku,
+      barcode: variant.barcode ?? null,
+      price: variant.price,
+      inventoryQuantity: this.data.locations.reduce(
+        (sum, location) => sum + (this.getLevel(variant.inventoryItemId, location.id) ?? 0),
+        0,
+      ),
+      product: () => this.productNode(product),
+      inventoryItem: () => this.inventoryItemNode(variant.inventoryItemId),
+    };
+  }
+
+  private productNode(product: ProductFixture): Resolvable {
+    return {
+      __typename: "Product",
+      id: product.id,
+      title: product.title,
+      vendor: product.vendor,
+      tags: product.tags,
+      collections: (args: Args) => connection(product.collectionIds.map((id) => ({ id })), args),
+      inCollection: ({ id }: Args) => product.collectionIds.includes(id),
+      variants: (args: Args) => connection(product.variants.map((variant) => this.variantNode(product, variant)), args),
+    };
+  }
+
+  private customerNode(customer: CustomerFixture): Resolvable {
+    return {
+      __typename: "Customer",
+      id: customer.id,
+      email: customer.email,
+      displayName: customer.displayName,
+      tags: customer.tags,
+    };
+  }
+
+  private orderNode(order: OrderFixture): Resolvable {
+    const customer = order.customerId ? this.getCustomer(order.customerId) : undefined;
+    const subtotal = order.lineItems.reduce((sum, line) => sum + line.price * line.quantity, 0);
+
+    return {
+      __typename: "Order",
+      id: order.id,
+      name: order.name,
+      createdAt: order.createdAt,
+      processedAt: order.createdAt,
+      displayFinancialStatus: order.financialStatus,
+      displayFulfillmentStatus: order.fulfillmentStatus,
+      customer: customer ? this.customerNode(customer) : null,
+      retailLocation: order.locationId ? { id: order.locationId } : null,
+      subtotalPriceSet: money(subtotal),
+      totalPriceSet: money(subtotal + order.shipping + order.tax),
+      currentTotalPriceSet: money(subtotal + order.shipping + order.tax),
+      totalShippingPriceSet: money(order.shipping),
+      totalTaxSet: money(order.tax),
+      lineItems: (args: Args) =>
+        connection(
+          order.lineItems.map((line) => ({
+            id: line.id,
+            title: line.title,
+            quantity: line.quantity,
+            vendor: line.vendor ?? null,
+            discountedTotalSet: money(line.price * line.quantity),
+            product: line.productId ? { id: line.productId } : null,
+            variant: line.variantId ? { id: line.variantId } : null,
+          })),
+          args,
+        ),
+    };
+  }
+
+  private findNode(id: string): Resolvable | null {
+    for (const product of this.data.products) {
+      if (product.id === id) return this.productNode(product);
+      for (const variant of product.variants) {
+        if (variant.id === id) return this.variantNode(product, variant);
+        if (variant.inventoryItemId === id) return this.inventoryItemNode(id);
+      }
+    }
+
+    const location = this.data.locations.find((l) => l.id === id);
+    if (location) return this.locationNode(location);
+    const customer = this.getCustomer(id);
+    if (customer) return this.customerNode(customer);
+    const order = this.data.orders.find((o) => o.id === id);
+    return order ? this.orderNode(order) : null;
+  }
+
+  private queryRoot(): Resolvable {
+    const { locations, products, customers, orders } = this.data;
+
+    return {
+      locations: (args: Args) =>
+        connection([...locations].sort((a, b) => a.name.localeCompare(b.name)).map((l) => this.locationNode(l)), args),
+
+      products: (args: Args) =>
+        connection(
+          products
+            .filter((product) =>
+              matchesSearch(args.query, {
+                title: product.title,
+                vendor: product.vendor,
+                tag: product.tags,
+                variant_title: product.variants.map((variant) => variant.title),
+                sku: product.variants.map((variant) => variant.sku),
+              }),
+            )
+            .map((product) => this.productNode(product)),
+          args,
+        ),
+
+      productVariants: (args: Args) =>
+        connection(
+          products.flatMap((product) =>
+            product.variants
+              .filter((variant) =>
+                matchesSearch(args.query, {
+                  sku: variant.sku,
+                  barcode: variant.barcode ?? null,
+                  title: variant.title,
+                  vendor: product.vendor,
+                  product_id: legacyId(product.id),
+                  collection: product.collectionIds.map(legacyId),
+                }),
+              )
+              .map((variant) => this.variantNode(product, variant)),
+          ),
+          args,
+        ),
+
+      nodes: ({ ids }: Args) => (ids as string[]).map((id) => this.findNode(id)),
+
+      customer: ({ id }: Args) => {
+        const customer = this.getCustomer(id);
+        return customer ? this.customerNode(customer) : null;
+      },
+
+      customers: (args: Args) =>
+        connection(
+          customers
+            .filter((customer) =>
+              matchesSearch(args.query, {
+                id: legacyId(customer.id),
+                email: customer.email,
+                tag: customer.tags,
+              }),
+            )
+            .map((customer) => this.customerNode(customer)),
+          args,
+        ),
+
+      order: ({ id }: Args) => {
+        const order = orders.find((o) => o.id === id);
+        return order ? this.orderNode(order) : null;
+      },
+
+      codeDiscountNode: ({ id }: Args) => {
+        const discount = this.discounts.find((d) => d.id === id);
+        return discount
+          ? {
+              id,
+              codeDiscount: {
+                __typename: discount.type === "basic" ? "DiscountCodeBasic" : "DiscountCodeFreeShipping",
+                asyncUsageCount: discount.usageCount,
+              },
+            }
+          : null;
+      },
+
+      codeDiscountNodeByCode: ({ code }: Args) => {
+        const discount = this.discounts.find((d) => d.input.code === code);
+        return discount ? { id: discount.id } : null;
+      },
+
+      orders: (args: Args) => {
+        const matching = orders.filter((order) =>
+          matchesSearch(args.query, {
+            name: order.name,
+            customer_id: order.customerId ? legacyId(order.customerId) : null,
+            created_at: order.createdAt,
+            processed_at: order.createdAt,
+            financial_status: order.financialStatus.toLowerCase(),
+            fulfillment_status: order.fulfillmentStatus.toLowerCase(),
+          }),
+        );
+        // Every sort key the app uses orders by date
+        matching.sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+        if (args.reverse) matching.reverse();
+
+        return connection(matching.map((order) => this.orderNode(order)), args);
+      },
+    };
+  }
+
+  private mutationRoot(): Resolvable {
+    const adjustmentGroup = (changes: Array<{ inventoryItemId: string; locationId: string; delta: number }>) => ({
+      createdAt: new Date().toISOString(),
+      changes: changes.map(({ inventoryItemId, locationId, delta }) => ({
+        name: "available",
+        delta,
+        quantityAfterChange: this.getLevel(inventoryItemId, locationId),
+        item: { id: inventoryItemId },
+        location: { id: locationId },
+      })),
+    });
+
+    const notStocked = (field: Array<string | number>, inventoryItemId: string, locationId: string) =>
+      this.getLevel(inventoryItemId, locationId) === undefined
+        ? [{ field, message: "The specified inventory item is not stocked at the location." }]
+        : [];
+
+    const mutations: Record<string, (args: Args) => unknown> = {
+      inventorySetQuantities: ({ input }: Args) => {
+        const quantities = input.quantities as Array<{
+          inventoryItemId: string;
+          locationId: string;
+          quantity: number;
+          compareQuantity?: number | null;
+        }>;
+
+        // The whole call is rejected if any level is unknown or has moved
+        const userErrors = quantities.flatMap((q, i) => {
+          const field = ["input", "quantities", i];
+          const current = this.getLevel(q.inventoryItemId, q.locationId);
+          if (current === undefined) {
+            return notStocked(field, q.inventoryItemId, q.locationId);
+          }
+          return q.compareQuantity !== undefined && q.compareQuantity !== null && q.compareQuantity !== current
+            ? [
+                {
+                  field: [...field, "compareQuantity"],
+                  message: "The compareQuantity argument no longer matches the persisted quantity.",
+                },
+              ]
+            : [];
+        });
+        if (userErrors.length > 0) {
+          return { userErrors, inventoryAdjustmentGroup: null };
+        }
+
+        const changes = quantities.map((q) => {
+          const delta = q.quantity - this.getLevel(q.inventoryItemId, q.locationId)!;
+          this.setLevel(q.inventoryItemId, q.locationId, q.quantity);
+          return { inventoryItemId: q.inventoryItemId, locationId: q.locationId, delta };
+        });
+        return { userErrors: [], inventoryAdjustmentGroup: adjustmentGroup(changes) };
+      },
+
+      inventoryAdjustQuantities: ({ input }: Args) => {
+        const changes = input.changes as Array<{ inventoryItemId: string; locationId: string; delta: number }>;
+
+        const userErrors = changes.flatMap((c, i) =>
+          notStocked(["input", "changes", i], c.inventoryItemId, c.locationId),
+        );
+        if (userErrors.length > 0) {
+          return { userErrors, inventoryAdjustmentGroup: null };
+        }
+
+        for (const c of changes) {
+          this.setLevel(c.inventoryItemId, c.locationId, this.getLevel(c.inventoryItemId, c.locationId)! + c.delta);
+        }
+        return { userErrors: [], inventoryAdjustmentGroup: adjustmentGroup(changes) };
+      },
+
+      inventoryActivate: ({ inventoryItemId, locationId }: Args) => {
+        if (this.getLevel(inventoryItemId, locationId) === undefined) {
+          this.setLevel(inventoryItemId, locationId, 0);
+        }
+        return { userErrors: [] };
+      },
+
+      customerUpdate: ({ input }: Args) => {
+        const customer = this.getCustomer(input.id);
+        if (!customer) {
+          return { userErrors: [{ field: ["id"], message: "Customer does not exist" }] };
+        }
+        // Shopify won't store a blank metafield; it has to be deleted instead
+        const blank = (input.metafields || []).findIndex((metafield: Args) => !metafield.value);
+        if (blank !== -1) {
+          return { customer: null, userErrors: [{ field: ["metafields", String(blank), "value"], message: "Value can't be blank." }] };
+        }
+        if (input.tags) {
+          customer.tags = input.tags;
+        }
+        for (const metafield of input.metafields || []) {
+          customer.metafields[`${metafield.namespace}.${metafield.key}`] = metafield.value;
+        }
+        return { customer: this.customerNode(customer), userErrors: [] };
+      },
+
+      metafieldsDelete: ({ metafields }: Args) => {
+        const deleted = (metafields as Array<{ ownerId: string; namespace: string; key: string }>).map((identifier) => {
+          const customer = this.getCustomer(identifier.ownerId);
+          const key = `${identifier.namespace}.${identifier.key}`;
+          if (!customer || !(key in customer.metafields)) {
+            return null;
+          }
+          delete customer.metafields[key];
+          return identifier;
+        });
+        return { deletedMetafields: deleted, userErrors: [] };
+      },
+
+      discountCodeBasicCreate: ({ basicCodeDiscount }: Args) => this.createDiscount("basic", basicCodeDiscount),
+
+      discountCodeFreeShippingCreate: ({ freeShippingCodeDiscount }: Args) =>
+        this.createDiscount("freeShipping", freeShippingCodeDiscount),
+
+      discountCodeDelete: ({ id }: Args) => {
+        const index = this.discounts.findIndex((discount) => discount.id === id);
+        if (index === -1) {
+          return { deletedCodeDiscountId: null, userErrors: [{ field: ["id"], message: "Discount does not exist" }] };
+        }
+        this.discounts.splice(index, 1);
+        return { deletedCodeDiscountId: id, userErrors: [] };
+      },
+    };
+
+    return Object.fromEntries(
+      Object.entries(mutations).map(([name, resolve]) => [
+        name,
+        (args: Args) => {
+          const message = this.rejections.get(name);
+          if (message === undefined) {
+            return resolve(args);
+          }
+          this.rejections.delete(name);
+          return { userErrors: [{ field: null, message }] };
+        },
+      ]),
+    );
+  }
+
+  private createDiscount(type: CreatedDiscount["type"], input: Record<string, any>) {
+    if (this.discounts.some((discount) => discount.input.code === input.code)) {
+      return { codeDiscountNode: null, userErrors: [{ field: ["code"], message: "Code must be unique." }] };
+    }
+
+    const id = `gid://shopify/DiscountCodeNode/${++this.discountCount}`;
+    this.discounts.push({ id, type, input, usageCount: 0 });
+    return { codeDiscountNode: { id }, userErrors: [] };
+  }
+}
+
+/** The stand-in every test talks to; reset before each test by the setup file. */
+export const adminApi = new FakeAdminApi(TEST_ACCESS_TOKEN);
@@ -0,0 +1,14 @@
+import prisma from "../../app/db.server";
+
+/** Empties every table in the test schema apart from the migration history. */
+export async function resetDatabase() {
+  const tables = await prisma.$queryRaw<Array<{ tablename: string }>>`
+    SELECT tablename FROM pg_tables
+    WHERE schemaname = current_schema() AND tablename <> '_prisma_migrations'`;
+
+  if (tables.length > 0) {
+    await prisma.$executeRawUnsafe(
+      `TRUNCATE ${tables.map(({ tablename }) => `"${tablename}"`).join(", ")} CASCADE`,
+    );
+  }
+}
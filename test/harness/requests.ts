@@ -0,0 +1,73 @@
+import { randomUUID } from "node:crypto";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { RequestType, TEST_SHOP_NAME, getHmac, setUpValidRequest } from "@shopify/shopify-api/test-helpers";
+import { apiVersion } from "../../app/shopify.server";
+import { TEST_SHOP } from "./session";
+
+type RouteAction = (args: ActionFunctionArgs) => Promise<Response>;
+type RouteLoader = (args: LoaderFunctionArgs) => Promise<Response>;
+
+/**
+ * A form POST from the embedded admin, or a GET without a form, carrying a
+ * session token for the test shop the way App Bridge sends one.
+ */
+export function adminRequest(path: string, form?: Record<string, string>) {
+  return setUpValidRequest(
+    {
+      type: RequestType.Bearer,
+      store: TEST_SHOP_NAME,
+      apiKey: process.env.SHOPIFY_API_KEY!,
+      apiSecretKey: process.env.SHOPIFY_API_SECRET!,
+    },
+    new Request(
+      new URL(path, process.env.SHOPIFY_APP_URL),
+      form ? { method: "POST", body: new URLSearchParams(form) } : {},
+    ),
+  );
+}
+
+/**
+ * A webhook delivery signed the way Shopify signs them. Pass a different
+ * `secret` to produce one `authenticate.webhook` rejects.
+ */
+export function webhookRequest(
+  topic: string,
+  payload: unknown,
+  {
+    shop = TEST_SHOP,
+    webhookId = randomUUID(),
+    secret = process.env.SHOPIFY_API_SECRET!,
+  }: { shop?: string; webhookId?: string; secret?: string } = {},
+) {
+  const body = JSON.stringify(payload);
+
+  return new Request(new URL(`/webhooks/${topic}`, process.env.SHOPIFY_APP_URL), {
+    method: "POST",
+    body,
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Topic": topic,
+      "X-Shopify-Shop-Domain": shop,
+      "X-Shopify-API-Version": apiVersion,
+      "X-Shopify-Webhook-Id": webhookId,
+      "X-Shopify-Hmac-Sha256": getHmac(body, secret),
+    },
+  });
+}
+
+/** Submits a form to a route action and returns the JSON it responds with. */
+export async function submitForm<Data = any>(action: RouteAction, path: string, form: Record<string, string>) {
+  const response = await action({ request: await adminRequest(path, form), params: {}, context: {} });
+  return (await response.json()) as Data;
+}
+
+/** Runs a route loader for a page in the embedded admin and returns its JSON. */
+export async function loadRoute<Data = any>(loader: RouteLoader, path: string) {
+  const response = await loader({ request: await adminRequest(path), params: {}, context: {} });
+  return (await response.json()) as Data;
+}
+
+/** Delivers a signed webhook to a webhook route's action. */
+export function deliverWebhook(action: RouteAction, ...args: Parameters<typeof webhookRequest>) {
+  return action({ request: webhookRequest(...args), params: {}, context: {} });
+}
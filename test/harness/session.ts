@@ -0,0 +1,24 @@
+import { TEST_SHOP, setUpValidSession } from "@shopify/shopify-api/test-helpers";
+import { sessionStorage } from "../../app/shopify.server";
+
+export { TEST_SHOP };
+
+/** The offline access token the Admin API stand-in accepts. */
+export const TEST_ACCESS_TOKEN = "shpat_test_offline_token";
+
+/**
+ * Stores the test shop's offline session with the app's current scopes, so
+ * `authenticate.admin` and `authenticate.webhook` find it and never start a
+ * token exchange.
+ */
+export async function seedSession(shop = TEST_SHOP) {
+  const session = setUpValidSession({
+    shop,
+    expires: undefined,
+    scope: process.env.SCOPES,
+    accessToken: TEST_ACCESS_TOKEN,
+  });
+
+  await sessionStorage.storeSession(session);
+  return session;
+}
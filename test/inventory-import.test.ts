@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { action } from "../app/routes/app.inventory_.import";
+import prisma from "../app/db.server";
+import type { ImportRow } from "../app/models/inventory-import.server";
+import { mug, storefront, tee, warehouse } from "./fixtures/products";
+import { adminApi } from "./harness/admin-api";
+import { submitForm } from "./harness/requests";
+import { TEST_SHOP } from "./harness/session";
+
+const [small, large] = tee.variants;
+
+const preview = async (csv: string) => {
+  const result = await submitForm(action, "/app/inventory/import", { intent: "preview", fileName: "stock.csv", csv });
+  return result.rows as ImportRow[];
+};
+
+const apply = (rows: ImportRow[]) =>
+  submitForm(action, "/app/inventory/import", {
+    intent: "apply",
+    changes: JSON.stringify(rows.filter((row) => row.status === "change").map((row) => row.change)),
+  });
+
+describe("inventory import", () => {
+  it("previews each row against the live quantities", async () => {
+    const rows = await preview(
+      [
+        "sku,variant_id,location,quantity",
+        "TEE-S,,Warehouse,12",
+        `,${large.id.split("/").pop()},warehouse,6`,
+        "TEE-L,,Storefront,3",
+        "NOPE,,Warehouse,1",
+        "MUG,,Warehouse,lots",
+        "TEE-S,,Warehouse,9",
+      ].join("\n"),
+    );
+
+    expect(rows.map(({ line, status, message }) => ({ line, status, message }))).toEqual([
+      { line: 2, status: "change", message: null },
+      { line: 3, status: "unchanged", message: null },
+      { line: 4, status: "invalid", message: "TEE-L isn't stocked at Storefront" },
+      { line: 5, status: "unknown", message: "Unknown SKU NOPE" },
+      { line: 6, status: "invalid", message: "Quantity must be a whole number of zero or more" },
+      { line: 7, status: "invalid", message: "Duplicate of an earlier row for the same variant and location" },
+    ]);
+    expect(rows[0].change).toMatchObject({ variantId: small.id, locationId: warehouse.id, oldQty: 10, newQty: 12 });
+  });
+
+  it("applies the previewed changes and logs them as one batch", async () => {
+    const rows = await preview("sku,location,quantity\nTEE-S,Warehouse,12\nMUG,Storefront,5\n");
+
+    const result = await apply(rows);
+
+    expect(result).toEqual({ success: true, intent: "apply", applied: 2, failures: [] });
+    expect(adminApi.getLevel(small.inventoryItemId, warehouse.id)).toBe(12);
+    expect(adminApi.getLevel(mug.variants[0].inventoryItemId, storefront.id)).toBe(5);
+
+    const logs = await prisma.inventoryLog.findMany({ where: { shop: TEST_SHOP } });
+    expect(logs).toHaveLength(2);
+    expect(new Set(logs.map((log) => log.batchId)).size).toBe(1);
+  });
+
+  it("saves nothing from a batch when a level moved after the preview", async () => {
+    const rows = await preview("sku,location,quantity\nTEE-S,Warehouse,12\nMUG,Storefront,5\n");
+    adminApi.setLevel(mug.variants[0].inventoryItemId, storefront.id, 7);
+
+    const result = await apply(rows);
+
+    expect(result).toMatchObject({
+      success: true,
+      applied: 0,
+      failures: [
+        {
+          skus: ["TEE-S", "MUG"],
+          message: "The compareQuantity argument no longer matches the persisted quantity.",
+        },
+      ],
+    });
+    expect(adminApi.getLevel(small.inventoryItemId, warehouse.id)).toBe(10);
+    expect(adminApi.getLevel(mug.variants[0].inventoryItemId, storefront.id)).toBe(7);
+    expect(await prisma.inventoryLog.count()).toBe(0);
+  });
+
+  it("checks posted changes against the store and skips the ones that don't hold", async () => {
+    const [change] = (await preview("sku,location,quantity\nTEE-S,Warehouse,12\n")).map((row) => row.change!);
+
+    const result = await submitForm(action, "/app/inventory/import", {
+      intent: "apply",
+      changes: JSON.stringify([
+        { ...change, productTitle: "Renamed in the browser" },
+        { ...change, variantId: large.id, inventoryItemId: large.inventoryItemId, locationId: storefront.id },
+        { ...change, locationId: storefront.id, oldQty: 4, newQty: -3 },
+        { ...change, variantId: "gid://shopify/ProductVariant/999" },
+      ]),
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      applied: 1,
+      failures: [
+        { skus: ["TEE-L"], message: "TEE-L isn't stocked at Storefront" },
+        { skus: ["TEE-S"], message: "Quantity must be a whole number of zero or more" },
+        { skus: ["TEE-S"], message: "Unknown variant ID gid://shopify/ProductVariant/999" },
+      ],
+    });
+    expect(adminApi.getLevel(small.inventoryItemId, warehouse.id)).toBe(12);
+    expect(adminApi.getLevel(small.inventoryItemId, storefront.id)).toBe(4);
+    expect(await prisma.inventoryLog.findFirst({ where: { shop: TEST_SHOP } })).toMatchObject({
+      productTitle: tee.title,
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { USER_ID } from "@shopify/shopify-api/test-helpers";
+import { describe, expect, it } from "vitest";
+import { action } from "../app/routes/app.inventory";
+import prisma from "../app/db.server";
+import { storefront, tee, warehouse } from "./fixtures/products";
+import { adminApi } from "./harness/admin-api";
+import { submitForm } from "./harness/requests";
+import { TEST_SHOP } from "./harness/session";
+
+const small = tee.variants[0];
+
+// One edited cell as the Bulk Inventory Manager submits it
+const update = (locationId: string, oldQty: number, newQty: number) => ({
+  variantId: small.id,
+  productId: tee.id,
+  inventoryItemId: small.inventoryItemId,
+  locationId,
+  oldQty,
+  newQty,
+  productTitle: tee.title,
+  variantTitle: small.title,
+  sku: small.sku,
+});
+
+const save = (form: { updates: unknown[]; mode?: string; reason?: string }) =>
+  submitForm(action, "/app/inventory", {
+    updates: JSON.stringify(form.updates),
+    mode: form.mode ?? "set",
+    reason: form.reason ?? "correction",
+  });
+
+describe("app.inventory action", () => {
+  it("sets quantities and logs them as one batch", async () => {
+    const result = await save({
+      updates: [update(warehouse.id, 10, 12), update(storefront.id, 4, 0)],
+      reason: "received",
+    });
+
+    expect(result).toMatchObject({ success: true, errors: [], conflicts: [] });
+    expect(adminApi.getLevel(small.inventoryItemId, warehouse.id)).toBe(12);
+    expect(adminApi.getLevel(small.inventoryItemId, storefront.id)).toBe(0);
+
+    const rows = await prisma.inventoryLog.findMany({ where: { shop: TEST_SHOP }, orderBy: { newQty: "desc" } });
+    expect(rows).toHaveLength(2);
+    expect(new Set(rows.map((row) => row.batchId)).size).toBe(1);
+    expect(rows[0]).toMatchObject({
+      variantId: small.id,
+      locationId: warehouse.id,
+      oldQty: 10,
+      newQty: 12,
+      reason: "received",
+      staffUserId: String(USER_ID),
+    });
+  });
+
+  it("reports conflicts and saves nothing when a level moved since the page loaded", async () => {
+    adminApi.setLevel(small.inventoryItemId, warehouse.id, 7);
+
+    const result = await save({ updates: [update(warehouse.id, 10, 12), update(storefront.id, 4, 5)] });
+
+    expect(result.success).toBe(false);
+    expect(result.conflicts).toEqual([expect.objectContaining({ locationId: warehouse.id, oldQty: 10, current: 7 })]);
+    expect(adminApi.getLevel(small.inventoryItemId, warehouse.id)).toBe(7);
+    expect(adminApi.getLevel(small.inventoryItemId, storefront.id)).toBe(4);
+    expect(await prisma.inventoryLog.count()).toBe(0);
+  });
+
+  it("adds adjustments to the current quantity and logs what Shopify ended up with", async () => {
+    adminApi.setLevel(small.inventoryItemId, warehouse.id, 7);
+
+    const result = await save({ updates: [update(warehouse.id, 10, 13)], mode: "adjust", reason: "restock" });
+
+    expect(result.success).toBe(true);
+    expect(adminApi.getLevel(small.inventoryItemId, warehouse.id)).toBe(10);
+
+    const [row] = await prisma.inventoryLog.findMany({ where: { shop: TEST_SHOP } });
+    expect(row).toMatchObject({ oldQty: 7, newQty: 10, reason: "restock" });
+  });
+
+  it("rejects an unknown adjustment reason without calling Shopify", async () => {
+    const result = await save({ updates: [update(warehouse.id, 10, 12)], reason: "lost-at-sea" });
+
+    expect(result).toEqual({ success: false, error: "Unknown adjustment reason lost-at-sea" });
+    expect(adminApi.requests).toHaveLength(0);
+  });
+});
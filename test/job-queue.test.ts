@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import prisma from "../app/db.server";
+import { runJob } from "../app/jobs.server";
+import { claimNextJob, completeJob, enqueueJob, failJob, heartbeatJob, recoverStaleJobs } from "../app/queue.server";
+import { TEST_SHOP } from "./harness/session";
+
+const OTHER_SHOP = "other-shop.myshopify.com";
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+
+describe("job queue", () => {
+  it("enqueues a job once per unique key, and once at a time for singletons", async () => {
+    expect(await enqueueJob(prisma, TEST_SHOP, "inventory-snapshot", {}, { uniqueKey: "snapshot|1" })).toBe(true);
+    expect(await enqueueJob(prisma, TEST_SHOP, "inventory-snapshot", {}, { uniqueKey: "snapshot|1" })).toBe(false);
+
+    expect(await enqueueJob(prisma, TEST_SHOP, "sales-backfill", { days: 90 }, { singleton: true })).toBe(true);
+    expect(await enqueueJob(prisma, TEST_SHOP, "sales-backfill", { days: 30 }, { singleton: true })).toBeNull();
+
+    expect(await prisma.job.count()).toBe(2);
+  });
+
+  it("claims due jobs oldest first, holding back shops at their concurrency limit", async () => {
+    await enqueueJob(prisma, TEST_SHOP, "points-expiry", {}, { runAt: minutesAgo(3) });
+    await enqueueJob(prisma, TEST_SHOP, "reward-expiry", {}, { runAt: minutesAgo(2) });
+    await enqueueJob(prisma, OTHER_SHOP, "points-expiry", {}, { runAt: minutesAgo(1) });
+    await enqueueJob(prisma, TEST_SHOP, "inventory-snapshot", {}, { runAt: new Date(Date.now() + 60 * 60 * 1000) });
+
+    const first = await claimNextJob("worker-1", { perShopConcurrency: 1 });
+    expect(first).toMatchObject({ shop: TEST_SHOP, name: "points-expiry", status: "RUNNING", attempts: 1 });
+    expect(first?.lockedBy).toBe("worker-1");
+
+    // The test shop's second job waits for its first to finish
+    const second = await claimNextJob("worker-2", { perShopConcurrency: 1 });
+    expect(second).toMatchObject({ shop: OTHER_SHOP, name: "points-expiry" });
+
+    // Nothing else is due
+    expect(await claimNextJob("worker-2", { perShopConcurrency: 1 })).toBeNull();
+    expect(await claimNextJob("worker-2", { perShopConcurrency: 2 })).toMatchObject({ name: "reward-expiry" });
+  });
+
+  it("retries a failed job with backoff until it runs out of attempts", async () => {
+    await enqueueJob(prisma, TEST_SHOP, "inventory-snapshot", {}, { maxAttempts: 2, runAt: minutesAgo(1) });
+
+    const first = await claimNextJob("worker-1", { perShopConcurrency: 1 });
+    const failedAt = Date.now();
+    await failJob(first!, new Error("Shopify is down"));
+
+    const retrying = await prisma.job.findUniqueOrThrow({ where: { id: first!.id } });
+    expect(retrying).toMatchObject({ status: "PENDING", lastError: "Shopify is down", lockedBy: null });
+    expect(retrying.runAt.getTime()).toBeGreaterThanOrEqual(failedAt + 30_000);
+
+    // Brought forward rather than waiting out the backoff
+    await prisma.job.update({ where: { id: first!.id }, data: { runAt: minutesAgo(1) } });
+    const second = await claimNextJob("worker-1", { perShopConcurrency: 1 });
+    expect(second).toMatchObject({ id: first!.id, attempts: 2 });
+    await failJob(second!, new Error("Shopify is still down"));
+
+    expect(await prisma.job.findUniqueOrThrow({ where: { id: first!.id } })).toMatchObject({
+      status: "DEAD",
+      lastError: "Shopify is still down",
+    });
+  });
+
+  it("recovers jobs that stopped heartbeating and ignores the outcome of their lost claim", async () => {
+    await enqueueJob(prisma, TEST_SHOP, "inventory-snapshot", {}, { runAt: minutesAgo(30) });
+    const stalled = await claimNextJob("worker-1", { perShopConcurrency: 1 });
+    await enqueueJob(prisma, OTHER_SHOP, "inventory-snapshot", {}, { runAt: minutesAgo(30) });
+    const running = await claimNextJob("worker-2", { perShopConcurrency: 1 });
+    await prisma.job.updateMany({ data: { lockedAt: minutesAgo(20) } });
+
+    // Only worker-2 is still alive to heartbeat
+    expect(await heartbeatJob(running!)).toBe(true);
+    expect(await recoverStaleJobs()).toBe(1);
+
+    await prisma.job.update({ where: { id: stalled!.id }, data: { runAt: minutesAgo(1) } });
+    const reclaimed = await claimNextJob("worker-3", { perShopConcurrency: 1 });
+    expect(reclaimed).toMatchObject({ id: stalled!.id, attempts: 2 });
+
+    // worker-1 finishing late doesn't overwrite worker-3's attempt
+    expect(await completeJob(stalled!, { late: true })).toBe(false);
+    expect(await heartbeatJob(stalled!)).toBe(false);
+    expect(await prisma.job.findUniqueOrThrow({ where: { id: stalled!.id } })).toMatchObject({
+      status: "RUNNING",
+      lockedBy: "worker-3",
+    });
+    expect(await completeJob(reclaimed!, { late: false })).toBe(true);
+    expect(await prisma.job.findUniqueOrThrow({ where: { id: running!.id } })).toMatchObject({ status: "RUNNING" });
+  });
+
+  it("moves jobs without a handler straight to the dead-letter state", async () => {
+    await prisma.job.create({ data: { shop: TEST_SHOP, name: "no-such-job", runAt: minutesAgo(1) } });
+
+    const job = await claimNextJob("worker-1", { perShopConcurrency: 1 });
+    await runJob(job!);
+
+    expect(await prisma.job.findUniqueOrThrow({ where: { id: job!.id } })).toMatchObject({
+      status: "DEAD",
+      attempts: 1,
+      lastError: "No handler for job no-such-job",
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { action as inventoryLevelsUpdate } from "../app/routes/webhooks.inventory_levels.update";
+import { action as lowStockAction } from "../app/routes/app.inventory_.low-stock";
+import prisma from "../app/db.server";
+import { saveInventorySettings } from "../app/models/inventory-settings.server";
+import { countLowStockVariants, saveLowStockThreshold } from "../app/models/low-stock.server";
+import { storefront, tee, warehouse } from "./fixtures/products";
+import { deliverWebhook, submitForm } from "./harness/requests";
+import { TEST_SHOP } from "./harness/session";
+
+const small = tee.variants[0];
+
+const numericId = (gid: string) => Number(gid.split("/").pop());
+
+let updates = 0;
+
+// An inventory_levels/update delivery for the small tee; each gets its own
+// timestamp so none is taken for a retry of an earlier one
+const levelUpdate = (locationId: string, available: number) =>
+  deliverWebhook(inventoryLevelsUpdate, "inventory_levels/update", {
+    inventory_item_id: numericId(small.inventoryItemId),
+    location_id: numericId(locationId),
+    available,
+    updated_at: new Date(Date.UTC(2026, 0, 1, 0, 0, ++updates)).toISOString(),
+  });
+
+const saveThreshold = (locationId: string, threshold: number) =>
+  saveLowStockThreshold(TEST_SHOP, {
+    inventoryItemId: small.inventoryItemId,
+    variantId: small.id,
+    locationId,
+    productTitle: tee.title,
+    variantTitle: small.title,
+    sku: small.sku,
+    threshold,
+  });
+
+describe("low stock alerts", () => {
+  it("resolves the alerts a removed reorder point leaves without one", async () => {
+    const variantWide = await saveThreshold("", 5);
+    await saveThreshold(storefront.id, 3);
+    await levelUpdate(warehouse.id, 2);
+    await levelUpdate(storefront.id, 1);
+    expect(await countLowStockVariants(TEST_SHOP)).toBe(1);
+
+    const result = await submitForm(lowStockAction, "/app/inventory/low-stock", {
+      intent: "deleteThreshold",
+      id: variantWide.id,
+    });
+
+    expect(result).toMatchObject({ success: true });
+    const alerts = await prisma.lowStockAlert.findMany({ where: { shop: TEST_SHOP } });
+    expect(alerts.find((alert) => alert.locationId === warehouse.id)?.resolvedAt).toBeInstanceOf(Date);
+    // The storefront still has a reorder point of its own
+    expect(alerts.find((alert) => alert.locationId === storefront.id)?.resolvedAt).toBeNull();
+  });
+
+  it("resolves a level's alert on its next update once no reorder point applies", async () => {
+    await saveInventorySettings(TEST_SHOP, { defaultLowStockThreshold: 5 });
+    await levelUpdate(warehouse.id, 2);
+    expect(await countLowStockVariants(TEST_SHOP)).toBe(1);
+
+    await saveInventorySettings(TEST_SHOP, { defaultLowStockThreshold: null });
+    const response = await levelUpdate(warehouse.id, 3);
+
+    expect(await response.text()).toBe("Low stock alert resolved; no reorder point set");
+    expect(await prisma.lowStockAlert.findFirst({ where: { shop: TEST_SHOP } })).toMatchObject({
+      resolvedAt: expect.any(Date),
+    });
+    expect(await countLowStockVariants(TEST_SHOP)).toBe(0);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { action as orderCreated } from "../app/routes/webhooks.orders.create";
+import prisma from "../app/db.server";
+import {
+  exportLoyaltyReportCsv,
+  getDailyPoints,
+  getOrderValueByTier,
+  getRedemptionSummary,
+  getRepeatPurchaseRates,
+  parseReportRange,
+} from "../app/models/loyalty-analytics.server";
+import { alice, bob } from "./fixtures/customers";
+import { aliceOrder, guestOrder, orderWebhookPayload } from "./fixtures/orders";
+import { deliverWebhook } from "./harness/requests";
+import { TEST_SHOP } from "./harness/session";
+
+const october = parseReportRange(new URLSearchParams({ from: "2026-10-01", to: "2026-10-07" }));
+
+// Ledger entries with fixed dates; the balance table isn't read by the reports
+const ledger = (entries: Array<{ customerId: string; type: "EARN" | "REDEEM" | "ADJUST"; delta: number; at: string }>) =>
+  prisma.pointsTransaction.createMany({
+    data: entries.map(({ at, ...entry }) => ({ shop: TEST_SHOP, ...entry, createdAt: new Date(at) })),
+  });
+
+describe("loyalty analytics", () => {
+  it("totals points earned and redeemed per day, leaving out adjustments", async () => {
+    await ledger([
+      { customerId: alice.id, type: "EARN", delta: 50, at: "2026-10-01T09:00:00Z" },
+      { customerId: alice.id, type: "EARN", delta: 20, at: "2026-10-02T23:59:00Z" },
+      { customerId: alice.id, type: "REDEEM", delta: -30, at: "2026-10-02T12:00:00Z" },
+      { customerId: bob.id, type: "ADJUST", delta: 100, at: "2026-10-02T12:00:00Z" },
+      { customerId: bob.id, type: "EARN", delta: 5, at: "2026-10-08T00:00:00Z" },
+    ]);
+
+    const days = await getDailyPoints(TEST_SHOP, october);
+    expect(days).toHaveLength(7);
+    expect(days.slice(0, 3)).toEqual([
+      { day: "2026-10-01", earned: 50, redeemed: 0 },
+      { day: "2026-10-02", earned: 20, redeemed: 30 },
+      { day: "2026-10-03", earned: 0, redeemed: 0 },
+    ]);
+
+    expect(await getRedemptionSummary(TEST_SHOP, october)).toMatchObject({
+      pointsEarned: 70,
+      pointsRedeemed: 30,
+      rate: 30 / 70,
+    });
+
+    const csv = await exportLoyaltyReportCsv(TEST_SHOP, "points", october);
+    expect(csv.split("\r\n").slice(0, 3)).toEqual([
+      "Date,Points earned,Points redeemed",
+      "2026-10-01,50,0",
+      "2026-10-02,20,30",
+    ]);
+  });
+
+  it("compares repeat purchases and order value of members and non-members", async () => {
+    const silver = await prisma.membershipTier.create({ data: { shop: TEST_SHOP, name: "Silver", threshold: 5 } });
+    await ledger([{ customerId: alice.id, type: "EARN", delta: 10, at: "2026-09-15T10:00:00Z" }]);
+    await prisma.loyaltyPoints.create({
+      data: { shop: TEST_SHOP, customerId: alice.id, points: 10, tierId: silver.id },
+    });
+
+    const orders = [
+      aliceOrder,
+      { ...aliceOrder, id: "gid://shopify/Order/5003", createdAt: "2026-10-03T11:00:00Z" },
+      { ...aliceOrder, id: "gid://shopify/Order/5004", customerId: bob.id },
+      guestOrder,
+    ];
+    for (const order of orders) {
+      await deliverWebhook(orderCreated, "orders/create", orderWebhookPayload(order));
+    }
+
+    expect(await getRepeatPurchaseRates(TEST_SHOP, october)).toEqual([
+      { member: true, customers: 1, repeatCustomers: 1, rate: 1 },
+      { member: false, customers: 1, repeatCustomers: 0, rate: 0 },
+    ]);
+
+    // Alice's orders come to $72.00 each, Bob's too, and the guest's to $38.50
+    expect(await getOrderValueByTier(TEST_SHOP, october)).toEqual([
+      { tier: "Silver", orders: 2, revenue: 144, averageOrderValue: 72 },
+      { tier: "Non-members", orders: 2, revenue: 110.5, averageOrderValue: 55.25 },
+    ]);
+  });
+
+  it("fills in the details of orders recorded before they were kept", async () => {
+    await prisma.salesOrder.create({
+      data: { shop: TEST_SHOP, id: aliceOrder.id, createdAt: new Date(aliceOrder.createdAt) },
+    });
+    expect(await getOrderValueByTier(TEST_SHOP, october)).toEqual([]);
+
+    // A redelivery records no more units, but completes the order
+    await deliverWebhook(orderCreated, "orders/create", orderWebhookPayload(aliceOrder));
+
+    expect(await prisma.variantDailySales.count()).toBe(0);
+    expect(await prisma.salesOrder.findFirst({ where: { id: aliceOrder.id } })).toMatchObject({
+      customerId: alice.id,
+      totalPrice: 72,
+    });
+    expect(await getOrderValueByTier(TEST_SHOP, october)).toEqual([
+      { tier: "Non-members", orders: 1, revenue: 72, averageOrderValue: 72 },
+    ]);
+  });
+});
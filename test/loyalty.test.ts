@@ -0,0 +1,105 @@
+import { USER_ID } from "@shopify/shopify-api/test-helpers";
+import { describe, expect, it } from "vitest";
+import { action } from "../app/routes/app.loyalty";
+import prisma from "../app/db.server";
+import { recordPointsTransaction } from "../app/models/loyalty.server";
+import { alice } from "./fixtures/customers";
+import { adminApi } from "./harness/admin-api";
+import { submitForm } from "./harness/requests";
+import { TEST_SHOP } from "./harness/session";
+
+const balanceOf = async (customerId: string) =>
+  (await prisma.loyaltyPoints.findUnique({ where: { shop_customerId: { shop: TEST_SHOP, customerId } } }))?.points ??
+  null;
+
+describe("app.loyalty action", () => {
+  it("adds points and records who made the adjustment", async () => {
+    const result = await submitForm(action, "/app/loyalty", {
+      customerId: alice.id,
+      operation: "add",
+      points: "150",
+      reason: "Goodwill",
+    });
+
+    expect(result).toEqual({ success: true, message: "Updated points for Alice Archer to 150" });
+    expect(await balanceOf(alice.id)).toBe(150);
+    expect(await prisma.pointsTransaction.findFirst({ where: { customerId: alice.id } })).toMatchObject({
+      type: "ADJUST",
+      delta: 150,
+      reason: "Goodwill",
+      staffUserId: String(USER_ID),
+    });
+  });
+
+  it("never subtracts below zero", async () => {
+    await recordPointsTransaction(TEST_SHOP, { customerId: alice.id, type: "EARN", delta: 40 });
+
+    const result = await submitForm(action, "/app/loyalty", {
+      customerId: alice.id,
+      operation: "subtract",
+      points: "100",
+    });
+
+    expect(result.success).toBe(true);
+    expect(await balanceOf(alice.id)).toBe(0);
+  });
+
+  it("refuses customers that aren't in this store", async () => {
+    const result = await submitForm(action, "/app/loyalty", {
+      customerId: "gid://shopify/Customer/999999",
+      operation: "add",
+      points: "10",
+    });
+
+    expect(result).toEqual({ success: false, error: "Customer not found in this store" });
+    expect(await prisma.pointsTransaction.count()).toBe(0);
+  });
+
+  it("redeems points for a single-use discount code", async () => {
+    await recordPointsTransaction(TEST_SHOP, { customerId: alice.id, type: "EARN", delta: 600 });
+    const tier = await prisma.rewardTier.create({
+      data: { shop: TEST_SHOP, name: "$5 off", pointsCost: 500, rewardType: "AMOUNT_OFF", amount: 5 },
+    });
+
+    const result = await submitForm(action, "/app/loyalty", {
+      intent: "redeem",
+      customerId: alice.id,
+      tierId: tier.id,
+    });
+
+    expect(result.success).toBe(true);
+    expect(await balanceOf(alice.id)).toBe(100);
+
+    const [discount] = adminApi.discounts;
+    expect(discount).toMatchObject({
+      type: "basic",
+      input: { usageLimit: 1, customerSelection: { customers: { add: [alice.id] } } },
+    });
+    expect(result.message).toBe(`Issued code ${discount.input.code} to Alice Archer`);
+    expect(await prisma.redemption.findFirst({ where: { customerId: alice.id } })).toMatchObject({
+      code: discount.input.code,
+      discountId: discount.id,
+      pointsSpent: 500,
+    });
+  });
+
+  it("doesn't spend points it can't cover", async () => {
+    await recordPointsTransaction(TEST_SHOP, { customerId: alice.id, type: "EARN", delta: 100 });
+    const tier = await prisma.rewardTier.create({
+      data: { shop: TEST_SHOP, name: "Free shipping", pointsCost: 300, rewardType: "FREE_SHIPPING" },
+    });
+
+    const result = await submitForm(action, "/app/loyalty", {
+      intent: "redeem",
+      customerId: alice.id,
+      tierId: tier.id,
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error: "Failed to redeem reward: Not enough points: Free shipping costs 300, balance is 100",
+    });
+    expect(await balanceOf(alice.id)).toBe(100);
+    expect(adminApi.discounts).toHaveLength(0);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import { action as orderCancelled } from "../app/routes/webhooks.orders.cancelled";
+import { action as orderCreated } from "../app/routes/webhooks.orders.create";
+import { action as orderFulfilled } from "../app/routes/webhooks.orders.fulfilled";
+import { action as orderPaid } from "../app/routes/webhooks.orders.paid";
+import prisma from "../app/db.server";
+import { runDueJobs } from "../app/jobs.server";
+import { saveLoyaltySettings } from "../app/models/loyalty-settings.server";
+import { alice } from "./fixtures/customers";
+import { aliceOrder, guestOrder, orderWebhookPayload } from "./fixtures/orders";
+import { mug, tee } from "./fixtures/products";
+import { adminApi } from "./harness/admin-api";
+import { deliverWebhook } from "./harness/requests";
+import { TEST_SHOP } from "./harness/session";
+
+const runQueuedJobs = () => runDueJobs("test-worker", { deadline: Date.now() + 10_000, concurrency: 1 });
+
+const balanceOf = async (customerId: string) =>
+  (await prisma.loyaltyPoints.findUnique({ where: { shop_customerId: { shop: TEST_SHOP, customerId } } }))?.points ??
+  null;
+
+describe("order webhooks", () => {
+  it("rejects deliveries that aren't signed with the app's secret", async () => {
+    const response = await deliverWebhook(orderCreated, "orders/create", orderWebhookPayload(aliceOrder), {
+      secret: "not-the-secret",
+    }).catch((thrown: unknown) => thrown);
+
+    expect(response).toBeInstanceOf(Response);
+    expect((response as Response).status).toBe(401);
+    expect(await prisma.webhookDelivery.count()).toBe(0);
+  });
+
+  it("records sales on orders/create without awarding before the shop's trigger", async () => {
+    const response = await deliverWebhook(orderCreated, "orders/create", orderWebhookPayload(aliceOrder));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("Points are awarded when an order is fulfilled");
+    expect(await balanceOf(alice.id)).toBeNull();
+
+    const sales = await prisma.variantDailySales.findMany({ where: { shop: TEST_SHOP }, orderBy: { quantity: "desc" } });
+    expect(sales.map(({ variantId, locationId, quantity }) => ({ variantId, locationId, quantity }))).toEqual([
+      { variantId: tee.variants[0].id, locationId: "", quantity: 2 },
+      { variantId: mug.variants[0].id, locationId: "", quantity: 1 },
+    ]);
+  });
+
+  it("marks loyalty codes used on orders/create", async () => {
+    const tier = await prisma.rewardTier.create({
+      data: { shop: TEST_SHOP, name: "$5 off", pointsCost: 500, rewardType: "AMOUNT_OFF", amount: 5 },
+    });
+    await prisma.redemption.create({
+      data: { shop: TEST_SHOP, customerId: alice.id, rewardTierId: tier.id, pointsSpent: 500, code: "LOYALTY-ABC" },
+    });
+
+    await deliverWebhook(
+      orderCreated,
+      "orders/create",
+      orderWebhookPayload({ ...aliceOrder, discountCodes: ["LOYALTY-ABC"] }),
+    );
+
+    expect(await prisma.redemption.findFirst({ where: { code: "LOYALTY-ABC" } })).toMatchObject({
+      status: "USED",
+      orderId: aliceOrder.id,
+    });
+  });
+
+  it("awards points once per order on orders/fulfilled", async () => {
+    const payload = orderWebhookPayload({ ...aliceOrder, fulfillmentStatus: "FULFILLED" });
+
+    const first = await deliverWebhook(orderFulfilled, "orders/fulfilled", payload);
+    expect(await first.text()).toBe(`Added 6 points to customer ${alice.id}`);
+
+    // A separate delivery about the same order, not a retry of the first
+    const second = await deliverWebhook(orderFulfilled, "orders/fulfilled", payload);
+    expect(await second.text()).toBe("ORDERS_FULFILLED webhook already processed");
+
+    expect(await balanceOf(alice.id)).toBe(6);
+    expect(await prisma.processedOrder.findMany({ where: { shop: TEST_SHOP } })).toEqual([
+      expect.objectContaining({ id: aliceOrder.id, customerId: alice.id, pointsAwarded: 6 }),
+    ]);
+  });
+
+  it("awards on orders/paid when the shop awards on payment", async () => {
+    await saveLoyaltySettings(TEST_SHOP, { awardTrigger: "ORDER_PAID" });
+    const payload = orderWebhookPayload(aliceOrder);
+
+    const paid = await deliverWebhook(orderPaid, "orders/paid", payload);
+    expect(await paid.text()).toBe(`Added 6 points to customer ${alice.id}`);
+
+    const fulfilled = await deliverWebhook(orderFulfilled, "orders/fulfilled", payload);
+    expect(await fulfilled.text()).toBe("Points are awarded when an order is paid");
+    expect(await balanceOf(alice.id)).toBe(6);
+  });
+
+  it("skips orders without a customer", async () => {
+    const response = await deliverWebhook(orderFulfilled, "orders/fulfilled", orderWebhookPayload(guestOrder));
+
+    expect(await response.text()).toBe("No customer associated with this order");
+    expect(await prisma.pointsTransaction.count()).toBe(0);
+  });
+
+  it("tags the customer in Shopify when an award moves them up a tier", async () => {
+    await prisma.membershipTier.create({ data: { shop: TEST_SHOP, name: "Silver", threshold: 5 } });
+
+    await deliverWebhook(orderFulfilled, "orders/fulfilled", orderWebhookPayload(aliceOrder));
+
+    // Retagging is queued so the Admin API calls happen after the delivery commits
+    expect(adminApi.getCustomer(alice.id)?.tags).toEqual(["newsletter"]);
+    await runQueuedJobs();
+
+    expect(adminApi.getCustomer(alice.id)).toMatchObject({
+      tags: ["newsletter", "loyalty-tier:Silver"],
+      metafields: { "$app:loyalty.tier": "Silver" },
+    });
+  });
+
+  it("drops the tier when a cancellation claws back the points that qualified for it", async () => {
+    await prisma.membershipTier.create({ data: { shop: TEST_SHOP, name: "Silver", threshold: 5 } });
+    const payload = orderWebhookPayload(aliceOrder);
+    await deliverWebhook(orderFulfilled, "orders/fulfilled", payload);
+    await runQueuedJobs();
+
+    await deliverWebhook(orderCancelled, "orders/cancelled", payload);
+    await runQueuedJobs();
+
+    expect(await prisma.loyaltyPoints.findFirst({ where: { customerId: alice.id } })).toMatchObject({
+      tierId: null,
+      tierProgress: 0,
+    });
+    expect(adminApi.getCustomer(alice.id)).toEqual(expect.objectContaining({ tags: ["newsletter"], metafields: {} }));
+    expect(await prisma.job.findMany({ where: { name: "customer-tier-sync" } })).toEqual([
+      expect.objectContaining({ status: "COMPLETED" }),
+      expect.objectContaining({ status: "COMPLETED" }),
+    ]);
+  });
+
+  it("places customers by their last 12 months of spend when the shop tiers on spend", async () => {
+    await saveLoyaltySettings(TEST_SHOP, { tierQualification: "ROLLING_12_MONTH_SPEND" });
+    const silver = await prisma.membershipTier.create({ data: { shop: TEST_SHOP, name: "Silver", threshold: 100 } });
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const lastYear = { ...aliceOrder, id: "gid://shopify/Order/5010", name: "#1010", createdAt: daysAgo(400) };
+    const recent = { ...aliceOrder, createdAt: daysAgo(2) };
+    const latest = { ...aliceOrder, id: "gid://shopify/Order/5011", name: "#1011", createdAt: daysAgo(0) };
+
+    // The year-old order doesn't count, so $72 falls short
+    adminApi.addOrder(lastYear);
+    adminApi.addOrder(recent);
+    await deliverWebhook(orderFulfilled, "orders/fulfilled", orderWebhookPayload(recent));
+    expect(await prisma.loyaltyPoints.findFirst({ where: { customerId: alice.id } })).toMatchObject({
+      tierId: null,
+      tierProgress: 72,
+    });
+
+    adminApi.addOrder(latest);
+    await deliverWebhook(orderFulfilled, "orders/fulfilled", orderWebhookPayload(latest));
+    expect(await prisma.loyaltyPoints.findFirst({ where: { customerId: alice.id } })).toMatchObject({
+      tierId: silver.id,
+      tierProgress: 144,
+    });
+  });
+
+  it("claws back the award on orders/cancelled", async () => {
+    const payload = orderWebhookPayload(aliceOrder);
+    await deliverWebhook(orderFulfilled, "orders/fulfilled", payload);
+
+    const response = await deliverWebhook(orderCancelled, "orders/cancelled", payload);
+
+    expect(await response.text()).toBe(`Clawed back 6 points from customer ${alice.id}`);
+    expect(await balanceOf(alice.id)).toBe(0);
+    expect(await prisma.pointsTransaction.findFirst({ where: { type: "CLAWBACK" } })).toMatchObject({
+      delta: -6,
+      orderId: aliceOrder.id,
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { action } from "../app/routes/app.loyalty";
+import prisma from "../app/db.server";
+import { getPointsActivity, recordPointsTransaction } from "../app/models/loyalty.server";
+import { expireUnusedRedemptions, recoverUnissuedRedemptions } from "../app/models/rewards.server";
+import { unauthenticated } from "../app/shopify.server";
+import { alice } from "./fixtures/customers";
+import { adminApi } from "./harness/admin-api";
+import { submitForm } from "./harness/requests";
+import { TEST_SHOP } from "./harness/session";
+
+const balanceOf = async (customerId: string) =>
+  (await prisma.loyaltyPoints.findUnique({ where: { shop_customerId: { shop: TEST_SHOP, customerId } } }))?.points ??
+  null;
+
+const ledgerOf = async (customerId: string) =>
+  (await prisma.pointsTransaction.findMany({ where: { customerId }, orderBy: { createdAt: "asc" } })).map(
+    ({ type, delta }) => ({ type, delta }),
+  );
+
+async function redeemFiveOff() {
+  const tier = await prisma.rewardTier.create({
+    data: { shop: TEST_SHOP, name: "$5 off", pointsCost: 500, rewardType: "AMOUNT_OFF", amount: 5, expiresAfterDays: 30 },
+  });
+  return submitForm(action, "/app/loyalty", { intent: "redeem", customerId: alice.id, tierId: tier.id });
+}
+
+describe("rewards", () => {
+  it("refunds the points when Shopify won't create the code", async () => {
+    await recordPointsTransaction(TEST_SHOP, { customerId: alice.id, type: "EARN", delta: 600 });
+    adminApi.rejectNext("discountCodeBasicCreate", "Customer selection is invalid");
+
+    const result = await redeemFiveOff();
+
+    expect(result).toEqual({
+      success: false,
+      error: "Failed to redeem reward: Customer selection is invalid",
+    });
+    expect(await balanceOf(alice.id)).toBe(600);
+    expect(await ledgerOf(alice.id)).toEqual([
+      { type: "EARN", delta: 600 },
+      { type: "REDEEM", delta: -500 },
+      { type: "REWARD_REFUND", delta: 500 },
+    ]);
+    expect(await prisma.redemption.count()).toBe(0);
+  });
+
+  it("refunds expired codes that were never used, apart from redemptions", async () => {
+    const since = new Date();
+    await recordPointsTransaction(TEST_SHOP, { customerId: alice.id, type: "EARN", delta: 600 });
+    expect((await redeemFiveOff()).success).toBe(true);
+
+    const { admin } = await unauthenticated.admin(TEST_SHOP);
+    const later = new Date(Date.now() + 31 * 24 * 60 * 60 * 1000);
+    expect(await expireUnusedRedemptions(admin, TEST_SHOP, later)).toEqual({ checked: 1, refunded: 1 });
+
+    expect(await balanceOf(alice.id)).toBe(600);
+    expect(await prisma.redemption.findFirst()).toMatchObject({ status: "EXPIRED" });
+    expect((await ledgerOf(alice.id)).at(-1)).toEqual({ type: "REWARD_REFUND", delta: 500 });
+    expect(await getPointsActivity(TEST_SHOP, since)).toEqual({ issued: 600, redeemed: 500 });
+  });
+
+  it("marks codes used in Shopify as used instead of refunding them", async () => {
+    await recordPointsTransaction(TEST_SHOP, { customerId: alice.id, type: "EARN", delta: 600 });
+    await redeemFiveOff();
+    // The order webhook that would have marked it used was missed
+    adminApi.discounts[0].usageCount = 1;
+
+    const { admin } = await unauthenticated.admin(TEST_SHOP);
+    const later = new Date(Date.now() + 31 * 24 * 60 * 60 * 1000);
+    expect(await expireUnusedRedemptions(admin, TEST_SHOP, later)).toEqual({ checked: 1, refunded: 0 });
+
+    expect(await balanceOf(alice.id)).toBe(100);
+    expect(await prisma.redemption.findFirst()).toMatchObject({ status: "USED" });
+  });
+
+  it("settles redemptions a stopped request left without a discount", async () => {
+    await recordPointsTransaction(TEST_SHOP, { customerId: alice.id, type: "EARN", delta: 1100 });
+    await redeemFiveOff();
+    await redeemFiveOff();
+    const [created] = await prisma.redemption.findMany({ orderBy: { createdAt: "asc" } });
+    // The first code was created but never recorded; the second never reached Shopify
+    await prisma.redemption.updateMany({ data: { discountId: null } });
+    adminApi.discounts.splice(1, 1);
+
+    const { admin } = await unauthenticated.admin(TEST_SHOP);
+    expect(await recoverUnissuedRedemptions(admin, TEST_SHOP)).toEqual({ checked: 0, issued: 0, refunded: 0 });
+
+    const later = new Date(Date.now() + 20 * 60 * 1000);
+    expect(await recoverUnissuedRedemptions(admin, TEST_SHOP, later)).toEqual({ checked: 2, issued: 1, refunded: 1 });
+
+    expect(await prisma.redemption.findMany()).toEqual([
+      expect.objectContaining({ id: created.id, discountId: adminApi.discounts[0].id, status: "ISSUED" }),
+    ]);
+    expect(await balanceOf(alice.id)).toBe(600);
+    expect((await ledgerOf(alice.id)).at(-1)).toEqual({ type: "REWARD_REFUND", delta: 500 });
+  });
+});
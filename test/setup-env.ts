@@ -0,0 +1,4 @@
+import { inject } from "vitest";
+
+// Runs before setup.ts imports anything that creates the Prisma client
+process.env.DATABASE_URL = inject("databaseUrl");
@@ -0,0 +1,22 @@
+import "@shopify/shopify-app-remix/adapters/node";
+import { setAbstractFetchFunc } from "@shopify/shopify-api/runtime";
+import { afterAll, beforeEach } from "vitest";
+import prisma from "../app/db.server";
+import { customers } from "./fixtures/customers";
+import { levels, locations, products } from "./fixtures/products";
+import { adminApi } from "./harness/admin-api";
+import { resetDatabase } from "./harness/database";
+import { seedSession } from "./harness/session";
+
+// Every Admin API call the app makes is answered in process
+setAbstractFetchFunc(adminApi.fetch);
+
+beforeEach(async () => {
+  await resetDatabase();
+  await seedSession();
+  adminApi.reset({ locations, products, levels, customers });
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
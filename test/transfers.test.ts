@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import prisma from "../app/db.server";
+import {
+  createTransfer,
+  moveTransferNow,
+  receiveTransfer,
+  shipTransfer,
+} from "../app/models/transfers.server";
+import { unauthenticated } from "../app/shopify.server";
+import { storefront, tee, warehouse } from "./fixtures/products";
+import { adminApi } from "./harness/admin-api";
+import { TEST_SHOP } from "./harness/session";
+
+const [small, large] = tee.variants;
+
+const line = (variant: typeof small, quantity: number) => ({
+  productId: tee.id,
+  variantId: variant.id,
+  inventoryItemId: variant.inventoryItemId,
+  productTitle: tee.title,
+  variantTitle: variant.title,
+  sku: variant.sku,
+  quantity,
+});
+
+async function draftTransfer(quantities: { small?: number; large?: number }) {
+  const { admin } = await unauthenticated.admin(TEST_SHOP);
+  const transfer = await createTransfer(TEST_SHOP, {
+    fromLocationId: warehouse.id,
+    toLocationId: storefront.id,
+    note: null,
+    lines: [
+      ...(quantities.small ? [line(small, quantities.small)] : []),
+      ...(quantities.large ? [line(large, quantities.large)] : []),
+    ],
+  });
+  return { admin, transfer };
+}
+
+const statusOf = async (id: string) => (await prisma.inventoryTransfer.findUniqueOrThrow({ where: { id } })).status;
+
+describe("inventory transfers", () => {
+  it("takes stock out when shipped and adds it when received", async () => {
+    const { admin, transfer } = await draftTransfer({ small: 3, large: 2 });
+
+    await shipTransfer(admin, TEST_SHOP, transfer.id);
+    expect(await statusOf(transfer.id)).toBe("IN_TRANSIT");
+    expect(adminApi.getLevel(small.inventoryItemId, warehouse.id)).toBe(7);
+    expect(adminApi.getLevel(large.inventoryItemId, warehouse.id)).toBe(4);
+    expect(adminApi.getLevel(small.inventoryItemId, storefront.id)).toBe(4);
+
+    await expect(shipTransfer(admin, TEST_SHOP, transfer.id)).rejects.toThrow(
+      "This transfer has already moved on; reload to see its status",
+    );
+
+    await receiveTransfer(admin, TEST_SHOP, transfer.id);
+    expect(await statusOf(transfer.id)).toBe("RECEIVED");
+    expect(adminApi.getLevel(small.inventoryItemId, storefront.id)).toBe(7);
+    // The large tee wasn't stocked at the storefront, so receiving starts stocking it
+    expect(adminApi.getLevel(large.inventoryItemId, storefront.id)).toBe(2);
+
+    const logs = await prisma.inventoryLog.findMany({ where: { transferId: transfer.id } });
+    expect(logs.map((log) => log.reason).sort()).toEqual([
+      "movement_created",
+      "movement_created",
+      "movement_received",
+      "movement_received",
+    ]);
+  });
+
+  it("stays a draft when the source is short", async () => {
+    const { admin, transfer } = await draftTransfer({ large: 7 });
+
+    await expect(moveTransferNow(admin, TEST_SHOP, transfer.id)).rejects.toThrow(
+      "Not enough stock at the source for TEE-L (6 available, 7 needed)",
+    );
+
+    expect(await prisma.inventoryTransfer.findUniqueOrThrow({ where: { id: transfer.id } })).toMatchObject({
+      status: "DRAFT",
+      shippedAt: null,
+      receivedAt: null,
+    });
+    expect(adminApi.getLevel(large.inventoryItemId, warehouse.id)).toBe(6);
+  });
+
+  it("goes back to its previous status when Shopify rejects the change", async () => {
+    const { admin, transfer } = await draftTransfer({ small: 1 });
+    await shipTransfer(admin, TEST_SHOP, transfer.id);
+    adminApi.rejectNext("inventorySetQuantities", "The location is inactive.");
+
+    await expect(receiveTransfer(admin, TEST_SHOP, transfer.id)).rejects.toThrow("The location is inactive.");
+
+    expect(await prisma.inventoryTransfer.findUniqueOrThrow({ where: { id: transfer.id } })).toMatchObject({
+      status: "IN_TRANSIT",
+      receivedAt: null,
+    });
+    expect(adminApi.getLevel(small.inventoryItemId, storefront.id)).toBe(4);
+    // A retry goes through once Shopify accepts it
+    await receiveTransfer(admin, TEST_SHOP, transfer.id);
+    expect(adminApi.getLevel(small.inventoryItemId, storefront.id)).toBe(5);
+  });
+});
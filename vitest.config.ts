@@ -0,0 +1,20 @@
+import { defineConfig } from "vitest/config";
+
+// Kept apart from vite.config.ts, whose Remix plugin doesn't run under Vitest
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    globalSetup: ["test/global-setup.ts"],
+    setupFiles: ["test/setup-env.ts", "test/setup.ts"],
+    // Test files share one database schema
+    fileParallelism: false,
+    env: {
+      SHOPIFY_API_KEY: "testApiKey",
+      SHOPIFY_API_SECRET: "testApiSecretKey",
+      SHOPIFY_APP_URL: "https://my-test-app.myshopify.io",
+      SCOPES:
+        "read_customers,read_inventory,read_locations,read_orders,write_customers,write_discounts,write_inventory,write_products",
+      JOB_WORKER: "off",
+    },
+  },
+});